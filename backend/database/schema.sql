@@ -122,6 +122,62 @@ CREATE TABLE file_uploads (
     processed_at TIMESTAMP WITH TIME ZONE
 );
 
+-- Geoprocessing jobs: operations that derive a new layer, run in the background
+CREATE TABLE processing_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+    operation VARCHAR(20) NOT NULL CHECK (operation IN ('buffer', 'union', 'dissolve', 'intersection', 'difference', 'clip', 'join',
+        'hull', 'centroid', 'voronoi', 'delaunay', 'simplify')),
+    parameters JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    progress INTEGER DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+    stage VARCHAR(50),
+    result_layer_id UUID REFERENCES layers(id) ON DELETE SET NULL,
+    feature_count INTEGER DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Line layers marked as routable networks. Their features are split into edges
+-- between nodes (line ends and vertices shared by lines) when the network is built;
+-- edge costs are seconds, NULL where a oneway line can't be travelled that way.
+CREATE TABLE routing_networks (
+    layer_id UUID PRIMARY KEY REFERENCES layers(id) ON DELETE CASCADE,
+    owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    cost_field VARCHAR(255),
+    oneway_field VARCHAR(255),
+    default_speed DOUBLE PRECISION NOT NULL DEFAULT 50,
+    tolerance DOUBLE PRECISION NOT NULL DEFAULT 1,
+    node_count INTEGER DEFAULT 0,
+    edge_count INTEGER DEFAULT 0,
+    built_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE network_nodes (
+    layer_id UUID NOT NULL REFERENCES routing_networks(layer_id) ON DELETE CASCADE,
+    id INTEGER NOT NULL,
+    geometry GEOMETRY(POINT, 4326) NOT NULL,
+    PRIMARY KEY (layer_id, id)
+);
+
+CREATE TABLE network_edges (
+    layer_id UUID NOT NULL REFERENCES routing_networks(layer_id) ON DELETE CASCADE,
+    id INTEGER NOT NULL,
+    feature_id UUID REFERENCES features(id) ON DELETE SET NULL,
+    source INTEGER NOT NULL,
+    target INTEGER NOT NULL,
+    length DOUBLE PRECISION NOT NULL,
+    cost DOUBLE PRECISION,
+    reverse_cost DOUBLE PRECISION,
+    geometry GEOMETRY(LINESTRING, 4326) NOT NULL,
+    PRIMARY KEY (layer_id, id)
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_users_username ON users(username);
@@ -139,6 +195,7 @@ CREATE INDEX idx_layers_visible ON layers(visible);
 CREATE INDEX idx_features_layer ON features(layer_id);
 CREATE INDEX idx_features_owner ON features(owner_id);
 CREATE INDEX idx_features_geometry ON features USING GIST(geometry);
+CREATE INDEX idx_features_geography ON features USING GIST((geometry::geography));
 CREATE INDEX idx_features_visible ON features(is_visible);
 CREATE INDEX idx_features_properties ON features USING GIN(properties);
 
@@ -154,6 +211,14 @@ CREATE INDEX idx_file_uploads_user ON file_uploads(user_id);
 CREATE INDEX idx_file_uploads_project ON file_uploads(project_id);
 CREATE INDEX idx_file_uploads_status ON file_uploads(processing_status);
 
+CREATE INDEX idx_processing_jobs_user ON processing_jobs(user_id);
+CREATE INDEX idx_processing_jobs_project ON processing_jobs(project_id);
+CREATE INDEX idx_processing_jobs_status ON processing_jobs(status);
+
+CREATE INDEX idx_network_nodes_geometry ON network_nodes USING GIST(geometry);
+CREATE INDEX idx_network_nodes_geography ON network_nodes USING GIST((geometry::geography));
+CREATE INDEX idx_network_edges_feature ON network_edges(feature_id);
+
 -- Create updated_at triggers for automatic timestamp updates
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -175,6 +240,12 @@ CREATE TRIGGER update_layers_updated_at BEFORE UPDATE ON layers
 CREATE TRIGGER update_features_updated_at BEFORE UPDATE ON features
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_processing_jobs_updated_at BEFORE UPDATE ON processing_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_routing_networks_updated_at BEFORE UPDATE ON routing_networks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Create views for common queries
 CREATE VIEW v_project_stats AS
 SELECT 
@@ -226,6 +297,36 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Property values cast for CQL2 comparisons. A value that looks like a number, date
+-- or timestamp but isn't one (1e400, 2024-02-30) is NULL instead of failing the whole query.
+CREATE OR REPLACE FUNCTION cql2_number(value TEXT) RETURNS DOUBLE PRECISION AS $$
+BEGIN
+    RETURN value::double precision;
+EXCEPTION WHEN data_exception THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION cql2_date(value TEXT) RETURNS DATE AS $$
+BEGIN
+    RETURN value::date;
+EXCEPTION WHEN data_exception THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION cql2_timestamptz(value TEXT) RETURNS TIMESTAMPTZ AS $$
+BEGIN
+    RETURN value::timestamptz;
+EXCEPTION WHEN data_exception THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Ranked search over feature names (weighted highest), descriptions and property
+-- values. Words match as prefixes, so "lond bri" finds "London Bridge"; substring
+-- matches that full-text search misses are still returned, ranked last.
+DROP FUNCTION IF EXISTS search_features(TEXT, UUID);
 CREATE OR REPLACE FUNCTION search_features(
     search_term TEXT,
     project_id_param UUID DEFAULT NULL
@@ -235,18 +336,28 @@ CREATE OR REPLACE FUNCTION search_features(
     name VARCHAR(255),
     description TEXT,
     geometry GEOMETRY,
-    properties JSONB
+    properties JSONB,
+    relevance REAL
 ) AS $$
-BEGIN
-    RETURN QUERY
-    SELECT f.id, f.layer_id, f.name, f.description, f.geometry, f.properties
+    SELECT f.id, f.layer_id, f.name, f.description, f.geometry, f.properties,
+           ts_rank(d.document, q.query) + CASE WHEN lower(f.name) = lower(search_term) THEN 1 ELSE 0 END AS relevance
     FROM features f
     JOIN layers l ON f.layer_id = l.id
+    CROSS JOIN LATERAL (
+        SELECT setweight(to_tsvector('simple', COALESCE(f.name, '')), 'A') ||
+               setweight(to_tsvector('simple', COALESCE(f.description, '')), 'B') ||
+               setweight(jsonb_to_tsvector('simple', f.properties, '["string", "numeric"]'), 'C') AS document
+    ) d
+    CROSS JOIN (
+        SELECT to_tsquery('simple', COALESCE(string_agg(word || ':*', ' & '), '')) AS query
+        FROM regexp_split_to_table(lower(search_term), '[^[:alnum:]_]+') AS word
+        WHERE word <> ''
+    ) q
     WHERE (project_id_param IS NULL OR l.project_id = project_id_param)
     AND (
+        d.document @@ q.query OR
         f.name ILIKE '%' || search_term || '%' OR
         f.description ILIKE '%' || search_term || '%' OR
         f.properties::text ILIKE '%' || search_term || '%'
     );
-END;
-$$ LANGUAGE plpgsql;
\ No newline at end of file
+$$ LANGUAGE sql STABLE;
@@ -1,6 +1,9 @@
 import { Pool, PoolConfig } from 'pg';
 import { DatabaseConfig } from '../types/database.js';
 
+// Anything with pg's query signature: the shared pool or a transaction client
+export type Queryable = { query: (text: string, params?: any[]) => Promise<{ rows: any[]; rowCount: number | null }> };
+
 export class Database {
   private pool: Pool;
   private static instance: Database;
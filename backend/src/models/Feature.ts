@@ -1,19 +1,30 @@
-import { initializeDatabase } from '../database/connection';
+import { initializeDatabase, Queryable } from '../database/connection';
 import {
   Feature,
   CreateFeatureRequest,
   UpdateFeatureRequest,
   FeatureQueryParams,
+  FeatureSearchParams,
+  FeatureSearchResult,
+  FeatureNearestParams,
+  FeatureNearestResult,
   BoundsQueryParams,
 } from '../types/database';
+import { buildFeatureFilter } from '../utils/featureFilter';
 
 // Helper function to get database instance
 const getDatabase = () => {
   return initializeDatabase();
 };
 
+// Candidates ranked per nearest() call: k times the factor, and at least the minimum.
+// They're ranked by sphere distance and then re-sorted by spheroid distance, which
+// differs by well under 1%.
+const NEAREST_CANDIDATE_FACTOR = 4;
+const MIN_NEAREST_CANDIDATES = 32;
+
 export class FeatureModel {
-  static async create(featureData: CreateFeatureRequest, ownerId: string): Promise<Feature> {
+  static async create(featureData: CreateFeatureRequest, ownerId: string, client: Queryable = getDatabase()): Promise<Feature> {
     const query = `
       INSERT INTO features (
         layer_id, owner_id, name, description, geometry, properties, style, is_visible
@@ -35,11 +46,11 @@ export class FeatureModel {
       featureData.is_visible !== undefined ? featureData.is_visible : true,
     ];
     
-    const result = await getDatabase().query(query, values);
+    const result = await client.query(query, values);
     return result.rows[0];
   }
 
-  static async findById(id: string, userId?: string): Promise<Feature | null> {
+  static async findById(id: string, userId?: string, client: Queryable = getDatabase()): Promise<Feature | null> {
     let query = `
       SELECT f.id, f.layer_id, f.owner_id, f.name, f.description, 
              ST_AsGeoJSON(f.geometry)::json as geometry, 
@@ -82,13 +93,13 @@ export class FeatureModel {
       `;
     }
 
-    const result = await getDatabase().query(query, values);
+    const result = await client.query(query, values);
     return result.rows[0] || null;
   }
 
-  static async update(id: string, featureData: UpdateFeatureRequest, userId: string): Promise<Feature | null> {
+  static async update(id: string, featureData: UpdateFeatureRequest, userId: string, client: Queryable = getDatabase()): Promise<Feature | null> {
     // First check if user has permission to update
-    const feature = await this.findById(id, userId);
+    const feature = await this.findById(id, userId, client);
     if (!feature || feature.owner_id !== userId) {
       return null;
     }
@@ -138,25 +149,25 @@ export class FeatureModel {
                 properties, style, is_visible, created_at, updated_at
     `;
 
-    const result = await getDatabase().query(query, values);
+    const result = await client.query(query, values);
     return result.rows[0] || null;
   }
 
-  static async delete(id: string, userId: string): Promise<boolean> {
+  static async delete(id: string, userId: string, client: Queryable = getDatabase()): Promise<boolean> {
     // Check if user is owner
-    const feature = await this.findById(id, userId);
+    const feature = await this.findById(id, userId, client);
     if (!feature || feature.owner_id !== userId) {
       return false;
     }
 
     const query = 'DELETE FROM features WHERE id = $1 AND owner_id = $2';
-    const result = await getDatabase().query(query, [id, userId]);
+    const result = await client.query(query, [id, userId]);
     return (result.rowCount ?? 0) > 0;
   }
 
   static async list(params: FeatureQueryParams, userId?: string): Promise<{ features: Feature[]; total: number }> {
-    const { page = 1, limit = 100, layer_id, bounds, search } = params;
-    const offset = (page - 1) * limit;
+    const { page = 1, limit = 100, layer_id, layer_ids, project_id, bounds, search, filters } = params;
+    const offset = params.offset ?? (page - 1) * limit;
 
     let whereConditions = [];
     let queryParams = [];
@@ -180,6 +191,16 @@ export class FeatureModel {
       queryParams.push(layer_id);
     }
 
+    if (layer_ids) {
+      whereConditions.push(`f.layer_id = ANY($${paramCount++}::uuid[])`);
+      queryParams.push(layer_ids);
+    }
+
+    if (project_id) {
+      whereConditions.push(`l.project_id = $${paramCount++}`);
+      queryParams.push(project_id);
+    }
+
     if (bounds) {
       // Parse bounds as GeoJSON or WKT
       try {
@@ -203,6 +224,13 @@ export class FeatureModel {
       paramCount++;
     }
 
+    if (filters) {
+      const filter = buildFeatureFilter(filters, paramCount);
+      whereConditions.push(...filter.conditions);
+      queryParams.push(...filter.params);
+      paramCount += filter.params.length;
+    }
+
     const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
 
     // Count query
@@ -227,7 +255,7 @@ export class FeatureModel {
       LEFT JOIN projects p ON l.project_id = p.id
       LEFT JOIN users u ON f.owner_id = u.id
       ${whereClause}
-      ORDER BY f.created_at DESC
+      ORDER BY f.created_at DESC, f.id
       LIMIT $${paramCount} OFFSET $${paramCount + 1}
     `;
     
@@ -246,14 +274,71 @@ export class FeatureModel {
     return features;
   }
 
-  static async search(searchTerm: string, layerId?: string, userId?: string): Promise<Feature[]> {
-    const { features } = await this.list({ search: searchTerm, layer_id: layerId }, userId);
-    return features;
-  }
+  // Most relevant first, then newest
+  static async search(params: FeatureSearchParams, userId?: string): Promise<{ features: FeatureSearchResult[]; total: number }> {
+    const { q, page = 1, limit = 20, project_id, layer_ids, filters } = params;
+    const offset = (page - 1) * limit;
 
-  static async bulkCreate(featuresData: CreateFeatureRequest[], ownerId: string): Promise<Feature[]> {
-    if (featuresData.length === 0) return [];
+    let whereConditions = [];
+    let queryParams: any[] = [q, project_id || null];
+    let paramCount = 3;
+
+    // Base access control
+    if (userId) {
+      whereConditions.push(`
+        (f.owner_id = $${paramCount} OR l.is_public = true OR 
+         p.is_public = true OR p.owner_id = $${paramCount} OR l.owner_id = $${paramCount} OR
+         EXISTS (SELECT 1 FROM project_collaborators pc WHERE pc.project_id = p.id AND pc.user_id = $${paramCount}))
+      `);
+      queryParams.push(userId);
+      paramCount++;
+    } else {
+      whereConditions.push('(l.is_public = true OR p.is_public = true)');
+    }
+
+    if (layer_ids) {
+      whereConditions.push(`f.layer_id = ANY($${paramCount++}::uuid[])`);
+      queryParams.push(layer_ids);
+    }
 
+    if (filters) {
+      const filter = buildFeatureFilter(filters, paramCount);
+      whereConditions.push(...filter.conditions);
+      queryParams.push(...filter.params);
+      paramCount += filter.params.length;
+    }
+
+    // search_features finds the hits; the access checks and filters apply to them as
+    // they do in list()
+    const fromClause = `
+      FROM search_features($1, $2) s
+      JOIN features f ON f.id = s.id
+      LEFT JOIN layers l ON f.layer_id = l.id
+      LEFT JOIN projects p ON l.project_id = p.id
+      WHERE ${whereConditions.join(' AND ')}
+    `;
+
+    // Count query
+    const countResult = await getDatabase().query(`SELECT COUNT(*) ${fromClause}`, queryParams);
+    const total = parseInt(countResult.rows[0].count);
+
+    // Data query
+    const dataQuery = `
+      SELECT f.id, f.layer_id, f.owner_id, f.name, f.description, 
+             ST_AsGeoJSON(f.geometry)::json as geometry, 
+             f.properties, f.style, f.is_visible, f.created_at, f.updated_at,
+             l.name as layer_name, s.relevance
+      ${fromClause}
+      ORDER BY s.relevance DESC, f.created_at DESC, f.id
+      LIMIT $${paramCount} OFFSET $${paramCount + 1}
+    `;
+
+    const result = await getDatabase().query(dataQuery, [...queryParams, limit, offset]);
+    return { features: result.rows, total };
+  }
+
+  // Multi-row VALUES list shared by bulkCreate and insertBatch
+  private static bulkInsertValues(featuresData: CreateFeatureRequest[], ownerId: string) {
     const values = [];
     const valueStrings = [];
     let paramCount = 1;
@@ -273,6 +358,87 @@ export class FeatureModel {
       paramCount += 8;
     }
 
+    return { valueStrings, values };
+  }
+
+  // Nearest first by distance on the spheroid. The geography index ranks candidates by
+  // sphere distance, which can differ slightly, so a few more than k are re-sorted.
+  static async nearest(params: FeatureNearestParams, userId?: string): Promise<FeatureNearestResult[]> {
+    const { geometry, k = 5, max_distance, project_id, layer_ids, filters } = params;
+
+    let whereConditions = [];
+    let queryParams: any[] = [JSON.stringify(geometry)];
+    let paramCount = 2;
+
+    // Base access control
+    if (userId) {
+      whereConditions.push(`
+        (f.owner_id = $${paramCount} OR l.is_public = true OR 
+         p.is_public = true OR p.owner_id = $${paramCount} OR l.owner_id = $${paramCount} OR
+         EXISTS (SELECT 1 FROM project_collaborators pc WHERE pc.project_id = p.id AND pc.user_id = $${paramCount}))
+      `);
+      queryParams.push(userId);
+      paramCount++;
+    } else {
+      whereConditions.push('(l.is_public = true OR p.is_public = true)');
+    }
+
+    if (layer_ids) {
+      whereConditions.push(`f.layer_id = ANY($${paramCount++}::uuid[])`);
+      queryParams.push(layer_ids);
+    }
+
+    if (project_id) {
+      whereConditions.push(`l.project_id = $${paramCount++}`);
+      queryParams.push(project_id);
+    }
+
+    if (max_distance !== undefined) {
+      whereConditions.push(`ST_DWithin(f.geometry::geography, q.geometry::geography, $${paramCount++}::double precision)`);
+      queryParams.push(max_distance);
+    }
+
+    if (filters) {
+      const filter = buildFeatureFilter(filters, paramCount);
+      whereConditions.push(...filter.conditions);
+      queryParams.push(...filter.params);
+      paramCount += filter.params.length;
+    }
+
+    const dataQuery = `
+      WITH q AS (SELECT ST_SetSRID(ST_GeomFromGeoJSON($1::text), 4326) AS geometry),
+      candidates AS (
+        SELECT f.id, f.layer_id, f.owner_id, f.name, f.description, f.geometry,
+               f.properties, f.style, f.is_visible, f.created_at, f.updated_at,
+               l.name as layer_name
+        FROM features f
+        CROSS JOIN q
+        LEFT JOIN layers l ON f.layer_id = l.id
+        LEFT JOIN projects p ON l.project_id = p.id
+        WHERE ${whereConditions.join(' AND ')}
+        ORDER BY f.geometry::geography <-> q.geometry::geography
+        LIMIT $${paramCount}
+      )
+      SELECT c.id, c.layer_id, c.owner_id, c.name, c.description,
+             ST_AsGeoJSON(c.geometry)::json as geometry,
+             c.properties, c.style, c.is_visible, c.created_at, c.updated_at,
+             c.layer_name, ST_Distance(c.geometry::geography, q.geometry::geography) as distance
+      FROM candidates c
+      CROSS JOIN q
+      ORDER BY distance, c.id
+      LIMIT $${paramCount + 1}
+    `;
+
+    const candidates = Math.max(k * NEAREST_CANDIDATE_FACTOR, MIN_NEAREST_CANDIDATES);
+    const result = await getDatabase().query(dataQuery, [...queryParams, candidates, k]);
+    return result.rows;
+  }
+
+  static async bulkCreate(featuresData: CreateFeatureRequest[], ownerId: string, client: Queryable = getDatabase()): Promise<Feature[]> {
+    if (featuresData.length === 0) return [];
+
+    const { valueStrings, values } = this.bulkInsertValues(featuresData, ownerId);
+
     const query = `
       INSERT INTO features (
         layer_id, owner_id, name, description, geometry, properties, style, is_visible
@@ -283,10 +449,28 @@ export class FeatureModel {
                 properties, style, is_visible, created_at, updated_at
     `;
 
-    const result = await getDatabase().query(query, values);
+    const result = await client.query(query, values);
     return result.rows;
   }
 
+  // Insert without returning rows, on a given client so large imports can run
+  // inside one transaction
+  static async insertBatch(featuresData: CreateFeatureRequest[], ownerId: string, client: Queryable = getDatabase()): Promise<number> {
+    if (featuresData.length === 0) return 0;
+
+    const { valueStrings, values } = this.bulkInsertValues(featuresData, ownerId);
+
+    const query = `
+      INSERT INTO features (
+        layer_id, owner_id, name, description, geometry, properties, style, is_visible
+      )
+      VALUES ${valueStrings.join(', ')}
+    `;
+
+    const result = await client.query(query, values);
+    return result.rowCount ?? 0;
+  }
+
   static async bulkDelete(ids: string[], userId: string): Promise<number> {
     if (ids.length === 0) return 0;
 
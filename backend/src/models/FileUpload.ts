@@ -0,0 +1,145 @@
+import { initializeDatabase } from '../database/connection';
+import {
+  FileUpload,
+  CreateFileUploadRequest,
+  UpdateFileUploadRequest,
+  FileUploadQueryParams,
+} from '../types/database';
+
+// Helper function to get database instance
+const getDatabase = () => {
+  return initializeDatabase();
+};
+
+export class FileUploadModel {
+  static async create(uploadData: CreateFileUploadRequest, userId: string): Promise<FileUpload> {
+    const query = `
+      INSERT INTO file_uploads (
+        user_id, project_id, layer_id, original_filename, stored_filename, file_type,
+        file_size, mime_type, file_path, processing_status, metadata
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending', $10)
+      RETURNING *
+    `;
+
+    const values = [
+      userId,
+      uploadData.project_id || null,
+      uploadData.layer_id || null,
+      uploadData.original_filename,
+      uploadData.stored_filename,
+      uploadData.file_type,
+      uploadData.file_size,
+      uploadData.mime_type || null,
+      uploadData.file_path,
+      uploadData.metadata || {},
+    ];
+
+    const result = await getDatabase().query(query, values);
+    return result.rows[0];
+  }
+
+  static async findById(id: string, userId?: string): Promise<FileUpload | null> {
+    let query = 'SELECT * FROM file_uploads WHERE id = $1';
+    const values = [id];
+
+    if (userId) {
+      query += ' AND user_id = $2';
+      values.push(userId);
+    }
+
+    const result = await getDatabase().query(query, values);
+    return result.rows[0] || null;
+  }
+
+  // Metadata is merged into the stored JSONB rather than replaced, so progress
+  // updates don't clobber the job options recorded at upload time
+  static async update(id: string, uploadData: UpdateFileUploadRequest): Promise<FileUpload | null> {
+    const fields = [];
+    const values = [];
+    let paramCount = 1;
+
+    if (uploadData.processing_status !== undefined) {
+      fields.push(`processing_status = $${paramCount++}`);
+      values.push(uploadData.processing_status);
+    }
+    if (uploadData.processing_error !== undefined) {
+      fields.push(`processing_error = $${paramCount++}`);
+      values.push(uploadData.processing_error);
+    }
+    if (uploadData.layer_id !== undefined) {
+      fields.push(`layer_id = $${paramCount++}`);
+      values.push(uploadData.layer_id);
+    }
+    if (uploadData.metadata !== undefined) {
+      fields.push(`metadata = COALESCE(metadata, '{}'::jsonb) || $${paramCount++}::jsonb`);
+      values.push(JSON.stringify(uploadData.metadata));
+    }
+    if (uploadData.processed_at !== undefined) {
+      fields.push(`processed_at = $${paramCount++}`);
+      values.push(uploadData.processed_at);
+    }
+
+    if (fields.length === 0) {
+      return await this.findById(id);
+    }
+
+    values.push(id);
+
+    const query = `
+      UPDATE file_uploads
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await getDatabase().query(query, values);
+    return result.rows[0] || null;
+  }
+
+  static async list(params: FileUploadQueryParams, userId?: string): Promise<{ uploads: FileUpload[]; total: number }> {
+    const { page = 1, limit = 20, project_id, processing_status } = params;
+    const offset = (page - 1) * limit;
+
+    let whereConditions = [];
+    let queryParams = [];
+    let paramCount = 1;
+
+    if (userId) {
+      whereConditions.push(`user_id = $${paramCount++}`);
+      queryParams.push(userId);
+    }
+
+    if (project_id) {
+      whereConditions.push(`project_id = $${paramCount++}`);
+      queryParams.push(project_id);
+    }
+
+    if (processing_status) {
+      whereConditions.push(`processing_status = $${paramCount++}`);
+      queryParams.push(processing_status);
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    const countQuery = `SELECT COUNT(*) FROM file_uploads ${whereClause}`;
+    const countResult = await getDatabase().query(countQuery, queryParams);
+    const total = parseInt(countResult.rows[0].count);
+
+    const dataQuery = `
+      SELECT * FROM file_uploads
+      ${whereClause}
+      ORDER BY created_at DESC
+      LIMIT $${paramCount} OFFSET $${paramCount + 1}
+    `;
+
+    const result = await getDatabase().query(dataQuery, [...queryParams, limit, offset]);
+    return { uploads: result.rows, total };
+  }
+
+  static async findByStatus(status: FileUpload['processing_status']): Promise<FileUpload[]> {
+    const query = 'SELECT * FROM file_uploads WHERE processing_status = $1 ORDER BY created_at ASC';
+    const result = await getDatabase().query(query, [status]);
+    return result.rows;
+  }
+}
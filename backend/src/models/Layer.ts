@@ -1,10 +1,11 @@
-import { initializeDatabase } from '../database/connection';
+import { initializeDatabase, Queryable } from '../database/connection';
 import {
   Layer,
   CreateLayerRequest,
   UpdateLayerRequest,
   LayerQueryParams,
   LayerStats,
+  LayerExtent,
 } from '../types/database';
 
 // Helper function to get database instance
@@ -13,7 +14,7 @@ const getDatabase = () => {
 };
 
 export class LayerModel {
-  static async create(layerData: CreateLayerRequest, ownerId: string): Promise<Layer> {
+  static async create(layerData: CreateLayerRequest, ownerId: string, client: Queryable = getDatabase()): Promise<Layer> {
     const query = `
       INSERT INTO layers (
         name, description, project_id, owner_id, type, source_type, source_url, 
@@ -42,7 +43,7 @@ export class LayerModel {
       layerData.is_public !== undefined ? layerData.is_public : false,
     ];
     
-    const result = await getDatabase().query(query, values);
+    const result = await client.query(query, values);
     return result.rows[0];
   }
 
@@ -245,6 +246,30 @@ export class LayerModel {
     return result.rows[0] || null;
   }
 
+  // Keyed by layer id; layers without features are left out
+  static async getExtents(layerIds: string[]): Promise<Record<string, LayerExtent>> {
+    const query = `
+      SELECT layer_id,
+             ST_XMin(ST_Extent(geometry)) AS min_x, ST_YMin(ST_Extent(geometry)) AS min_y,
+             ST_XMax(ST_Extent(geometry)) AS max_x, ST_YMax(ST_Extent(geometry)) AS max_y,
+             MIN(created_at) AS first_created, MAX(created_at) AS last_created
+      FROM features
+      WHERE layer_id = ANY($1::uuid[])
+      GROUP BY layer_id
+    `;
+    const result = await getDatabase().query(query, [layerIds]);
+
+    const extents: Record<string, LayerExtent> = {};
+    for (const row of result.rows) {
+      if (row.min_x === null) continue;
+      extents[row.layer_id] = {
+        bbox: [row.min_x, row.min_y, row.max_x, row.max_y],
+        created: [row.first_created, row.last_created],
+      };
+    }
+    return extents;
+  }
+
   static async updateOrder(layerId: string, newOrder: number, userId: string): Promise<boolean> {
     const layer = await this.findById(layerId, userId);
     if (!layer || layer.owner_id !== userId) {
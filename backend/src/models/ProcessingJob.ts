@@ -0,0 +1,123 @@
+import { initializeDatabase } from '../database/connection';
+import {
+  ProcessingJob,
+  CreateProcessingJobRequest,
+  UpdateProcessingJobRequest,
+  ProcessingJobQueryParams,
+} from '../types/database';
+
+// Helper function to get database instance
+const getDatabase = () => {
+  return initializeDatabase();
+};
+
+export class ProcessingJobModel {
+  static async create(jobData: CreateProcessingJobRequest, userId: string): Promise<ProcessingJob> {
+    const query = `
+      INSERT INTO processing_jobs (user_id, project_id, operation, parameters, status, progress, stage)
+      VALUES ($1, $2, $3, $4, 'pending', 0, 'queued')
+      RETURNING *
+    `;
+
+    const values = [
+      userId,
+      jobData.project_id || null,
+      jobData.operation,
+      jobData.parameters,
+    ];
+
+    const result = await getDatabase().query(query, values);
+    return result.rows[0];
+  }
+
+  static async findById(id: string, userId?: string): Promise<ProcessingJob | null> {
+    let query = 'SELECT * FROM processing_jobs WHERE id = $1';
+    const values = [id];
+
+    if (userId) {
+      query += ' AND user_id = $2';
+      values.push(userId);
+    }
+
+    const result = await getDatabase().query(query, values);
+    return result.rows[0] || null;
+  }
+
+  static async update(id: string, jobData: UpdateProcessingJobRequest): Promise<ProcessingJob | null> {
+    const fields = [];
+    const values = [];
+    let paramCount = 1;
+
+    const columns: Array<keyof UpdateProcessingJobRequest> = [
+      'status', 'progress', 'stage', 'result_layer_id', 'feature_count', 'error', 'completed_at',
+    ];
+    for (const column of columns) {
+      if (jobData[column] !== undefined) {
+        fields.push(`${column} = $${paramCount++}`);
+        values.push(jobData[column]);
+      }
+    }
+
+    if (fields.length === 0) {
+      return await this.findById(id);
+    }
+
+    values.push(id);
+
+    const query = `
+      UPDATE processing_jobs
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await getDatabase().query(query, values);
+    return result.rows[0] || null;
+  }
+
+  static async list(params: ProcessingJobQueryParams, userId?: string): Promise<{ jobs: ProcessingJob[]; total: number }> {
+    const { page = 1, limit = 20, project_id, status } = params;
+    const offset = (page - 1) * limit;
+
+    let whereConditions = [];
+    let queryParams = [];
+    let paramCount = 1;
+
+    if (userId) {
+      whereConditions.push(`user_id = $${paramCount++}`);
+      queryParams.push(userId);
+    }
+
+    if (project_id) {
+      whereConditions.push(`project_id = $${paramCount++}`);
+      queryParams.push(project_id);
+    }
+
+    if (status) {
+      whereConditions.push(`status = $${paramCount++}`);
+      queryParams.push(status);
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    const countQuery = `SELECT COUNT(*) FROM processing_jobs ${whereClause}`;
+    const countResult = await getDatabase().query(countQuery, queryParams);
+    const total = parseInt(countResult.rows[0].count);
+
+    const dataQuery = `
+      SELECT * FROM processing_jobs
+      ${whereClause}
+      ORDER BY created_at DESC
+      LIMIT $${paramCount} OFFSET $${paramCount + 1}
+    `;
+
+    const result = await getDatabase().query(dataQuery, [...queryParams, limit, offset]);
+    return { jobs: result.rows, total };
+  }
+
+  static async findByStatus(status: ProcessingJob['status']): Promise<ProcessingJob[]> {
+    const query = 'SELECT * FROM processing_jobs WHERE status = $1 ORDER BY created_at ASC';
+    const result = await getDatabase().query(query, [status]);
+    return result.rows;
+  }
+}
@@ -12,12 +12,32 @@ const getDatabase = () => {
   return initializeDatabase();
 };
 
+// bounds and default_center are PostGIS geometries, read and written as GeoJSON
+const projectColumns = (alias: string) => `
+  ${alias}.id, ${alias}.name, ${alias}.description, ${alias}.owner_id, ${alias}.is_public,
+  ST_AsGeoJSON(${alias}.bounds)::json as bounds, ${alias}.default_zoom,
+  ST_AsGeoJSON(${alias}.default_center)::json as default_center,
+  ${alias}.settings, ${alias}.created_at, ${alias}.updated_at
+`;
+
+const geometryParam = (geometry: object | null | undefined) => (geometry ? JSON.stringify(geometry) : null);
+
 export class ProjectModel {
+  // Without a default_center, projects with bounds are centred on them
   static async create(projectData: CreateProjectRequest, ownerId: string): Promise<Project> {
     const query = `
-      INSERT INTO projects (name, description, owner_id, is_public, bounds, default_zoom, default_center, settings)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING *
+      INSERT INTO projects AS p (name, description, owner_id, is_public, bounds, default_zoom, default_center, settings)
+      VALUES (
+        $1, $2, $3, $4,
+        ST_SetSRID(ST_GeomFromGeoJSON($5::text), 4326),
+        $6,
+        COALESCE(
+          ST_SetSRID(ST_GeomFromGeoJSON($7::text), 4326),
+          ST_Centroid(ST_SetSRID(ST_GeomFromGeoJSON($5::text), 4326))
+        ),
+        $8
+      )
+      RETURNING ${projectColumns('p')}
     `;
     
     const values = [
@@ -25,9 +45,9 @@ export class ProjectModel {
       projectData.description || null,
       ownerId,
       projectData.is_public || false,
-      projectData.bounds ? JSON.stringify(projectData.bounds) : null,
+      geometryParam(projectData.bounds),
       projectData.default_zoom || 10,
-      projectData.default_center ? JSON.stringify(projectData.default_center) : null,
+      geometryParam(projectData.default_center),
       projectData.settings || {},
     ];
     
@@ -36,13 +56,13 @@ export class ProjectModel {
   }
 
   static async findById(id: string, userId?: string): Promise<Project | null> {
-    let query = 'SELECT * FROM projects WHERE id = $1';
+    let query = `SELECT ${projectColumns('p')} FROM projects p WHERE p.id = $1`;
     const values = [id];
 
     // If userId is provided, check if user has access (owner or collaborator or public)
     if (userId) {
       query = `
-        SELECT p.* FROM projects p
+        SELECT ${projectColumns('p')} FROM projects p
         LEFT JOIN project_collaborators pc ON p.id = pc.project_id AND pc.user_id = $2
         WHERE p.id = $1 
           AND (p.owner_id = $2 OR p.is_public = true OR pc.user_id IS NOT NULL)
@@ -78,16 +98,21 @@ export class ProjectModel {
       values.push(projectData.is_public);
     }
     if (projectData.bounds !== undefined) {
-      fields.push(`bounds = $${paramCount++}`);
-      values.push(projectData.bounds ? JSON.stringify(projectData.bounds) : null);
+      fields.push(`bounds = ST_SetSRID(ST_GeomFromGeoJSON($${paramCount}::text), 4326)`);
+      // New bounds also centre projects that have no default_center yet
+      if (projectData.default_center === undefined) {
+        fields.push(`default_center = COALESCE(default_center, ST_Centroid(ST_SetSRID(ST_GeomFromGeoJSON($${paramCount}::text), 4326)))`);
+      }
+      paramCount++;
+      values.push(geometryParam(projectData.bounds));
     }
     if (projectData.default_zoom !== undefined) {
       fields.push(`default_zoom = $${paramCount++}`);
       values.push(projectData.default_zoom);
     }
     if (projectData.default_center !== undefined) {
-      fields.push(`default_center = $${paramCount++}`);
-      values.push(projectData.default_center ? JSON.stringify(projectData.default_center) : null);
+      fields.push(`default_center = ST_SetSRID(ST_GeomFromGeoJSON($${paramCount++}::text), 4326)`);
+      values.push(geometryParam(projectData.default_center));
     }
     if (projectData.settings !== undefined) {
       fields.push(`settings = $${paramCount++}`);
@@ -102,16 +127,27 @@ export class ProjectModel {
     values.push(id);
 
     const query = `
-      UPDATE projects 
+      UPDATE projects p
       SET ${fields.join(', ')}
       WHERE id = $${paramCount}
-      RETURNING *
+      RETURNING ${projectColumns('p')}
     `;
 
     const result = await getDatabase().query(query, values);
     return result.rows[0] || null;
   }
 
+  // Merges keys into settings rather than replacing the whole object
+  static async mergeSettings(id: string, settings: Record<string, any>): Promise<Project | null> {
+    const result = await getDatabase().query(`
+      UPDATE projects p
+      SET settings = COALESCE(settings, '{}'::jsonb) || $2::jsonb, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING ${projectColumns('p')}
+    `, [id, JSON.stringify(settings)]);
+    return result.rows[0] || null;
+  }
+
   static async delete(id: string, userId: string): Promise<boolean> {
     // Check if user is owner
     const project = await this.findById(id, userId);
@@ -173,7 +209,7 @@ export class ProjectModel {
 
     // Data query
     const dataQuery = `
-      SELECT p.*, u.username as owner_username
+      SELECT ${projectColumns('p')}, u.username as owner_username
       FROM projects p
       LEFT JOIN users u ON p.owner_id = u.id
       ${whereClause}
@@ -215,7 +251,7 @@ export class ProjectModel {
     const total = parseInt(countResult.rows[0].count);
 
     const dataQuery = `
-      SELECT DISTINCT p.*, u.username as owner_username, pc.role as user_role
+      SELECT ${projectColumns('p')}, u.username as owner_username, pc.role as user_role
       FROM projects p
       INNER JOIN project_collaborators pc ON p.id = pc.project_id
       LEFT JOIN users u ON p.owner_id = u.id
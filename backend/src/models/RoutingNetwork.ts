@@ -0,0 +1,84 @@
+import { initializeDatabase, Queryable } from '../database/connection';
+import { RoutingNetwork } from '../types/database';
+
+// Helper function to get database instance
+const getDatabase = () => {
+  return initializeDatabase();
+};
+
+export interface RoutingNetworkConfig {
+  cost_field?: string;
+  oneway_field?: string;
+  default_speed: number;
+  tolerance: number;
+}
+
+export class RoutingNetworkModel {
+  // Marks a layer as routable, or changes its settings; the counts are reset until
+  // the network is built again
+  static async save(layerId: string, config: RoutingNetworkConfig, ownerId: string, client: Queryable = getDatabase()): Promise<RoutingNetwork> {
+    const query = `
+      INSERT INTO routing_networks (layer_id, owner_id, cost_field, oneway_field, default_speed, tolerance)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (layer_id) DO UPDATE SET
+        cost_field = EXCLUDED.cost_field,
+        oneway_field = EXCLUDED.oneway_field,
+        default_speed = EXCLUDED.default_speed,
+        tolerance = EXCLUDED.tolerance,
+        node_count = 0,
+        edge_count = 0,
+        built_at = NULL
+      RETURNING *
+    `;
+
+    const values = [
+      layerId,
+      ownerId,
+      config.cost_field || null,
+      config.oneway_field || null,
+      config.default_speed,
+      config.tolerance,
+    ];
+
+    const result = await client.query(query, values);
+    return result.rows[0];
+  }
+
+  static async markBuilt(layerId: string, nodeCount: number, edgeCount: number, client: Queryable = getDatabase()): Promise<RoutingNetwork> {
+    const query = `
+      UPDATE routing_networks
+      SET node_count = $2, edge_count = $3, built_at = CURRENT_TIMESTAMP
+      WHERE layer_id = $1
+      RETURNING *
+    `;
+
+    const result = await client.query(query, [layerId, nodeCount, edgeCount]);
+    return result.rows[0];
+  }
+
+  static async findByLayerId(layerId: string, client: Queryable = getDatabase()): Promise<RoutingNetwork | null> {
+    const result = await client.query('SELECT * FROM routing_networks WHERE layer_id = $1', [layerId]);
+    return result.rows[0] || null;
+  }
+
+  // Networks on layers the user can see, with the layer name
+  static async list(userId: string): Promise<Array<RoutingNetwork & { layer_name: string }>> {
+    const query = `
+      SELECT DISTINCT n.*, l.name AS layer_name FROM routing_networks n
+      JOIN layers l ON l.id = n.layer_id
+      LEFT JOIN projects p ON l.project_id = p.id
+      LEFT JOIN project_collaborators pc ON p.id = pc.project_id AND pc.user_id = $1
+      WHERE l.owner_id = $1 OR l.is_public = true OR p.is_public = true OR p.owner_id = $1 OR pc.user_id IS NOT NULL
+      ORDER BY l.name
+    `;
+
+    const result = await getDatabase().query(query, [userId]);
+    return result.rows;
+  }
+
+  // Nodes and edges go with the network
+  static async delete(layerId: string): Promise<boolean> {
+    const result = await getDatabase().query('DELETE FROM routing_networks WHERE layer_id = $1', [layerId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -52,6 +52,26 @@ export class UserModel {
     return result.rows[0] || null;
   }
 
+  // Until the routes are behind authentication, data is owned by a default admin user
+  // (created on first use in development)
+  static async getDefaultOwnerId(): Promise<string> {
+    const existing = await getDatabase().query('SELECT id FROM users WHERE username = $1', ['admin']);
+    if (existing.rows.length > 0) {
+      return existing.rows[0].id;
+    }
+
+    const query = `
+      INSERT INTO users (username, email, password_hash, first_name, last_name, role, email_verified)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+    `;
+    const result = await getDatabase().query(query, [
+      'admin', 'admin@mapvue.local', '$2b$10$rOzJJe1qMJ1pVr8qX1nLgOqO9XZvFZrH8KvGwJ5HZJ1X5V7J5V7J5V', 'Admin', 'User', 'admin', true,
+    ]);
+    console.log('Created default admin user');
+    return result.rows[0].id;
+  }
+
   static async update(id: string, userData: UpdateUserRequest): Promise<User | null> {
     const fields = [];
     const values = [];
@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { UserModel } from '../models/User';
+import { ProcessingJobModel } from '../models/ProcessingJob';
+import { GeoprocessingOperation, ProcessingJob } from '../types/database';
+import { GEOPROCESSING_OPERATIONS, parseGeoprocessingRequest } from '../utils/geoprocessing';
+import { enqueueGeoprocessingJob } from '../utils/geoprocessingJobs';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Shape a processing_jobs row for job responses
+const formatJob = (job: ProcessingJob) => ({
+  id: job.id,
+  operation: job.operation,
+  status: job.status,
+  progress: job.progress,
+  stage: job.stage,
+  projectId: job.project_id,
+  layerId: job.result_layer_id,
+  featureCount: job.feature_count,
+  parameters: job.parameters,
+  error: job.error || null,
+  createdAt: job.created_at,
+  completedAt: job.completed_at
+});
+
+// List geoprocessing jobs
+router.get('/jobs', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { projectId, status } = req.query;
+    const page = req.query.page ? parseInt(String(req.query.page), 10) : 1;
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : 20;
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+      res.status(400).json({ error: 'page must be 1 or more and limit from 1 to 100' });
+      return;
+    }
+    if (projectId !== undefined && !UUID.test(String(projectId))) {
+      res.status(400).json({ error: 'projectId must be a project id' });
+      return;
+    }
+    const userId = await UserModel.getDefaultOwnerId();
+
+    const { jobs, total } = await ProcessingJobModel.list({
+      project_id: typeof projectId === 'string' ? projectId : undefined,
+      status: typeof status === 'string' ? status as ProcessingJob['status'] : undefined,
+      page,
+      limit,
+    }, userId);
+
+    res.json({ jobs: jobs.map(formatJob), total });
+  } catch (error) {
+    console.error('Geoprocessing job list error:', error);
+    res.status(500).json({ error: 'Failed to fetch geoprocessing jobs' });
+  }
+});
+
+// Get geoprocessing job status, progress and result layer
+router.get('/jobs/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = await UserModel.getDefaultOwnerId();
+    const job = UUID.test(req.params.id) ? await ProcessingJobModel.findById(req.params.id, userId) : null;
+
+    if (!job) {
+      res.status(404).json({ error: 'Geoprocessing job not found' });
+      return;
+    }
+
+    res.json({ job: formatJob(job) });
+  } catch (error) {
+    console.error('Geoprocessing job status error:', error);
+    res.status(500).json({ error: 'Failed to fetch geoprocessing job' });
+  }
+});
+
+// Start an overlay, join or geometry job (GEOPROCESSING_OPERATIONS). The
+// parameters are checked up front; the result layer is written in the background
+// and progress is reported on the job and over Socket.io.
+router.post('/:operation', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const operation = req.params.operation as GeoprocessingOperation;
+    if (!GEOPROCESSING_OPERATIONS.includes(operation)) {
+      res.status(404).json({ error: `Unknown operation. Supported operations: ${GEOPROCESSING_OPERATIONS.join(', ')}` });
+      return;
+    }
+
+    const userId = await UserModel.getDefaultOwnerId();
+    const { parameters, projectId } = await parseGeoprocessingRequest(operation, req.body, userId);
+
+    const job = await ProcessingJobModel.create({ project_id: projectId, operation, parameters }, userId);
+    enqueueGeoprocessingJob(job.id);
+
+    res.status(202).json({
+      message: `${operation} queued`,
+      job: formatJob(job),
+      statusUrl: `/api/geoprocessing/jobs/${job.id}`
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    if (error instanceof NotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    console.error('Geoprocessing error:', error);
+    res.status(500).json({ error: 'Failed to start geoprocessing job' });
+  }
+});
+
+export default router;
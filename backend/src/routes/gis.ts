@@ -1,5 +1,21 @@
 import { upload } from '../utils/upload';
-// import { parseKML, parseGPX } from '../utils/gisImport'; // To be implemented
+import { parseKML, parseGPX, saveFeatureCollection, saveGPXCollections, GPXCollections } from '../utils/gisImport';
+import { FieldMapping, parseFieldMapping } from '../utils/fieldMapping';
+import { GeometryPolicy, GeometryValidationError, checkGeometryStructure, parseGeometryPolicy, validateGeometry } from '../utils/geometryValidation';
+import { SPATIAL_OPERATIONS, parseBBox, buildFeatureFilter } from '../utils/featureFilter';
+import { parseCQL2, parseCQL2Query } from '../utils/cql2';
+import { STORAGE_SRID, parseSRID, getCRS, resolveCRS, reprojectFromSRID, wgs84Reprojector } from '../utils/projection';
+import { boundsBox, parseProjectRequest } from '../utils/projects';
+import { Feature, GeoJSONFeatureCollection, Project, ProjectStats } from '../types/database';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { UserModel } from '../models/User';
+import { LayerModel } from '../models/Layer';
+import { FeatureModel } from '../models/Feature';
+import { ProjectModel } from '../models/Project';
+import { aggregateLayer, parseGridAggregationOptions } from '../utils/gridAggregation';
+import { TILE_CONTENT_TYPE, parseTileCoordinates, parseTileOptions, renderLayerTile, renderProjectTile } from '../utils/vectorTiles';
+import { RasterInfo, formatRasterInfo, removeRasterFile } from '../utils/rasters';
+import { RASTER_TILE_CONTENT_TYPE, parseRasterStyle, renderRasterTile } from '../utils/rasterTiles';
 import { Router, Request, Response, NextFunction } from 'express';
 import { initializeDatabase } from '../database/connection';
 
@@ -20,6 +36,92 @@ const query = async (text: string, params?: any[]) => {
   return await db.query(text, params);
 };
 
+// Shape a layer row the way the layer endpoints return it
+const formatLayer = (layer: any) => ({
+  id: layer.id,
+  name: layer.name,
+  description: layer.description,
+  type: layer.type,
+  styleConfig: layer.style_config,
+  visible: layer.visible,
+  opacity: typeof layer.opacity === 'number' ? layer.opacity : Number(layer.opacity),
+  createdAt: layer.created_at,
+  updatedAt: layer.updated_at,
+  projectId: layer.project_id
+});
+
+// Shape a project row for the project endpoints; bounds as a [minLon, minLat, maxLon, maxLat]
+// box and the default centre as [lon, lat]
+const formatProject = (project: Project) => ({
+  id: project.id,
+  name: project.name,
+  description: project.description,
+  ownerId: project.owner_id,
+  isPublic: project.is_public,
+  bounds: boundsBox(project.bounds),
+  defaultZoom: project.default_zoom,
+  defaultCenter: project.default_center?.coordinates,
+  settings: project.settings,
+  createdAt: project.created_at,
+  updatedAt: project.updated_at
+});
+
+// v_project_stats counts come back from pg as strings
+const formatProjectStats = (stats: ProjectStats | null) => ({
+  layerCount: Number(stats?.layer_count ?? 0),
+  featureCount: Number(stats?.feature_count ?? 0),
+  collaboratorCount: Number(stats?.collaborator_count ?? 0)
+});
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Enough for any project; a project's layers aren't paged
+const MAX_PROJECT_LAYERS = 1000;
+
+// Spatial query limits: a page of results, and the largest buffer in metres
+const MAX_QUERY_FEATURES = 1000;
+const MAX_QUERY_BUFFER = 100000;
+
+// Nearest-neighbour limits: features returned and the largest search radius in metres
+const MAX_NEAREST_FEATURES = 100;
+const MAX_NEAREST_DISTANCE = 1000000;
+
+// Shape a feature row as a GeoJSON Feature
+const formatFeature = (feature: Feature) => ({
+  type: 'Feature',
+  id: feature.id,
+  properties: {
+    ...(feature.name ? { name: feature.name } : {}),
+    ...(feature.description ? { description: feature.description } : {}),
+    ...feature.properties,
+    createdAt: feature.created_at,
+    updatedAt: feature.updated_at
+  },
+  geometry: feature.geometry
+});
+
+// Tiles are revalidated against their ETag since features can be edited at any time.
+// Empty tiles, and tiles outside a layer's zoom range, are 204 No Content.
+const sendTile = (res: Response, tile: Buffer | null, contentType = TILE_CONTENT_TYPE) => {
+  res.setHeader('Cache-Control', 'no-cache');
+  if (!tile) {
+    res.status(204).end();
+    return;
+  }
+  res.setHeader('Content-Type', contentType);
+  res.send(tile);
+};
+
+// geometryPolicy from the body or query string; sends a 400 and returns null when unknown
+const readGeometryPolicy = (req: Request, res: Response): GeometryPolicy | null => {
+  try {
+    return parseGeometryPolicy(req.body?.geometryPolicy ?? req.query.geometryPolicy);
+  } catch (policyError) {
+    res.status(400).json({ error: policyError instanceof Error ? policyError.message : 'Invalid geometryPolicy' });
+    return null;
+  }
+};
+
 // Get all GIS layers
 router.get('/layers', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   console.log('[GET /layers] start');
@@ -69,22 +171,10 @@ router.post('/layers', asyncHandler(async (req: Request, res: Response): Promise
   console.log('[POST /layers] start');
   const { name, description, type, styleConfig, projectId } = req.body;
   
-  // Get the admin user ID (for development, create a default user if none exists)
-  let userResult = await query('SELECT id FROM users WHERE username = $1', ['admin']);
-  let ownerId;
-  
-  if (userResult.rows.length === 0) {
-    // Create a default admin user for development if none exists
-    const createUserResult = await query(`
-      INSERT INTO users (username, email, password_hash, first_name, last_name, role, email_verified)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-      RETURNING id
-    `, ['admin', 'admin@mapvue.local', '$2b$10$rOzJJe1qMJ1pVr8qX1nLgOqO9XZvFZrH8KvGwJ5HZJ1X5V7J5V7J5V', 'Admin', 'User', 'admin', true]);
-    
-    ownerId = createUserResult.rows[0].id;
-    console.log('[POST /layers] Created default admin user');
-  } else {
-    ownerId = userResult.rows[0].id;
+  const ownerId = await UserModel.getDefaultOwnerId();
+  if (projectId && !(UUID.test(projectId) && await ProjectModel.findById(projectId, ownerId))) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
   }
   
   const result = await query(`
@@ -160,10 +250,19 @@ router.get('/layers/:id', asyncHandler(async (req: Request, res: Response): Prom
 }));
 
 // Update layer
+// `projectId` moves the layer into a project; null takes it out of its project
 router.put('/layers/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, type, styleConfig, visible, opacity } = req.body;
+    const { name, type, styleConfig, visible, opacity, projectId } = req.body;
+
+    if (projectId) {
+      const ownerId = await UserModel.getDefaultOwnerId();
+      if (!(UUID.test(projectId) && await ProjectModel.findById(projectId, ownerId))) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+      }
+    }
 
     const result = await query(`
       UPDATE layers 
@@ -173,10 +272,11 @@ router.put('/layers/:id', asyncHandler(async (req: Request, res: Response): Prom
         style_config = COALESCE($3, style_config),
         visible = COALESCE($4, visible),
         opacity = COALESCE($5, opacity),
+        project_id = CASE WHEN $7::boolean THEN $8::uuid ELSE project_id END,
         updated_at = NOW()
       WHERE id = $6
       RETURNING id, name, type, style_config, visible, opacity, created_at, updated_at, project_id
-    `, [name, type, styleConfig, visible, opacity, id]);
+    `, [name, type, styleConfig, visible, opacity, id, projectId !== undefined, projectId || null]);
 
     if (result.rows.length === 0) {
       res.status(404).json({ error: 'Layer not found' });
@@ -214,12 +314,13 @@ router.delete('/layers/:id', asyncHandler(async (req: Request, res: Response): P
     await query('DELETE FROM features WHERE layer_id = $1', [id]);
 
     // Then delete the layer
-    const result = await query('DELETE FROM layers WHERE id = $1 RETURNING id', [id]);
+    const result = await query('DELETE FROM layers WHERE id = $1 RETURNING id, type, source_config', [id]);
 
     if (result.rows.length === 0) {
       res.status(404).json({ error: 'Layer not found' });
       return;
     }
+    await removeRasterFile(result.rows[0]);
     res.json({ success: true });
     return;
   } catch (error) {
@@ -230,39 +331,41 @@ router.delete('/layers/:id', asyncHandler(async (req: Request, res: Response): P
 }));
 
 // Get features for a layer
+// Geometries are returned in `srs` (an EPSG code, default 4326); `bbox` is read in
+// `bboxSrs`, which defaults to `srs`. `filter` is CQL2-text or CQL2-JSON (`filter-lang`),
+// with geometry literals in `filter-crs` (default 4326).
 router.get('/layers/:id/features', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { bbox } = req.query;
-    
-    let sqlQuery = `
-      SELECT 
-        id,
-        properties,
-        ST_AsGeoJSON(geometry) as geometry,
-        created_at,
-        updated_at
-      FROM features 
-      WHERE layer_id = $1
-    `;
     
-    const params = [id];
-    
-    // Add spatial filtering if bbox is provided
-    if (bbox && typeof bbox === 'string') {
-      const bboxValues = bbox.split(',').map(Number);
-      if (bboxValues.length === 4) {
-        sqlQuery += ` AND ST_Intersects(
-          geometry, 
-          ST_MakeEnvelope($2, $3, $4, $5, 4326)
-        )`;
-        params.push(...bboxValues.map(String));
-      }
+    const srid = (await resolveCRS(req.query.srs)).srid;
+    const bboxSrid = req.query.bboxSrs ? (await getCRS(parseSRID(req.query.bboxSrs))).srid : srid;
+    let bbox;
+    try {
+      bbox = parseBBox(req.query.bbox);
+    } catch (bboxError) {
+      res.status(400).json({ error: bboxError instanceof Error ? bboxError.message : 'Invalid bbox' });
+      return;
     }
     
-    sqlQuery += ' ORDER BY created_at DESC';
+    const { cql, cqlSrid } = parseCQL2Query(req.query);
+    if (cqlSrid) await getCRS(cqlSrid);
     
-    const result = await query(sqlQuery, params);
+    const { conditions, params } = buildFeatureFilter({ bbox, bboxSrid, cql, cqlSrid }, 2);
+    if (srid !== STORAGE_SRID) params.push(srid);
+    const sqlQuery = `
+      SELECT 
+        f.id,
+        f.properties,
+        ST_AsGeoJSON(${srid === STORAGE_SRID ? 'f.geometry' : `ST_Transform(f.geometry, $${params.length + 1})`}) as geometry,
+        f.created_at,
+        f.updated_at
+      FROM features f
+      WHERE ${['f.layer_id = $1', ...conditions].join(' AND ')}
+      ORDER BY f.created_at DESC
+    `;
+    
+    const result = await query(sqlQuery, [id, ...params]);
     
     const features = result.rows.map(row => ({
       type: 'Feature',
@@ -281,88 +384,234 @@ router.get('/layers/:id/features', asyncHandler(async (req: Request, res: Respon
     });
     return;
   } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error('Error fetching features:', error);
     res.status(500).json({ error: 'Failed to fetch features' });
     return;
   }
 }));
 
+// A layer binned into hexagons (`grid=hex`, the default) or squares (`grid=square`)
+// of `size` Web Mercator metres, or sized for `zoom`. Cells carry the feature `count`
+// and a `value`: the count, or the `sum`/`avg` (`statistic`) of the numeric `field`.
+// `bbox` (WGS84) limits the cells to a view, and a CQL2 `filter` the features.
+router.get('/layers/:id/aggregate', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const options = parseGridAggregationOptions(req.query);
+    if (options.cqlSrid) await getCRS(options.cqlSrid);
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const layer = UUID.test(req.params.id) ? await LayerModel.findById(req.params.id, ownerId) : null;
+    if (!layer || layer.type !== 'vector') {
+      res.status(404).json({ error: 'Layer not found' });
+      return;
+    }
+    
+    res.json(await aggregateLayer(layer.id, options));
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error aggregating layer:', error);
+    res.status(500).json({ error: 'Failed to aggregate layer' });
+    return;
+  }
+}));
+
+// Vector tile for one layer
+// `fields` (comma-separated) picks the properties to include, `simplify` sets the
+// simplification tolerance in tile pixels (default 1, 0 for none) and a CQL2 `filter`
+// limits the features
+router.get('/layers/:id/tiles/:z/:x/:y.mvt', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, z, x, y } = req.params;
+    const tile = parseTileCoordinates(z, x, y);
+    const options = parseTileOptions(req.query);
+    if (options.cqlSrid) await getCRS(options.cqlSrid);
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const layer = UUID.test(id) ? await LayerModel.findById(id, ownerId) : null;
+    if (!layer) {
+      res.status(404).json({ error: 'Layer not found' });
+      return;
+    }
+    
+    sendTile(res, await renderLayerTile(layer, tile, options));
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error rendering layer tile:', error);
+    res.status(500).json({ error: 'Failed to render tile' });
+    return;
+  }
+}));
+
+// A raster layer's size, bands, CRS, extent, nodata and band value ranges
+router.get('/layers/:id/raster', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const layer = UUID.test(req.params.id) ? await LayerModel.findById(req.params.id, ownerId) : null;
+    if (!layer || layer.type !== 'raster' || !layer.source_config?.file) {
+      res.status(404).json({ error: 'Raster layer not found' });
+      return;
+    }
+    
+    res.json({ raster: formatRasterInfo(layer.source_config as RasterInfo) });
+    return;
+  } catch (error) {
+    console.error('Error fetching raster:', error);
+    res.status(500).json({ error: 'Failed to fetch raster' });
+    return;
+  }
+}));
+
+// PNG tile of a raster layer, coloured by its styleConfig
+// `ramp`, `band`, `min`, `max` and `nodata` override the style for one request, and
+// `opacity` (0-1) fades the tile itself
+router.get('/layers/:id/raster/:z/:x/:y.png', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, z, x, y } = req.params;
+    const tile = parseTileCoordinates(z, x, y);
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const layer = UUID.test(id) ? await LayerModel.findById(id, ownerId) : null;
+    if (!layer || layer.type !== 'raster' || !layer.source_config?.file) {
+      res.status(404).json({ error: 'Raster layer not found' });
+      return;
+    }
+    
+    const style = parseRasterStyle(req.query, layer);
+    sendTile(res, await renderRasterTile(layer, tile, style), RASTER_TILE_CONTENT_TYPE);
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error rendering raster tile:', error);
+    res.status(500).json({ error: 'Failed to render tile' });
+    return;
+  }
+}));
+
 // Add feature to layer
+// The geometry is checked against `geometryPolicy` (body or query string):
+// reject (default) refuses invalid geometries, repair runs ST_MakeValid on them,
+// accept stores them as given. Repairs are reported in `validation`.
 router.post('/layers/:id/features', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { type, properties, geometry } = req.body;
+    const { name, description, properties, geometry, style } = req.body;
     
     if (!geometry || !geometry.type) {
       res.status(400).json({ error: 'Invalid geometry' });
       return;
     }
     
-    const result = await query(`
-      INSERT INTO features (layer_id, properties, geometry, created_at, updated_at)
-      VALUES ($1, $2, ST_GeomFromGeoJSON($3), NOW(), NOW())
-      RETURNING id, properties, ST_AsGeoJSON(geometry) as geometry, created_at, updated_at
-    `, [id, properties || {}, JSON.stringify(geometry)]);
+    const policy = readGeometryPolicy(req, res);
+    if (!policy) return;
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const layer = await LayerModel.findById(id, ownerId);
+    if (!layer) {
+      res.status(404).json({ error: 'Layer not found' });
+      return;
+    }
     
-    const feature = result.rows[0];
+    const check = await validateGeometry(geometry, policy);
+    const feature = await FeatureModel.create({
+      layer_id: id,
+      name,
+      description,
+      geometry: check.geometry!,
+      properties: properties || {},
+      style,
+    }, ownerId);
     
     res.status(201).json({
-      type: 'Feature',
-      id: feature.id,
-      properties: {
-        ...feature.properties,
-        createdAt: feature.created_at,
-        updatedAt: feature.updated_at
-      },
-      geometry: JSON.parse(feature.geometry)
+      ...formatFeature(feature),
+      ...(check.issue ? { validation: check.issue } : {})
     });
     return;
   } catch (error) {
+    if (error instanceof GeometryValidationError) {
+      res.status(400).json({ error: error.message, issues: error.issues });
+      return;
+    }
     console.error('Error adding feature:', error);
     res.status(500).json({ error: 'Failed to add feature' });
     return;
   }
 }));
 
-// Update feature
+// Get a single feature with its full geometry, e.g. to identify a vector tile feature
+router.get('/features/:featureId', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const feature = await FeatureModel.findById(req.params.featureId, ownerId);
+    if (!feature) {
+      res.status(404).json({ error: 'Feature not found' });
+      return;
+    }
+    
+    res.json({ ...formatFeature(feature), layerId: feature.layer_id });
+    return;
+  } catch (error) {
+    console.error('Error fetching feature:', error);
+    res.status(500).json({ error: 'Failed to fetch feature' });
+    return;
+  }
+}));
+
+// Update feature; a new geometry goes through the same policy as POST
 router.put('/features/:featureId', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-    const { type, properties, geometry } = req.body;
+    const { featureId } = req.params;
+    const { name, description, properties, geometry, style, isVisible } = req.body;
 
-    if (!geometry || !geometry.type) {
+    if (geometry !== undefined && (!geometry || !geometry.type)) {
       res.status(400).json({ error: 'Invalid geometry' });
       return;
     }
 
-    // Get the admin user ID (for now, we'll use the default admin user)
-    const userResult = await query('SELECT id FROM users WHERE username = $1', ['admin']);
-    if (userResult.rows.length === 0) {
-      res.status(500).json({ error: 'Default admin user not found' });
-      return;
-    }
-    const ownerId = userResult.rows[0].id;
+    const policy = readGeometryPolicy(req, res);
+    if (!policy) return;
 
-    const result = await query(`
-      INSERT INTO features (layer_id, properties, geometry, owner_id, created_at, updated_at)
-      VALUES ($1, $2, ST_GeomFromGeoJSON($3), $4, NOW(), NOW())
-      RETURNING id, properties, ST_AsGeoJSON(geometry) as geometry, created_at, updated_at
-    `, [id, properties || {}, JSON.stringify(geometry), ownerId]);
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const check = geometry ? await validateGeometry(geometry, policy) : undefined;
 
-    const feature = result.rows[0];
+    const feature = await FeatureModel.update(featureId, {
+      name,
+      description,
+      properties,
+      style,
+      is_visible: isVisible,
+      geometry: check?.geometry ?? undefined,
+    }, ownerId);
 
-    res.status(201).json({
-      type: 'Feature',
-      id: feature.id,
-      properties: {
-        ...feature.properties
-      },
-      geometry: JSON.parse(feature.geometry),
-      createdAt: feature.created_at,
-      updatedAt: feature.updated_at
+    if (!feature) {
+      res.status(404).json({ error: 'Feature not found' });
+      return;
+    }
+
+    res.json({
+      ...formatFeature(feature),
+      ...(check?.issue ? { validation: check.issue } : {})
     });
     return;
   } catch (error) {
+    if (error instanceof GeometryValidationError) {
+      res.status(400).json({ error: error.message, issues: error.issues });
+      return;
+    }
     console.error('Error updating feature:', error);
     res.status(500).json({ error: 'Failed to update feature' });
     return;
@@ -390,41 +639,114 @@ router.delete('/features/:featureId', asyncHandler(async (req: Request, res: Res
   }
 }));
 
+// Search feature names, descriptions and property values, most relevant first
+// `bbox` (or `bounds`) is read in `bboxSrs` (default EPSG:4326); `layers` is a
+// comma-separated list of layer ids and `projectId` limits hits to one project
+router.get('/search', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q || q.length > 200) {
+      res.status(400).json({ error: 'q must be 1 to 200 characters' });
+      return;
+    }
+    
+    const page = req.query.page ? parseInt(String(req.query.page), 10) : 1;
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : 20;
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+      res.status(400).json({ error: 'page must be 1 or more and limit from 1 to 100' });
+      return;
+    }
+    
+    const layerIds = req.query.layers ? String(req.query.layers).split(',').filter(Boolean) : undefined;
+    const projectId = req.query.projectId ? String(req.query.projectId) : undefined;
+    if ([...(layerIds ?? []), ...(projectId ? [projectId] : [])].some(id => !UUID.test(id))) {
+      res.status(400).json({ error: 'layers and projectId must be ids' });
+      return;
+    }
+    
+    let bbox;
+    try {
+      bbox = parseBBox(req.query.bbox ?? req.query.bounds);
+    } catch (bboxError) {
+      res.status(400).json({ error: bboxError instanceof Error ? bboxError.message : 'Invalid bbox' });
+      return;
+    }
+    const bboxSrid = bbox && req.query.bboxSrs ? (await getCRS(parseSRID(req.query.bboxSrs))).srid : undefined;
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const { features, total } = await FeatureModel.search({
+      q,
+      page,
+      limit,
+      project_id: projectId,
+      layer_ids: layerIds,
+      filters: bbox ? { bbox, bboxSrid } : undefined
+    }, ownerId);
+    
+    res.json({
+      features: features.map(feature => ({
+        ...formatFeature(feature),
+        layerId: feature.layer_id,
+        layerName: feature.layer_name,
+        relevance: feature.relevance
+      })),
+      total,
+      page,
+      limit
+    });
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error searching features:', error);
+    res.status(500).json({ error: 'Failed to search features' });
+    return;
+  }
+}));
+
 // Spatial analysis endpoints
 
-// Get features within a distance of a point
+// Get features within a distance (in metres) of a point
+// With `srs` the point is read as x/y in that EPSG code and geometries are returned in it
 router.post('/spatial/buffer', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
-    const { longitude, latitude, distance, layerId } = req.body;
+    const { longitude, latitude, distance, layerId, srs } = req.body;
     
     if (!longitude || !latitude || !distance) {
       res.status(400).json({ error: 'Missing required parameters: longitude, latitude, distance' });
       return;
     }
     
+    const srid = (await resolveCRS(srs)).srid;
+    const point = srid === STORAGE_SRID
+      ? 'ST_MakePoint($1, $2)::geography'
+      : 'ST_Transform(ST_SetSRID(ST_MakePoint($1, $2), $4), 4326)::geography';
+    
     let sqlQuery = `
       SELECT 
         f.id,
         f.properties,
-        ST_AsGeoJSON(f.geometry) as geometry,
+        ST_AsGeoJSON(${srid === STORAGE_SRID ? 'f.geometry' : 'ST_Transform(f.geometry, $4)'}) as geometry,
         f.created_at,
         f.updated_at
       FROM features f
       WHERE ST_DWithin(
         f.geometry::geography,
-        ST_MakePoint($1, $2)::geography,
+        ${point},
         $3
       )
     `;
     
-    const params = [longitude, latitude, distance];
+    const params = [longitude, latitude, distance, ...(srid === STORAGE_SRID ? [] : [srid])];
     
     if (layerId) {
-      sqlQuery += ' AND f.layer_id = $4';
+      sqlQuery += ` AND f.layer_id = $${params.length + 1}`;
       params.push(layerId);
     }
     
-    sqlQuery += ' ORDER BY ST_Distance(f.geometry::geography, ST_MakePoint($1, $2)::geography)';
+    sqlQuery += ` ORDER BY ST_Distance(f.geometry::geography, ${point})`;
     
     const result = await query(sqlQuery, params);
     
@@ -445,13 +767,193 @@ router.post('/spatial/buffer', asyncHandler(async (req: Request, res: Response):
     });
     return;
   } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error('Error performing spatial buffer analysis:', error);
     res.status(500).json({ error: 'Failed to perform spatial analysis' });
     return;
   }
 }));
 
+// Features that intersect, contain, lie within, touch or cross a query geometry,
+// across the given layers, the layers of `projectId`, or every layer the owner can see.
+// The geometry is GeoJSON in `srs` (default 4326) or the stored geometry of `featureId`,
+// which is itself left out; `buffer` grows it by that many metres first. Results are
+// in EPSG:4326.
+router.post('/spatial/query', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { geometry, featureId, operation = 'intersects', buffer, layerIds, projectId, srs } = req.body || {};
+    
+    if (!Object.prototype.hasOwnProperty.call(SPATIAL_OPERATIONS, operation)) {
+      res.status(400).json({ error: `operation must be one of ${Object.keys(SPATIAL_OPERATIONS).join(', ')}` });
+      return;
+    }
+    if (buffer !== undefined && (typeof buffer !== 'number' || !Number.isFinite(buffer) || buffer < 0 || buffer > MAX_QUERY_BUFFER)) {
+      res.status(400).json({ error: `buffer must be a distance in metres from 0 to ${MAX_QUERY_BUFFER}` });
+      return;
+    }
+    if (!geometry === !featureId) {
+      res.status(400).json({ error: 'Give either a geometry or a featureId' });
+      return;
+    }
+    if (layerIds !== undefined && (!Array.isArray(layerIds) || layerIds.some(id => typeof id !== 'string' || !UUID.test(id)))) {
+      res.status(400).json({ error: 'layerIds must be a list of layer ids' });
+      return;
+    }
+    if ([featureId, projectId].some(id => id !== undefined && (typeof id !== 'string' || !UUID.test(id)))) {
+      res.status(400).json({ error: 'featureId and projectId must be ids' });
+      return;
+    }
+    
+    const page = req.body.page ?? 1;
+    const limit = req.body.limit ?? 100;
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_FEATURES) {
+      res.status(400).json({ error: `page must be 1 or more and limit from 1 to ${MAX_QUERY_FEATURES}` });
+      return;
+    }
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    let queryGeometry;
+    if (featureId) {
+      const source = await FeatureModel.findById(featureId, ownerId);
+      if (!source) {
+        res.status(404).json({ error: 'Feature not found' });
+        return;
+      }
+      queryGeometry = source.geometry;
+    } else {
+      const structureError = checkGeometryStructure(geometry);
+      if (structureError) {
+        res.status(400).json({ error: `Invalid geometry: ${structureError}` });
+        return;
+      }
+      const reproject = await wgs84Reprojector((await resolveCRS(srs)).srid);
+      queryGeometry = reproject ? reproject(geometry) : geometry;
+    }
+    
+    const { features, total } = await FeatureModel.list({
+      page,
+      limit,
+      layer_ids: layerIds?.length ? layerIds : undefined,
+      project_id: projectId,
+      filters: {
+        spatial: { geometry: queryGeometry, operation, buffer },
+        excludeIds: featureId ? [featureId] : undefined
+      }
+    }, ownerId);
+    
+    res.json({
+      type: 'FeatureCollection',
+      features: features.map(feature => ({
+        ...formatFeature(feature),
+        layerId: feature.layer_id,
+        layerName: (feature as Feature & { layer_name: string }).layer_name
+      })),
+      total,
+      page,
+      limit
+    });
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error performing spatial query:', error);
+    res.status(500).json({ error: 'Failed to perform spatial query' });
+    return;
+  }
+}));
+
+// The k features nearest a geometry (GeoJSON in `srs`, or the stored geometry of
+// `featureId`, which is itself left out), nearest first with their distance in metres
+// on the spheroid. Scoped like /spatial/query, optionally within `maxDistance` and
+// narrowed by a CQL2 `filter`. Results are in EPSG:4326.
+router.post('/spatial/nearest', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { geometry, featureId, k = 5, maxDistance, layerIds, projectId, filter, srs } = req.body || {};
+    
+    if (!Number.isInteger(k) || k < 1 || k > MAX_NEAREST_FEATURES) {
+      res.status(400).json({ error: `k must be from 1 to ${MAX_NEAREST_FEATURES}` });
+      return;
+    }
+    if (maxDistance !== undefined && (typeof maxDistance !== 'number' || !Number.isFinite(maxDistance) || maxDistance <= 0 || maxDistance > MAX_NEAREST_DISTANCE)) {
+      res.status(400).json({ error: `maxDistance must be a distance in metres above 0 and up to ${MAX_NEAREST_DISTANCE}` });
+      return;
+    }
+    if (!geometry === !featureId) {
+      res.status(400).json({ error: 'Give either a geometry or a featureId' });
+      return;
+    }
+    if (layerIds !== undefined && (!Array.isArray(layerIds) || layerIds.some(id => typeof id !== 'string' || !UUID.test(id)))) {
+      res.status(400).json({ error: 'layerIds must be a list of layer ids' });
+      return;
+    }
+    if ([featureId, projectId].some(id => id !== undefined && (typeof id !== 'string' || !UUID.test(id)))) {
+      res.status(400).json({ error: 'featureId and projectId must be ids' });
+      return;
+    }
+    const cql = filter !== undefined && filter !== '' ? parseCQL2(filter) : undefined;
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    let origin;
+    if (featureId) {
+      const source = await FeatureModel.findById(featureId, ownerId);
+      if (!source) {
+        res.status(404).json({ error: 'Feature not found' });
+        return;
+      }
+      origin = source.geometry;
+    } else {
+      const structureError = checkGeometryStructure(geometry);
+      if (structureError) {
+        res.status(400).json({ error: `Invalid geometry: ${structureError}` });
+        return;
+      }
+      const reproject = await wgs84Reprojector((await resolveCRS(srs)).srid);
+      origin = reproject ? reproject(geometry) : geometry;
+    }
+    
+    const features = await FeatureModel.nearest({
+      geometry: origin,
+      k,
+      max_distance: maxDistance,
+      layer_ids: layerIds?.length ? layerIds : undefined,
+      project_id: projectId,
+      filters: {
+        cql,
+        excludeIds: featureId ? [featureId] : undefined
+      }
+    }, ownerId);
+    
+    res.json({
+      type: 'FeatureCollection',
+      features: features.map(feature => ({
+        ...formatFeature(feature),
+        layerId: feature.layer_id,
+        layerName: feature.layer_name,
+        distance: feature.distance
+      }))
+    });
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error performing nearest-neighbour query:', error);
+    res.status(500).json({ error: 'Failed to find nearest features' });
+    return;
+  }
+}));
+
 // GIS Import Endpoint (GeoJSON, KML, GPX)
+// Parsed features are written to the layer given by `layerId`, or to a new layer
+// named `layerName` (defaults to the file name) in the optional `projectId`.
+// GPX files always create one layer each for waypoints, routes and tracks.
+// GeoJSON coordinates are reprojected from the file's "crs" member, else from `srs`.
 router.post('/import', upload.single('file'), asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.file) {
@@ -460,32 +962,385 @@ router.post('/import', upload.single('file'), asyncHandler(async (req: Request,
     }
     const { originalname, buffer } = req.file;
     const ext = originalname.split('.').pop()?.toLowerCase();
+    const { layerId, layerName, projectId, description, fieldMapping, onInvalid, srs } = req.body;
 
-    let geojson;
-    if (ext === 'geojson' || ext === 'json') {
-      geojson = JSON.parse(buffer.toString('utf8'));
-    } else if (ext === 'kml') {
-      // geojson = parseKML(buffer); // To be implemented
-      res.status(501).json({ error: 'KML import not implemented yet' });
+    if (onInvalid && onInvalid !== 'skip' && onInvalid !== 'abort') {
+      res.status(400).json({ error: 'onInvalid must be "skip" or "abort"' });
       return;
-    } else if (ext === 'gpx') {
-      // geojson = parseGPX(buffer); // To be implemented
-      res.status(501).json({ error: 'GPX import not implemented yet' });
+    }
+
+    const geometryPolicy = readGeometryPolicy(req, res);
+    if (!geometryPolicy) return;
+
+    let mapping: FieldMapping | undefined;
+    if (fieldMapping) {
+      try {
+        mapping = parseFieldMapping(typeof fieldMapping === 'string' ? JSON.parse(fieldMapping) : fieldMapping);
+      } catch (mappingError) {
+        res.status(400).json({
+          error: 'Invalid fieldMapping',
+          details: mappingError instanceof Error ? mappingError.message : mappingError
+        });
+        return;
+      }
+    }
+
+    let geojson: GeoJSONFeatureCollection | undefined;
+    let gpx: GPXCollections | undefined;
+    try {
+      if (ext === 'geojson' || ext === 'json') {
+        geojson = JSON.parse(buffer.toString('utf8'));
+      } else if (ext === 'kml') {
+        geojson = parseKML(buffer);
+      } else if (ext === 'gpx') {
+        gpx = parseGPX(buffer);
+      } else {
+        res.status(400).json({ error: 'Unsupported file type' });
+        return;
+      }
+    } catch (parseError) {
+      res.status(400).json({
+        error: 'Failed to parse GIS file',
+        details: parseError instanceof Error ? parseError.message : parseError
+      });
       return;
-    } else {
-      res.status(400).json({ error: 'Unsupported file type' });
+    }
+
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const target = {
+      layerName: layerName || originalname.replace(/\.[^.]+$/, ''),
+      projectId,
+      description,
+      fieldMapping: mapping,
+      geometryPolicy,
+      onInvalid,
+    };
+
+    if (gpx) {
+      if (layerId) {
+        res.status(400).json({ error: 'GPX imports create one layer per waypoints/routes/tracks; layerId is not supported' });
+        return;
+      }
+
+      const results = await saveGPXCollections(gpx, target, ownerId);
+      res.status(201).json({
+        layers: results.map(result => ({
+          kind: result.kind,
+          layer: formatLayer(result.layer),
+          featureCount: result.featureCount,
+          skippedFeatures: result.skipped,
+          errors: result.errors,
+          geometry: result.geometry
+        })),
+        featureCount: results.reduce((total, result) => total + result.featureCount, 0)
+      });
+      return;
+    }
+
+    if (geojson?.type !== 'FeatureCollection' || !Array.isArray(geojson.features)) {
+      res.status(400).json({ error: 'File does not contain a FeatureCollection' });
       return;
     }
 
-    // TODO: Insert geojson features into the database
-    // For now, just return the parsed geojson
-    res.json({ geojson });
+    // KML and GPX are WGS84 by definition, so only GeoJSON is reprojected
+    let collection = geojson;
+    if (ext !== 'kml') {
+      const declaredCRS = (geojson as { crs?: { properties?: { name?: string } } }).crs?.properties?.name;
+      collection = await reprojectFromSRID(geojson, parseSRID(declaredCRS || srs || STORAGE_SRID));
+    }
+
+    const result = await saveFeatureCollection(collection, { ...target, layerId }, ownerId);
+
+    res.status(result.created ? 201 : 200).json({
+      layer: formatLayer(result.layer),
+      featureCount: result.featureCount,
+      skippedFeatures: result.skipped,
+      errors: result.errors,
+      geometry: result.geometry
+    });
     return;
   } catch (error) {
+    if (error instanceof NotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message, details: error.details });
+      return;
+    }
     console.error('Error importing GIS file:', error);
     res.status(500).json({ error: 'Failed to import GIS file' });
     return;
   }
 }));
 
-export default router;
\ No newline at end of file
+// Look up a coordinate reference system, e.g. /crs/EPSG:2263
+// The proj4 definition lets clients register the CRS for display and measurement
+router.get('/crs/:code', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await getCRS(parseSRID(req.params.code)));
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    console.error('Error looking up CRS:', error);
+    res.status(500).json({ error: 'Failed to look up CRS' });
+    return;
+  }
+}));
+
+// List the projects the current user can see, newest activity first
+// `scope` narrows them to `owned`, `shared` (as a collaborator) or `public` projects
+router.get('/projects', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { scope, search } = req.query;
+    const page = req.query.page ? parseInt(String(req.query.page), 10) : 1;
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : 20;
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+      res.status(400).json({ error: 'page must be 1 or more and limit from 1 to 100' });
+      return;
+    }
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const params = { page, limit, search: typeof search === 'string' && search ? search : undefined };
+    let result;
+    switch (scope ?? 'all') {
+      case 'all':
+        result = await ProjectModel.list(params, ownerId);
+        break;
+      case 'owned':
+        result = await ProjectModel.getUserProjects(ownerId, params);
+        break;
+      case 'shared':
+        result = await ProjectModel.getSharedProjects(ownerId, params);
+        break;
+      case 'public':
+        result = await ProjectModel.list({ ...params, is_public: true }, ownerId);
+        break;
+      default:
+        res.status(400).json({ error: 'scope must be all, owned, shared or public' });
+        return;
+    }
+    
+    res.json({ projects: result.projects.map(formatProject), total: result.total, page, limit });
+    return;
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    res.status(500).json({ error: 'Failed to fetch projects' });
+    return;
+  }
+}));
+
+// Create a project owned by the current user
+// Without defaultCenter, a project with bounds is centred on them
+router.post('/projects', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const request = parseProjectRequest(req.body, true);
+    const ownerId = await UserModel.getDefaultOwnerId();
+    
+    const project = await ProjectModel.create({ ...request, name: request.name! }, ownerId);
+    res.status(201).json({ project: { ...formatProject(project), layers: [] } });
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error creating project:', error);
+    res.status(500).json({ error: 'Failed to create project' });
+    return;
+  }
+}));
+
+// A project with its layers and layer, feature and collaborator counts
+router.get('/projects/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const project = UUID.test(id) ? await ProjectModel.findById(id, ownerId) : null;
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    
+    const [{ layers }, stats] = await Promise.all([
+      LayerModel.list({ project_id: id, limit: MAX_PROJECT_LAYERS }, ownerId),
+      ProjectModel.getStats(id)
+    ]);
+    res.json({
+      project: {
+        ...formatProject(project),
+        layers: layers.map(formatLayer),
+        stats: formatProjectStats(stats)
+      }
+    });
+    return;
+  } catch (error) {
+    console.error('Error fetching project:', error);
+    res.status(500).json({ error: 'Failed to fetch project' });
+    return;
+  }
+}));
+
+// Update a project; only its owner may. `settings` keys are merged into the existing
+// settings, so e.g. the display CRS survives an update that doesn't mention it.
+router.put('/projects/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const request = parseProjectRequest(req.body, false);
+    const ownerId = await UserModel.getDefaultOwnerId();
+    
+    const existing = UUID.test(id) ? await ProjectModel.findById(id, ownerId) : null;
+    if (!existing) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    if (existing.owner_id !== ownerId) {
+      res.status(403).json({ error: 'Only the project owner can update it' });
+      return;
+    }
+    
+    if (request.settings) request.settings = { ...existing.settings, ...request.settings };
+    const project = await ProjectModel.update(id, request, ownerId);
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    
+    res.json({ project: formatProject(project) });
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error updating project:', error);
+    res.status(500).json({ error: 'Failed to update project' });
+    return;
+  }
+}));
+
+// Delete a project; only its owner may. Its layers and their features go with it.
+router.delete('/projects/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const ownerId = await UserModel.getDefaultOwnerId();
+    
+    const existing = UUID.test(id) ? await ProjectModel.findById(id, ownerId) : null;
+    if (!existing) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    // The project's layers go with it, so their raster files are removed afterwards
+    const rasters = await query("SELECT type, source_config FROM layers WHERE project_id = $1 AND type = 'raster'", [id]);
+    if (!(await ProjectModel.delete(id, ownerId))) {
+      res.status(403).json({ error: 'Only the project owner can delete it' });
+      return;
+    }
+    await Promise.all(rasters.rows.map(removeRasterFile));
+    
+    res.status(204).send();
+    return;
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    res.status(500).json({ error: 'Failed to delete project' });
+    return;
+  }
+}));
+
+// Composite vector tile with one MVT layer per project layer, named by layer id
+// Takes `fields`, `simplify` and `filter` like the layer tiles, plus `layers` to pick layer ids
+router.get('/projects/:id/tiles/:z/:x/:y.mvt', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, z, x, y } = req.params;
+    const tile = parseTileCoordinates(z, x, y);
+    const options = parseTileOptions(req.query);
+    if (options.cqlSrid) await getCRS(options.cqlSrid);
+    const layerIds = req.query.layers ? String(req.query.layers).split(',').filter(Boolean) : undefined;
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const project = UUID.test(id) ? await ProjectModel.findById(id, ownerId) : null;
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    
+    sendTile(res, await renderProjectTile(id, tile, { ...options, layerIds }));
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error rendering project tile:', error);
+    res.status(500).json({ error: 'Failed to render tile' });
+    return;
+  }
+}));
+
+// A project's display CRS, kept in projects.settings.displayCrs
+// Projects without one display EPSG:4326
+router.get('/projects/:id/crs', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const project = UUID.test(req.params.id) ? await ProjectModel.findById(req.params.id, ownerId) : null;
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    
+    res.json(await resolveCRS(project.settings?.displayCrs));
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error fetching project CRS:', error);
+    res.status(500).json({ error: 'Failed to fetch project CRS' });
+    return;
+  }
+}));
+
+router.put('/projects/:id/crs', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { crs } = req.body;
+    if (!crs) {
+      res.status(400).json({ error: 'crs is required, e.g. "EPSG:2263"' });
+      return;
+    }
+    
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const existing = UUID.test(req.params.id) ? await ProjectModel.findById(req.params.id, ownerId) : null;
+    if (!existing) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    if (existing.owner_id !== ownerId) {
+      res.status(403).json({ error: 'Only the project owner can change its CRS' });
+      return;
+    }
+    
+    const info = await getCRS(parseSRID(crs));
+    const project = await ProjectModel.mergeSettings(req.params.id, { displayCrs: info.code });
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    
+    res.json(info);
+    return;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error updating project CRS:', error);
+    res.status(500).json({ error: 'Failed to update project CRS' });
+    return;
+  }
+}));
+
+export default router;
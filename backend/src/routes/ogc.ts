@@ -0,0 +1,144 @@
+import { Router, Request, Response } from 'express';
+import { UserModel } from '../models/User';
+import { LayerModel } from '../models/Layer';
+import { FeatureModel } from '../models/Feature';
+import { ValidationError } from '../middleware/errorHandler';
+import { Layer } from '../types/database';
+import {
+  CONFORMANCE_CLASSES,
+  GEOJSON_CONTENT_TYPE,
+  checkFormat,
+  parseItemsQuery,
+  landingPage,
+  collectionDocument,
+  itemDocument,
+  itemsDocument,
+} from '../utils/ogcFeatures';
+
+// OGC API - Features endpoints, so QGIS, ArcGIS Pro and GDAL can read layers directly
+const router = Router();
+
+// Enough for any project; collections aren't paged
+const MAX_COLLECTIONS = 1000;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Absolute links, since clients follow them as given
+const serviceUrl = (req: Request) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+// A vector layer visible to the default owner, or null
+const findCollection = async (collectionId: string, ownerId: string): Promise<Layer | null> => {
+  if (!UUID.test(collectionId)) return null;
+  const layer = await LayerModel.findById(collectionId, ownerId);
+  return layer && layer.type === 'vector' ? layer : null;
+};
+
+const sendError = (res: Response, error: unknown, message: string) => {
+  if (error instanceof ValidationError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+};
+
+// Landing page
+router.get('/', (req: Request, res: Response): void => {
+  try {
+    checkFormat(req.query);
+    res.json(landingPage(serviceUrl(req)));
+  } catch (error) {
+    sendError(res, error, 'Failed to build landing page');
+  }
+});
+
+router.get('/conformance', (req: Request, res: Response): void => {
+  try {
+    checkFormat(req.query);
+    res.json({ conformsTo: CONFORMANCE_CLASSES });
+  } catch (error) {
+    sendError(res, error, 'Failed to list conformance classes');
+  }
+});
+
+// Every vector layer, with the extent of its features
+router.get('/collections', async (req: Request, res: Response): Promise<void> => {
+  try {
+    checkFormat(req.query);
+    const baseUrl = serviceUrl(req);
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const { layers } = await LayerModel.list({ type: 'vector', limit: MAX_COLLECTIONS }, ownerId);
+    const extents = await LayerModel.getExtents(layers.map(layer => layer.id));
+
+    res.json({
+      links: [{ href: `${baseUrl}/collections`, rel: 'self', type: 'application/json', title: 'Collections' }],
+      collections: layers.map(layer => collectionDocument(layer, extents[layer.id], baseUrl)),
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to list collections');
+  }
+});
+
+router.get('/collections/:collectionId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    checkFormat(req.query);
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const layer = await findCollection(req.params.collectionId, ownerId);
+    if (!layer) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    const extents = await LayerModel.getExtents([layer.id]);
+    res.json(collectionDocument(layer, extents[layer.id], serviceUrl(req)));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch collection');
+  }
+});
+
+// Features of a collection, paged with limit/offset and filtered by bbox, datetime
+// (matched against creation time) and <property>=<value> parameters
+router.get('/collections/:collectionId/items', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const itemsQuery = parseItemsQuery(req.query);
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const layer = await findCollection(req.params.collectionId, ownerId);
+    if (!layer) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    const { features, total } = await FeatureModel.list({
+      layer_id: layer.id,
+      limit: itemsQuery.limit,
+      offset: itemsQuery.offset,
+      filters: itemsQuery.filters,
+    }, ownerId);
+
+    const baseUrl = serviceUrl(req);
+    res.type(GEOJSON_CONTENT_TYPE).send(JSON.stringify(itemsDocument(
+      features, total, itemsQuery, req.query, `${baseUrl}/collections/${layer.id}`, baseUrl
+    )));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch features');
+  }
+});
+
+router.get('/collections/:collectionId/items/:featureId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    checkFormat(req.query);
+    const { collectionId, featureId } = req.params;
+    const ownerId = await UserModel.getDefaultOwnerId();
+    const feature = UUID.test(featureId) ? await FeatureModel.findById(featureId, ownerId) : null;
+    if (!feature || feature.layer_id !== collectionId || !(await findCollection(collectionId, ownerId))) {
+      res.status(404).json({ error: 'Feature not found' });
+      return;
+    }
+
+    res.type(GEOJSON_CONTENT_TYPE).send(JSON.stringify(itemDocument(feature, serviceUrl(req))));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch feature');
+  }
+});
+
+export default router;
@@ -0,0 +1,130 @@
+import { Router, Request, Response } from 'express';
+import { UserModel } from '../models/User';
+import { LayerModel } from '../models/Layer';
+import { RoutingNetworkModel } from '../models/RoutingNetwork';
+import { RoutingNetwork } from '../types/database';
+import { buildRoutingNetwork, parseNetworkConfig } from '../utils/routingNetwork';
+import { clearCachedGraph, serviceArea, shortestPath } from '../utils/networkAnalysis';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Shape a routing_networks row for responses
+const formatNetwork = (network: RoutingNetwork & { layer_name?: string }) => ({
+  layerId: network.layer_id,
+  layerName: network.layer_name,
+  costField: network.cost_field || null,
+  onewayField: network.oneway_field || null,
+  defaultSpeed: network.default_speed,
+  tolerance: network.tolerance,
+  nodeCount: network.node_count,
+  edgeCount: network.edge_count,
+  builtAt: network.built_at || null,
+  updatedAt: network.updated_at
+});
+
+const sendError = (res: Response, error: unknown, message: string) => {
+  if (error instanceof ValidationError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  if (error instanceof NotFoundError) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+};
+
+// The network on a layer the user can see
+const findNetwork = async (layerId: string, userId: string): Promise<RoutingNetwork> => {
+  if (!UUID.test(layerId) || !await LayerModel.findById(layerId, userId)) {
+    throw new NotFoundError('Layer not found');
+  }
+  const network = await RoutingNetworkModel.findByLayerId(layerId);
+  if (!network) throw new NotFoundError('The layer is not a routing network');
+  return network;
+};
+
+// List routing networks
+router.get('/networks', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = await UserModel.getDefaultOwnerId();
+    const networks = await RoutingNetworkModel.list(userId);
+    res.json({ networks: networks.map(formatNetwork) });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch routing networks');
+  }
+});
+
+// Get a layer's routing network settings and build counts
+router.get('/networks/:layerId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = await UserModel.getDefaultOwnerId();
+    res.json({ network: formatNetwork(await findNetwork(req.params.layerId, userId)) });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch routing network');
+  }
+});
+
+// Mark a line layer as routable and build its topology, or rebuild it after edits
+// or with new settings
+router.put('/networks/:layerId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = await UserModel.getDefaultOwnerId();
+    const layer = UUID.test(req.params.layerId) ? await LayerModel.findById(req.params.layerId, userId) : null;
+    if (!layer) {
+      res.status(404).json({ error: 'Layer not found' });
+      return;
+    }
+    if (layer.type !== 'vector') {
+      res.status(400).json({ error: 'Only vector layers can be routing networks' });
+      return;
+    }
+
+    const config = parseNetworkConfig(req.body);
+    const network = await buildRoutingNetwork(layer.id, config, userId);
+    res.json({ network: formatNetwork({ ...network, layer_name: layer.name }) });
+  } catch (error) {
+    sendError(res, error, 'Failed to build routing network');
+  }
+});
+
+// Stop routing on a layer; its features are untouched
+router.delete('/networks/:layerId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = await UserModel.getDefaultOwnerId();
+    const network = await findNetwork(req.params.layerId, userId);
+    await RoutingNetworkModel.delete(network.layer_id);
+    clearCachedGraph(network.layer_id);
+    res.json({ message: 'Routing network removed' });
+  } catch (error) {
+    sendError(res, error, 'Failed to remove routing network');
+  }
+});
+
+// Shortest path through two or more points
+router.post('/networks/:layerId/route', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = await UserModel.getDefaultOwnerId();
+    const network = await findNetwork(req.params.layerId, userId);
+    res.json(await shortestPath(network, req.body));
+  } catch (error) {
+    sendError(res, error, 'Failed to find a route');
+  }
+});
+
+// Area reachable from a point within a distance or time
+router.post('/networks/:layerId/service-area', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = await UserModel.getDefaultOwnerId();
+    const network = await findNetwork(req.params.layerId, userId);
+    res.json(await serviceArea(network, req.body));
+  } catch (error) {
+    sendError(res, error, 'Failed to compute service area');
+  }
+});
+
+export default router;
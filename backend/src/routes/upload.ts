@@ -3,9 +3,26 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
 import { initializeDatabase } from '../database/connection';
+import { UserModel } from '../models/User';
+import { FileUploadModel } from '../models/FileUpload';
+import { FileUpload } from '../types/database';
+import { enqueueImportJob, ImportJobOptions, SUPPORTED_IMPORT_EXTENSIONS } from '../utils/importJobs';
+import { previewUploadedFile } from '../utils/importPreview';
+import { parseFieldMapping } from '../utils/fieldMapping';
+import { parseGeometryPolicy } from '../utils/geometryValidation';
+import { EXPORT_FORMATS, ExportFormat, CSVGeometryColumns, exportFeatures, loadExportFeatures } from '../utils/gisExport';
+import { FeatureFilters, parseBBox, parseAttributeFilters } from '../utils/featureFilter';
+import { parseCQL2Query } from '../utils/cql2';
+import { parseSRID, parseOptionalSRID, getCRS } from '../utils/projection';
+import { ValidationError } from '../middleware/errorHandler';
+import { LayerModel } from '../models/Layer';
+import { ProjectModel } from '../models/Project';
+import { SUPPORTED_RASTER_EXTENSIONS, RasterInfo, formatRasterInfo, importRaster } from '../utils/rasters';
 
 const router = Router();
 
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Helper function to get database instance
 const getDatabase = () => {
   return initializeDatabase();
@@ -36,15 +53,89 @@ const storage = multer.diskStorage({
   }
 });
 
+// Import options from multipart form fields; fieldMapping arrives as a JSON string.
+// Throws on invalid values.
+const readImportOptions = (body: Record<string, any>, fileExtension: string): ImportJobOptions => {
+  const { layerName, projectId, onInvalid, geometryPolicy, srs, fieldMapping, delimiter, encoding, latColumn, lonColumn, wktColumn, geojsonColumn } = body;
+  
+  if (onInvalid && onInvalid !== 'skip' && onInvalid !== 'abort') {
+    throw new Error('onInvalid must be "skip" or "abort"');
+  }
+  if (projectId && !UUID.test(String(projectId))) {
+    throw new Error('projectId must be a project id');
+  }
+  
+  const options: ImportJobOptions = {
+    layerName: layerName || undefined,
+    projectId: projectId || undefined,
+    onInvalid: onInvalid || undefined,
+    geometryPolicy: parseGeometryPolicy(geometryPolicy),
+    sourceSrid: srs ? parseSRID(srs) : undefined,
+  };
+  
+  if (fieldMapping) {
+    let parsed;
+    try {
+      parsed = typeof fieldMapping === 'string' ? JSON.parse(fieldMapping) : fieldMapping;
+    } catch {
+      throw new Error('fieldMapping is not valid JSON');
+    }
+    options.fieldMapping = parseFieldMapping(parsed);
+  }
+  
+  if (fileExtension === '.csv') {
+    options.csv = {
+      delimiter: delimiter === 'tab' ? '\t' : delimiter || undefined,
+      encoding: encoding || undefined,
+      columns: {
+        lat: latColumn || undefined,
+        lon: lonColumn || undefined,
+        wkt: wktColumn || undefined,
+        geojson: geojsonColumn || undefined,
+      },
+    };
+  }
+  
+  return options;
+};
+
+// Shape a file_uploads row for job responses
+const formatJob = (fileUpload: FileUpload) => ({
+  id: fileUpload.id,
+  status: fileUpload.processing_status,
+  progress: fileUpload.metadata?.progress ?? 0,
+  stage: fileUpload.metadata?.stage,
+  fileName: fileUpload.original_filename,
+  fileType: fileUpload.file_type,
+  fileSize: Number(fileUpload.file_size),
+  projectId: fileUpload.project_id,
+  layerId: fileUpload.layer_id,
+  featureCount: fileUpload.metadata?.featureCount ?? 0,
+  layers: fileUpload.metadata?.layers || [],
+  csv: fileUpload.metadata?.csv,
+  geojson: fileUpload.metadata?.geojson,
+  error: fileUpload.processing_error || null,
+  createdAt: fileUpload.created_at,
+  processedAt: fileUpload.processed_at
+});
+
+// MAX_FILE_SIZE accepts plain bytes or a size like "500MB"
+const parseFileSize = (value: string | undefined, fallback: number) => {
+  const match = /^\s*(\d+)\s*(KB|MB|GB)?\s*$/i.exec(value || '');
+  if (!match) return fallback;
+  const units: Record<string, number> = { KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+  return parseInt(match[1], 10) * (match[2] ? units[match[2].toUpperCase()] : 1);
+};
+
 const upload = multer({
   storage,
   limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB limit
+    fileSize: parseFileSize(process.env.MAX_FILE_SIZE, 50 * 1024 * 1024), // 50MB default
   },
   fileFilter: (req, file, cb) => {
     // Allowed file types for GIS data
     const allowedTypes = [
-      '.kml', '.kmz', '.geojson', '.json', '.gpx', '.shp', '.shx', '.dbf', '.prj',
+      '.kml', '.kmz', '.geojson', '.json', '.gpx', '.shp', '.shx', '.dbf', '.prj', '.zip',
       '.gml', '.geopackage', '.csv', '.txt', '.xml'
     ];
     
@@ -58,7 +149,27 @@ const upload = multer({
   }
 });
 
+// GeoTIFFs go to their own endpoint; drone orthomosaics are often far larger than
+// vector files, so they have a separate limit
+const rasterUpload = multer({
+  storage,
+  limits: {
+    fileSize: parseFileSize(process.env.MAX_RASTER_FILE_SIZE, 1024 * 1024 * 1024), // 1GB default
+  },
+  fileFilter: (req, file, cb) => {
+    const fileExtension = path.extname(file.originalname).toLowerCase();
+    
+    if (SUPPORTED_RASTER_EXTENSIONS.includes(fileExtension)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`File type ${fileExtension} not supported. Allowed types: ${SUPPORTED_RASTER_EXTENSIONS.join(', ')}`));
+    }
+  }
+});
+
 // Upload GIS file
+// The file is recorded in file_uploads and parsed by a background job; poll
+// GET /jobs/:id or listen for 'import-progress' socket events for the result.
 router.post('/gis', upload.single('file'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.file) {
@@ -66,107 +177,55 @@ router.post('/gis', upload.single('file'), async (req: Request, res: Response):
       return;
     }
     
-    const { layerName, projectId } = req.body;
-    const filePath = req.file.path;
     const fileExtension = path.extname(req.file.originalname).toLowerCase();
     
-    // Read and process the file based on its type
-    let geoData: any = null;
+    if (!SUPPORTED_IMPORT_EXTENSIONS.includes(fileExtension)) {
+      await fs.unlink(req.file.path).catch(() => undefined);
+      res.status(400).json({
+        error: `File type ${fileExtension} cannot be imported`,
+        details: `Supported types: ${SUPPORTED_IMPORT_EXTENSIONS.join(', ')}`
+      });
+      return;
+    }
     
+    let options: ImportJobOptions;
     try {
-      const fileContent = await fs.readFile(filePath, 'utf-8');
-      
-      switch (fileExtension) {
-        case '.geojson':
-        case '.json':
-          geoData = JSON.parse(fileContent);
-          break;
-        case '.kml':
-          // For now, store as text - would need additional parsing
-          geoData = { type: 'kml', content: fileContent };
-          break;
-        case '.gpx':
-          // For now, store as text - would need additional parsing
-          geoData = { type: 'gpx', content: fileContent };
-          break;
-        case '.csv':
-          // For now, store as text - would need additional parsing
-          geoData = { type: 'csv', content: fileContent };
-          break;
-        default:
-          // Store as binary data reference for shapefile components
-          geoData = { 
-            type: 'binary', 
-            filename: req.file.filename,
-            originalName: req.file.originalname 
-          };
-      }
-      
-      // Create layer in database
-      const layerResult = await query(`
-        INSERT INTO layers (name, type, data, project_id, visible, opacity, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
-        RETURNING id, name, type, data, project_id, visible, opacity, created_at
-      `, [
-        layerName || req.file.originalname,
-        'vector',
-        geoData,
-        projectId || null,
-        true,
-        1
-      ]);
-      
-      const layer = layerResult.rows[0];
-      
-      // If it's GeoJSON, also create features
-      if (geoData?.type === 'FeatureCollection' && geoData.features) {
-        for (const feature of geoData.features) {
-          await query(`
-            INSERT INTO features (layer_id, properties, geometry, created_at, updated_at)
-            VALUES ($1, $2, ST_GeomFromGeoJSON($3), NOW(), NOW())
-          `, [
-            layer.id,
-            feature.properties || {},
-            JSON.stringify(feature.geometry)
-          ]);
-        }
-      }
-      
-      res.status(201).json({
-        message: 'File uploaded successfully',
-        layer: {
-          id: layer.id,
-          name: layer.name,
-          type: layer.type,
-          projectId: layer.project_id,
-          visible: layer.visible,
-          opacity: layer.opacity,
-          createdAt: layer.created_at
-        },
-        file: {
-          originalName: req.file.originalname,
-          filename: req.file.filename,
-          size: req.file.size,
-          type: fileExtension
-        }
-      });
-      
-    } catch (parseError) {
-      console.error('File parsing error:', parseError);
-      
-      // Clean up uploaded file on error
-      try {
-        await fs.unlink(filePath);
-      } catch (unlinkError) {
-        console.error('Failed to clean up file:', unlinkError);
-      }
-      
-      res.status(400).json({ 
-        error: 'Failed to parse uploaded file',
-        details: parseError instanceof Error ? parseError.message : 'Unknown parsing error'
-      });
+      options = readImportOptions(req.body, fileExtension);
+      // Unknown codes are refused now rather than failing the job later
+      if (options.sourceSrid) await getCRS(options.sourceSrid);
+    } catch (optionsError) {
+      await fs.unlink(req.file.path).catch(() => undefined);
+      res.status(400).json({ error: optionsError instanceof Error ? optionsError.message : 'Invalid import options' });
+      return;
+    }
+    
+    const userId = await UserModel.getDefaultOwnerId();
+    // The job creates its layer in this project, so it must be one the user can see
+    if (options.projectId && !(await ProjectModel.findById(options.projectId, userId))) {
+      await fs.unlink(req.file.path).catch(() => undefined);
+      res.status(404).json({ error: 'Project not found' });
+      return;
     }
     
+    const fileUpload = await FileUploadModel.create({
+      project_id: options.projectId,
+      original_filename: req.file.originalname,
+      stored_filename: req.file.filename,
+      file_type: fileExtension.slice(1),
+      file_size: req.file.size,
+      mime_type: req.file.mimetype,
+      file_path: req.file.path,
+      metadata: { options, progress: 0, stage: 'queued' },
+    }, userId);
+    
+    enqueueImportJob(fileUpload.id);
+    
+    res.status(202).json({
+      message: 'File uploaded, import queued',
+      job: formatJob(fileUpload),
+      statusUrl: `/api/upload/jobs/${fileUpload.id}`
+    });
+    
   } catch (error) {
     console.error('Upload error:', error);
     
@@ -183,63 +242,221 @@ router.post('/gis', upload.single('file'), async (req: Request, res: Response):
   }
 });
 
+// Preview a GIS file without importing it: geometry types, counts, extent, CRS,
+// inferred attribute schema and sample rows. A fieldMapping is applied to the
+// samples and reported as mappedSchema, as a dry run of the import.
+router.post('/preview', upload.single('file'), async (req: Request, res: Response): Promise<void> => {
+  if (!req.file) {
+    res.status(400).json({ error: 'No file uploaded' });
+    return;
+  }
+  
+  try {
+    const fileExtension = path.extname(req.file.originalname).toLowerCase();
+    
+    if (!SUPPORTED_IMPORT_EXTENSIONS.includes(fileExtension)) {
+      res.status(400).json({
+        error: `File type ${fileExtension} cannot be imported`,
+        details: `Supported types: ${SUPPORTED_IMPORT_EXTENSIONS.join(', ')}`
+      });
+      return;
+    }
+    
+    let options: ImportJobOptions;
+    try {
+      options = readImportOptions(req.body, fileExtension);
+      // Unknown codes are refused now rather than failing the job later
+      if (options.sourceSrid) await getCRS(options.sourceSrid);
+    } catch (optionsError) {
+      res.status(400).json({ error: optionsError instanceof Error ? optionsError.message : 'Invalid import options' });
+      return;
+    }
+    
+    try {
+      const preview = await previewUploadedFile(req.file.path, req.file.originalname, options);
+      res.json({ preview });
+    } catch (parseError) {
+      res.status(400).json({
+        error: 'Failed to parse GIS file',
+        details: parseError instanceof Error ? parseError.message : parseError
+      });
+    }
+  } catch (error) {
+    console.error('Preview error:', error);
+    res.status(500).json({ error: 'Failed to preview file' });
+  } finally {
+    // Nothing is kept from a preview
+    await fs.unlink(req.file.path).catch(() => undefined);
+  }
+});
+
+// Upload a GeoTIFF (or cloud-optimized GeoTIFF) as a raster layer
+// The file is kept on disk and served as PNG tiles from
+// GET /api/gis/layers/:id/raster/:z/:x/:y.png. `srs` gives the CRS of files that
+// don't name an EPSG code.
+router.post('/raster', rasterUpload.single('file'), async (req: Request, res: Response): Promise<void> => {
+  if (!req.file) {
+    res.status(400).json({ error: 'No file uploaded' });
+    return;
+  }
+  
+  try {
+    const { layerName, projectId, srs } = req.body;
+    const userId = await UserModel.getDefaultOwnerId();
+    
+    if (projectId && !(await ProjectModel.findById(projectId, userId))) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    
+    const layer = await importRaster(req.file.path, req.file.originalname, {
+      layerName: layerName || undefined,
+      projectId: projectId || undefined,
+      srid: srs ? parseSRID(srs) : undefined,
+    }, userId);
+    
+    res.status(201).json({
+      message: 'Raster uploaded',
+      layer: {
+        id: layer.id,
+        name: layer.name,
+        description: layer.description,
+        type: layer.type,
+        styleConfig: layer.style_config,
+        visible: layer.visible,
+        opacity: Number(layer.opacity),
+        createdAt: layer.created_at,
+        updatedAt: layer.updated_at,
+        projectId: layer.project_id
+      },
+      raster: formatRasterInfo(layer.source_config as RasterInfo)
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Raster upload error:', error);
+    res.status(500).json({ error: 'Failed to upload raster' });
+  } finally {
+    // Gone once the raster is stored; left behind if it was refused
+    await fs.unlink(req.file.path).catch(() => undefined);
+  }
+});
+
+// List import jobs
+router.get('/jobs', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { projectId, status } = req.query;
+    const page = req.query.page ? parseInt(String(req.query.page), 10) : 1;
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : 20;
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+      res.status(400).json({ error: 'page must be 1 or more and limit from 1 to 100' });
+      return;
+    }
+    if (projectId !== undefined && !UUID.test(String(projectId))) {
+      res.status(400).json({ error: 'projectId must be a project id' });
+      return;
+    }
+    const userId = await UserModel.getDefaultOwnerId();
+    
+    const { uploads, total } = await FileUploadModel.list({
+      project_id: typeof projectId === 'string' ? projectId : undefined,
+      processing_status: typeof status === 'string' ? status as FileUpload['processing_status'] : undefined,
+      page,
+      limit,
+    }, userId);
+    
+    res.json({ jobs: uploads.map(formatJob), total });
+  } catch (error) {
+    console.error('Import job list error:', error);
+    res.status(500).json({ error: 'Failed to fetch import jobs' });
+  }
+});
+
+// Get import job status, progress and result
+router.get('/jobs/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = await UserModel.getDefaultOwnerId();
+    const fileUpload = UUID.test(req.params.id) ? await FileUploadModel.findById(req.params.id, userId) : null;
+    
+    if (!fileUpload) {
+      res.status(404).json({ error: 'Import job not found' });
+      return;
+    }
+    
+    res.json({ job: formatJob(fileUpload) });
+  } catch (error) {
+    console.error('Import job status error:', error);
+    res.status(500).json({ error: 'Failed to fetch import job' });
+  }
+});
+
 // Export layer to file
+// `format` picks the writer; `bbox` and repeated `filter` parameters limit the features,
+// or a single CQL2 `filter` when `filter-lang` is given. `srs` is the EPSG code to write
+// coordinates in, and `bboxSrs` that of the bbox (defaulting to `srs`).
 router.get('/export/:layerId', async (req: Request, res: Response): Promise<void> => {
   try {
     const { layerId } = req.params;
-    const { format = 'geojson' } = req.query;
+    const { format = 'geojson', geometry } = req.query;
     
-    // Get layer data
-    const layerResult = await query(
-      'SELECT name, data FROM layers WHERE id = $1',
-      [layerId]
-    );
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      res.status(400).json({ error: `Unsupported export format. Supported formats: ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    if (geometry && geometry !== 'wkt' && geometry !== 'latlon') {
+      res.status(400).json({ error: 'geometry must be "wkt" or "latlon"' });
+      return;
+    }
     
-    if (layerResult.rows.length === 0) {
-      res.status(404).json({ error: 'Layer not found' });
+    let filters: FeatureFilters;
+    let srid: number;
+    try {
+      srid = parseOptionalSRID(req.query.srs);
+      filters = {
+        bbox: parseBBox(req.query.bbox),
+        bboxSrid: req.query.bboxSrs ? parseSRID(req.query.bboxSrs) : srid,
+      };
+      // With filter-lang, filter is CQL2; without it, the repeatable field/operator/value form
+      if (req.query['filter-lang']) Object.assign(filters, parseCQL2Query(req.query));
+      else filters.attributes = parseAttributeFilters(req.query.filter);
+    } catch (filterError) {
+      res.status(400).json({ error: filterError instanceof Error ? filterError.message : 'Invalid filter' });
       return;
     }
     
-    const layer = layerResult.rows[0];
+    const layer = await LayerModel.findById(layerId, await UserModel.getDefaultOwnerId());
+    if (!layer) {
+      res.status(404).json({ error: 'Layer not found' });
+      return;
+    }
     
-    // Get all features for the layer
-    const featuresResult = await query(`
-      SELECT 
-        properties,
-        ST_AsGeoJSON(geometry) as geometry
-      FROM features 
-      WHERE layer_id = $1
-    `, [layerId]);
-    
-    const features = featuresResult.rows.map(row => ({
-      type: 'Feature',
-      properties: row.properties,
-      geometry: JSON.parse(row.geometry)
-    }));
+    const crs = await getCRS(srid);
+    if (filters.bbox && filters.bboxSrid !== srid) await getCRS(filters.bboxSrid!);
+    if (filters.cqlSrid) await getCRS(filters.cqlSrid);
     
-    const geoJsonData = {
-      type: 'FeatureCollection',
-      features
-    };
+    const features = await loadExportFeatures(layerId, filters, undefined, srid);
+    const file = await exportFeatures(layer, features, format as ExportFormat, {
+      csvGeometry: geometry as CSVGeometryColumns | undefined,
+      crs,
+    });
     
     // Set appropriate headers for download
-    const filename = `${layer.name || 'layer'}.${format}`;
-    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-    
-    switch (format) {
-      case 'geojson':
-        res.setHeader('Content-Type', 'application/geo+json');
-        res.json(geoJsonData);
-        break;
-      case 'json':
-        res.setHeader('Content-Type', 'application/json');
-        res.json(geoJsonData);
-        break;
-      default:
-        res.status(400).json({ error: 'Unsupported export format' });
+    const filename = `${layer.name || 'layer'}.${file.extension}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('X-Feature-Count', String(features.length - file.skipped));
+    if (file.skipped > 0) {
+      res.setHeader('X-Skipped-Features', String(file.skipped));
     }
+    res.send(file.body);
     
   } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error('Export error:', error);
     res.status(500).json({ error: 'Failed to export layer' });
   }
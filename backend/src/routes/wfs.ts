@@ -0,0 +1,182 @@
+import express, { Router, Request, Response } from 'express';
+import { UserModel } from '../models/User';
+import { LayerModel } from '../models/Layer';
+import { FeatureModel } from '../models/Feature';
+import { ValidationError } from '../middleware/errorHandler';
+import { Layer } from '../types/database';
+import { FeatureFilters } from '../utils/featureFilter';
+import { STORAGE_SRID } from '../utils/projection';
+import {
+  DEFAULT_SRS_NAME,
+  GML_CONTENT_TYPE,
+  MAX_FEATURE_COUNT,
+  XML_CONTENT_TYPE,
+  WFSException,
+  capabilitiesDocument,
+  describeFeatureTypeDocument,
+  exceptionReport,
+  featureCollectionGML,
+  featureCollectionGeoJSON,
+  loadFeatureTypeSchema,
+  parseBBoxParam,
+  parseFilterParam,
+  parseOutputFormat,
+  parseResourceId,
+  parseTypeNames,
+  readKVP,
+  requireParam,
+  resolveSrsName,
+  transactionResponse,
+  typeName,
+} from '../utils/wfs';
+import { executeTransaction } from '../utils/wfsTransaction';
+
+// WFS 2.0 with transactions: KVP GET requests for reading, POSTed wfs:Transaction
+// documents for editing
+const router = Router();
+
+// Enough for any project; feature types aren't paged
+const MAX_FEATURE_TYPES = 1000;
+
+const serviceUrl = (req: Request) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+const sendException = (res: Response, error: unknown) => {
+  let exception: WFSException;
+  if (error instanceof WFSException) {
+    exception = error;
+  } else if (error instanceof ValidationError) {
+    exception = new WFSException('InvalidParameterValue', error.message);
+  } else {
+    console.error('WFS request failed:', error);
+    exception = new WFSException('NoApplicableCode', 'WFS request failed');
+  }
+  res.status(exception.status).type(XML_CONTENT_TYPE).send(exceptionReport(exception));
+};
+
+const wholeNumber = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new WFSException('InvalidParameterValue', `${name} must be a whole number`, name);
+  }
+  return number;
+};
+
+// Every vector layer the owner can see, or the named ones
+const featureTypeLayers = async (ownerId: string, layerIds?: string[]): Promise<Layer[]> => {
+  if (!layerIds) {
+    const { layers } = await LayerModel.list({ type: 'vector', limit: MAX_FEATURE_TYPES }, ownerId);
+    return layers;
+  }
+  return Promise.all(layerIds.map(async layerId => {
+    const layer = await LayerModel.findById(layerId, ownerId);
+    if (!layer || layer.type !== 'vector') {
+      throw new WFSException('InvalidParameterValue', `Unknown feature type ${typeName(layerId)}`, 'typeNames');
+    }
+    return layer;
+  }));
+};
+
+const getCapabilities = async (req: Request, res: Response) => {
+  const ownerId = await UserModel.getDefaultOwnerId();
+  const layers = await featureTypeLayers(ownerId);
+  const extents = await LayerModel.getExtents(layers.map(layer => layer.id));
+  res.type(XML_CONTENT_TYPE).send(capabilitiesDocument(layers, extents, serviceUrl(req)));
+};
+
+const describeFeatureType = async (res: Response, params: Record<string, string>) => {
+  const names = params.typenames || params.typename;
+  const ownerId = await UserModel.getDefaultOwnerId();
+  const layers = await featureTypeLayers(ownerId, names ? parseTypeNames(names) : undefined);
+  const schemas = await Promise.all(layers.map(layer => loadFeatureTypeSchema(layer)));
+  res.type(XML_CONTENT_TYPE).send(describeFeatureTypeDocument(schemas));
+};
+
+// TYPENAMES and/or RESOURCEID, narrowed by BBOX or FILTER (ResourceId, BBOX, And),
+// paged with COUNT and STARTINDEX
+const getFeature = async (res: Response, params: Record<string, string>) => {
+  const names = params.typenames || params.typename;
+  if (!names && !params.resourceid) {
+    throw new WFSException('MissingParameterValue', 'GetFeature needs typeNames or resourceId', 'typeNames');
+  }
+  if (params.bbox && params.filter) {
+    throw new WFSException('InvalidParameterValue', 'BBOX and FILTER cannot be combined', 'filter');
+  }
+
+  const format = parseOutputFormat(params.outputformat);
+  const { srid, latLon } = await resolveSrsName(params.srsname);
+  if (srid !== STORAGE_SRID) {
+    throw new WFSException('InvalidParameterValue', 'Features are only served in EPSG:4326', 'srsName');
+  }
+
+  const filters: FeatureFilters = {};
+  if (params.resourceid) filters.ids = params.resourceid.split(',').map(id => parseResourceId(id));
+  if (params.bbox) Object.assign(filters, await parseBBoxParam(params.bbox));
+  if (params.filter) Object.assign(filters, await parseFilterParam(params.filter));
+
+  const ownerId = await UserModel.getDefaultOwnerId();
+  const layerIds = names ? (await featureTypeLayers(ownerId, parseTypeNames(names))).map(layer => layer.id) : undefined;
+  const hits = params.resulttype?.toLowerCase() === 'hits';
+  const count = Math.min(wholeNumber(params.count ?? params.maxfeatures, 'count') ?? MAX_FEATURE_COUNT, MAX_FEATURE_COUNT);
+
+  const { features, total } = await FeatureModel.list({
+    layer_ids: layerIds,
+    limit: hits ? 0 : count,
+    offset: wholeNumber(params.startindex, 'startIndex') ?? 0,
+    filters,
+  }, ownerId);
+
+  if (format === 'geojson') {
+    res.type('application/geo+json').send(JSON.stringify(featureCollectionGeoJSON(features, total)));
+    return;
+  }
+  res.type(GML_CONTENT_TYPE).send(featureCollectionGML(features, total, params.srsname || DEFAULT_SRS_NAME, latLon));
+};
+
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const params = readKVP(req.query);
+    if (params.service && params.service.toUpperCase() !== 'WFS') {
+      throw new WFSException('InvalidParameterValue', 'service must be WFS', 'service');
+    }
+
+    const request = requireParam(params, 'request').toLowerCase();
+    if (request !== 'getcapabilities' && params.version && !/^2\.0\.\d$/.test(params.version)) {
+      throw new WFSException('InvalidParameterValue', 'Only WFS 2.0 is supported', 'version');
+    }
+
+    switch (request) {
+      case 'getcapabilities':
+        await getCapabilities(req, res);
+        return;
+      case 'describefeaturetype':
+        await describeFeatureType(res, params);
+        return;
+      case 'getfeature':
+        await getFeature(res, params);
+        return;
+      default:
+        throw new WFSException('OperationNotSupported', `${params.request} is not supported over GET`, 'request');
+    }
+  } catch (error) {
+    sendException(res, error);
+  }
+});
+
+// wfs:Transaction with Insert, Update and Delete actions
+router.post('/', express.text({ type: ['application/xml', 'text/xml', 'application/gml+xml', 'text/plain'], limit: '50mb' }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        throw new WFSException('MissingParameterValue', 'An XML request document is required');
+      }
+
+      const ownerId = await UserModel.getDefaultOwnerId();
+      const summary = await executeTransaction(req.body, ownerId);
+      res.type(XML_CONTENT_TYPE).send(transactionResponse(summary));
+    } catch (error) {
+      sendException(res, error);
+    }
+  });
+
+export default router;
@@ -13,6 +13,14 @@ import { initializeDatabase } from './database/connection';
 import gisRoutes from './routes/gis';
 import authRoutes from './routes/auth';
 import uploadRoutes from './routes/upload';
+import ogcRoutes from './routes/ogc';
+import wfsRoutes from './routes/wfs';
+import geoprocessingRoutes from './routes/geoprocessing';
+import routingRoutes from './routes/routing';
+
+// Import background jobs
+import { importJobEvents, resumePendingImportJobs, ImportJobEvent } from './utils/importJobs';
+import { geoprocessingJobEvents, resumePendingGeoprocessingJobs, GeoprocessingJobEvent } from './utils/geoprocessingJobs';
 
 // Load environment variables
 dotenv.config();
@@ -84,7 +92,9 @@ app.use(cors({
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // Limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.'
+  message: 'Too many requests from this IP, please try again later.',
+  // A single map pan requests dozens of vector and raster tiles
+  skip: (req) => req.path.endsWith('.mvt') || req.path.endsWith('.png')
 });
 app.use(limiter);
 
@@ -94,6 +104,7 @@ app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
 // Log all requests and responses for /api/gis/layers for debugging
 app.use('/api/gis/layers', (req, res, next) => {
+  if (req.path.endsWith('.mvt') || req.path.endsWith('.png') || req.path.endsWith('/aggregate')) return next();
   console.log(`[GIS LAYERS] ${req.method} ${req.originalUrl}`);
   console.log('Headers:', req.headers);
   console.log('Body:', req.body);
@@ -132,6 +143,10 @@ app.use('/api/gis', async (req, res, next) => {
 app.use('/api/gis', gisRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/upload', uploadRoutes);
+app.use('/api/ogc', ogcRoutes);
+app.use('/api/wfs', wfsRoutes);
+app.use('/api/geoprocessing', geoprocessingRoutes);
+app.use('/api/routing', routingRoutes);
 
 // Add this after app.use('/api/gis', gisRoutes); to log errors from GIS routes
 app.use('/api/gis', (err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -211,11 +226,44 @@ io.on('connection', (socket) => {
     });
   });
 
+  // Follow a single import job's progress
+  socket.on('join-import', (jobId) => {
+    socket.join(`import-${jobId}`);
+  });
+
+  socket.on('leave-import', (jobId) => {
+    socket.leave(`import-${jobId}`);
+  });
+
+  // Follow a single geoprocessing job's progress
+  socket.on('join-geoprocessing', (jobId) => {
+    socket.join(`geoprocessing-${jobId}`);
+  });
+
+  socket.on('leave-geoprocessing', (jobId) => {
+    socket.leave(`geoprocessing-${jobId}`);
+  });
+
   socket.on('disconnect', () => {
     console.log('User disconnected:', socket.id);
   });
 });
 
+// Push import job progress to the job's room and its project's room
+importJobEvents.on('progress', (event: ImportJobEvent) => {
+  io.to(`import-${event.jobId}`).emit('import-progress', event);
+  if (event.projectId) {
+    io.to(`project-${event.projectId}`).emit('import-progress', event);
+  }
+});
+
+geoprocessingJobEvents.on('progress', (event: GeoprocessingJobEvent) => {
+  io.to(`geoprocessing-${event.jobId}`).emit('geoprocessing-progress', event);
+  if (event.projectId) {
+    io.to(`project-${event.projectId}`).emit('geoprocessing-progress', event);
+  }
+});
+
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
   console.error('Error:', err);
@@ -257,7 +305,28 @@ export { io };
 async function startServer(port = DEFAULT_PORT, attempt = 1) {
   const dbConnected = await initializeApp();
 
-  const server = app.listen(port, () => {
+  if (dbConnected && attempt === 1) {
+    try {
+      const resumed = await resumePendingImportJobs();
+      if (resumed > 0) {
+        console.log(`📥 Resumed ${resumed} pending import job(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to resume import jobs:', error);
+    }
+
+    try {
+      const resumed = await resumePendingGeoprocessingJobs();
+      if (resumed > 0) {
+        console.log(`🧭 Resumed ${resumed} pending geoprocessing job(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to resume geoprocessing jobs:', error);
+    }
+  }
+
+  // Listen on the HTTP server so Socket.io shares the port with Express
+  const server = httpServer.listen(port, () => {
     console.log(`🚀 MapVue server running on port ${port}`);
     console.log(`📡 Socket.io enabled for real-time features`);
     console.log(`🌍 CORS enabled for: ${process.env.CORS_ORIGIN || "http://localhost:5173"}`);
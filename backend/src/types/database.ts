@@ -1,9 +1,11 @@
 // Database models and types for MapVue
+import type { FeatureFilters } from '../utils/featureFilter';
 
 // GeoJSON type definitions
 export interface GeoJSONGeometry {
   type: string;
-  coordinates: any;
+  coordinates?: any;
+  geometries?: GeoJSONGeometry[]; // GeometryCollection members
 }
 
 export interface GeoJSONPoint extends GeoJSONGeometry {
@@ -18,6 +20,18 @@ export interface GeoJSONPolygon extends GeoJSONGeometry {
 
 export type GeoJSON = GeoJSONGeometry | GeoJSONPoint | GeoJSONPolygon;
 
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJSONGeometry;
+  properties: Record<string, any>;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
 export interface User {
   id: string;
   username: string;
@@ -39,7 +53,8 @@ export interface User {
 // GeoJSON type definitions
 export interface GeoJSONGeometry {
   type: string;
-  coordinates: any;
+  coordinates?: any;
+  geometries?: GeoJSONGeometry[]; // GeometryCollection members
 }
 
 export interface GeoJSONPoint extends GeoJSONGeometry {
@@ -145,6 +160,43 @@ export interface FileUpload {
   processed_at?: Date;
 }
 
+export type GeoprocessingOperation =
+  | 'buffer' | 'union' | 'dissolve' | 'intersection' | 'difference' | 'clip' | 'join'
+  | 'hull' | 'centroid' | 'voronoi' | 'delaunay' | 'simplify';
+
+// parameters holds the checked request (GeoprocessingParameters in utils/geoprocessing)
+export interface ProcessingJob {
+  id: string;
+  user_id: string;
+  project_id?: string;
+  operation: GeoprocessingOperation;
+  parameters: Record<string, any>;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  progress: number;
+  stage?: string;
+  result_layer_id?: string;
+  feature_count: number;
+  error?: string;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+// A line layer marked as routable; default_speed is km/h, tolerance metres
+export interface RoutingNetwork {
+  layer_id: string;
+  owner_id: string;
+  cost_field?: string;
+  oneway_field?: string;
+  default_speed: number;
+  tolerance: number;
+  node_count: number;
+  edge_count: number;
+  built_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
 // View types
 export interface ProjectStats {
   id: string;
@@ -157,6 +209,12 @@ export interface ProjectStats {
   updated_at: Date;
 }
 
+// Bounds of a layer's features in EPSG:4326 and the span of their creation times
+export interface LayerExtent {
+  bbox: [number, number, number, number];
+  created: [Date, Date];
+}
+
 export interface LayerStats {
   id: string;
   name: string;
@@ -188,9 +246,9 @@ export interface CreateProjectRequest {
   name: string;
   description?: string;
   is_public?: boolean;
-  bounds?: GeoJSONPolygon;
+  bounds?: GeoJSONPolygon | null;
   default_zoom?: number;
-  default_center?: GeoJSONPoint;
+  default_center?: GeoJSONPoint | null;
   settings?: Record<string, any>;
 }
 
@@ -198,9 +256,9 @@ export interface UpdateProjectRequest {
   name?: string;
   description?: string;
   is_public?: boolean;
-  bounds?: GeoJSONPolygon;
+  bounds?: GeoJSONPolygon | null;
   default_zoom?: number;
-  default_center?: GeoJSONPoint;
+  default_center?: GeoJSONPoint | null;
   settings?: Record<string, any>;
 }
 
@@ -254,6 +312,42 @@ export interface UpdateFeatureRequest {
   is_visible?: boolean;
 }
 
+export interface CreateFileUploadRequest {
+  project_id?: string;
+  layer_id?: string;
+  original_filename: string;
+  stored_filename: string;
+  file_type: string;
+  file_size: number;
+  mime_type?: string;
+  file_path: string;
+  metadata?: Record<string, any>;
+}
+
+export interface UpdateFileUploadRequest {
+  processing_status?: FileUpload['processing_status'];
+  processing_error?: string | null;
+  layer_id?: string;
+  metadata?: Record<string, any>;
+  processed_at?: Date;
+}
+
+export interface CreateProcessingJobRequest {
+  project_id?: string;
+  operation: GeoprocessingOperation;
+  parameters: Record<string, any>;
+}
+
+export interface UpdateProcessingJobRequest {
+  status?: ProcessingJob['status'];
+  progress?: number;
+  stage?: string;
+  result_layer_id?: string;
+  feature_count?: number;
+  error?: string | null;
+  completed_at?: Date;
+}
+
 export interface AddCollaboratorRequest {
   user_id: string;
   role: 'editor' | 'viewer';
@@ -286,8 +380,51 @@ export interface LayerQueryParams extends PaginationParams {
 
 export interface FeatureQueryParams extends PaginationParams {
   layer_id?: string;
+  layer_ids?: string[];
+  project_id?: string;
   bounds?: string; // WKT or GeoJSON string
   search?: string;
+  offset?: number; // takes precedence over page
+  filters?: FeatureFilters;
+}
+
+// Ranked search through search_features; filters.bbox scopes it to an area
+export interface FeatureSearchParams extends PaginationParams {
+  q: string;
+  project_id?: string;
+  layer_ids?: string[];
+  filters?: FeatureFilters;
+}
+
+// A search hit, with the name of its layer and its relevance to the search term
+export interface FeatureSearchResult extends Feature {
+  layer_name: string;
+  relevance: number;
+}
+
+// The k features nearest a geometry, optionally within max_distance metres
+export interface FeatureNearestParams {
+  geometry: GeoJSONGeometry;
+  k?: number;
+  max_distance?: number;
+  project_id?: string;
+  layer_ids?: string[];
+  filters?: FeatureFilters;
+}
+
+export interface FeatureNearestResult extends Feature {
+  layer_name: string;
+  distance: number; // metres
+}
+
+export interface FileUploadQueryParams extends PaginationParams {
+  project_id?: string;
+  processing_status?: FileUpload['processing_status'];
+}
+
+export interface ProcessingJobQueryParams extends PaginationParams {
+  project_id?: string;
+  status?: ProcessingJob['status'];
 }
 
 export interface ActivityLogQueryParams extends PaginationParams {
@@ -336,6 +473,7 @@ export interface DatabaseConfig {
 }
 
 // Spatial query types
+// A spatial predicate between each feature and a query geometry, optionally buffered
 export interface SpatialQueryParams {
   geometry: GeoJSONGeometry;
   operation: 'intersects' | 'contains' | 'within' | 'touches' | 'crosses';
@@ -0,0 +1,578 @@
+// CQL2 filters (OGC API - Features Part 3) in the text and JSON encodings. CQL2-text
+// is parsed into the CQL2-JSON form, which is what callers hold on to and what is
+// compiled to SQL on the features table (aliased f). Property names and literals are
+// always bound as parameters; only operators and functions from the tables below
+// reach the SQL text.
+//
+// Supported: AND/OR/NOT, comparisons, LIKE, IN, BETWEEN, IS NULL, DATE()/TIMESTAMP()
+// literals, and the S_* spatial predicates plus S_DWITHIN (distance in metres unless
+// a unit is given). `name` and `description` are feature columns, `geometry` is the
+// feature geometry, and any other property is read from the JSONB properties.
+import { ValidationError } from '../middleware/errorHandler';
+import { GeoJSONGeometry } from '../types/database';
+import { STORAGE_SRID, parseSRID } from './projection';
+import { parseWKT } from './wkt';
+
+export type CQL2Expression = boolean | { op: string; args: any[] };
+
+// Binds a value and returns its placeholder, e.g. "$3"
+export type BindParam = (value: any) => string;
+
+const MAX_FILTER_LENGTH = 20000;
+const MAX_DEPTH = 50;
+
+const FEATURE_COLUMNS = ['name', 'description'];
+const GEOMETRY_PROPERTIES = ['geometry', 'geom'];
+
+const COMPARISON_OPERATORS = ['=', '<>', '<', '<=', '>', '>='];
+
+const SPATIAL_FUNCTIONS: Record<string, string> = {
+  s_intersects: 'ST_Intersects',
+  s_within: 'ST_Within',
+  s_contains: 'ST_Contains',
+  s_disjoint: 'ST_Disjoint',
+  s_touches: 'ST_Touches',
+  s_crosses: 'ST_Crosses',
+  s_overlaps: 'ST_Overlaps',
+  s_equals: 'ST_Equals',
+};
+
+// Metres per unit for S_DWITHIN
+const DISTANCE_UNITS: Record<string, number> = {
+  m: 1, meter: 1, meters: 1, metre: 1, metres: 1,
+  km: 1000, kilometer: 1000, kilometers: 1000, kilometre: 1000, kilometres: 1000,
+  ft: 0.3048, foot: 0.3048, feet: 0.3048,
+  mi: 1609.344, mile: 1609.344, miles: 1609.344,
+  nmi: 1852,
+};
+
+const GEOMETRY_TYPES = ['Point', 'LineString', 'Polygon', 'MultiPoint', 'MultiLineString', 'MultiPolygon', 'GeometryCollection'];
+
+const NUMERIC_PATTERN = '^-?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$';
+const DATE_PATTERN = '^[0-9]{4}-[0-9]{2}-[0-9]{2}$';
+const TIMESTAMP_PATTERN = '^[0-9]{4}-[0-9]{2}-[0-9]{2}([T ][0-9]{2}:[0-9]{2}(:[0-9]{2}(\\.[0-9]+)?)?)?(Z|[+-][0-9]{2}(:?[0-9]{2})?)?$';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// CQL2-text
+
+type Token =
+  | { kind: 'number'; value: number; text: string }
+  | { kind: 'string'; value: string; text: string }
+  | { kind: 'identifier'; value: string; text: string; quoted: boolean }
+  | { kind: 'wkt'; value: string; text: string }
+  | { kind: 'symbol'; value: string; text: string };
+
+const WKT_KEYWORD = /^(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION)(\s*(ZM|Z|M))?\s*\(/i;
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    // A WKT literal runs to its matching parenthesis and is parsed as a whole
+    if (WKT_KEYWORD.test(rest)) {
+      let depth = 0;
+      let end = rest.indexOf('(');
+      for (; end < rest.length; end++) {
+        if (rest[end] === '(') depth++;
+        if (rest[end] === ')' && --depth === 0) break;
+      }
+      if (depth !== 0) throw new ValidationError(`Unclosed geometry at position ${position}`);
+      tokens.push({ kind: 'wkt', value: rest.slice(0, end + 1), text: rest.slice(0, end + 1) });
+      position += end + 1;
+      continue;
+    }
+
+    const number = /^-?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), text: number[0] });
+      position += number[0].length;
+      continue;
+    }
+
+    // 'it''s' escapes a quote by doubling it; "double quotes" delimit property names
+    const quoted = /^'((?:[^']|'')*)'|^"((?:[^"]|"")*)"/.exec(rest);
+    if (quoted) {
+      if (quoted[1] !== undefined) {
+        tokens.push({ kind: 'string', value: quoted[1].replace(/''/g, "'"), text: quoted[0] });
+      } else {
+        tokens.push({ kind: 'identifier', value: quoted[2].replace(/""/g, '"'), text: quoted[0], quoted: true });
+      }
+      position += quoted[0].length;
+      continue;
+    }
+    if (rest[0] === "'" || rest[0] === '"') {
+      throw new ValidationError(`Unclosed quote at position ${position}`);
+    }
+
+    const identifier = /^[\p{L}_][\p{L}\p{N}_.:]*/u.exec(rest);
+    if (identifier) {
+      tokens.push({ kind: 'identifier', value: identifier[0], text: identifier[0], quoted: false });
+      position += identifier[0].length;
+      continue;
+    }
+
+    const symbol = /^(<>|!=|<=|>=|[=<>(),])/.exec(rest);
+    if (symbol) {
+      tokens.push({ kind: 'symbol', value: symbol[0] === '!=' ? '<>' : symbol[0], text: symbol[0] });
+      position += symbol[0].length;
+      continue;
+    }
+
+    throw new ValidationError(`Unexpected "${rest[0]}" at position ${position}`);
+  }
+
+  return tokens;
+};
+
+class CQL2TextParser {
+  private position = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) throw new ValidationError('Unexpected end of filter');
+    return token;
+  }
+
+  // Unquoted keyword, case-insensitive
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'identifier' && !token.quoted && token.value.toUpperCase() === keyword;
+  }
+
+  private isSymbol(symbol: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'symbol' && token.value === symbol;
+  }
+
+  private expectKeyword(keyword: string) {
+    if (!this.isKeyword(keyword)) throw this.unexpected(keyword);
+    this.position++;
+  }
+
+  private expectSymbol(symbol: string) {
+    if (!this.isSymbol(symbol)) throw this.unexpected(`"${symbol}"`);
+    this.position++;
+  }
+
+  private unexpected(expected: string) {
+    const token = this.peek();
+    return new ValidationError(token ? `Expected ${expected} but found "${token.text}"` : `Expected ${expected} at the end of the filter`);
+  }
+
+  // Parentheses and NOT recurse, so they're limited like the compiler's nesting
+  private nested(parse: () => CQL2Expression): CQL2Expression {
+    if (++this.depth > MAX_DEPTH) throw new ValidationError(`filter is nested more than ${MAX_DEPTH} levels deep`);
+    const expression = parse();
+    this.depth--;
+    return expression;
+  }
+
+  parse(): CQL2Expression {
+    const expression = this.or();
+    if (this.peek()) throw new ValidationError(`Unexpected "${this.peek()!.text}" after the end of the filter`);
+    return expression;
+  }
+
+  private or(): CQL2Expression {
+    const args = [this.and()];
+    while (this.isKeyword('OR')) {
+      this.position++;
+      args.push(this.and());
+    }
+    return args.length > 1 ? { op: 'or', args } : args[0];
+  }
+
+  private and(): CQL2Expression {
+    const args = [this.not()];
+    while (this.isKeyword('AND')) {
+      this.position++;
+      args.push(this.not());
+    }
+    return args.length > 1 ? { op: 'and', args } : args[0];
+  }
+
+  private not(): CQL2Expression {
+    if (this.isKeyword('NOT')) {
+      this.position++;
+      return { op: 'not', args: [this.nested(() => this.not())] };
+    }
+    return this.primary();
+  }
+
+  private primary(): CQL2Expression {
+    if (this.isSymbol('(')) {
+      this.position++;
+      const expression = this.nested(() => this.or());
+      this.expectSymbol(')');
+      return expression;
+    }
+
+    const token = this.peek();
+    if (token?.kind === 'identifier' && !token.quoted && this.isSymbol('(', 1)) {
+      const name = token.value.toLowerCase();
+      if (SPATIAL_FUNCTIONS[name] || name === 's_dwithin') return this.spatial(name);
+    }
+    return this.predicate();
+  }
+
+  private spatial(name: string): CQL2Expression {
+    this.position += 2;
+    const args = [this.scalar()];
+    this.expectSymbol(',');
+    args.push(this.scalar());
+    if (name === 's_dwithin') {
+      this.expectSymbol(',');
+      args.push(this.scalar());
+      if (this.isSymbol(',')) {
+        this.position++;
+        const unit = this.next();
+        args.push(unit.value);
+      }
+    }
+    this.expectSymbol(')');
+    return { op: name, args };
+  }
+
+  private predicate(): CQL2Expression {
+    const left = this.scalar();
+    const token = this.peek();
+
+    if (token?.kind === 'symbol' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.position++;
+      return { op: token.value, args: [left, this.scalar()] };
+    }
+
+    if (this.isKeyword('IS')) {
+      this.position++;
+      const negated = this.isKeyword('NOT');
+      if (negated) this.position++;
+      this.expectKeyword('NULL');
+      const isNull = { op: 'isNull', args: [left] };
+      return negated ? { op: 'not', args: [isNull] } : isNull;
+    }
+
+    const negated = this.isKeyword('NOT') && (this.isKeyword('LIKE', 1) || this.isKeyword('BETWEEN', 1) || this.isKeyword('IN', 1));
+    if (negated) this.position++;
+
+    let predicate: CQL2Expression | undefined;
+    if (this.isKeyword('LIKE')) {
+      this.position++;
+      predicate = { op: 'like', args: [left, this.scalar()] };
+    } else if (this.isKeyword('BETWEEN')) {
+      this.position++;
+      const low = this.scalar();
+      this.expectKeyword('AND');
+      predicate = { op: 'between', args: [left, low, this.scalar()] };
+    } else if (this.isKeyword('IN')) {
+      this.position++;
+      this.expectSymbol('(');
+      const list = [this.scalar()];
+      while (this.isSymbol(',')) {
+        this.position++;
+        list.push(this.scalar());
+      }
+      this.expectSymbol(')');
+      predicate = { op: 'in', args: [left, list] };
+    }
+
+    if (predicate) return negated ? { op: 'not', args: [predicate] } : predicate;
+    if (typeof left === 'boolean') return left;
+    throw this.unexpected('a comparison, LIKE, BETWEEN, IN or IS NULL');
+  }
+
+  private scalar(): any {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return token.value;
+      case 'wkt':
+        try {
+          return parseWKT(token.value);
+        } catch (error) {
+          throw new ValidationError(error instanceof Error ? error.message : 'Invalid geometry');
+        }
+      case 'symbol':
+        throw new ValidationError(`Unexpected "${token.text}"`);
+    }
+
+    if (token.quoted) return { property: token.value };
+
+    const keyword = token.value.toUpperCase();
+    if (keyword === 'TRUE') return true;
+    if (keyword === 'FALSE') return false;
+
+    if ((keyword === 'DATE' || keyword === 'TIMESTAMP') && this.isSymbol('(')) {
+      this.position++;
+      const value = this.next();
+      if (value.kind !== 'string') throw new ValidationError(`${keyword} needs a quoted value, e.g. ${keyword}('2024-01-31')`);
+      this.expectSymbol(')');
+      return keyword === 'DATE' ? { date: value.value } : { timestamp: value.value };
+    }
+
+    if (keyword === 'BBOX' && this.isSymbol('(')) {
+      this.position++;
+      const bbox = [this.next()];
+      while (this.isSymbol(',')) {
+        this.position++;
+        bbox.push(this.next());
+      }
+      this.expectSymbol(')');
+      if (bbox.some(value => value.kind !== 'number')) throw new ValidationError('BBOX takes numbers only');
+      return { bbox: bbox.map(value => value.value) };
+    }
+
+    if (['AND', 'OR', 'NOT', 'LIKE', 'BETWEEN', 'IN', 'IS', 'NULL'].includes(keyword)) {
+      throw new ValidationError(`Unexpected "${token.text}"; quote property names that are keywords, e.g. "${token.text}"`);
+    }
+    return { property: token.value };
+  }
+}
+
+export const parseCQL2Text = (text: string): CQL2Expression => {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) throw new ValidationError('filter is empty');
+  return new CQL2TextParser(tokens).parse();
+};
+
+// Compiling
+
+type LiteralKind = 'number' | 'string' | 'boolean' | 'date' | 'timestamp';
+
+const isProperty = (operand: any): operand is { property: string } =>
+  isObject(operand) && typeof operand.property === 'string' && Object.keys(operand).length === 1;
+
+const literalKind = (operand: any): LiteralKind | undefined => {
+  if (typeof operand === 'number') return 'number';
+  if (typeof operand === 'string') return 'string';
+  if (typeof operand === 'boolean') return 'boolean';
+  if (isObject(operand) && typeof operand.date === 'string') return 'date';
+  if (isObject(operand) && typeof operand.timestamp === 'string') return 'timestamp';
+  return undefined;
+};
+
+class CQL2Compiler {
+  constructor(private param: BindParam, private srid: number) {}
+
+  expression(expression: any, depth = 0): string {
+    if (depth > MAX_DEPTH) throw new ValidationError(`filter is nested more than ${MAX_DEPTH} levels deep`);
+    if (typeof expression === 'boolean') return expression ? 'TRUE' : 'FALSE';
+    if (!isObject(expression) || typeof expression.op !== 'string' || !Array.isArray(expression.args)) {
+      throw new ValidationError('Each filter expression needs an "op" and an "args" array');
+    }
+
+    const op = expression.op.toLowerCase();
+    const args: any[] = expression.args;
+
+    switch (op) {
+      case 'and':
+      case 'or':
+        if (args.length === 0) throw new ValidationError(`${op} needs at least one argument`);
+        return `(${args.map(arg => this.expression(arg, depth + 1)).join(op === 'and' ? ' AND ' : ' OR ')})`;
+      case 'not':
+        this.arity(op, args, 1);
+        return `NOT (${this.expression(args[0], depth + 1)})`;
+      case 'like':
+        this.arity(op, args, 2);
+        if (typeof args[1] !== 'string') throw new ValidationError('LIKE needs a quoted pattern');
+        return `${this.text(args[0])} LIKE ${this.param(args[1])}`;
+      case 'isnull':
+        this.arity(op, args, 1);
+        return `${isProperty(args[0]) && GEOMETRY_PROPERTIES.includes(args[0].property) ? 'f.geometry' : this.text(args[0])} IS NULL`;
+      case 'between': {
+        this.arity(op, args, 3);
+        const kind = this.kindOf(op, args);
+        return `${this.scalar(args[0], kind)} BETWEEN ${this.scalar(args[1], kind)} AND ${this.scalar(args[2], kind)}`;
+      }
+      case 'in': {
+        this.arity(op, args, 2);
+        if (!Array.isArray(args[1]) || args[1].length === 0) throw new ValidationError('IN needs a list of values');
+        const kind = this.kindOf(op, [args[0], ...args[1]]);
+        return `${this.scalar(args[0], kind)} IN (${args[1].map((item: any) => this.scalar(item, kind)).join(', ')})`;
+      }
+      case 's_dwithin': {
+        if (args.length !== 3 && args.length !== 4) throw new ValidationError('S_DWITHIN needs two geometries, a distance and optionally a unit');
+        const metresPerUnit = args.length === 4 ? DISTANCE_UNITS[String(args[3]).toLowerCase()] : 1;
+        if (!metresPerUnit) throw new ValidationError(`Unknown distance unit "${args[3]}"; use ${Object.keys(DISTANCE_UNITS).join(', ')}`);
+        if (typeof args[2] !== 'number' || !Number.isFinite(args[2]) || args[2] < 0) {
+          throw new ValidationError('S_DWITHIN distance must be a number, 0 or more');
+        }
+        return `ST_DWithin(${this.geometry(args[0])}::geography, ${this.geometry(args[1])}::geography, ${this.param(args[2] * metresPerUnit)})`;
+      }
+    }
+
+    if (COMPARISON_OPERATORS.includes(op)) {
+      this.arity(op, args, 2);
+      const kind = this.kindOf(op, args);
+      if (kind === 'boolean' && op !== '=' && op !== '<>') throw new ValidationError(`Booleans can only be compared with = and <>`);
+      return `${this.scalar(args[0], kind)} ${op} ${this.scalar(args[1], kind)}`;
+    }
+
+    const spatial = SPATIAL_FUNCTIONS[op];
+    if (spatial) {
+      this.arity(op, args, 2);
+      return `${spatial}(${this.geometry(args[0])}, ${this.geometry(args[1])})`;
+    }
+
+    throw new ValidationError(`Unsupported filter operator "${expression.op}"`);
+  }
+
+  private arity(op: string, args: any[], count: number) {
+    if (args.length !== count) throw new ValidationError(`${op.toUpperCase()} takes ${count} argument${count === 1 ? '' : 's'}`);
+  }
+
+  // The type literals give a comparison; properties compared only with each other are text
+  private kindOf(op: string, operands: any[]): LiteralKind {
+    const kinds = [...new Set(operands.map(literalKind).filter(Boolean))] as LiteralKind[];
+    for (const operand of operands) {
+      if (!isProperty(operand) && !literalKind(operand)) {
+        throw new ValidationError(`${op.toUpperCase()} compares properties and literal values only`);
+      }
+    }
+    if (kinds.length > 1) throw new ValidationError(`${op.toUpperCase()} mixes ${kinds.join(' and ')} values`);
+    return kinds[0] ?? 'string';
+  }
+
+  // A property as text: a feature column or a JSONB property
+  private text(operand: any): string {
+    if (typeof operand === 'string') return `${this.param(operand)}::text`;
+    if (!isProperty(operand)) throw new ValidationError('Expected a property or a quoted string');
+    if (GEOMETRY_PROPERTIES.includes(operand.property)) {
+      throw new ValidationError(`${operand.property} can only be used in spatial predicates`);
+    }
+    return FEATURE_COLUMNS.includes(operand.property)
+      ? `f.${operand.property}`
+      : `(f.properties->>${this.param(operand.property)})`;
+  }
+
+  // Properties are cast to the literal's type; values that aren't of that type never match.
+  // The casts are the schema's cql2_number, cql2_date and cql2_timestamptz, which are
+  // NULL for values such as 1e400 or 2024-13-45 that only look right.
+  private scalar(operand: any, kind: LiteralKind): string {
+    if (isProperty(operand)) {
+      const text = this.text(operand);
+      switch (kind) {
+        case 'number':
+          return `(CASE WHEN ${text} ~ '${NUMERIC_PATTERN}' THEN cql2_number(${text}) END)`;
+        case 'date':
+          return `(CASE WHEN ${text} ~ '${DATE_PATTERN}' THEN cql2_date(${text}) END)`;
+        case 'timestamp':
+          return `(CASE WHEN ${text} ~ '${TIMESTAMP_PATTERN}' THEN cql2_timestamptz(${text}) END)`;
+        default:
+          return text;
+      }
+    }
+
+    switch (literalKind(operand)) {
+      case 'number':
+        if (!Number.isFinite(operand)) throw new ValidationError('Numbers must be finite');
+        return `${this.param(operand)}::double precision`;
+      case 'boolean':
+        return `${this.param(String(operand))}::text`;
+      case 'date':
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(operand.date) || Number.isNaN(Date.parse(operand.date))) {
+          throw new ValidationError(`Invalid date "${operand.date}"; expected YYYY-MM-DD`);
+        }
+        return `${this.param(operand.date)}::date`;
+      case 'timestamp':
+        if (!new RegExp(TIMESTAMP_PATTERN).test(operand.timestamp) || Number.isNaN(Date.parse(operand.timestamp))) {
+          throw new ValidationError(`Invalid timestamp "${operand.timestamp}"; expected RFC 3339, e.g. 2024-05-01T12:00:00Z`);
+        }
+        return `${this.param(operand.timestamp)}::timestamptz`;
+      default:
+        return `${this.param(operand)}::text`;
+    }
+  }
+
+  // The feature geometry, or a GeoJSON/WKT/BBOX literal in the filter CRS
+  private geometry(operand: any): string {
+    if (isProperty(operand)) {
+      if (!GEOMETRY_PROPERTIES.includes(operand.property)) {
+        throw new ValidationError(`Spatial predicates apply to the geometry property, not ${operand.property}`);
+      }
+      return 'f.geometry';
+    }
+
+    let geometry: string;
+    if (isObject(operand) && Array.isArray(operand.bbox)) {
+      const bbox: number[] = operand.bbox;
+      if ((bbox.length !== 4 && bbox.length !== 6) || bbox.some(value => typeof value !== 'number' || !Number.isFinite(value))) {
+        throw new ValidationError('A bbox has 4 numbers (or 6 with heights)');
+      }
+      // 3D boxes are minX,minY,minZ,maxX,maxY,maxZ
+      const [minX, minY, maxX, maxY] = bbox.length === 6 ? [bbox[0], bbox[1], bbox[3], bbox[4]] : bbox;
+      geometry = `ST_MakeEnvelope(${this.param(minX)}, ${this.param(minY)}, ${this.param(maxX)}, ${this.param(maxY)}, ${this.srid})`;
+    } else if (isObject(operand) && GEOMETRY_TYPES.includes(operand.type) && (Array.isArray(operand.coordinates) || Array.isArray(operand.geometries))) {
+      geometry = `ST_SetSRID(ST_GeomFromGeoJSON(${this.param(JSON.stringify(operand as GeoJSONGeometry))}::text), ${this.srid})`;
+    } else {
+      throw new ValidationError('Spatial predicates need the geometry property and a geometry, e.g. POINT(-73.98 40.75) or BBOX(...)');
+    }
+
+    return this.srid === STORAGE_SRID ? geometry : `ST_Transform(${geometry}, ${STORAGE_SRID})`;
+  }
+}
+
+// SQL for a parsed filter, with literals bound through `param`. `srid` is the CRS
+// of geometry literals (filter-crs), EPSG:4326 by default.
+export const compileCQL2 = (expression: CQL2Expression, param: BindParam, srid: number = STORAGE_SRID): string =>
+  new CQL2Compiler(param, srid).expression(expression);
+
+// CQL2-text or CQL2-JSON, checked by compiling it once. Without a language, text
+// starting with "{" is read as JSON.
+export const parseCQL2 = (value: unknown, lang?: unknown): CQL2Expression => {
+  const language = lang === undefined || lang === '' ? undefined : String(lang).toLowerCase();
+  if (language !== undefined && language !== 'cql2-text' && language !== 'cql2-json') {
+    throw new ValidationError('filter-lang must be cql2-text or cql2-json');
+  }
+
+  let expression: CQL2Expression;
+  if (isObject(value) || typeof value === 'boolean') {
+    expression = value as CQL2Expression;
+  } else {
+    const text = String(value ?? '').trim();
+    if (!text) throw new ValidationError('filter is empty');
+    if (text.length > MAX_FILTER_LENGTH) throw new ValidationError(`filter is longer than ${MAX_FILTER_LENGTH} characters`);
+
+    if (language === 'cql2-json' || (language === undefined && text.startsWith('{'))) {
+      try {
+        expression = JSON.parse(text);
+      } catch {
+        throw new ValidationError('filter is not valid CQL2-JSON');
+      }
+    } else {
+      expression = parseCQL2Text(text);
+    }
+  }
+
+  compileCQL2(expression, () => '$1');
+  return expression;
+};
+
+// The filter, filter-lang and filter-crs query parameters, as OGC API - Features Part 3
+// names them; empty when there is no filter
+export const parseCQL2Query = (query: Record<string, any>): { cql?: CQL2Expression; cqlSrid?: number } => {
+  if (query.filter === undefined || query.filter === '') return {};
+  if (Array.isArray(query.filter)) throw new ValidationError('Give a single filter; combine conditions with AND');
+  return {
+    cql: parseCQL2(query.filter, query['filter-lang']),
+    cqlSrid: query['filter-crs'] ? parseSRID(query['filter-crs']) : undefined,
+  };
+};
@@ -0,0 +1,303 @@
+// CSV to GeoJSON: delimiter/encoding sniffing, coordinate column detection and typed properties
+import { parseWKT, looksLikeWKT } from './wkt';
+import { GeoJSONGeometry, GeoJSONFeature, GeoJSONFeatureCollection } from '../types/database';
+
+export interface CSVColumnMapping {
+  lat?: string;
+  lon?: string;
+  wkt?: string;
+  geojson?: string;
+}
+
+export interface CSVImportOptions {
+  delimiter?: string;
+  encoding?: string;
+  columns?: CSVColumnMapping;
+}
+
+export interface CSVRowError {
+  row: number; // 1-based data row, excluding the header
+  error: string;
+}
+
+export interface CSVImportResult {
+  collection: GeoJSONFeatureCollection;
+  delimiter: string;
+  encoding: string;
+  columns: CSVColumnMapping;
+  columnTypes: Record<string, CSVColumnType>;
+  totalRows: number;
+  errors: CSVRowError[];
+  errorCount: number;
+}
+
+export type CSVColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'string';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+const MAX_REPORTED_ERRORS = 1000;
+const SNIFF_LINES = 20;
+
+const LAT_NAMES = /^(lat|latitude|lat_dd|decimallatitude)$/i;
+const LON_NAMES = /^(lon|lng|long|longitude|lon_dd|long_dd|decimallongitude)$/i;
+const Y_NAMES = /^(y|ycoord|y_coord|point_y)$/i;
+const X_NAMES = /^(x|xcoord|x_coord|point_x)$/i;
+const WKT_NAMES = /^(wkt|geom|geometry|the_geom|shape|wkb_geometry)$/i;
+const GEOJSON_NAMES = /^(geojson|geo_json|geometry_json)$/i;
+
+// BOMs first, then strict UTF-8, then the usual spreadsheet fallback
+export const detectEncoding = (buffer: Buffer): string => {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8';
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le';
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+// Count delimiter occurrences outside quotes on the first lines and pick the most
+// consistent candidate
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, SNIFF_LINES);
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map(line => {
+      let count = 0;
+      let quoted = false;
+      for (const char of line) {
+        if (char === '"') quoted = !quoted;
+        else if (char === delimiter && !quoted) count++;
+      }
+      return count;
+    });
+
+    if (counts.length === 0 || counts[0] === 0) continue;
+    const consistent = counts.filter(count => count === counts[0]).length;
+    const score = consistent * 1000 + counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+// RFC 4180 parsing: quoted fields, doubled quotes and embedded newlines
+export const parseCSVRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(values => values.some(value => value.trim() !== ''));
+};
+
+const detectColumns = (headers: string[], sample: string[][]): CSVColumnMapping => {
+  const find = (pattern: RegExp) => headers.find(header => pattern.test(header.trim()));
+  const sampleValues = (header: string) => {
+    const index = headers.indexOf(header);
+    return sample.map(row => (row[index] || '').trim()).filter(value => value !== '');
+  };
+
+  const geojson = find(GEOJSON_NAMES)
+    || headers.find(header => {
+      const values = sampleValues(header);
+      return values.length > 0 && values.every(value => value.startsWith('{') && value.includes('"type"'));
+    });
+  if (geojson) return { geojson };
+
+  const wkt = find(WKT_NAMES)
+    || headers.find(header => {
+      const values = sampleValues(header);
+      return values.length > 0 && values.every(looksLikeWKT);
+    });
+  if (wkt && sampleValues(wkt).every(looksLikeWKT)) return { wkt };
+
+  // Prefer explicit lat/lon names over generic x/y
+  const lat = find(LAT_NAMES) || find(Y_NAMES);
+  const lon = find(LON_NAMES) || find(X_NAMES);
+  if (lat && lon) return { lat, lon };
+
+  return {};
+};
+
+const INTEGER = /^[-+]?\d+$/;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const BOOLEAN = /^(true|false|yes|no)$/i;
+const DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// A column gets the narrowest type every non-empty value fits; leading zeros keep
+// codes like ZIPs as strings
+const inferColumnType = (values: string[]): CSVColumnType => {
+  const present = values.map(value => value.trim()).filter(value => value !== '');
+  if (present.length === 0) return 'string';
+  if (present.every(value => INTEGER.test(value) && !/^[-+]?0\d/.test(value))) return 'integer';
+  if (present.every(value => NUMBER.test(value) && !/^[-+]?0\d/.test(value))) return 'number';
+  if (present.every(value => BOOLEAN.test(value))) return 'boolean';
+  if (present.every(value => DATE.test(value) && !isNaN(Date.parse(value)))) return 'date';
+  return 'string';
+};
+
+const castValue = (value: string, type: CSVColumnType): any => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return Number(trimmed);
+    case 'boolean':
+      return /^(true|yes)$/i.test(trimmed);
+    case 'date':
+      return new Date(trimmed).toISOString();
+    default:
+      return value;
+  }
+};
+
+const parseCoordinate = (value: string | undefined, name: string, min: number, max: number): number => {
+  const number = Number((value || '').trim().replace(',', '.'));
+  if ((value || '').trim() === '' || isNaN(number)) {
+    throw new Error(`${name} is not a number`);
+  }
+  if (number < min || number > max) {
+    throw new Error(`${name} ${number} is out of range`);
+  }
+  return number;
+};
+
+export const parseCSV = (buffer: Buffer, options: CSVImportOptions = {}): CSVImportResult => {
+  const encoding = options.encoding || detectEncoding(buffer);
+  const text = new TextDecoder(encoding).decode(buffer); // drops a leading BOM
+  const delimiter = options.delimiter || detectDelimiter(text);
+
+  const rows = parseCSVRows(text, delimiter);
+  if (rows.length < 2) {
+    throw new Error('CSV file must have a header row and at least one data row');
+  }
+
+  const headers = rows[0].map(header => header.trim());
+  const dataRows = rows.slice(1);
+
+  const columns = options.columns && Object.values(options.columns).some(Boolean)
+    ? options.columns
+    : detectColumns(headers, dataRows.slice(0, SNIFF_LINES));
+
+  if (!columns.geojson && !columns.wkt && !(columns.lat && columns.lon)) {
+    throw new Error('Could not detect coordinate columns; provide a lat/lon, wkt or geojson column mapping');
+  }
+
+  for (const column of Object.values(columns)) {
+    if (column && !headers.includes(column)) {
+      throw new Error(`Column "${column}" not found in CSV header`);
+    }
+  }
+
+  const geometryColumns = new Set(Object.values(columns).filter(Boolean));
+  const propertyIndexes = headers
+    .map((header, index) => ({ header, index }))
+    .filter(({ header }) => header !== '' && !geometryColumns.has(header));
+
+  const columnTypes: Record<string, CSVColumnType> = {};
+  for (const { header, index } of propertyIndexes) {
+    columnTypes[header] = inferColumnType(dataRows.map(row => row[index] || ''));
+  }
+
+  const column = (row: string[], name?: string) => (name ? row[headers.indexOf(name)] : undefined);
+
+  const features: GeoJSONFeature[] = [];
+  const errors: CSVRowError[] = [];
+  let errorCount = 0;
+
+  dataRows.forEach((row, rowIndex) => {
+    try {
+      if (row.length !== headers.length) {
+        throw new Error(`Expected ${headers.length} columns but found ${row.length}`);
+      }
+
+      let geometry: GeoJSONGeometry;
+      if (columns.geojson) {
+        geometry = JSON.parse(column(row, columns.geojson) || '');
+        if (!geometry || typeof geometry.type !== 'string') {
+          throw new Error('GeoJSON geometry has no type');
+        }
+      } else if (columns.wkt) {
+        geometry = parseWKT(column(row, columns.wkt) || '');
+      } else {
+        geometry = {
+          type: 'Point',
+          coordinates: [
+            parseCoordinate(column(row, columns.lon), columns.lon!, -180, 180),
+            parseCoordinate(column(row, columns.lat), columns.lat!, -90, 90),
+          ],
+        };
+      }
+
+      const properties: Record<string, any> = {};
+      for (const { header, index } of propertyIndexes) {
+        properties[header] = castValue(row[index] || '', columnTypes[header]);
+      }
+
+      features.push({ type: 'Feature', geometry, properties });
+    } catch (error) {
+      errorCount++;
+      if (errors.length < MAX_REPORTED_ERRORS) {
+        errors.push({ row: rowIndex + 1, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  });
+
+  return {
+    collection: { type: 'FeatureCollection', features },
+    delimiter,
+    encoding,
+    columns,
+    columnTypes,
+    totalRows: dataRows.length,
+    errors,
+    errorCount,
+  };
+};
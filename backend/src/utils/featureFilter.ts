@@ -0,0 +1,169 @@
+// Query-string filters for reading features: a bbox, a time interval, simple
+// attribute comparisons, a CQL2 filter and a spatial predicate, turned into SQL
+// conditions on the features table (aliased f)
+import type { SpatialQueryParams } from '../types/database';
+import { CQL2Expression, compileCQL2 } from './cql2';
+import { STORAGE_SRID } from './projection';
+
+export type BBox = [number, number, number, number];
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~';
+
+export interface AttributeFilter {
+  field: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+// Either bound may be open
+export interface TimeInterval {
+  start?: Date;
+  end?: Date;
+}
+
+export interface FeatureFilters {
+  ids?: string[]; // feature ids, already checked to be UUIDs
+  bbox?: BBox;
+  bboxSrid?: number; // CRS of the bbox coordinates, EPSG:4326 when absent
+  created?: TimeInterval; // matched against the feature's created_at
+  attributes?: AttributeFilter[];
+  cql?: CQL2Expression; // parsed and checked by parseCQL2
+  cqlSrid?: number; // CRS of geometry literals in the CQL2 filter, EPSG:4326 when absent
+  spatial?: SpatialQueryParams; // geometry in EPSG:4326
+  excludeIds?: string[]; // feature ids to leave out, already checked to be UUIDs
+}
+
+// Columns of the features table; any other field is looked up in properties
+const FEATURE_COLUMNS = ['name', 'description'];
+
+// Each reads "the feature <operation> the query geometry"
+export const SPATIAL_OPERATIONS: Record<SpatialQueryParams['operation'], string> = {
+  intersects: 'ST_Intersects',
+  contains: 'ST_Contains',
+  within: 'ST_Within',
+  touches: 'ST_Touches',
+  crosses: 'ST_Crosses',
+};
+
+const NUMBER = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+
+// "minX,minY,maxX,maxY": longitude/latitude unless a bbox CRS is given
+export const parseBBox = (value: unknown): BBox | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const coords = String(value).split(',').map(Number);
+  if (coords.length !== 4 || coords.some(coord => !Number.isFinite(coord))) {
+    throw new Error('bbox must be minX,minY,maxX,maxY');
+  }
+  if (coords[0] > coords[2] || coords[1] > coords[3]) {
+    throw new Error('bbox minimum must not exceed its maximum');
+  }
+  return coords as BBox;
+};
+
+const parseInstant = (value: string): Date => {
+  const date = new Date(value);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date-time "${value}"; expected RFC 3339, e.g. 2024-05-01T12:00:00Z`);
+  }
+  return date;
+};
+
+// An RFC 3339 instant or "start/end" interval, with ".." or nothing for an open end
+export const parseDatetime = (value: unknown): TimeInterval | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const parts = String(value).split('/');
+  if (parts.length > 2) {
+    throw new Error('datetime must be an instant or an interval start/end');
+  }
+  if (parts.length === 1) {
+    const instant = parseInstant(parts[0]);
+    return { start: instant, end: instant };
+  }
+
+  const [start, end] = parts.map(part => (part === '' || part === '..' ? undefined : parseInstant(part)));
+  if (!start && !end) {
+    throw new Error('datetime interval needs at least one bound');
+  }
+  if (start && end && start > end) {
+    throw new Error('datetime interval must not end before it starts');
+  }
+  return { start, end };
+};
+
+// "population>=1000", "type=city", "name~river" (case-insensitive contains)
+export const parseAttributeFilter = (value: string): AttributeFilter => {
+  const match = /^([^=!<>~]+)(>=|<=|!=|=|>|<|~)(.*)$/.exec(value);
+  if (!match || !match[1].trim()) {
+    throw new Error(`Invalid filter "${value}"; expected <field><operator><value> with =, !=, >, >=, <, <= or ~`);
+  }
+  return { field: match[1].trim(), operator: match[2] as FilterOperator, value: match[3] };
+};
+
+// A repeated query parameter arrives as an array
+export const parseAttributeFilters = (value: unknown): AttributeFilter[] => {
+  if (value === undefined || value === null || value === '') return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(item => parseAttributeFilter(String(item)));
+};
+
+// Conditions are numbered from `firstParam` so they can follow the caller's own parameters
+export const buildFeatureFilter = (
+  filters: FeatureFilters,
+  firstParam = 1
+): { conditions: string[]; params: any[] } => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const param = (value: any) => {
+    params.push(value);
+    return `$${firstParam + params.length - 1}`;
+  };
+
+  if (filters.ids) conditions.push(`f.id = ANY(${param(filters.ids)}::uuid[])`);
+  if (filters.excludeIds?.length) conditions.push(`f.id <> ALL(${param(filters.excludeIds)}::uuid[])`);
+
+  if (filters.bbox) {
+    const [minX, minY, maxX, maxY] = filters.bbox.map(param);
+    const srid = filters.bboxSrid ?? STORAGE_SRID;
+    const envelope = srid === STORAGE_SRID
+      ? `ST_MakeEnvelope(${minX}, ${minY}, ${maxX}, ${maxY}, ${STORAGE_SRID})`
+      : `ST_Transform(ST_MakeEnvelope(${minX}, ${minY}, ${maxX}, ${maxY}, ${param(srid)}), ${STORAGE_SRID})`;
+    conditions.push(`ST_Intersects(f.geometry, ${envelope})`);
+  }
+
+  if (filters.created?.start) conditions.push(`f.created_at >= ${param(filters.created.start)}`);
+  if (filters.created?.end) conditions.push(`f.created_at <= ${param(filters.created.end)}`);
+
+  for (const { field, operator, value } of filters.attributes || []) {
+    const column = FEATURE_COLUMNS.includes(field) ? `f.${field}` : `f.properties->>${param(field)}`;
+
+    if (operator === '~') {
+      conditions.push(`${column} ILIKE ${param(`%${value}%`)}`);
+      continue;
+    }
+
+    // Numeric values compare numerically; properties that aren't numbers (or overflow,
+    // see cql2_number in the schema) never match
+    if (NUMBER.test(value.trim())) {
+      const numeric = `CASE WHEN ${column} ~ '^-?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$' THEN cql2_number(${column}) END`;
+      conditions.push(`${numeric} ${operator === '!=' ? '<>' : operator} ${param(Number(value))}`);
+      continue;
+    }
+
+    conditions.push(`${column} ${operator === '!=' ? '<>' : operator} ${param(value)}`);
+  }
+
+  if (filters.cql !== undefined) conditions.push(compileCQL2(filters.cql, param, filters.cqlSrid));
+
+  // Drawn shapes may self-intersect, which the predicates refuse; the buffer is in
+  // metres on the spheroid
+  if (filters.spatial) {
+    const { geometry, operation, buffer } = filters.spatial;
+    let shape = `ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON(${param(JSON.stringify(geometry))}::text), ${STORAGE_SRID}))`;
+    if (buffer) shape = `ST_Buffer(${shape}::geography, ${param(buffer)})::geometry`;
+    conditions.push(`${SPATIAL_OPERATIONS[operation]}(f.geometry, ${shape})`);
+  }
+
+  return { conditions, params };
+};
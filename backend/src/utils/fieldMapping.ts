@@ -0,0 +1,175 @@
+// Renaming, dropping and casting feature properties on import, plus the schema
+// inference the import preview reports
+export type FieldType = 'integer' | 'number' | 'boolean' | 'date' | 'string' | 'object' | 'array';
+
+export interface FieldMappingEntry {
+  name?: string; // new property name
+  type?: FieldType; // cast values to this type
+  drop?: boolean;
+}
+
+// Keyed by source property name; `true` keeps a property as-is
+export interface FieldMapping {
+  fields: Record<string, FieldMappingEntry | true>;
+  dropUnmapped?: boolean; // only keep properties listed in `fields`
+}
+
+export interface FieldSchema {
+  name: string;
+  type: FieldType;
+  nullCount: number;
+  sampleValues: any[];
+}
+
+export const FIELD_TYPES: FieldType[] = ['integer', 'number', 'boolean', 'date', 'string', 'object', 'array'];
+
+const DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const SAMPLE_VALUES = 5;
+
+// Validate a mapping supplied by a client (already JSON-parsed); throws with a
+// message fit for a 400 response
+export const parseFieldMapping = (value: any): FieldMapping => {
+  if (!value || typeof value !== 'object' || !value.fields || typeof value.fields !== 'object') {
+    throw new Error('fieldMapping must be an object with a "fields" map');
+  }
+
+  const targets = new Set<string>();
+  const addTarget = (target: string) => {
+    if (targets.has(target)) {
+      throw new Error(`More than one field is mapped to "${target}"`);
+    }
+    targets.add(target);
+  };
+
+  for (const [source, entry] of Object.entries<any>(value.fields)) {
+    if (entry === true) {
+      addTarget(source);
+      continue;
+    }
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`fieldMapping entry for "${source}" must be an object or true`);
+    }
+    if (entry.type !== undefined && !FIELD_TYPES.includes(entry.type)) {
+      throw new Error(`Unknown type "${entry.type}" for "${source}"; expected one of ${FIELD_TYPES.join(', ')}`);
+    }
+    if (entry.name !== undefined && (typeof entry.name !== 'string' || entry.name.trim() === '')) {
+      throw new Error(`fieldMapping name for "${source}" must be a non-empty string`);
+    }
+    if (!entry.drop) {
+      addTarget(entry.name || source);
+    }
+  }
+
+  return { fields: value.fields, dropUnmapped: Boolean(value.dropUnmapped) };
+};
+
+// Values that can't be cast become null rather than failing the feature
+export const castField = (value: any, type: FieldType): any => {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (type) {
+    case 'integer': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim().replace(',', '.'));
+      return Number.isFinite(number) ? Math.trunc(number) : null;
+    }
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim().replace(',', '.'));
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (/^(true|yes|y|1)$/i.test(String(value).trim())) return true;
+      if (/^(false|no|n|0)$/i.test(String(value).trim())) return false;
+      return null;
+    case 'date': {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value) ? value : null;
+    case 'array':
+      return Array.isArray(value) ? value : [value];
+  }
+};
+
+export const applyFieldMapping = (properties: Record<string, any>, mapping?: FieldMapping): Record<string, any> => {
+  if (!mapping) return properties;
+
+  const mapped: Record<string, any> = {};
+
+  // Unmapped properties go first so a renamed field wins over a same-named original
+  if (!mapping.dropUnmapped) {
+    for (const [key, value] of Object.entries(properties)) {
+      if (!(key in mapping.fields)) mapped[key] = value;
+    }
+  }
+
+  for (const [source, entry] of Object.entries(mapping.fields)) {
+    if (entry === true) {
+      if (source in properties) mapped[source] = properties[source];
+      continue;
+    }
+    if (entry.drop || !(source in properties)) continue;
+
+    const value = properties[source];
+    mapped[entry.name || source] = entry.type ? castField(value, entry.type) : value;
+  }
+
+  return mapped;
+};
+
+const typeOfValue = (value: any): FieldType => {
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'object') return 'object';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string' && DATE.test(value) && !isNaN(Date.parse(value))) return 'date';
+  return 'string';
+};
+
+// Accumulates a property schema one feature at a time, so it works over streamed input
+export class SchemaBuilder {
+  private fields = new Map<string, { types: Set<FieldType>; nullCount: number; samples: any[] }>();
+  private count = 0;
+
+  add(properties: Record<string, any> | null | undefined) {
+    const values = properties || {};
+    this.count++;
+
+    for (const [name, value] of Object.entries(values)) {
+      let field = this.fields.get(name);
+      if (!field) {
+        // Features before this one didn't have the property at all
+        field = { types: new Set(), nullCount: this.count - 1, samples: [] };
+        this.fields.set(name, field);
+      }
+
+      if (value === null || value === undefined || value === '') {
+        field.nullCount++;
+        continue;
+      }
+      field.types.add(typeOfValue(value));
+      if (field.samples.length < SAMPLE_VALUES && !field.samples.some(sample => sample === value)) {
+        field.samples.push(value);
+      }
+    }
+
+    // Properties missing from this feature count as nulls
+    for (const [name, field] of this.fields) {
+      if (!(name in values)) field.nullCount++;
+    }
+  }
+
+  build(): FieldSchema[] {
+    return [...this.fields.entries()].map(([name, field]) => {
+      const types = [...field.types];
+      let type: FieldType = 'string';
+      if (types.length === 1) type = types[0];
+      else if (types.length === 2 && types.includes('integer') && types.includes('number')) type = 'number';
+
+      return { name, type, nullCount: field.nullCount, sampleValues: field.samples };
+    });
+  }
+}
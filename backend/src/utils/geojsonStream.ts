@@ -0,0 +1,154 @@
+// Streaming GeoJSON ingest: features are parsed one at a time and inserted in
+// batches inside a single transaction, so large files never sit in memory whole
+import fs from 'fs';
+import { pipeline } from 'stream';
+import { parser } from 'stream-json';
+import { pick } from 'stream-json/filters/Pick';
+import { streamArray } from 'stream-json/streamers/StreamArray';
+import { initializeDatabase } from '../database/connection';
+import { LayerModel } from '../models/Layer';
+import { FeatureModel } from '../models/Feature';
+import { ValidationError } from '../middleware/errorHandler';
+import { CreateFeatureRequest } from '../types/database';
+import { ImportTarget, ImportResult, ImportProgressCallback, resolveImportLayer, toFeatureRequest } from './gisImport';
+import { ImportValidator, checkFeatureStructure } from './geometryValidation';
+import { parseSRID, crsCode, wgs84Reprojector, STORAGE_SRID } from './projection';
+
+export interface StreamImportOptions {
+  batchSize?: number;
+  // Reported as bytes read against file size, since the feature count isn't known up front
+  onProgress?: ImportProgressCallback;
+}
+
+export interface StreamImportResult extends ImportResult {
+  nullGeometries: number;
+}
+
+const STREAM_BATCH_SIZE = 1000;
+
+// Only the top-level "features" array is materialised, one element at a time
+export const streamGeoJSONFeatures = (filePath: string) => {
+  const source = fs.createReadStream(filePath);
+  const features = pipeline(source, parser(), pick({ filter: 'features' }), streamArray(), () => undefined);
+  return { source, features: features as AsyncIterable<{ key: number; value: any }> };
+};
+
+// Pre-RFC 7946 files may declare a "crs" member; writers put it ahead of the
+// features, so the head of the file is enough to find it
+export const readGeoJSONCRS = async (filePath: string): Promise<string | null> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(64 * 1024), 0, 64 * 1024, 0);
+    const head = buffer.toString('utf8', 0, bytesRead);
+    const match = /"crs"\s*:\s*\{[^{}]*"properties"\s*:\s*\{[^{}]*"name"\s*:\s*"([^"]+)"/.exec(head.split(/"features"\s*:/)[0]);
+    if (!match) return null;
+
+    // urn:ogc:def:crs:EPSG::3857, EPSG:3857, urn:ogc:def:crs:OGC:1.3:CRS84
+    try {
+      return crsCode(parseSRID(match[1]));
+    } catch {
+      return match[1];
+    }
+  } finally {
+    await handle.close();
+  }
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// target.onInvalid decides whether a bad feature rolls the whole import back
+// ('abort', the default) or is skipped and reported ('skip'). Coordinates are
+// reprojected from the file's "crs" member, else from target.sourceSrid.
+export const importGeoJSONFile = async (
+  filePath: string,
+  target: ImportTarget,
+  ownerId: string,
+  options: StreamImportOptions = {}
+): Promise<StreamImportResult> => {
+  const { batchSize = STREAM_BATCH_SIZE, onProgress } = options;
+  const { size } = await fs.promises.stat(filePath);
+
+  const declaredCRS = await readGeoJSONCRS(filePath);
+  const reproject = await wgs84Reprojector(declaredCRS ? parseSRID(declaredCRS) : target.sourceSrid ?? STORAGE_SRID);
+
+  const { layer, created } = await resolveImportLayer(target, ownerId);
+
+  const validator = new ImportValidator(target.geometryPolicy, target.onInvalid);
+  let featureCount = 0;
+  let nullGeometries = 0;
+
+  try {
+    await initializeDatabase().transaction(async client => {
+      const { source, features } = streamGeoJSONFeatures(filePath);
+
+      let batch: Array<{ index: number; request: CreateFeatureRequest }> = [];
+
+      // A batch that PostGIS rejects is retried row by row under savepoints so
+      // only the offending features are dropped (or named, when aborting)
+      const flush = async () => {
+        if (batch.length === 0) return;
+        const rows = await validator.checkBatch(batch, client);
+        batch = [];
+
+        await client.query('SAVEPOINT feature_batch');
+        try {
+          featureCount += await FeatureModel.insertBatch(rows.map(row => row.request), ownerId, client);
+          await client.query('RELEASE SAVEPOINT feature_batch');
+          return;
+        } catch {
+          await client.query('ROLLBACK TO SAVEPOINT feature_batch');
+        }
+
+        for (const row of rows) {
+          await client.query('SAVEPOINT feature_row');
+          try {
+            featureCount += await FeatureModel.insertBatch([row.request], ownerId, client);
+            await client.query('RELEASE SAVEPOINT feature_row');
+          } catch (error) {
+            await client.query('ROLLBACK TO SAVEPOINT feature_row');
+            validator.reject(row.index, errorMessage(error));
+          }
+        }
+      };
+
+      let total = 0;
+      for await (const { key, value } of features) {
+        total++;
+        if (value && value.type === 'Feature' && value.geometry === null) {
+          nullGeometries++;
+          continue;
+        }
+
+        const error = checkFeatureStructure(value);
+        if (error) {
+          validator.reject(key, error);
+          continue;
+        }
+
+        const feature = reproject ? { ...value, geometry: reproject(value.geometry) } : value;
+        batch.push({ index: key, request: toFeatureRequest(feature, layer.id, target.fieldMapping) });
+        if (batch.length >= batchSize) {
+          await flush();
+          await onProgress?.(source.bytesRead, size);
+        }
+      }
+
+      await flush();
+
+      if (total === 0) {
+        throw new ValidationError('No features found; expected a GeoJSON FeatureCollection');
+      }
+      await onProgress?.(size, size);
+    });
+  } catch (error) {
+    // The transaction already rolled back the features; drop the layer too if it's ours
+    if (created) {
+      await LayerModel.delete(layer.id, ownerId).catch(cleanupError => {
+        console.error('Failed to clean up layer after import error:', cleanupError);
+      });
+    }
+    throw error;
+  }
+
+  return { layer, featureCount, created, nullGeometries, ...validator.report() };
+};
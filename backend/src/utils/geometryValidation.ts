@@ -0,0 +1,290 @@
+// Geometry validation for every feature write: structural checks in JS, then
+// PostGIS validity, SRID and coordinate range checks, with optional ST_MakeValid repair
+import { initializeDatabase, Queryable } from '../database/connection';
+import { ValidationError } from '../middleware/errorHandler';
+import { GeoJSONGeometry, CreateFeatureRequest } from '../types/database';
+import { STORAGE_SRID } from './projection';
+
+// 'reject' refuses invalid geometries, 'repair' runs ST_MakeValid on them and
+// 'accept' stores them unchanged (the behaviour before validation existed)
+export type GeometryPolicy = 'reject' | 'repair' | 'accept';
+
+export const GEOMETRY_POLICIES: GeometryPolicy[] = ['reject', 'repair', 'accept'];
+export const DEFAULT_GEOMETRY_POLICY: GeometryPolicy = 'reject';
+
+// For multi-feature writes: 'skip' drops rejected features and reports them;
+// 'abort' fails the whole write
+export type InvalidFeatureMode = 'skip' | 'abort';
+
+export interface InvalidFeature {
+  index: number; // position in the submitted features
+  error: string;
+}
+
+export interface GeometryIssue {
+  index: number;
+  reason: string;
+  action: 'repaired' | 'accepted' | 'rejected';
+  repairedType?: string; // geometry type after ST_MakeValid, which may differ (Polygon -> MultiPolygon)
+}
+
+export interface GeometryCheck {
+  geometry: GeoJSONGeometry | null; // null when rejected
+  issue?: GeometryIssue;
+}
+
+export interface GeometrySummary {
+  policy: GeometryPolicy;
+  repaired: number;
+  accepted: number;
+  rejected: number;
+  issues: GeometryIssue[];
+}
+
+const MAX_REPORTED_ISSUES = 1000;
+
+export class GeometryValidationError extends ValidationError {
+  constructor(message: string, public issues: GeometryIssue[]) {
+    super(message, issues);
+  }
+}
+
+export const parseGeometryPolicy = (value: unknown): GeometryPolicy => {
+  if (value === undefined || value === null || value === '') return DEFAULT_GEOMETRY_POLICY;
+  if (!GEOMETRY_POLICIES.includes(value as GeometryPolicy)) {
+    throw new Error(`geometryPolicy must be one of ${GEOMETRY_POLICIES.join(', ')}`);
+  }
+  return value as GeometryPolicy;
+};
+
+// Nesting depth of the coordinates array for each geometry type
+const COORDINATE_DEPTH: Record<string, number> = {
+  Point: 0,
+  MultiPoint: 1,
+  LineString: 1,
+  MultiLineString: 2,
+  Polygon: 2,
+  MultiPolygon: 3,
+};
+
+const isPosition = (value: any) =>
+  Array.isArray(value) && value.length >= 2 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const checkCoordinates = (coordinates: any, depth: number): boolean => {
+  if (depth === 0) return isPosition(coordinates);
+  return Array.isArray(coordinates) && coordinates.every(item => checkCoordinates(item, depth - 1));
+};
+
+// Shape checks that must pass before PostGIS can even parse the geometry; these
+// can't be repaired and are rejected whatever the policy
+export const checkGeometryStructure = (geometry: GeoJSONGeometry): string | null => {
+  if (!geometry || typeof geometry !== 'object' || typeof geometry.type !== 'string') {
+    return 'Geometry has no type';
+  }
+
+  if (geometry.type === 'GeometryCollection') {
+    if (!Array.isArray(geometry.geometries)) return 'GeometryCollection has no geometries';
+    for (const member of geometry.geometries) {
+      const error = checkGeometryStructure(member);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  const depth = COORDINATE_DEPTH[geometry.type];
+  if (depth === undefined) return `Unknown geometry type ${geometry.type}`;
+  if (!checkCoordinates(geometry.coordinates, depth)) return `Invalid ${geometry.type} coordinates`;
+
+  if (geometry.type === 'LineString' && geometry.coordinates.length < 2) {
+    return 'LineString needs at least 2 positions';
+  }
+  if (geometry.type === 'Polygon' && geometry.coordinates.some((ring: any[]) => ring.length < 4)) {
+    return 'Polygon rings need at least 4 positions';
+  }
+  return null;
+};
+
+export const checkFeatureStructure = (feature: any): string | null => {
+  if (!feature || typeof feature !== 'object' || feature.type !== 'Feature') {
+    return 'Not a GeoJSON Feature';
+  }
+  if (feature.properties !== undefined && feature.properties !== null && typeof feature.properties !== 'object') {
+    return 'Feature properties must be an object';
+  }
+  return checkGeometryStructure(feature.geometry);
+};
+
+// One round trip per batch. A geometry-level "crs" member yields its own SRID;
+// anything but 0/4326 is a mismatch that repair fixes with ST_Transform. The
+// repair keeps the input's dimension so a bad polygon doesn't come back as a
+// collection of lines.
+const VALIDATION_QUERY = `
+  WITH input AS (
+    SELECT (t.ordinality - 1)::int AS index, ST_GeomFromGeoJSON(t.value) AS geom
+    FROM unnest($1::text[]) WITH ORDINALITY AS t(value, ordinality)
+  ),
+  checked AS (
+    SELECT
+      index,
+      ST_SRID(geom) AS srid,
+      CASE WHEN ST_SRID(geom) IN (0, ${STORAGE_SRID}) THEN ST_SetSRID(geom, ${STORAGE_SRID})
+           WHEN $2 THEN ST_Transform(geom, ${STORAGE_SRID})
+           ELSE geom END AS geom
+    FROM input
+  ),
+  validated AS (
+    SELECT
+      index,
+      srid,
+      geom,
+      ST_IsValid(geom) AS valid,
+      CASE WHEN NOT ST_IsValid(geom) THEN ST_IsValidReason(geom) END AS reason
+    FROM checked
+  ),
+  repaired AS (
+    SELECT
+      index, srid, valid, reason,
+      CASE WHEN $2 AND NOT valid THEN
+        CASE WHEN GeometryType(geom) = 'GEOMETRYCOLLECTION' THEN ST_MakeValid(geom)
+             ELSE ST_CollectionExtract(ST_MakeValid(geom), ST_Dimension(geom) + 1) END
+      END AS fixed,
+      geom
+    FROM validated
+  )
+  SELECT
+    index,
+    srid,
+    valid,
+    reason,
+    ST_XMin(COALESCE(fixed, geom)) >= -180 AND ST_XMax(COALESCE(fixed, geom)) <= 180
+      AND ST_YMin(COALESCE(fixed, geom)) >= -90 AND ST_YMax(COALESCE(fixed, geom)) <= 90 AS in_range,
+    CASE WHEN fixed IS NOT NULL AND NOT ST_IsEmpty(fixed) THEN ST_AsGeoJSON(fixed)::json END AS fixed_geojson,
+    CASE WHEN srid NOT IN (0, ${STORAGE_SRID}) AND $2 THEN ST_AsGeoJSON(geom)::json END AS transformed_geojson
+  FROM repaired
+  ORDER BY index
+`;
+
+export const validateGeometries = async (
+  geometries: GeoJSONGeometry[],
+  policy: GeometryPolicy,
+  client: Queryable = initializeDatabase()
+): Promise<GeometryCheck[]> => {
+  const checks: GeometryCheck[] = geometries.map(geometry => ({ geometry }));
+
+  // Structurally broken geometries never reach PostGIS, which would fail the whole batch
+  const pending: number[] = [];
+  geometries.forEach((geometry, index) => {
+    const error = checkGeometryStructure(geometry);
+    if (error) {
+      checks[index] = { geometry: null, issue: { index, reason: error, action: 'rejected' } };
+    } else {
+      pending.push(index);
+    }
+  });
+
+  if (pending.length === 0) return checks;
+
+  const result = await client.query(VALIDATION_QUERY, [
+    pending.map(index => JSON.stringify(geometries[index])),
+    policy === 'repair',
+  ]);
+
+  for (const row of result.rows) {
+    const index = pending[row.index];
+    const reasons: string[] = [];
+    if (row.srid !== 0 && row.srid !== STORAGE_SRID) reasons.push(`SRID ${row.srid} does not match ${STORAGE_SRID}`);
+    if (!row.valid && row.reason) reasons.push(row.reason);
+    if (!row.in_range) reasons.push('Coordinates outside EPSG:4326 bounds');
+    if (reasons.length === 0) continue;
+
+    const reason = reasons.join('; ');
+
+    if (policy === 'accept') {
+      checks[index] = { geometry: geometries[index], issue: { index, reason, action: 'accepted' } };
+      continue;
+    }
+
+    // Out-of-range coordinates and failed repairs can't be fixed here
+    const repaired = row.fixed_geojson || (row.valid ? row.transformed_geojson : null);
+    if (policy === 'repair' && repaired && row.in_range) {
+      checks[index] = {
+        geometry: repaired,
+        issue: { index, reason, action: 'repaired', repairedType: repaired.type },
+      };
+      continue;
+    }
+
+    checks[index] = { geometry: null, issue: { index, reason, action: 'rejected' } };
+  }
+
+  return checks;
+};
+
+// Single-feature writes: the checked geometry, or a GeometryValidationError
+export const validateGeometry = async (
+  geometry: GeoJSONGeometry,
+  policy: GeometryPolicy,
+  client?: Queryable
+): Promise<GeometryCheck> => {
+  const [check] = await validateGeometries([geometry], policy, client);
+  if (!check.geometry) {
+    throw new GeometryValidationError(`Invalid geometry: ${check.issue!.reason}`, [check.issue!]);
+  }
+  return check;
+};
+
+export interface ImportValidationReport {
+  skipped: number;
+  errors: InvalidFeature[];
+  geometry: GeometrySummary;
+}
+
+// Applies the geometry policy to an import batch by batch. Rejected features
+// either abort the import or are skipped and reported, depending on onInvalid.
+export class ImportValidator {
+  private skipped = 0;
+  private errors: InvalidFeature[] = [];
+  private summary: GeometrySummary;
+
+  constructor(private policy: GeometryPolicy = DEFAULT_GEOMETRY_POLICY, private onInvalid: InvalidFeatureMode = 'abort') {
+    this.summary = { policy, repaired: 0, accepted: 0, rejected: 0, issues: [] };
+  }
+
+  reject(index: number, error: string) {
+    if (this.onInvalid === 'abort') {
+      throw new ValidationError(`Feature ${index} is invalid: ${error}`, { index });
+    }
+    this.skipped++;
+    if (this.errors.length < MAX_REPORTED_ISSUES) {
+      this.errors.push({ index, error });
+    }
+  }
+
+  // Returns the rows to insert, with repaired geometries swapped in
+  async checkBatch<T extends { index: number; request: CreateFeatureRequest }>(rows: T[], client?: Queryable): Promise<T[]> {
+    const checks = await validateGeometries(rows.map(row => row.request.geometry), this.policy, client);
+    const accepted: T[] = [];
+
+    checks.forEach((check, i) => {
+      const { index } = rows[i];
+      if (check.issue) {
+        this.summary[check.issue.action]++;
+        if (this.summary.issues.length < MAX_REPORTED_ISSUES) {
+          this.summary.issues.push({ ...check.issue, index });
+        }
+      }
+
+      if (check.geometry) {
+        accepted.push({ ...rows[i], request: { ...rows[i].request, geometry: check.geometry } });
+      } else {
+        this.reject(index, check.issue!.reason);
+      }
+    });
+
+    return accepted;
+  }
+
+  report(): ImportValidationReport {
+    return { skipped: this.skipped, errors: this.errors, geometry: this.summary };
+  }
+}
@@ -0,0 +1,256 @@
+// Writing features as an OGC GeoPackage: an SQLite database (built in memory with
+// sql.js) holding one feature table, in EPSG:4326 unless another CRS is given
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import { GeoJSONFeature, GeoJSONGeometry } from '../types/database';
+import { SchemaBuilder, FieldType } from './fieldMapping';
+import { CRSInfo, STORAGE_SRID } from './projection';
+
+const GPKG_APPLICATION_ID = 0x47504b47; // "GPKG"
+const GPKG_VERSION = 10300; // 1.3.0
+
+const WKB_TYPES: Record<string, number> = {
+  Point: 1,
+  LineString: 2,
+  Polygon: 3,
+  MultiPoint: 4,
+  MultiLineString: 5,
+  MultiPolygon: 6,
+  GeometryCollection: 7,
+};
+
+const WGS84_DEFINITION =
+  'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],' +
+  'AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],' +
+  'UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+const SCHEMA = `
+  CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL PRIMARY KEY,
+    organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL,
+    definition TEXT NOT NULL,
+    description TEXT
+  );
+  CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY,
+    data_type TEXT NOT NULL,
+    identifier TEXT UNIQUE,
+    description TEXT DEFAULT '',
+    last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE,
+    srs_id INTEGER,
+    CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id)
+  );
+  CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL,
+    column_name TEXT NOT NULL,
+    geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL,
+    z TINYINT NOT NULL,
+    m TINYINT NOT NULL,
+    CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name),
+    CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),
+    CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id)
+  );
+  INSERT INTO gpkg_spatial_ref_sys VALUES
+    ('Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', 'undefined cartesian coordinate reference system'),
+    ('Undefined geographic SRS', 0, 'NONE', 0, 'undefined', 'undefined geographic coordinate reference system'),
+    ('WGS 84 geodetic', 4326, 'EPSG', 4326, '${WGS84_DEFINITION}', 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid');
+`;
+
+const SQLITE_TYPES: Record<FieldType, string> = {
+  integer: 'INTEGER',
+  number: 'DOUBLE',
+  boolean: 'BOOLEAN',
+  date: 'TEXT',
+  string: 'TEXT',
+  object: 'TEXT',
+  array: 'TEXT',
+};
+
+// The wasm module is loaded once, on first export
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+// Little-endian WKB
+const writeWKB = (geometry: GeoJSONGeometry): Buffer => {
+  const parts: Buffer[] = [];
+
+  const header = (type: string) => {
+    const buffer = Buffer.alloc(5);
+    buffer.writeUInt8(1, 0);
+    buffer.writeUInt32LE(WKB_TYPES[type], 1);
+    parts.push(buffer);
+  };
+  const count = (n: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(n, 0);
+    parts.push(buffer);
+  };
+  const positions = (list: number[][]) => {
+    const buffer = Buffer.alloc(16 * list.length);
+    list.forEach(([x, y], i) => {
+      buffer.writeDoubleLE(x, 16 * i);
+      buffer.writeDoubleLE(y, 16 * i + 8);
+    });
+    parts.push(buffer);
+  };
+  const rings = (list: number[][][]) => {
+    count(list.length);
+    list.forEach(ring => {
+      count(ring.length);
+      positions(ring);
+    });
+  };
+
+  const write = (member: GeoJSONGeometry) => {
+    header(member.type);
+    switch (member.type) {
+      case 'Point':
+        positions([member.coordinates]);
+        break;
+      case 'LineString':
+        count(member.coordinates.length);
+        positions(member.coordinates);
+        break;
+      case 'Polygon':
+        rings(member.coordinates);
+        break;
+      case 'MultiPoint':
+        count(member.coordinates.length);
+        member.coordinates.forEach((coordinates: number[]) => write({ type: 'Point', coordinates }));
+        break;
+      case 'MultiLineString':
+        count(member.coordinates.length);
+        member.coordinates.forEach((coordinates: number[][]) => write({ type: 'LineString', coordinates }));
+        break;
+      case 'MultiPolygon':
+        count(member.coordinates.length);
+        member.coordinates.forEach((coordinates: number[][][]) => write({ type: 'Polygon', coordinates }));
+        break;
+      default:
+        count(member.geometries?.length || 0);
+        (member.geometries || []).forEach(write);
+    }
+  };
+
+  if (!WKB_TYPES[geometry.type]) throw new Error(`Unsupported geometry type ${geometry.type}`);
+  write(geometry);
+  return Buffer.concat(parts);
+};
+
+const geometryBounds = (geometry: GeoJSONGeometry, bounds = [Infinity, Infinity, -Infinity, -Infinity]) => {
+  const visit = (coordinates: any) => {
+    if (typeof coordinates[0] === 'number') {
+      bounds[0] = Math.min(bounds[0], coordinates[0]);
+      bounds[1] = Math.min(bounds[1], coordinates[1]);
+      bounds[2] = Math.max(bounds[2], coordinates[0]);
+      bounds[3] = Math.max(bounds[3], coordinates[1]);
+      return;
+    }
+    coordinates.forEach(visit);
+  };
+  if (geometry.type === 'GeometryCollection') {
+    (geometry.geometries || []).forEach(member => geometryBounds(member, bounds));
+  } else {
+    visit(geometry.coordinates);
+  }
+  return bounds;
+};
+
+// GeoPackage binary: "GP" header with SRS id and an xy envelope, then the WKB
+const writeGeoPackageGeometry = (geometry: GeoJSONGeometry, srid: number): Uint8Array => {
+  const [minX, minY, maxX, maxY] = geometryBounds(geometry);
+  const header = Buffer.alloc(40);
+  header.write('GP', 0, 'latin1');
+  header.writeUInt8(0, 2); // version 1
+  header.writeUInt8(0b00000011, 3); // little-endian, envelope [minx, maxx, miny, maxy]
+  header.writeInt32LE(srid, 4);
+  [minX, maxX, minY, maxY].forEach((value, i) => header.writeDoubleLE(value, 8 + 8 * i));
+  return Buffer.concat([header, writeWKB(geometry)]);
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const sqliteValue = (value: any, type: FieldType) => {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return typeof value === 'number' ? value : null;
+    case 'boolean':
+      return typeof value === 'boolean' ? (value ? 1 : 0) : null;
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+};
+
+export const writeGeoPackage = async (
+  name: string,
+  features: GeoJSONFeature[],
+  description?: string,
+  crs?: CRSInfo
+): Promise<Buffer> => {
+  sqlJs = sqlJs || initSqlJs();
+  const SQL = await sqlJs;
+  const db = new SQL.Database();
+  const srid = crs?.srid ?? STORAGE_SRID;
+
+  try {
+    db.run(`PRAGMA application_id = ${GPKG_APPLICATION_ID}`);
+    db.run(`PRAGMA user_version = ${GPKG_VERSION}`);
+    db.exec(SCHEMA);
+    if (crs && srid !== STORAGE_SRID) {
+      db.run('INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?)', [crs.name, srid, 'EPSG', srid, crs.wkt, crs.code]);
+    }
+
+    const tableName = name.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=\d)|^$/, 'layer_');
+    const schema = new SchemaBuilder();
+    features.forEach(feature => schema.add(feature.properties));
+
+    // Column names are matched case-insensitively by SQLite; later duplicates are dropped
+    const reserved = new Set(['fid', 'geom']);
+    const fields = schema.build().filter(field => {
+      const key = field.name.toLowerCase();
+      if (reserved.has(key)) return false;
+      reserved.add(key);
+      return true;
+    });
+
+    const geometryTypes = new Set(features.map(feature => feature.geometry.type));
+    const geometryTypeName = geometryTypes.size === 1 ? [...geometryTypes][0].toUpperCase() : 'GEOMETRY';
+
+    db.run(`CREATE TABLE ${quoteIdentifier(tableName)} (
+      fid INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+      geom ${geometryTypeName}
+      ${fields.map(field => `, ${quoteIdentifier(field.name)} ${SQLITE_TYPES[field.type]}`).join('')}
+    )`);
+
+    const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+    const insert = db.prepare(`INSERT INTO ${quoteIdentifier(tableName)} (geom${fields.map(field => `, ${quoteIdentifier(field.name)}`).join('')})
+      VALUES (?${', ?'.repeat(fields.length)})`);
+
+    db.run('BEGIN');
+    for (const feature of features) {
+      geometryBounds(feature.geometry, bounds);
+      insert.run([
+        writeGeoPackageGeometry(feature.geometry, srid),
+        ...fields.map(field => sqliteValue(feature.properties[field.name], field.type)),
+      ]);
+    }
+    db.run('COMMIT');
+    insert.free();
+
+    const hasBounds = features.length > 0;
+    db.run('INSERT INTO gpkg_contents (table_name, data_type, identifier, description, min_x, min_y, max_x, max_y, srs_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+      tableName, 'features', name, description || '',
+      ...(hasBounds ? bounds : [null, null, null, null]),
+      srid,
+    ]);
+    db.run('INSERT INTO gpkg_geometry_columns VALUES (?, ?, ?, ?, 0, 0)', [tableName, 'geom', geometryTypeName, srid]);
+
+    return Buffer.from(db.export());
+  } finally {
+    db.close();
+  }
+};
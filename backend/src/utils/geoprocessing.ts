@@ -0,0 +1,710 @@
+// Geoprocessing operations run in PostGIS. Each one reads the features of an input
+// layer (optionally narrowed to chosen feature ids and a CQL2 filter) and writes its
+// results to a new layer in a single transaction, so a failed job leaves no partial
+// layer behind.
+//
+// Attributes carry over as follows:
+// - buffer, difference, clip: each result keeps its input feature's name, description
+//   and properties
+// - union: a single feature with a `count` of the features merged
+// - dissolve: one feature per distinct value of `field`, named after the value, with
+//   that property and `count`
+// - intersection: one feature per overlapping input/overlay pair with the input's name,
+//   description and properties, then the overlay's properties (keys the input already
+//   has get an `_overlay` suffix) and `overlay_name`
+// - join: each input feature keeps its name, description and properties and gains
+//   either the aggregates of the join-layer features it intersects, or the properties
+//   of the nearest join-layer feature (clashing keys get a `_join` suffix) with
+//   `join_name` and `join_distance` in metres. Joins can write to the input layer's
+//   own features instead of a new layer
+// - centroid, simplify: each result keeps its input feature's name, description and
+//   properties
+// - hull: a single feature with a `count` of the features enclosed
+// - voronoi: one cell per input feature with its name, description and properties;
+//   features at the same point share a cell, which takes one of them
+// - delaunay: triangles without attributes
+// Voronoi and Delaunay take points: lines and polygons count as a point on their
+// surface.
+// Overlay results keep the lower dimension of the two geometries, so polygons cut by
+// polygons stay polygons instead of picking up slivers of shared edges. Results that
+// come out empty are dropped.
+import { LayerModel } from '../models/Layer';
+import { ProjectModel } from '../models/Project';
+import { initializeDatabase, Queryable } from '../database/connection';
+import { GeoJSONGeometry, GeoprocessingOperation, Layer, ProcessingJob } from '../types/database';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { CQL2Expression, parseCQL2 } from './cql2';
+import { buildFeatureFilter } from './featureFilter';
+import { checkGeometryStructure } from './geometryValidation';
+import { resolveCRS, wgs84Reprojector } from './projection';
+
+export const GEOPROCESSING_OPERATIONS: GeoprocessingOperation[] = [
+  'buffer', 'union', 'dissolve', 'intersection', 'difference', 'clip', 'join',
+  'hull', 'centroid', 'voronoi', 'delaunay', 'simplify',
+];
+
+export type JoinType = 'intersects' | 'nearest';
+export type JoinAggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+// Without a field, count counts the intersecting features; the others need a
+// numeric property. name is the output property (default e.g. "sum_population")
+export interface JoinAggregate {
+  function: JoinAggregateFunction;
+  field?: string;
+  name: string;
+}
+
+// Stored as processing_jobs.parameters; geometry is already in WGS84
+export interface GeoprocessingParameters {
+  layerId: string;
+  featureIds?: string[]; // only these features of the input layer
+  filter?: CQL2Expression;
+  outputName?: string;
+  distance?: number; // buffer, metres
+  segments?: number; // buffer, segments per quarter circle
+  field?: string; // dissolve
+  overlayLayerId?: string; // intersection, difference, clip
+  geometry?: GeoJSONGeometry; // clip
+  joinLayerId?: string; // join
+  join?: JoinType;
+  aggregates?: JoinAggregate[]; // intersects joins
+  maxDistance?: number; // nearest joins, metres
+  addToInput?: boolean; // joins: update the input features instead
+  concavity?: number; // hull, 0 for the convex hull up to 1 for the tightest
+  pointOnSurface?: boolean; // centroid: a point guaranteed to lie on the feature
+  tolerance?: number; // simplify, metres
+  preserveTopology?: boolean; // simplify: false for plain Douglas-Peucker
+}
+
+export interface GeoprocessingRequest {
+  parameters: GeoprocessingParameters;
+  projectId?: string;
+}
+
+export interface GeoprocessingResult {
+  layer: Layer;
+  featureCount: number;
+}
+
+export const MAX_BUFFER_DISTANCE = 100000;
+const DEFAULT_SEGMENTS = 8;
+const MAX_SEGMENTS = 64;
+const MAX_JOIN_DISTANCE = 100000;
+const MAX_JOIN_AGGREGATES = 20;
+const MAX_FEATURE_IDS = 10000;
+const MAX_SIMPLIFY_TOLERANCE = 100000;
+
+// Metres to a degree of latitude, for simplifying in degrees
+const METRES_PER_DEGREE = 111320;
+
+const JOIN_TYPES: JoinType[] = ['intersects', 'nearest'];
+const JOIN_AGGREGATE_FUNCTIONS: JoinAggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+// Nearest joins rank this many candidates by sphere distance, then pick the nearest
+// on the spheroid, since the two orders can differ slightly
+const NEAREST_CANDIDATES = 16;
+
+// Input features are processed in batches of ids so progress can be reported
+const BATCH_SIZE = 500;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const OVERLAY_OPERATIONS: GeoprocessingOperation[] = ['intersection', 'difference', 'clip'];
+
+const LAYER_LABELS: Record<string, string> = {
+  layerId: 'Layer',
+  overlayLayerId: 'Overlay layer',
+  joinLayerId: 'Join layer',
+};
+
+const findVectorLayer = async (layerId: unknown, ownerId: string, label: string): Promise<Layer> => {
+  if (typeof layerId !== 'string' || !UUID.test(layerId)) {
+    throw new ValidationError(`${label} must be a layer id`);
+  }
+  const layer = await LayerModel.findById(layerId, ownerId);
+  if (!layer) throw new NotFoundError(`${LAYER_LABELS[label]} not found`);
+  if (layer.type !== 'vector') throw new ValidationError(`${label} must be a vector layer`);
+  return layer;
+};
+
+const parseJoinAggregates = (value: unknown): JoinAggregate[] => {
+  if (value === undefined) return [{ function: 'count', name: 'count' }];
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_JOIN_AGGREGATES) {
+    throw new ValidationError(`aggregates must be a list of 1 to ${MAX_JOIN_AGGREGATES} aggregates`);
+  }
+
+  const aggregates = value.map((entry, index): JoinAggregate => {
+    const { function: fn, field, name } = entry || {};
+    if (!JOIN_AGGREGATE_FUNCTIONS.includes(fn)) {
+      throw new ValidationError(`aggregates[${index}].function must be one of ${JOIN_AGGREGATE_FUNCTIONS.join(', ')}`);
+    }
+    if (field !== undefined && (typeof field !== 'string' || !field.trim())) {
+      throw new ValidationError(`aggregates[${index}].field must be a property name`);
+    }
+    if (fn !== 'count' && field === undefined) {
+      throw new ValidationError(`aggregates[${index}] needs a field to ${fn}`);
+    }
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.trim().length > 255)) {
+      throw new ValidationError(`aggregates[${index}].name must be a name of up to 255 characters`);
+    }
+    return {
+      function: fn,
+      field: field?.trim(),
+      name: name?.trim() || (field ? `${fn}_${field.trim()}` : fn),
+    };
+  });
+
+  const names = aggregates.map(aggregate => aggregate.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) throw new ValidationError(`aggregates give ${duplicate} more than once; set a name on each`);
+  return aggregates;
+};
+
+// Checks a request body against the operation; layers and the project must be
+// visible to the user. Throws ValidationError or NotFoundError.
+export const parseGeoprocessingRequest = async (
+  operation: string,
+  body: any,
+  ownerId: string
+): Promise<GeoprocessingRequest> => {
+  if (!GEOPROCESSING_OPERATIONS.includes(operation as GeoprocessingOperation)) {
+    throw new ValidationError(`operation must be one of ${GEOPROCESSING_OPERATIONS.join(', ')}`);
+  }
+  const {
+    layerId, featureIds, filter, outputName, projectId, distance, segments, field, overlayLayerId, geometry, srs,
+    joinLayerId, join, aggregates, maxDistance, addToInput, concavity, pointOnSurface, tolerance, preserveTopology,
+  } = body || {};
+
+  const input = await findVectorLayer(layerId, ownerId, 'layerId');
+  const parameters: GeoprocessingParameters = { layerId: input.id };
+
+  if (featureIds !== undefined) {
+    if (!Array.isArray(featureIds) || featureIds.length === 0 || featureIds.length > MAX_FEATURE_IDS
+      || !featureIds.every(id => typeof id === 'string' && UUID.test(id))) {
+      throw new ValidationError(`featureIds must be a list of 1 to ${MAX_FEATURE_IDS} feature ids`);
+    }
+    parameters.featureIds = [...new Set<string>(featureIds)];
+  }
+
+  if (filter !== undefined && filter !== null && filter !== '') {
+    parameters.filter = parseCQL2(filter);
+  }
+
+  if (outputName !== undefined) {
+    if (typeof outputName !== 'string' || !outputName.trim() || outputName.trim().length > 255) {
+      throw new ValidationError('outputName must be a name of up to 255 characters');
+    }
+    parameters.outputName = outputName.trim();
+  }
+
+  if (projectId !== undefined) {
+    if (typeof projectId !== 'string' || !UUID.test(projectId)) {
+      throw new ValidationError('projectId must be a project id');
+    }
+    if (!await ProjectModel.findById(projectId, ownerId)) throw new NotFoundError('Project not found');
+  }
+
+  switch (operation as GeoprocessingOperation) {
+    case 'buffer':
+      if (typeof distance !== 'number' || !Number.isFinite(distance) || distance <= 0 || distance > MAX_BUFFER_DISTANCE) {
+        throw new ValidationError(`distance must be a distance in metres above 0 and up to ${MAX_BUFFER_DISTANCE}`);
+      }
+      if (segments !== undefined && (!Number.isInteger(segments) || segments < 1 || segments > MAX_SEGMENTS)) {
+        throw new ValidationError(`segments must be a whole number from 1 to ${MAX_SEGMENTS}`);
+      }
+      parameters.distance = distance;
+      parameters.segments = segments ?? DEFAULT_SEGMENTS;
+      break;
+
+    case 'dissolve':
+      if (typeof field !== 'string' || !field.trim()) {
+        throw new ValidationError('field is required to dissolve by');
+      }
+      parameters.field = field.trim();
+      break;
+
+    case 'clip':
+      if (!overlayLayerId === !geometry) {
+        throw new ValidationError('Give either an overlayLayerId or a geometry to clip to');
+      }
+      if (geometry) {
+        const structureError = checkGeometryStructure(geometry);
+        if (structureError) throw new ValidationError(`Invalid geometry: ${structureError}`);
+        if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') {
+          throw new ValidationError('geometry must be a Polygon or MultiPolygon');
+        }
+        const reproject = await wgs84Reprojector((await resolveCRS(srs)).srid);
+        parameters.geometry = reproject ? reproject(geometry) : geometry;
+      }
+      break;
+
+    case 'join': {
+      const joinLayer = await findVectorLayer(joinLayerId, ownerId, 'joinLayerId');
+      parameters.joinLayerId = joinLayer.id;
+
+      if (join !== undefined && !JOIN_TYPES.includes(join)) {
+        throw new ValidationError(`join must be one of ${JOIN_TYPES.join(', ')}`);
+      }
+      parameters.join = join ?? 'intersects';
+
+      if (parameters.join === 'nearest') {
+        if (aggregates !== undefined) throw new ValidationError('aggregates only apply to intersects joins');
+        if (maxDistance !== undefined) {
+          if (typeof maxDistance !== 'number' || !Number.isFinite(maxDistance) || maxDistance <= 0 || maxDistance > MAX_JOIN_DISTANCE) {
+            throw new ValidationError(`maxDistance must be a distance in metres above 0 and up to ${MAX_JOIN_DISTANCE}`);
+          }
+          parameters.maxDistance = maxDistance;
+        }
+      } else {
+        if (maxDistance !== undefined) throw new ValidationError('maxDistance only applies to nearest joins');
+        parameters.aggregates = parseJoinAggregates(aggregates);
+      }
+
+      if (addToInput !== undefined && typeof addToInput !== 'boolean') {
+        throw new ValidationError('addToInput must be true or false');
+      }
+      if (addToInput) {
+        if (outputName !== undefined || projectId !== undefined) {
+          throw new ValidationError('outputName and projectId do not apply when adding to the input layer');
+        }
+        parameters.addToInput = true;
+      }
+      break;
+    }
+
+    case 'hull':
+      if (concavity !== undefined && (typeof concavity !== 'number' || !(concavity >= 0 && concavity <= 1))) {
+        throw new ValidationError('concavity must be a number from 0 (convex) to 1');
+      }
+      parameters.concavity = concavity ?? 0;
+      break;
+
+    case 'centroid':
+      if (pointOnSurface !== undefined && typeof pointOnSurface !== 'boolean') {
+        throw new ValidationError('pointOnSurface must be true or false');
+      }
+      parameters.pointOnSurface = pointOnSurface ?? false;
+      break;
+
+    case 'simplify':
+      if (typeof tolerance !== 'number' || !Number.isFinite(tolerance) || tolerance <= 0 || tolerance > MAX_SIMPLIFY_TOLERANCE) {
+        throw new ValidationError(`tolerance must be a distance in metres above 0 and up to ${MAX_SIMPLIFY_TOLERANCE}`);
+      }
+      if (preserveTopology !== undefined && typeof preserveTopology !== 'boolean') {
+        throw new ValidationError('preserveTopology must be true or false');
+      }
+      parameters.tolerance = tolerance;
+      parameters.preserveTopology = preserveTopology ?? true;
+      break;
+  }
+
+  if (OVERLAY_OPERATIONS.includes(operation as GeoprocessingOperation) && !parameters.geometry) {
+    if (overlayLayerId === undefined) throw new ValidationError(`overlayLayerId is required for ${operation}`);
+    const overlay = await findVectorLayer(overlayLayerId, ownerId, 'overlayLayerId');
+    parameters.overlayLayerId = overlay.id;
+  }
+
+  return { parameters, projectId: projectId ?? input.project_id };
+};
+
+const describeOperation = (operation: GeoprocessingOperation, parameters: GeoprocessingParameters) => {
+  switch (operation) {
+    case 'buffer':
+      return `buffer ${parameters.distance} m`;
+    case 'dissolve':
+      return `dissolve by ${parameters.field}`;
+    case 'join':
+      return parameters.join === 'nearest' ? 'nearest join' : 'spatial join';
+    case 'hull':
+      return parameters.concavity ? 'concave hull' : 'convex hull';
+    case 'centroid':
+      return parameters.pointOnSurface ? 'points on surface' : 'centroids';
+    case 'voronoi':
+      return 'Voronoi polygons';
+    case 'delaunay':
+      return 'Delaunay triangles';
+    case 'simplify':
+      return `simplify ${parameters.tolerance} m`;
+    default:
+      return operation;
+  }
+};
+
+// Columns written for every result; the SELECTs below supply them in this order,
+// with $1 the output layer and $2 the owner
+const INSERT_FEATURES = 'INSERT INTO features (layer_id, owner_id, name, description, geometry, properties)';
+
+// Parts of a geometry with the given topological dimension (0 point, 1 line, 2 polygon)
+const extractDimension = (geometry: string, dimension: string) =>
+  `ST_CollectionExtract(${geometry}, ${dimension} + 1)`;
+
+// Per-batch statements: $3 is the batch of input ids, operation values follow
+const BATCH_SQL: Partial<Record<GeoprocessingOperation, string>> = {
+  buffer: `
+    ${INSERT_FEATURES}
+    SELECT $1::uuid, $2::uuid, f.name, f.description,
+      ST_Buffer(f.geometry::geography, $4::double precision, $5::text)::geometry, f.properties
+    FROM features f
+    WHERE f.id = ANY($3::uuid[])
+  `,
+
+  intersection: `
+    ${INSERT_FEATURES}
+    SELECT $1::uuid, $2::uuid, f.name, f.description, r.geometry,
+      f.properties
+        || COALESCE((
+          SELECT jsonb_object_agg(CASE WHEN f.properties ? key THEN key || '_overlay' ELSE key END, value)
+          FROM jsonb_each(o.properties)
+        ), '{}'::jsonb)
+        || CASE WHEN o.name IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('overlay_name', o.name) END
+    FROM features f
+    JOIN features o ON o.layer_id = $4 AND ST_Intersects(f.geometry, o.geometry)
+    CROSS JOIN LATERAL (
+      SELECT ${extractDimension(
+        'ST_Intersection(ST_MakeValid(f.geometry), ST_MakeValid(o.geometry))',
+        'LEAST(ST_Dimension(f.geometry), ST_Dimension(o.geometry))'
+      )} AS geometry
+    ) r
+    WHERE f.id = ANY($3::uuid[]) AND NOT ST_IsEmpty(r.geometry)
+  `,
+
+  // Features no overlay touches are copied unchanged
+  difference: `
+    ${INSERT_FEATURES}
+    SELECT $1::uuid, $2::uuid, f.name, f.description, r.geometry, f.properties
+    FROM features f
+    CROSS JOIN LATERAL (
+      SELECT ${extractDimension(
+        'COALESCE(ST_Difference(ST_MakeValid(f.geometry), ST_Union(ST_MakeValid(o.geometry))), ST_MakeValid(f.geometry))',
+        'ST_Dimension(f.geometry)'
+      )} AS geometry
+      FROM features o
+      WHERE o.layer_id = $4 AND ST_Intersects(f.geometry, o.geometry)
+    ) r
+    WHERE f.id = ANY($3::uuid[]) AND NOT ST_IsEmpty(r.geometry)
+  `,
+
+  // $4 is the clip shape as EWKB, computed once per job
+  clip: `
+    ${INSERT_FEATURES}
+    SELECT $1::uuid, $2::uuid, f.name, f.description, r.geometry, f.properties
+    FROM features f
+    CROSS JOIN (SELECT $4::bytea::geometry AS geometry) c
+    CROSS JOIN LATERAL (
+      SELECT ${extractDimension('ST_Intersection(ST_MakeValid(f.geometry), c.geometry)', 'ST_Dimension(f.geometry)')} AS geometry
+    ) r
+    WHERE f.id = ANY($3::uuid[]) AND ST_Intersects(f.geometry, c.geometry) AND NOT ST_IsEmpty(r.geometry)
+  `,
+
+  // $4 picks a point on the surface over the centroid, which can fall outside
+  centroid: `
+    ${INSERT_FEATURES}
+    SELECT $1::uuid, $2::uuid, f.name, f.description,
+      CASE WHEN $4::boolean THEN ST_PointOnSurface(f.geometry) ELSE ST_Centroid(f.geometry) END, f.properties
+    FROM features f
+    WHERE f.id = ANY($3::uuid[])
+  `,
+
+  // $4 is the tolerance in metres, $5 whether to preserve topology. Each feature is
+  // simplified with its longitudes scaled by the cosine of its latitude, so the
+  // tolerance is about the same distance in every direction. Plain Douglas-Peucker
+  // can collapse a feature, which is then dropped.
+  simplify: `
+    ${INSERT_FEATURES}
+    SELECT $1::uuid, $2::uuid, f.name, f.description, r.geometry, f.properties
+    FROM features f
+    CROSS JOIN LATERAL (
+      SELECT GREATEST(cos(radians(ST_Y(ST_Centroid(f.geometry)))), 0.01) AS k,
+        $4::double precision / ${METRES_PER_DEGREE} AS tolerance
+    ) s
+    CROSS JOIN LATERAL (
+      SELECT ST_Scale(
+        CASE WHEN $5::boolean
+          THEN ST_SimplifyPreserveTopology(ST_Scale(f.geometry, s.k, 1), s.tolerance)
+          ELSE ST_Simplify(ST_Scale(f.geometry, s.k, 1), s.tolerance)
+        END,
+        1 / s.k, 1
+      ) AS geometry
+    ) r
+    WHERE f.id = ANY($3::uuid[]) AND r.geometry IS NOT NULL AND NOT ST_IsEmpty(r.geometry)
+  `,
+};
+
+// Statements over all the input features at once, with $3 their ids
+const COLLECTION_SQL: Partial<Record<GeoprocessingOperation, string>> = {
+  // $4 is the concavity; ST_ConcaveHull takes the share of the convex hull's area to keep
+  hull: `
+    ${INSERT_FEATURES}
+    SELECT $1::uuid, $2::uuid, NULL, NULL,
+      CASE WHEN $4::double precision = 0
+        THEN ST_ConvexHull(ST_Collect(f.geometry))
+        ELSE ST_ConcaveHull(ST_Collect(f.geometry), 1 - $4::double precision)
+      END,
+      jsonb_build_object('count', COUNT(*))
+    FROM features f
+    WHERE f.id = ANY($3::uuid[])
+  `,
+
+  voronoi: `
+    ${INSERT_FEATURES}
+    WITH sites AS (
+      SELECT f.id, f.name, f.description, f.properties, ST_PointOnSurface(f.geometry) AS geometry
+      FROM features f
+      WHERE f.id = ANY($3::uuid[])
+    ),
+    cells AS (
+      SELECT (ST_Dump(ST_VoronoiPolygons(ST_Collect(geometry)))).geom AS geometry FROM sites
+    )
+    SELECT $1::uuid, $2::uuid, s.name, s.description, c.geometry, s.properties
+    FROM cells c
+    CROSS JOIN LATERAL (
+      SELECT * FROM sites s WHERE ST_Intersects(c.geometry, s.geometry) ORDER BY s.id LIMIT 1
+    ) s
+  `,
+
+  delaunay: `
+    ${INSERT_FEATURES}
+    SELECT $1::uuid, $2::uuid, NULL, NULL, t.geom, '{}'::jsonb
+    FROM (
+      SELECT (ST_Dump(ST_DelaunayTriangles(ST_Collect(ST_PointOnSurface(f.geometry))))).geom
+      FROM features f
+      WHERE f.id = ANY($3::uuid[])
+    ) t
+  `,
+};
+
+// Raised when an operation over the whole input produces nothing
+const TOO_FEW_POINTS: Partial<Record<GeoprocessingOperation, string>> = {
+  voronoi: 'Voronoi polygons need at least two distinct points',
+  delaunay: 'Delaunay triangles need at least three points not all on one line',
+};
+
+// Join values for each input feature f: a LATERAL subquery over the other features
+// of the join layer ($4) and the properties it produces. Further values start at $5.
+const joinSQL = (parameters: GeoprocessingParameters): { lateral: string; properties: string; values: any[] } => {
+  const values: any[] = [];
+  const param = (value: any) => {
+    values.push(value);
+    return `$${4 + values.length}`;
+  };
+
+  if (parameters.join === 'nearest') {
+    const within = parameters.maxDistance !== undefined
+      ? `AND ST_DWithin(f.geometry::geography, b.geometry::geography, ${param(parameters.maxDistance)}::double precision)`
+      : '';
+    return {
+      lateral: `
+        LEFT JOIN LATERAL (
+          SELECT c.* FROM (
+            SELECT b.name, b.properties, ST_Distance(f.geometry::geography, b.geometry::geography) AS distance
+            FROM features b
+            WHERE b.layer_id = $4 AND b.id <> f.id ${within}
+            ORDER BY f.geometry::geography <-> b.geometry::geography
+            LIMIT ${NEAREST_CANDIDATES}
+          ) c
+          ORDER BY c.distance
+          LIMIT 1
+        ) n ON true
+      `,
+      properties: `
+        CASE WHEN n.distance IS NULL THEN f.properties ELSE
+          f.properties
+            || COALESCE((
+              SELECT jsonb_object_agg(CASE WHEN f.properties ? key THEN key || '_join' ELSE key END, value)
+              FROM jsonb_each(n.properties)
+            ), '{}'::jsonb)
+            || jsonb_build_object('join_name', n.name, 'join_distance', round(n.distance::numeric, 2))
+        END
+      `,
+      values,
+    };
+  }
+
+  // Properties that aren't numbers are left out of sum, avg, min and max
+  const columns = (parameters.aggregates || []).map(({ function: fn, field, name }) => {
+    const key = `${param(name)}::text`;
+    if (fn === 'count') return `${key}, COUNT(${field ? `b.properties->>${param(field)}::text` : 'b.id'})`;
+
+    const text = `b.properties->>${param(field)}::text`;
+    const numeric = `CASE WHEN ${text} ~ '^-?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$' THEN cql2_number(${text}) END`;
+    return fn === 'sum' ? `${key}, COALESCE(SUM(${numeric}), 0)` : `${key}, ${fn.toUpperCase()}(${numeric})`;
+  });
+
+  return {
+    lateral: `
+      CROSS JOIN LATERAL (
+        SELECT jsonb_build_object(${columns.join(', ')}) AS properties
+        FROM features b
+        WHERE b.layer_id = $4 AND b.id <> f.id AND ST_Intersects(f.geometry, b.geometry)
+      ) j
+    `,
+    properties: 'f.properties || j.properties',
+    values,
+  };
+};
+
+// The polygons of the overlay layer, or the given polygon, merged into one shape
+const clipShape = async (client: Queryable, parameters: GeoprocessingParameters): Promise<Buffer> => {
+  const result = parameters.geometry
+    ? await client.query(
+      'SELECT ST_AsEWKB(ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON($1::text), 4326))) AS shape',
+      [JSON.stringify(parameters.geometry)]
+    )
+    : await client.query(
+      `SELECT ST_AsEWKB(ST_Union(ST_MakeValid(geometry))) AS shape
+       FROM features WHERE layer_id = $1 AND ST_Dimension(geometry) = 2`,
+      [parameters.overlayLayerId]
+    );
+
+  const shape = result.rows[0]?.shape;
+  if (!shape) throw new ValidationError('The clip layer has no polygons');
+  return shape;
+};
+
+// Union merges everything into one feature; dissolve merges per value of `field`
+const mergeFeatures = async (
+  client: Queryable,
+  outputLayerId: string,
+  ownerId: string,
+  ids: string[],
+  field: string | undefined,
+  onProgress: (progress: number) => Promise<void>
+): Promise<number> => {
+  if (!field) {
+    const result = await client.query(
+      `${INSERT_FEATURES}
+       SELECT $1::uuid, $2::uuid, NULL, NULL, ST_Union(ST_MakeValid(f.geometry)), jsonb_build_object('count', COUNT(*))
+       FROM features f
+       WHERE f.id = ANY($3::uuid[])
+       HAVING NOT ST_IsEmpty(ST_Union(ST_MakeValid(f.geometry)))`,
+      [outputLayerId, ownerId, ids]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  const groups = await client.query(
+    'SELECT DISTINCT f.properties->>$2::text AS value FROM features f WHERE f.id = ANY($1::uuid[]) ORDER BY 1',
+    [ids, field]
+  );
+
+  let featureCount = 0;
+  for (const [index, { value }] of groups.rows.entries()) {
+    const result = await client.query(
+      `${INSERT_FEATURES}
+       SELECT $1::uuid, $2::uuid, LEFT($5::text, 255), NULL, ST_Union(ST_MakeValid(f.geometry)),
+         jsonb_build_object($4::text, (array_agg(f.properties->$4::text))[1], 'count', COUNT(*))
+       FROM features f
+       WHERE f.id = ANY($3::uuid[]) AND (f.properties->>$4::text) IS NOT DISTINCT FROM $5::text
+       HAVING NOT ST_IsEmpty(ST_Union(ST_MakeValid(f.geometry)))`,
+      [outputLayerId, ownerId, ids, field, value]
+    );
+    featureCount += result.rowCount ?? 0;
+    await onProgress(Math.floor((100 * (index + 1)) / groups.rows.length));
+  }
+  return featureCount;
+};
+
+export const runGeoprocessing = async (
+  job: ProcessingJob,
+  onProgress: (progress: number, stage: string) => Promise<void>
+): Promise<GeoprocessingResult> => {
+  const parameters = job.parameters as GeoprocessingParameters;
+  await onProgress(0, 'preparing');
+
+  const input = await LayerModel.findById(parameters.layerId, job.user_id);
+  if (!input) throw new NotFoundError('Layer not found');
+
+  return await initializeDatabase().transaction(async (client: Queryable) => {
+    const layer = parameters.addToInput ? input : await LayerModel.create({
+      name: parameters.outputName || `${input.name} (${describeOperation(job.operation, parameters)})`.slice(0, 255),
+      description: `${describeOperation(job.operation, parameters)} of ${input.name}`,
+      project_id: job.project_id,
+      type: 'vector',
+      source_type: 'database',
+      source_config: {
+        geoprocessing: { jobId: job.id, operation: job.operation, inputLayerId: input.id, parameters },
+      },
+    }, job.user_id, client);
+
+    const filter = buildFeatureFilter({ ids: parameters.featureIds, cql: parameters.filter }, 2);
+    const inputIds = await client.query(
+      `SELECT f.id FROM features f WHERE ${['f.layer_id = $1', ...filter.conditions].join(' AND ')} ORDER BY f.id`,
+      [input.id, ...filter.params]
+    );
+    const ids: string[] = inputIds.rows.map(row => row.id);
+    if (ids.length === 0) {
+      const narrowed = parameters.featureIds !== undefined || parameters.filter !== undefined;
+      throw new ValidationError(`The input layer has no features${narrowed ? ' matching the selection' : ''}`);
+    }
+
+    await onProgress(0, 'processing');
+
+    if (job.operation === 'union' || job.operation === 'dissolve') {
+      const featureCount = await mergeFeatures(
+        client, layer.id, job.user_id, ids, parameters.field, progress => onProgress(progress, 'processing')
+      );
+      return { layer, featureCount };
+    }
+
+    if (COLLECTION_SQL[job.operation]) {
+      const result = await client.query(
+        COLLECTION_SQL[job.operation]!,
+        [layer.id, job.user_id, ids, ...(job.operation === 'hull' ? [parameters.concavity ?? 0] : [])]
+      );
+      const featureCount = result.rowCount ?? 0;
+      if (featureCount === 0 && TOO_FEW_POINTS[job.operation]) {
+        throw new ValidationError(TOO_FEW_POINTS[job.operation]!);
+      }
+      await onProgress(100, 'processing');
+      return { layer, featureCount };
+    }
+
+    let sql = BATCH_SQL[job.operation]!;
+    let values: any[];
+    switch (job.operation) {
+      case 'buffer':
+        values = [parameters.distance, `quad_segs=${parameters.segments ?? DEFAULT_SEGMENTS}`];
+        break;
+      case 'clip':
+        values = [await clipShape(client, parameters)];
+        break;
+      case 'centroid':
+        values = [parameters.pointOnSurface ?? false];
+        break;
+      case 'simplify':
+        values = [parameters.tolerance, parameters.preserveTopology ?? true];
+        break;
+      // Written back to the input layer, only the user's own features are updated
+      case 'join': {
+        const { lateral, properties, values: joinValues } = joinSQL(parameters);
+        sql = parameters.addToInput
+          ? `WITH joined AS (
+               SELECT f.id, ${properties} AS properties
+               FROM features f ${lateral}
+               WHERE f.id = ANY($3::uuid[]) AND f.owner_id = $2::uuid
+             )
+             UPDATE features t SET properties = joined.properties
+             FROM joined
+             WHERE t.id = joined.id AND t.layer_id = $1::uuid`
+          : `${INSERT_FEATURES}
+             SELECT $1::uuid, $2::uuid, f.name, f.description, f.geometry, ${properties}
+             FROM features f ${lateral}
+             WHERE f.id = ANY($3::uuid[])`;
+        values = [parameters.joinLayerId, ...joinValues];
+        break;
+      }
+      default:
+        values = [parameters.overlayLayerId];
+    }
+
+    let featureCount = 0;
+    for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+      const batch = ids.slice(start, start + BATCH_SIZE);
+      const result = await client.query(sql, [layer.id, job.user_id, batch, ...values]);
+      featureCount += result.rowCount ?? 0;
+      await onProgress(Math.floor((100 * Math.min(start + BATCH_SIZE, ids.length)) / ids.length), 'processing');
+    }
+
+    return { layer, featureCount };
+  });
+};
@@ -0,0 +1,110 @@
+// Background execution of geoprocessing jobs tracked in the processing_jobs table
+import { EventEmitter } from 'events';
+import { ProcessingJobModel } from '../models/ProcessingJob';
+import { ProcessingJob } from '../types/database';
+import { runGeoprocessing } from './geoprocessing';
+
+export interface GeoprocessingJobEvent {
+  jobId: string;
+  projectId?: string;
+  operation: ProcessingJob['operation'];
+  status: ProcessingJob['status'];
+  progress: number;
+  stage: string;
+  layerId?: string;
+  featureCount?: number;
+  error?: string;
+}
+
+// Listeners (the Socket.io bridge in server.ts) receive a 'progress' event per update
+export const geoprocessingJobEvents = new EventEmitter();
+
+// Jobs run one at a time in-process, like imports; anything still pending after a
+// restart is picked up again by resumePendingGeoprocessingJobs
+const queue: string[] = [];
+let running = false;
+
+const emit = (job: ProcessingJob, event: Omit<GeoprocessingJobEvent, 'jobId' | 'projectId' | 'operation'>) => {
+  geoprocessingJobEvents.emit('progress', {
+    jobId: job.id,
+    projectId: job.project_id,
+    operation: job.operation,
+    ...event,
+  } as GeoprocessingJobEvent);
+};
+
+const runJob = async (jobId: string) => {
+  const job = await ProcessingJobModel.findById(jobId);
+  if (!job || job.status !== 'pending') return;
+
+  await ProcessingJobModel.update(job.id, { status: 'processing', progress: 0, stage: 'preparing' });
+
+  let lastProgress = -1;
+  let lastStage = '';
+  const onProgress = async (progress: number, stage: string) => {
+    if (progress === lastProgress && stage === lastStage) return;
+    lastProgress = progress;
+    lastStage = stage;
+    await ProcessingJobModel.update(job.id, { progress, stage });
+    emit(job, { status: 'processing', progress, stage });
+  };
+
+  try {
+    const { layer, featureCount } = await runGeoprocessing(job, onProgress);
+
+    await ProcessingJobModel.update(job.id, {
+      status: 'completed',
+      progress: 100,
+      stage: 'completed',
+      result_layer_id: layer.id,
+      feature_count: featureCount,
+      completed_at: new Date(),
+    });
+    emit(job, { status: 'completed', progress: 100, stage: 'completed', layerId: layer.id, featureCount });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Geoprocessing job ${job.id} failed:`, error);
+
+    await ProcessingJobModel.update(job.id, {
+      status: 'failed',
+      stage: 'failed',
+      error: message,
+      completed_at: new Date(),
+    });
+    emit(job, { status: 'failed', progress: lastProgress < 0 ? 0 : lastProgress, stage: 'failed', error: message });
+  }
+};
+
+const drainQueue = async () => {
+  if (running) return;
+  running = true;
+
+  while (queue.length > 0) {
+    const jobId = queue.shift()!;
+    try {
+      await runJob(jobId);
+    } catch (error) {
+      console.error(`Geoprocessing job ${jobId} could not be run:`, error);
+    }
+  }
+
+  running = false;
+};
+
+export const enqueueGeoprocessingJob = (jobId: string) => {
+  queue.push(jobId);
+  setImmediate(drainQueue);
+};
+
+// Jobs interrupted by a restart are reset to pending and queued again; their output
+// layer was never committed, so they start from scratch
+export const resumePendingGeoprocessingJobs = async () => {
+  const interrupted = await ProcessingJobModel.findByStatus('processing');
+  for (const job of interrupted) {
+    await ProcessingJobModel.update(job.id, { status: 'pending', progress: 0, stage: 'queued' });
+  }
+
+  const pending = await ProcessingJobModel.findByStatus('pending');
+  pending.forEach(job => enqueueGeoprocessingJob(job.id));
+  return pending.length;
+};
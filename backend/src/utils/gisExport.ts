@@ -0,0 +1,376 @@
+// Writing a layer's features out as GeoJSON, KML, GPX, CSV, zipped Shapefile or GeoPackage
+import { XMLBuilder } from 'fast-xml-parser';
+import { initializeDatabase, Queryable } from '../database/connection';
+import { ValidationError } from '../middleware/errorHandler';
+import { GeoJSONFeature, GeoJSONGeometry, Layer } from '../types/database';
+import { FeatureFilters, buildFeatureFilter } from './featureFilter';
+import { toWKT } from './wkt';
+import { writeShapefileZip } from './shapefileExport';
+import { writeGeoPackage } from './geopackageExport';
+import { CRSInfo, STORAGE_SRID } from './projection';
+
+export type ExportFormat = 'geojson' | 'json' | 'kml' | 'gpx' | 'csv' | 'shapefile' | 'gpkg';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['geojson', 'json', 'kml', 'gpx', 'csv', 'shapefile', 'gpkg'];
+
+export type CSVGeometryColumns = 'wkt' | 'latlon';
+
+export interface ExportOptions {
+  csvGeometry?: CSVGeometryColumns;
+  crs?: CRSInfo; // CRS the features were loaded in; EPSG:4326 when absent
+}
+
+export interface ExportFeature {
+  id: string;
+  name: string | null;
+  description: string | null;
+  geometry: GeoJSONGeometry;
+  properties: Record<string, any>;
+  style: Record<string, any>;
+}
+
+export interface ExportFile {
+  body: Buffer | string;
+  contentType: string;
+  extension: string;
+  skipped: number; // features the format has no way to represent
+}
+
+// Geometries are transformed into `srid` by PostGIS
+export const loadExportFeatures = async (
+  layerId: string,
+  filters: FeatureFilters = {},
+  client: Queryable = initializeDatabase(),
+  srid: number = STORAGE_SRID
+): Promise<ExportFeature[]> => {
+  const { conditions, params } = buildFeatureFilter(filters, 2);
+  const geometry = srid === STORAGE_SRID ? 'f.geometry' : `ST_Transform(f.geometry, $${params.length + 2})`;
+  const result = await client.query(`
+    SELECT f.id, f.name, f.description, ST_AsGeoJSON(${geometry})::json AS geometry, f.properties, f.style
+    FROM features f
+    WHERE ${['f.layer_id = $1', ...conditions].join(' AND ')}
+    ORDER BY f.created_at, f.id
+  `, [layerId, ...params, ...(srid === STORAGE_SRID ? [] : [srid])]);
+
+  return result.rows.map(row => ({
+    ...row,
+    properties: row.properties || {},
+    style: row.style || {},
+  }));
+};
+
+// Flat attributes for the tabular formats: the name and description columns plus properties
+export const featureAttributes = (feature: ExportFeature): Record<string, any> => ({
+  ...(feature.name ? { name: feature.name } : {}),
+  ...(feature.description ? { description: feature.description } : {}),
+  ...feature.properties,
+});
+
+const toGeoJSONFeature = (feature: ExportFeature): GeoJSONFeature => ({
+  type: 'Feature',
+  id: feature.id,
+  geometry: feature.geometry,
+  properties: featureAttributes(feature),
+});
+
+const xmlBuilder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  format: true,
+  suppressEmptyNode: true,
+});
+
+const XML_DECLARATION = { '@_version': '1.0', '@_encoding': 'UTF-8' };
+
+const textValue = (value: any): string =>
+  value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// KML
+
+// "#rrggbb" plus an opacity becomes KML's "aabbggrr"
+const kmlColor = (color: unknown, opacity: unknown = 1): string | undefined => {
+  const match = typeof color === 'string' ? /^#?([0-9a-f]{6})$/i.exec(color.trim()) : null;
+  if (!match) return undefined;
+  const alpha = Math.round(Math.min(Math.max(Number(opacity ?? 1), 0), 1) * 255);
+  const [r, g, b] = [0, 2, 4].map(offset => match[1].slice(offset, offset + 2));
+  return `${alpha.toString(16).padStart(2, '0')}${b}${g}${r}`.toLowerCase();
+};
+
+// style_config keys as the layer panel writes them: strokeColor, fillColor, strokeWidth, opacity
+const kmlStyle = (style: Record<string, any>, id?: string) => {
+  const stroke = kmlColor(style.strokeColor ?? style.color);
+  const fill = kmlColor(style.fillColor ?? style.color, style.fillOpacity ?? style.opacity);
+  if (!stroke && !fill && style.strokeWidth === undefined) return undefined;
+
+  return {
+    ...(id ? { '@_id': id } : {}),
+    IconStyle: fill || stroke ? { color: fill || stroke } : undefined,
+    LineStyle: { color: stroke, width: style.strokeWidth },
+    PolyStyle: fill ? { color: fill } : undefined,
+  };
+};
+
+const kmlCoordinates = (positions: number[][]) => positions.map(position => `${position[0]},${position[1]}`).join(' ');
+
+// Each geometry as [element name, content]; multi-part geometries become a MultiGeometry
+const kmlGeometry = (geometry: GeoJSONGeometry): [string, any] => {
+  const polygon = (rings: number[][][]) => ({
+    outerBoundaryIs: { LinearRing: { coordinates: kmlCoordinates(rings[0]) } },
+    innerBoundaryIs: rings.slice(1).map(ring => ({ LinearRing: { coordinates: kmlCoordinates(ring) } })),
+  });
+
+  let members: Array<[string, any]>;
+  switch (geometry.type) {
+    case 'Point':
+      return ['Point', { coordinates: kmlCoordinates([geometry.coordinates]) }];
+    case 'LineString':
+      return ['LineString', { coordinates: kmlCoordinates(geometry.coordinates) }];
+    case 'Polygon':
+      return ['Polygon', polygon(geometry.coordinates)];
+    case 'MultiPoint':
+      members = geometry.coordinates.map((position: number[]) => ['Point', { coordinates: kmlCoordinates([position]) }]);
+      break;
+    case 'MultiLineString':
+      members = geometry.coordinates.map((line: number[][]) => ['LineString', { coordinates: kmlCoordinates(line) }]);
+      break;
+    case 'MultiPolygon':
+      members = geometry.coordinates.map((rings: number[][][]) => ['Polygon', polygon(rings)]);
+      break;
+    default:
+      members = (geometry.geometries || []).map(kmlGeometry);
+  }
+
+  const multi: Record<string, any[]> = {};
+  for (const [name, content] of members) {
+    (multi[name] = multi[name] || []).push(content);
+  }
+  return ['MultiGeometry', multi];
+};
+
+export const writeKML = (layer: Layer, features: ExportFeature[]): string => {
+  const layerStyle = kmlStyle(layer.style_config || {}, 'layer-style');
+
+  const placemarks = features.map(feature => {
+    const [geometryName, geometry] = kmlGeometry(feature.geometry);
+    const properties = Object.entries(feature.properties).filter(([, value]) => value !== null && value !== undefined);
+    const featureStyle = kmlStyle(feature.style);
+
+    return {
+      '@_id': feature.id,
+      name: feature.name ?? feature.properties.name,
+      description: feature.description ?? feature.properties.description,
+      styleUrl: layerStyle && !featureStyle ? '#layer-style' : undefined,
+      Style: featureStyle,
+      ExtendedData: properties.length > 0
+        ? { Data: properties.map(([key, value]) => ({ '@_name': key, value: textValue(value) })) }
+        : undefined,
+      [geometryName]: geometry,
+    };
+  });
+
+  return xmlBuilder.build({
+    '?xml': XML_DECLARATION,
+    kml: {
+      '@_xmlns': 'http://www.opengis.net/kml/2.2',
+      Document: {
+        name: layer.name,
+        description: layer.description,
+        Style: layerStyle,
+        Placemark: placemarks,
+      },
+    },
+  });
+};
+
+// GPX
+
+// Per-vertex times/elevations as the GPX import stores them in coordinateProperties
+const vertexValue = (values: any, segment: number, index: number, segmented: boolean) => {
+  const list = segmented ? values?.[segment] : values;
+  return Array.isArray(list) ? list[index] ?? undefined : undefined;
+};
+
+const gpxMetadata = (feature: ExportFeature) => {
+  const { properties } = feature;
+  return {
+    name: feature.name ?? properties.name,
+    cmt: properties.comment,
+    desc: feature.description ?? properties.description,
+    src: properties.source,
+    link: typeof properties.link === 'string' ? { '@_href': properties.link } : undefined,
+  };
+};
+
+// Element order follows the GPX 1.1 schema
+const gpxWaypoint = (feature: ExportFeature, position: number[]) => {
+  const { name, cmt, desc, src, link } = gpxMetadata(feature);
+  return {
+    '@_lat': position[1],
+    '@_lon': position[0],
+    ele: feature.properties.elevation,
+    time: feature.properties.time,
+    name, cmt, desc, src, link,
+    sym: feature.properties.symbol,
+    type: feature.properties.type,
+  };
+};
+
+const gpxTrack = (feature: ExportFeature, segments: number[][][]) => {
+  const { name, cmt, desc, src, link } = gpxMetadata(feature);
+  const coordinateProperties = feature.properties.coordinateProperties || {};
+  const segmented = segments.length > 1;
+
+  return {
+    name, cmt, desc, src, link,
+    type: feature.properties.type,
+    trkseg: segments.map((positions, segment) => ({
+      trkpt: positions.map((position, index) => ({
+        '@_lat': position[1],
+        '@_lon': position[0],
+        ele: vertexValue(coordinateProperties.elevations, segment, index, segmented),
+        time: vertexValue(coordinateProperties.times, segment, index, segmented),
+      })),
+    })),
+  };
+};
+
+// Points become waypoints and lines tracks; GPX has no polygons, so those are skipped
+export const writeGPX = (layer: Layer, features: ExportFeature[]): { body: string; skipped: number } => {
+  const waypoints: any[] = [];
+  const tracks: any[] = [];
+  let skipped = 0;
+
+  for (const feature of features) {
+    const { geometry } = feature;
+    switch (geometry.type) {
+      case 'Point':
+        waypoints.push(gpxWaypoint(feature, geometry.coordinates));
+        break;
+      case 'MultiPoint':
+        geometry.coordinates.forEach((position: number[]) => waypoints.push(gpxWaypoint(feature, position)));
+        break;
+      case 'LineString':
+        tracks.push(gpxTrack(feature, [geometry.coordinates]));
+        break;
+      case 'MultiLineString':
+        tracks.push(gpxTrack(feature, geometry.coordinates));
+        break;
+      default:
+        skipped++;
+    }
+  }
+
+  const body = xmlBuilder.build({
+    '?xml': XML_DECLARATION,
+    gpx: {
+      '@_version': '1.1',
+      '@_creator': 'MapVue',
+      '@_xmlns': 'http://www.topografix.com/GPX/1/1',
+      metadata: { name: layer.name, desc: layer.description },
+      wpt: waypoints,
+      trk: tracks,
+    },
+  });
+
+  return { body, skipped };
+};
+
+// CSV
+
+const csvField = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  const text = textValue(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Geometry as a WKT column, or latitude/longitude columns for point layers (x/y
+// when projected). The column names are ones the CSV import recognises, so
+// exports can be re-imported.
+export const writeCSV = (
+  features: ExportFeature[],
+  geometryColumns: CSVGeometryColumns = 'wkt',
+  projected = false
+): string => {
+  if (geometryColumns === 'latlon' && features.some(feature => feature.geometry.type !== 'Point')) {
+    throw new ValidationError('Latitude/longitude columns need point geometries; export with geometry=wkt instead');
+  }
+
+  const rows = features.map(featureAttributes);
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+
+  const geometryHeader = geometryColumns !== 'latlon' ? ['wkt'] : projected ? ['y', 'x'] : ['latitude', 'longitude'];
+  const lines = [[...geometryHeader, ...columns].map(csvField).join(',')];
+
+  features.forEach((feature, index) => {
+    const geometry = geometryColumns === 'latlon'
+      ? [feature.geometry.coordinates[1], feature.geometry.coordinates[0]]
+      : [toWKT(feature.geometry)];
+    lines.push([...geometry, ...columns.map(column => rows[index][column])].map(csvField).join(','));
+  });
+
+  // BOM so spreadsheet applications pick UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+export const exportFeatures = async (
+  layer: Layer,
+  features: ExportFeature[],
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<ExportFile> => {
+  const { crs } = options;
+  const projected = crs !== undefined && crs.srid !== STORAGE_SRID;
+  if (projected && (format === 'kml' || format === 'gpx')) {
+    throw new ValidationError(`${format.toUpperCase()} coordinates are always WGS84; export without srs`);
+  }
+
+  switch (format) {
+    case 'geojson':
+    case 'json':
+      return {
+        // RFC 7946 drops the crs member, but GDAL and QGIS still read it
+        body: JSON.stringify({
+          type: 'FeatureCollection',
+          name: layer.name,
+          ...(projected ? { crs: { type: 'name', properties: { name: `urn:ogc:def:crs:EPSG::${crs.srid}` } } } : {}),
+          features: features.map(toGeoJSONFeature),
+        }),
+        contentType: format === 'geojson' ? 'application/geo+json' : 'application/json',
+        extension: format,
+        skipped: 0,
+      };
+
+    case 'kml':
+      return { body: writeKML(layer, features), contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml', skipped: 0 };
+
+    case 'gpx': {
+      const { body, skipped } = writeGPX(layer, features);
+      return { body, contentType: 'application/gpx+xml', extension: 'gpx', skipped };
+    }
+
+    case 'csv':
+      return { body: writeCSV(features, options.csvGeometry, projected), contentType: 'text/csv; charset=utf-8', extension: 'csv', skipped: 0 };
+
+    case 'shapefile': {
+      const { body, skipped } = await writeShapefileZip(layer.name, features.map(toGeoJSONFeature), projected ? crs.wkt : undefined);
+      return { body, contentType: 'application/zip', extension: 'zip', skipped };
+    }
+
+    case 'gpkg':
+      return {
+        body: await writeGeoPackage(layer.name, features.map(toGeoJSONFeature), layer.description, projected ? crs : undefined),
+        contentType: 'application/geopackage+sqlite3',
+        extension: 'gpkg',
+        skipped: 0,
+      };
+  }
+};
@@ -1,2 +1,547 @@
-// Utility for parsing KML and GPX (to be implemented)
-// You can use libraries like 'togeojson' or 'gtran' for KML/GPX to GeoJSON conversion
+// Utilities for turning uploaded GIS files into GeoJSON and persisting them as layer features
+import { XMLParser } from 'fast-xml-parser';
+import { LayerModel } from '../models/Layer';
+import { ProjectModel } from '../models/Project';
+import { FeatureModel } from '../models/Feature';
+import { initializeDatabase } from '../database/connection';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { FieldMapping, applyFieldMapping } from './fieldMapping';
+import { GeometryPolicy, InvalidFeatureMode, ImportValidator, ImportValidationReport } from './geometryValidation';
+import {
+  Layer,
+  GeoJSONGeometry,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  CreateFeatureRequest,
+} from '../types/database';
+
+// Elements that may legitimately repeat and must always be parsed as arrays
+const KML_ARRAY_TAGS = new Set([
+  'Document', 'Folder', 'Placemark', 'Point', 'LineString', 'LinearRing', 'Polygon',
+  'MultiGeometry', 'Track', 'innerBoundaryIs', 'Data', 'SchemaData', 'SimpleData',
+  'when', 'coord',
+]);
+
+const kmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => KML_ARRAY_TAGS.has(name),
+});
+
+const asArray = <T>(value: T | T[] | undefined): T[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// Text nodes come back either as plain strings or as { '#text': ... } when attributes are present
+const textOf = (node: any): string | undefined => {
+  if (node === undefined || node === null) return undefined;
+  if (typeof node === 'object') {
+    return node['#text'] !== undefined ? String(node['#text']) : undefined;
+  }
+  return String(node);
+};
+
+// KML coordinates are whitespace-separated "lon,lat[,alt]" tuples; altitude is dropped
+// because the features.geometry column is two-dimensional
+const parseKMLCoordinates = (node: any): number[][] => {
+  const text = textOf(node);
+  if (!text) return [];
+
+  return text
+    .trim()
+    .split(/\s+/)
+    .map(tuple => tuple.split(',').map(Number))
+    .filter(values => values.length >= 2 && !isNaN(values[0]) && !isNaN(values[1]))
+    .map(values => [values[0], values[1]]);
+};
+
+const parseKMLRing = (boundary: any): number[][] => {
+  const ring = asArray(boundary?.LinearRing)[0];
+  return parseKMLCoordinates(ring?.coordinates);
+};
+
+const parseKMLGeometries = (container: any): GeoJSONGeometry[] => {
+  const geometries: GeoJSONGeometry[] = [];
+
+  for (const point of asArray(container.Point)) {
+    const [coordinates] = parseKMLCoordinates(point.coordinates);
+    if (coordinates) geometries.push({ type: 'Point', coordinates });
+  }
+
+  for (const line of asArray(container.LineString)) {
+    const coordinates = parseKMLCoordinates(line.coordinates);
+    if (coordinates.length >= 2) geometries.push({ type: 'LineString', coordinates });
+  }
+
+  for (const ring of asArray(container.LinearRing)) {
+    const coordinates = parseKMLCoordinates(ring.coordinates);
+    if (coordinates.length >= 4) geometries.push({ type: 'Polygon', coordinates: [coordinates] });
+  }
+
+  for (const polygon of asArray(container.Polygon)) {
+    const outer = parseKMLRing(polygon.outerBoundaryIs);
+    if (outer.length < 4) continue;
+    const inner = asArray(polygon.innerBoundaryIs)
+      .map(parseKMLRing)
+      .filter(ring => ring.length >= 4);
+    geometries.push({ type: 'Polygon', coordinates: [outer, ...inner] });
+  }
+
+  // gx:Track (Google Earth GPS recordings) - "lon lat alt" per <gx:coord>
+  for (const track of asArray(container.Track)) {
+    const coordinates = asArray(track.coord)
+      .map(coord => (textOf(coord) || '').trim().split(/\s+/).map(Number))
+      .filter(values => values.length >= 2 && !isNaN(values[0]) && !isNaN(values[1]))
+      .map(values => [values[0], values[1]]);
+    if (coordinates.length >= 2) geometries.push({ type: 'LineString', coordinates });
+  }
+
+  for (const multi of asArray(container.MultiGeometry)) {
+    const members = parseKMLGeometries(multi);
+    const merged = mergeGeometries(members);
+    if (merged) geometries.push(merged);
+  }
+
+  return geometries;
+};
+
+// Collapse a list of geometries into the most specific GeoJSON multi-type
+const mergeGeometries = (geometries: GeoJSONGeometry[]): GeoJSONGeometry | null => {
+  if (geometries.length === 0) return null;
+  if (geometries.length === 1) return geometries[0];
+
+  const types = new Set(geometries.map(geometry => geometry.type));
+  if (types.size === 1) {
+    const [type] = types;
+    if (type === 'Point' || type === 'LineString' || type === 'Polygon') {
+      return {
+        type: `Multi${type}`,
+        coordinates: geometries.map(geometry => geometry.coordinates),
+      };
+    }
+  }
+
+  return { type: 'GeometryCollection', geometries };
+};
+
+const parseKMLExtendedData = (extendedData: any): Record<string, any> => {
+  const properties: Record<string, any> = {};
+  if (!extendedData) return properties;
+
+  for (const data of asArray(extendedData.Data)) {
+    const name = data['@_name'];
+    if (name) properties[name] = textOf(data.value) ?? null;
+  }
+
+  for (const schemaData of asArray(extendedData.SchemaData)) {
+    for (const simpleData of asArray(schemaData.SimpleData)) {
+      const name = simpleData['@_name'];
+      if (name) properties[name] = textOf(simpleData) ?? null;
+    }
+  }
+
+  return properties;
+};
+
+const parseKMLPlacemark = (placemark: any, folderPath: string[]): GeoJSONFeature | null => {
+  const geometry = mergeGeometries(parseKMLGeometries(placemark));
+  if (!geometry) return null;
+
+  const properties: Record<string, any> = {
+    ...parseKMLExtendedData(placemark.ExtendedData),
+  };
+
+  const name = textOf(placemark.name);
+  const description = textOf(placemark.description);
+  const styleUrl = textOf(placemark.styleUrl);
+  const timestamp = textOf(placemark.TimeStamp?.when?.[0]);
+
+  if (name !== undefined) properties.name = name;
+  if (description !== undefined) properties.description = description;
+  if (styleUrl !== undefined) properties.styleUrl = styleUrl;
+  if (timestamp !== undefined) properties.timestamp = timestamp;
+  if (folderPath.length > 0) properties.folder = folderPath.join('/');
+
+  return { type: 'Feature', geometry, properties };
+};
+
+// Documents and folders can nest arbitrarily; the folder path is kept on each feature
+const collectKMLPlacemarks = (container: any, folderPath: string[], features: GeoJSONFeature[]) => {
+  for (const placemark of asArray(container.Placemark)) {
+    const feature = parseKMLPlacemark(placemark, folderPath);
+    if (feature) features.push(feature);
+  }
+
+  for (const document of asArray(container.Document)) {
+    collectKMLPlacemarks(document, folderPath, features);
+  }
+
+  for (const folder of asArray(container.Folder)) {
+    const folderName = textOf(folder.name);
+    collectKMLPlacemarks(folder, folderName ? [...folderPath, folderName] : folderPath, features);
+  }
+};
+
+export const parseKML = (buffer: Buffer): GeoJSONFeatureCollection => {
+  const document = kmlParser.parse(buffer.toString('utf8'));
+  if (!document.kml) {
+    throw new Error('Invalid KML: missing <kml> root element');
+  }
+
+  const features: GeoJSONFeature[] = [];
+  collectKMLPlacemarks(document.kml, [], features);
+
+  return { type: 'FeatureCollection', features };
+};
+
+// GPX 1.0 / 1.1
+
+const GPX_ARRAY_TAGS = new Set(['wpt', 'rte', 'rtept', 'trk', 'trkseg', 'trkpt', 'link']);
+
+const gpxParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => GPX_ARRAY_TAGS.has(name),
+});
+
+export interface GPXCollections {
+  waypoints: GeoJSONFeatureCollection;
+  routes: GeoJSONFeatureCollection;
+  tracks: GeoJSONFeatureCollection;
+}
+
+export type GPXKind = keyof GPXCollections;
+
+const parseScalar = (value: string): string | number => {
+  const number = Number(value);
+  return value !== '' && !isNaN(number) ? number : value;
+};
+
+// Vendor extensions (Garmin TrackPointExtension etc.) are arbitrary XML; flatten them
+// to "parent.child" keys so they can be stored as JSONB properties
+const flattenExtensions = (node: any, prefix = '', target: Record<string, any> = {}): Record<string, any> => {
+  if (node === undefined || node === null) return target;
+
+  if (typeof node !== 'object') {
+    if (prefix) target[prefix] = parseScalar(String(node));
+    return target;
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    const name = key === '#text' ? prefix : key.replace(/^@_/, '');
+    flattenExtensions(value, prefix && key !== '#text' ? `${prefix}.${name}` : name, target);
+  }
+  return target;
+};
+
+interface GPXPoint {
+  coordinates: number[];
+  time: string | null;
+  elevation: number | null;
+  extensions: Record<string, any> | null;
+}
+
+const parseGPXPoint = (point: any): GPXPoint | null => {
+  const lon = Number(point['@_lon']);
+  const lat = Number(point['@_lat']);
+  if (isNaN(lon) || isNaN(lat)) return null;
+
+  const ele = textOf(point.ele);
+  return {
+    coordinates: [lon, lat],
+    time: textOf(point.time) ?? null,
+    elevation: ele !== undefined && !isNaN(Number(ele)) ? Number(ele) : null,
+    extensions: point.extensions ? flattenExtensions(point.extensions) : null,
+  };
+};
+
+// name/desc/cmt/src/type/sym are shared by waypoints, routes and tracks
+const parseGPXMetadata = (node: any): Record<string, any> => {
+  const properties: Record<string, any> = {};
+  const fields: Record<string, string> = {
+    name: 'name', desc: 'description', cmt: 'comment', src: 'source', type: 'type', sym: 'symbol',
+  };
+
+  for (const [tag, property] of Object.entries(fields)) {
+    const value = textOf(node[tag]);
+    if (value !== undefined) properties[property] = value;
+  }
+
+  const link = asArray(node.link)[0];
+  // GPX 1.1 uses <link href>, GPX 1.0 a bare <url>
+  const href = link?.['@_href'] ?? textOf(node.url);
+  if (href) properties.link = href;
+
+  return properties;
+};
+
+// Per-vertex values are kept alongside the geometry, mirroring its nesting
+const pointListProperties = (points: GPXPoint[]) => ({
+  times: points.map(point => point.time),
+  elevations: points.map(point => point.elevation),
+  extensions: points.map(point => point.extensions),
+});
+
+const hasValues = (values: any[]): boolean => values.some(value => value !== null);
+
+export const parseGPX = (buffer: Buffer): GPXCollections => {
+  const document = gpxParser.parse(buffer.toString('utf8'));
+  const gpx = document.gpx;
+  if (!gpx) {
+    throw new Error('Invalid GPX: missing <gpx> root element');
+  }
+
+  const waypoints: GeoJSONFeature[] = [];
+  const routes: GeoJSONFeature[] = [];
+  const tracks: GeoJSONFeature[] = [];
+
+  for (const wpt of asArray(gpx.wpt)) {
+    const point = parseGPXPoint(wpt);
+    if (!point) continue;
+
+    const properties: Record<string, any> = { ...parseGPXMetadata(wpt) };
+    if (point.time !== null) properties.time = point.time;
+    if (point.elevation !== null) properties.elevation = point.elevation;
+    if (point.extensions) properties.extensions = point.extensions;
+
+    waypoints.push({ type: 'Feature', geometry: { type: 'Point', coordinates: point.coordinates }, properties });
+  }
+
+  for (const rte of asArray(gpx.rte)) {
+    const points = asArray(rte.rtept).map(parseGPXPoint).filter((point): point is GPXPoint => point !== null);
+    if (points.length < 2) continue;
+
+    const coordinateProperties = pointListProperties(points);
+    routes.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: points.map(point => point.coordinates) },
+      properties: {
+        ...parseGPXMetadata(rte),
+        coordinateProperties: {
+          times: hasValues(coordinateProperties.times) ? coordinateProperties.times : undefined,
+          elevations: hasValues(coordinateProperties.elevations) ? coordinateProperties.elevations : undefined,
+          extensions: hasValues(coordinateProperties.extensions) ? coordinateProperties.extensions : undefined,
+        },
+      },
+    });
+  }
+
+  for (const trk of asArray(gpx.trk)) {
+    const segments = asArray(trk.trkseg)
+      .map(segment => asArray(segment.trkpt).map(parseGPXPoint).filter((point): point is GPXPoint => point !== null))
+      .filter(points => points.length >= 2);
+    if (segments.length === 0) continue;
+
+    const segmentProperties = segments.map(pointListProperties);
+    const pick = (key: 'times' | 'elevations' | 'extensions') => {
+      const values = segmentProperties.map(properties => properties[key]);
+      if (!values.some(hasValues)) return undefined;
+      return segments.length === 1 ? values[0] : values;
+    };
+
+    const geometry: GeoJSONGeometry = segments.length === 1
+      ? { type: 'LineString', coordinates: segments[0].map(point => point.coordinates) }
+      : { type: 'MultiLineString', coordinates: segments.map(points => points.map(point => point.coordinates)) };
+
+    tracks.push({
+      type: 'Feature',
+      geometry,
+      properties: {
+        ...parseGPXMetadata(trk),
+        coordinateProperties: {
+          times: pick('times'),
+          elevations: pick('elevations'),
+          extensions: pick('extensions'),
+        },
+      },
+    });
+  }
+
+  return {
+    waypoints: { type: 'FeatureCollection', features: waypoints },
+    routes: { type: 'FeatureCollection', features: routes },
+    tracks: { type: 'FeatureCollection', features: tracks },
+  };
+};
+
+// Persisting parsed features
+
+export interface ImportTarget {
+  layerId?: string;
+  layerName: string;
+  projectId?: string;
+  description?: string;
+  fieldMapping?: FieldMapping;
+  geometryPolicy?: GeometryPolicy;
+  onInvalid?: InvalidFeatureMode;
+  sourceSrid?: number; // CRS of the coordinates when the file doesn't declare one
+}
+
+export interface ImportResult extends ImportValidationReport {
+  layer: Layer;
+  featureCount: number;
+  created: boolean;
+}
+
+// Called after every inserted chunk with the work done so far and the total (feature
+// counts, or bytes for streamed files)
+export type ImportProgressCallback = (inserted: number, total: number) => void | Promise<void>;
+
+const INSERT_CHUNK_SIZE = 500;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Look up the layer to append to, or create a new one for the import in a project
+// the owner can see
+export const resolveImportLayer = async (
+  target: ImportTarget,
+  ownerId: string
+): Promise<{ layer: Layer; created: boolean }> => {
+  if (target.layerId) {
+    const layer = UUID.test(target.layerId) ? await LayerModel.findById(target.layerId, ownerId) : null;
+    if (!layer) {
+      throw new NotFoundError(`Layer ${target.layerId} not found`);
+    }
+    return { layer, created: false };
+  }
+
+  if (target.projectId) {
+    if (!UUID.test(target.projectId)) {
+      throw new ValidationError('projectId must be a project id');
+    }
+    if (!await ProjectModel.findById(target.projectId, ownerId)) {
+      throw new NotFoundError('Project not found');
+    }
+  }
+
+  const layer = await LayerModel.create({
+    name: target.layerName,
+    description: target.description,
+    project_id: target.projectId,
+    type: 'vector',
+    source_type: 'file',
+  }, ownerId);
+  return { layer, created: true };
+};
+
+// The field mapping is applied first, so a field renamed to "name" becomes the feature name
+export const toFeatureRequest = (feature: GeoJSONFeature, layerId: string, fieldMapping?: FieldMapping): CreateFeatureRequest => {
+  const properties = applyFieldMapping(feature.properties || {}, fieldMapping);
+  return {
+    layer_id: layerId,
+    name: typeof properties.name === 'string' ? properties.name.slice(0, 255) : undefined,
+    description: typeof properties.description === 'string' ? properties.description : undefined,
+    geometry: feature.geometry,
+    properties,
+  };
+};
+
+export const saveFeatureCollection = async (
+  collection: GeoJSONFeatureCollection,
+  target: ImportTarget,
+  ownerId: string,
+  onProgress?: ImportProgressCallback
+): Promise<ImportResult> => {
+  const { layer, created } = await resolveImportLayer(target, ownerId);
+
+  const rows = collection.features
+    .map((feature, index) => ({ feature, index }))
+    .filter(({ feature }) => feature && feature.geometry)
+    .map(({ feature, index }) => ({ index, request: toFeatureRequest(feature, layer.id, target.fieldMapping) }));
+
+  const validator = new ImportValidator(target.geometryPolicy, target.onInvalid);
+  let featureCount = 0;
+
+  try {
+    // Everything is validated before the first insert, and the chunks go in under one
+    // transaction, so neither a rejected feature nor a database error can leave a
+    // partial append behind
+    const accepted: typeof rows = [];
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      accepted.push(...await validator.checkBatch(rows.slice(i, i + INSERT_CHUNK_SIZE)));
+    }
+
+    featureCount = await initializeDatabase().transaction(async client => {
+      let inserted = 0;
+      for (let i = 0; i < accepted.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = accepted.slice(i, i + INSERT_CHUNK_SIZE);
+        await FeatureModel.bulkCreate(chunk.map(row => row.request), ownerId, client);
+        inserted += chunk.length;
+        await onProgress?.(inserted, accepted.length);
+      }
+      return inserted;
+    });
+  } catch (error) {
+    // Don't leave a half-filled layer behind when we created it for this import
+    if (created) {
+      await LayerModel.delete(layer.id, ownerId).catch(cleanupError => {
+        console.error('Failed to clean up layer after import error:', cleanupError);
+      });
+    }
+    throw error;
+  }
+
+  return { layer, featureCount, created, ...validator.report() };
+};
+
+// Save several collections as one unit: progress is reported across all of them and
+// layers created earlier are removed again if a later one fails
+export const saveFeatureCollections = async (
+  items: Array<{ collection: GeoJSONFeatureCollection; target: ImportTarget }>,
+  ownerId: string,
+  onProgress?: ImportProgressCallback
+): Promise<ImportResult[]> => {
+  const total = items.reduce((sum, item) => sum + item.collection.features.length, 0);
+  const results: ImportResult[] = [];
+  let saved = 0;
+
+  try {
+    for (const { collection, target } of items) {
+      const result = await saveFeatureCollection(collection, target, ownerId, (inserted) =>
+        onProgress?.(saved + inserted, total)
+      );
+      saved += collection.features.length;
+      results.push(result);
+    }
+  } catch (error) {
+    for (const result of results.filter(result => result.created)) {
+      await LayerModel.delete(result.layer.id, ownerId).catch(cleanupError => {
+        console.error('Failed to clean up layer after import error:', cleanupError);
+      });
+    }
+    throw error;
+  }
+
+  return results;
+};
+
+export const GPX_LAYER_SUFFIXES: Record<GPXKind, string> = {
+  waypoints: 'Waypoints',
+  routes: 'Routes',
+  tracks: 'Tracks',
+};
+
+// Waypoints, routes and tracks each get their own layer; kinds with no features are skipped
+export const saveGPXCollections = async (
+  collections: GPXCollections,
+  target: Omit<ImportTarget, 'layerId'>,
+  ownerId: string,
+  onProgress?: ImportProgressCallback
+): Promise<Array<ImportResult & { kind: GPXKind }>> => {
+  const kinds = (Object.keys(GPX_LAYER_SUFFIXES) as GPXKind[])
+    .filter(kind => collections[kind].features.length > 0);
+
+  const results = await saveFeatureCollections(kinds.map(kind => ({
+    collection: collections[kind],
+    target: { ...target, layerName: `${target.layerName} - ${GPX_LAYER_SUFFIXES[kind]}` },
+  })), ownerId, onProgress);
+
+  return results.map((result, index) => ({ ...result, kind: kinds[index] }));
+};
@@ -0,0 +1,156 @@
+// GML 3.2 geometries for WFS: GeoJSON to fast-xml-parser builder objects, and parsed
+// GML (namespace prefixes removed) back to GeoJSON. Geographic CRSs named by URN or
+// http URI are latitude first, so `latLon` swaps the axes of every position.
+import { ValidationError } from '../middleware/errorHandler';
+import { GeoJSONGeometry } from '../types/database';
+
+export const GML_NAMESPACE = 'http://www.opengis.net/gml/3.2';
+
+// Elements the parser must always read as arrays, even when they occur once
+export const GML_ARRAY_TAGS = [
+  'pos', 'interior', 'innerBoundaryIs',
+  'pointMember', 'curveMember', 'lineStringMember', 'surfaceMember', 'polygonMember', 'geometryMember',
+];
+
+type Position = number[];
+
+const asArray = <T>(value: T | T[] | undefined): T[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// Writing
+
+const posText = (positions: Position[], latLon: boolean) =>
+  positions.map(([x, y]) => (latLon ? `${y} ${x}` : `${x} ${y}`)).join(' ');
+
+// [element name, content]; GML 3.2 requires a gml:id on every geometry, members included
+const encodeGeometry = (geometry: GeoJSONGeometry, id: string, latLon: boolean): [string, any] => {
+  const ring = (positions: Position[]) => ({ 'gml:LinearRing': { 'gml:posList': posText(positions, latLon) } });
+  const polygon = (rings: Position[][]) => ({
+    'gml:exterior': ring(rings[0]),
+    'gml:interior': rings.slice(1).map(ring),
+  });
+  const collection = (name: string, member: string, parts: GeoJSONGeometry[]): [string, any] => [name, {
+    '@_gml:id': id,
+    [member]: parts.map((part, index) => {
+      const [partName, content] = encodeGeometry(part, `${id}.${index}`, latLon);
+      return { [partName]: content };
+    }),
+  }];
+
+  switch (geometry.type) {
+    case 'Point':
+      return ['gml:Point', { '@_gml:id': id, 'gml:pos': posText([geometry.coordinates], latLon) }];
+    case 'LineString':
+      return ['gml:LineString', { '@_gml:id': id, 'gml:posList': posText(geometry.coordinates, latLon) }];
+    case 'Polygon':
+      return ['gml:Polygon', { '@_gml:id': id, ...polygon(geometry.coordinates) }];
+    case 'MultiPoint':
+      return collection('gml:MultiPoint', 'gml:pointMember',
+        geometry.coordinates.map((coordinates: Position) => ({ type: 'Point', coordinates })));
+    case 'MultiLineString':
+      return collection('gml:MultiCurve', 'gml:curveMember',
+        geometry.coordinates.map((coordinates: Position[]) => ({ type: 'LineString', coordinates })));
+    case 'MultiPolygon':
+      return collection('gml:MultiSurface', 'gml:surfaceMember',
+        geometry.coordinates.map((coordinates: Position[][]) => ({ type: 'Polygon', coordinates })));
+    default:
+      return collection('gml:MultiGeometry', 'gml:geometryMember', geometry.geometries || []);
+  }
+};
+
+// The content of a geometry property element
+export const geometryToGML = (geometry: GeoJSONGeometry, id: string, srsName: string, latLon: boolean) => {
+  const [name, content] = encodeGeometry(geometry, id, latLon);
+  return { [name]: { ...content, '@_srsName': srsName } };
+};
+
+// Reading
+
+const text = (node: any): string =>
+  node !== null && typeof node === 'object' ? String(node['#text'] ?? '') : String(node ?? '');
+
+// <gml:pos>/<gml:posList>, honouring srsDimension (extra ordinates are dropped)
+const parsePosList = (node: any, latLon: boolean): Position[] => {
+  const dimension = Number(node?.['@_srsDimension']) || 2;
+  const values = text(node).trim().split(/\s+/).filter(Boolean).map(Number);
+  if (values.length === 0 || values.length % dimension !== 0 || values.some(value => !Number.isFinite(value))) {
+    throw new ValidationError(`Invalid GML coordinates "${text(node).trim().slice(0, 50)}"`);
+  }
+
+  const positions: Position[] = [];
+  for (let i = 0; i < values.length; i += dimension) {
+    positions.push(latLon ? [values[i + 1], values[i]] : [values[i], values[i + 1]]);
+  }
+  return positions;
+};
+
+// GML 2 style "x,y x,y"
+const parseCoordinates = (node: any, latLon: boolean): Position[] =>
+  text(node).trim().split(/\s+/).filter(Boolean).map(tuple => {
+    const [a, b] = tuple.split(',').map(Number);
+    if (!Number.isFinite(a) || !Number.isFinite(b)) {
+      throw new ValidationError(`Invalid GML coordinates "${tuple}"`);
+    }
+    return latLon ? [b, a] : [a, b];
+  });
+
+const positionsOf = (element: any, latLon: boolean): Position[] => {
+  if (element?.posList !== undefined) return parsePosList(element.posList, latLon);
+  if (element?.pos !== undefined) return asArray(element.pos).flatMap(pos => parsePosList(pos, latLon));
+  if (element?.coordinates !== undefined) return parseCoordinates(element.coordinates, latLon);
+  throw new ValidationError('GML geometry has no coordinates');
+};
+
+const ringOf = (boundary: any, latLon: boolean): Position[] => positionsOf(boundary?.LinearRing, latLon);
+
+// The single geometry element inside `node`, as [local name, element]
+const geometryElement = (node: any): [string, any] => {
+  const name = node && typeof node === 'object'
+    ? Object.keys(node).find(key => !key.startsWith('@_') && key !== '#text')
+    : undefined;
+  if (!name) throw new ValidationError('Expected a GML geometry');
+  return [name, asArray(node[name])[0]];
+};
+
+// srsName declared on the geometry inside a property element
+export const gmlSrsName = (node: any): string | undefined => geometryElement(node)[1]?.['@_srsName'];
+
+export const parseGMLGeometry = (node: any, latLon: boolean): GeoJSONGeometry => {
+  const [name, element] = geometryElement(node);
+  const members = (memberName: string) => asArray(element?.[memberName]).map(member => parseGMLGeometry(member, latLon));
+
+  switch (name) {
+    case 'Point':
+      return { type: 'Point', coordinates: positionsOf(element, latLon)[0] };
+    case 'LineString':
+      return { type: 'LineString', coordinates: positionsOf(element, latLon) };
+    case 'Polygon':
+      return {
+        type: 'Polygon',
+        coordinates: [
+          ringOf(element?.exterior ?? element?.outerBoundaryIs, latLon),
+          ...[...asArray(element?.interior), ...asArray(element?.innerBoundaryIs)].map(ring => ringOf(ring, latLon)),
+        ],
+      };
+    case 'MultiPoint':
+      return { type: 'MultiPoint', coordinates: members('pointMember').map(point => point.coordinates) };
+    case 'MultiCurve':
+    case 'MultiLineString':
+      return {
+        type: 'MultiLineString',
+        coordinates: [...members('curveMember'), ...members('lineStringMember')].map(line => line.coordinates),
+      };
+    case 'MultiSurface':
+    case 'MultiPolygon':
+      return {
+        type: 'MultiPolygon',
+        coordinates: [...members('surfaceMember'), ...members('polygonMember')].map(polygon => polygon.coordinates),
+      };
+    case 'MultiGeometry':
+      return { type: 'GeometryCollection', geometries: members('geometryMember') };
+    default:
+      throw new ValidationError(`GML ${name} geometries are not supported`);
+  }
+};
@@ -0,0 +1,244 @@
+// Layers binned into hexagons or squares on a Web Mercator grid, for overviews of
+// point layers too dense to draw feature by feature. Each feature's cell is computed
+// from its coordinates rather than by joining against a generated grid, so the cost
+// grows with the number of features, not cells, and only non-empty cells come back.
+// Cells match PostGIS ST_HexagonGrid/ST_SquareGrid: `size` is the hexagon edge length
+// or square side in Web Mercator metres, which are true metres only at the equator.
+import { initializeDatabase, Queryable } from '../database/connection';
+import { ValidationError } from '../middleware/errorHandler';
+import { BBox, buildFeatureFilter, parseBBox } from './featureFilter';
+import { CQL2Expression, parseCQL2Query } from './cql2';
+
+export type GridShape = 'hex' | 'square';
+export type GridStatistic = 'count' | 'sum' | 'avg';
+
+export interface GridAggregationOptions {
+  grid: GridShape;
+  size: number; // Web Mercator metres
+  statistic: GridStatistic;
+  field?: string; // numeric property for sum and avg
+  bbox?: BBox; // WGS84; the layer's extent when absent
+  cql?: CQL2Expression;
+  cqlSrid?: number;
+}
+
+export interface GridCell {
+  type: 'Feature';
+  id: string; // "i:j" in the grid
+  properties: { count: number; value: number | null };
+  geometry: any;
+}
+
+export interface GridAggregation {
+  type: 'FeatureCollection';
+  features: GridCell[];
+  grid: GridShape;
+  size: number;
+  statistic: GridStatistic;
+  field?: string;
+  range: [number, number] | null; // smallest and largest cell value
+}
+
+const GRID_SHAPES: GridShape[] = ['hex', 'square'];
+const GRID_STATISTICS: GridStatistic[] = ['count', 'sum', 'avg'];
+
+// Web Mercator metres per pixel of a 256px tile at zoom 0
+const ZOOM_0_RESOLUTION = 156543.03392804097;
+const MAX_ZOOM = 24;
+// With `zoom` instead of `size`, cells are about this many pixels across
+const AUTO_CELL_PIXELS = 32;
+const MIN_CELL_SIZE = 1;
+const MAX_GRID_CELLS = 50000;
+
+// Web Mercator is undefined at the poles
+const MAX_LATITUDE = 85.0511287798;
+const EARTH_RADIUS = 6378137;
+
+const mercatorX = (longitude: number) => (EARTH_RADIUS * longitude * Math.PI) / 180;
+const mercatorY = (latitude: number) =>
+  EARTH_RADIUS * Math.log(Math.tan(Math.PI / 4 + (latitude * Math.PI) / 360));
+const latitudeAt = (y: number) => (360 / Math.PI) * Math.atan(Math.exp(y / EARTH_RADIUS)) - 90;
+
+const clampLatitude = (latitude: number) => Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude));
+
+// Area of one cell in square Web Mercator metres
+const cellArea = (grid: GridShape, size: number) => (grid === 'hex' ? ((3 * Math.sqrt(3)) / 2) * size * size : size * size);
+
+// `grid`, `size` or `zoom`, `field`, `statistic`, `bbox` and a CQL2 `filter` from the query string
+export const parseGridAggregationOptions = (query: Record<string, any>): GridAggregationOptions => {
+  const grid = (query.grid || 'hex') as GridShape;
+  if (!GRID_SHAPES.includes(grid)) {
+    throw new ValidationError(`grid must be one of ${GRID_SHAPES.join(', ')}`);
+  }
+
+  let size: number;
+  if (query.size !== undefined && query.size !== '') {
+    size = Number(query.size);
+    if (!Number.isFinite(size) || size < MIN_CELL_SIZE) {
+      throw new ValidationError(`size must be a number of metres, ${MIN_CELL_SIZE} or more`);
+    }
+  } else if (query.zoom !== undefined && query.zoom !== '') {
+    const zoom = Number(query.zoom);
+    if (!Number.isFinite(zoom) || zoom < 0 || zoom > MAX_ZOOM) {
+      throw new ValidationError(`zoom must be a number from 0 to ${MAX_ZOOM}`);
+    }
+    // A hexagon is twice its edge length across
+    const pixels = grid === 'hex' ? AUTO_CELL_PIXELS / 2 : AUTO_CELL_PIXELS;
+    size = Math.max((ZOOM_0_RESOLUTION / 2 ** zoom) * pixels, MIN_CELL_SIZE);
+  } else {
+    throw new ValidationError('Give a cell size in metres or a zoom level');
+  }
+
+  const field = query.field !== undefined && query.field !== '' ? String(query.field) : undefined;
+  const statistic = (query.statistic || (field ? 'sum' : 'count')) as GridStatistic;
+  if (!GRID_STATISTICS.includes(statistic)) {
+    throw new ValidationError(`statistic must be one of ${GRID_STATISTICS.join(', ')}`);
+  }
+  if (statistic !== 'count' && !field) {
+    throw new ValidationError(`statistic ${statistic} needs a field`);
+  }
+
+  let bbox;
+  try {
+    bbox = parseBBox(query.bbox);
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : 'Invalid bbox');
+  }
+
+  return { grid, size, statistic, field, bbox, ...parseCQL2Query(query) };
+};
+
+// The [i, j] cell of the Web Mercator point (x, y). Hexagon columns are 1.5 edges
+// apart with odd columns raised half a row, as in ST_HexagonGrid; of the two columns
+// either side of x, the point lies in the hexagon whose centre is nearest.
+const CELL_SQL: Record<GridShape, (size: string, height: string) => string> = {
+  square: size => `SELECT floor(p.x / ${size})::int AS i, floor(p.y / ${size})::int AS j`,
+  hex: (size, height) => `
+    SELECT v.i, v.j FROM (
+      SELECT c.i, round((p.y - ${height} / 2 * mod(abs(c.i), 2)) / ${height})::int AS j
+      FROM (VALUES (floor(p.x / (1.5 * ${size}))::int), (floor(p.x / (1.5 * ${size}))::int + 1)) AS c(i)
+    ) v
+    ORDER BY power(p.x - 1.5 * ${size} * v.i, 2) + power(p.y - ${height} * v.j - ${height} / 2 * mod(abs(v.i), 2), 2)
+    LIMIT 1
+  `,
+};
+
+const CELL_GEOMETRY: Record<GridShape, string> = {
+  square: 'ST_Square',
+  hex: 'ST_Hexagon',
+};
+
+// Cells touching `bbox` (or the whole layer) with their feature count and value.
+// Features up to a cell beyond the bbox are counted too, so cells cut by its edge
+// have the same totals whichever view they are fetched for. Features are binned by
+// a point on their surface.
+export const aggregateLayer = async (
+  layerId: string,
+  options: GridAggregationOptions,
+  client: Queryable = initializeDatabase()
+): Promise<GridAggregation> => {
+  let bbox = options.bbox;
+  if (!bbox) {
+    const extent = await client.query(
+      `SELECT ST_XMin(e) AS minx, ST_YMin(e) AS miny, ST_XMax(e) AS maxx, ST_YMax(e) AS maxy
+       FROM (SELECT ST_Extent(geometry) AS e FROM features WHERE layer_id = $1) s`,
+      [layerId]
+    );
+    const { minx, miny, maxx, maxy } = extent.rows[0] || {};
+    if (minx === null || minx === undefined) {
+      return { type: 'FeatureCollection', features: [], grid: options.grid, size: options.size, statistic: options.statistic, field: options.field, range: null };
+    }
+    bbox = [minx, miny, maxx, maxy];
+  }
+  const [minX, minY, maxX, maxY] = [
+    Math.max(-180, bbox[0]), clampLatitude(bbox[1]), Math.min(180, bbox[2]), clampLatitude(bbox[3]),
+  ];
+
+  const cells = ((mercatorX(maxX) - mercatorX(minX)) * (mercatorY(maxY) - mercatorY(minY))) / cellArea(options.grid, options.size);
+  if (cells > MAX_GRID_CELLS) {
+    throw new ValidationError(
+      `A ${options.size} m grid needs about ${Math.round(cells)} cells here (at most ${MAX_GRID_CELLS}); use a larger size or a smaller bbox`
+    );
+  }
+
+  // Features are read from the bbox grown by a cell diameter on each side
+  const pad = 2 * options.size;
+  const search = [
+    Math.max(-180, minX - (pad * 180) / (Math.PI * EARTH_RADIUS)),
+    clampLatitude(latitudeAt(mercatorY(minY) - pad)),
+    Math.min(180, maxX + (pad * 180) / (Math.PI * EARTH_RADIUS)),
+    clampLatitude(latitudeAt(mercatorY(maxY) + pad)),
+  ];
+
+  // $1 is the layer, $2-$5 the bbox, $6-$9 the search area, $10 the cell size and
+  // $11 the hexagon height
+  const filter = buildFeatureFilter({ cql: options.cql, cqlSrid: options.cqlSrid }, 12);
+  const params: any[] = [
+    layerId, minX, minY, maxX, maxY, ...search, options.size, options.size * Math.sqrt(3), ...filter.params,
+  ];
+  const value = (() => {
+    if (options.statistic === 'count') return 'NULL::double precision';
+    params.push(options.field);
+    const text = `f.properties->>$${params.length}::text`;
+    return `CASE WHEN ${text} ~ '^-?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$' THEN cql2_number(${text}) END`;
+  })();
+  const statistic = { count: 'COUNT(*)', sum: 'COALESCE(SUM(c.value), 0)', avg: 'AVG(c.value)' }[options.statistic];
+
+  const sql = `
+    WITH area AS (
+      SELECT ST_Transform(ST_MakeEnvelope($2, $3, $4, $5, 4326), 3857) AS view
+    ),
+    points AS (
+      SELECT ST_X(m.geometry) AS x, ST_Y(m.geometry) AS y, ${value} AS value
+      FROM features f
+      CROSS JOIN LATERAL (SELECT ST_Transform(ST_PointOnSurface(f.geometry), 3857) AS geometry) m
+      WHERE ${[
+        'f.layer_id = $1',
+        'ST_Intersects(f.geometry, ST_MakeEnvelope($6, $7, $8, $9, 4326))',
+        ...filter.conditions,
+      ].join(' AND ')}
+    ),
+    cells AS (
+      SELECT cell.i, cell.j, p.value
+      FROM points p
+      CROSS JOIN LATERAL (${CELL_SQL[options.grid]('$10::double precision', '$11::double precision')}) cell
+    ),
+    totals AS (
+      SELECT c.i, c.j, COUNT(*) AS count, ${statistic} AS value,
+        ST_SetSRID(${CELL_GEOMETRY[options.grid]}($10::double precision, c.i, c.j), 3857) AS geometry
+      FROM cells c
+      GROUP BY c.i, c.j
+    )
+    SELECT t.i, t.j, t.count, t.value, ST_AsGeoJSON(ST_Transform(t.geometry, 4326), 7)::json AS geometry
+    FROM totals t
+    CROSS JOIN area
+    WHERE ST_Intersects(t.geometry, area.view)
+    ORDER BY t.i, t.j
+  `;
+
+  const result = await client.query(sql, params);
+  const features: GridCell[] = result.rows.map(row => ({
+    type: 'Feature',
+    id: `${row.i}:${row.j}`,
+    properties: {
+      count: Number(row.count),
+      value: options.statistic === 'count' ? Number(row.count) : row.value === null ? null : Number(row.value),
+    },
+    geometry: row.geometry,
+  }));
+
+  const range = features.reduce<[number, number] | null>((extent, { properties: { value } }) => {
+    if (value === null) return extent;
+    return extent ? [Math.min(extent[0], value), Math.max(extent[1], value)] : [value, value];
+  }, null);
+
+  return {
+    type: 'FeatureCollection',
+    features,
+    grid: options.grid,
+    size: options.size,
+    statistic: options.statistic,
+    field: options.field,
+    range,
+  };
+};
@@ -0,0 +1,292 @@
+// Background processing of uploaded GIS files tracked in the file_uploads table
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import path from 'path';
+import { FileUploadModel } from '../models/FileUpload';
+import { ValidationError } from '../middleware/errorHandler';
+import { FileUpload } from '../types/database';
+import {
+  parseKML,
+  parseGPX,
+  saveFeatureCollection,
+  saveFeatureCollections,
+  saveGPXCollections,
+  ImportProgressCallback,
+  ImportResult,
+} from './gisImport';
+import { parseShapefileZip, shapefileLayerName } from './shapefile';
+import { parseCSV, CSVImportOptions } from './csvImport';
+import { importGeoJSONFile } from './geojsonStream';
+import { GeometryPolicy, InvalidFeatureMode } from './geometryValidation';
+import { FieldMapping } from './fieldMapping';
+import { reprojectFromSRID, STORAGE_SRID } from './projection';
+
+// Options recorded in file_uploads.metadata.options when the upload is accepted
+export interface ImportJobOptions {
+  layerName?: string;
+  projectId?: string;
+  onInvalid?: InvalidFeatureMode;
+  geometryPolicy?: GeometryPolicy;
+  sourceSrid?: number; // for files that don't declare a CRS (CSV, GeoJSON, shapefiles without .prj)
+  csv?: CSVImportOptions;
+  fieldMapping?: FieldMapping;
+}
+
+export interface ImportedLayerSummary {
+  id: string;
+  name: string;
+  featureCount: number;
+  [key: string]: any;
+}
+
+export interface ImportSummary {
+  layers: ImportedLayerSummary[];
+  featureCount: number;
+  report?: Record<string, any>;
+}
+
+export interface ImportJobEvent {
+  jobId: string;
+  projectId?: string;
+  status: FileUpload['processing_status'];
+  progress: number;
+  stage: string;
+  featureCount?: number;
+  layers?: ImportedLayerSummary[];
+  error?: string;
+}
+
+// Listeners (the Socket.io bridge in server.ts) receive a 'progress' event per update
+export const importJobEvents = new EventEmitter();
+
+export const SUPPORTED_IMPORT_EXTENSIONS = ['.geojson', '.json', '.kml', '.gpx', '.csv', '.zip'];
+
+// Parsing counts as the first 10% of a job, inserting features as the rest
+const PARSE_PROGRESS = 10;
+
+// Skipped features and geometry repairs are reported per layer
+const summarizeLayer = (result: ImportResult) => ({
+  id: result.layer.id,
+  name: result.layer.name,
+  featureCount: result.featureCount,
+  skippedFeatures: result.skipped,
+  errors: result.errors,
+  geometry: result.geometry,
+});
+
+export const processUploadedFile = async (
+  upload: FileUpload,
+  ownerId: string,
+  onProgress: (progress: number, stage: string) => Promise<void>
+): Promise<ImportSummary> => {
+  const options: ImportJobOptions = upload.metadata?.options || {};
+  const extension = path.extname(upload.original_filename).toLowerCase();
+  const baseName = options.layerName || path.basename(upload.original_filename, extension);
+  const target = {
+    layerName: baseName,
+    projectId: options.projectId || undefined,
+    fieldMapping: options.fieldMapping,
+    geometryPolicy: options.geometryPolicy,
+    onInvalid: options.onInvalid,
+    sourceSrid: options.sourceSrid,
+  };
+  const sourceSrid = options.sourceSrid ?? STORAGE_SRID;
+
+  const insertProgress: ImportProgressCallback = (inserted, total) =>
+    onProgress(PARSE_PROGRESS + Math.floor(((100 - PARSE_PROGRESS) * inserted) / Math.max(total, 1)), 'inserting');
+
+  await onProgress(0, 'parsing');
+  const readUpload = () => fs.readFile(upload.file_path);
+
+  switch (extension) {
+    // GeoJSON is streamed from disk rather than read into memory
+    case '.geojson':
+    case '.json': {
+      const streamProgress: ImportProgressCallback = (bytesRead, size) =>
+        onProgress(Math.floor((100 * bytesRead) / Math.max(size, 1)), 'inserting');
+      const result = await importGeoJSONFile(upload.file_path, target, ownerId, { onProgress: streamProgress });
+      return {
+        layers: [summarizeLayer(result)],
+        featureCount: result.featureCount,
+        report: {
+          geojson: {
+            skippedFeatures: result.skipped,
+            nullGeometries: result.nullGeometries,
+            errors: result.errors,
+          },
+        },
+      };
+    }
+
+    case '.kml': {
+      const collection = parseKML(await readUpload());
+      await onProgress(PARSE_PROGRESS, 'inserting');
+      const result = await saveFeatureCollection(collection, target, ownerId, insertProgress);
+      return { layers: [summarizeLayer(result)], featureCount: result.featureCount };
+    }
+
+    // GPX is split into separate waypoint, route and track layers
+    case '.gpx': {
+      const collections = parseGPX(await readUpload());
+      await onProgress(PARSE_PROGRESS, 'inserting');
+      const results = await saveGPXCollections(collections, target, ownerId, insertProgress);
+      return {
+        layers: results.map(result => ({ kind: result.kind, ...summarizeLayer(result) })),
+        featureCount: results.reduce((total, result) => total + result.featureCount, 0),
+      };
+    }
+
+    // CSV rows become features; rows that fail are skipped and reported back
+    case '.csv': {
+      const csv = parseCSV(await readUpload(), options.csv);
+      const report = {
+        delimiter: csv.delimiter,
+        encoding: csv.encoding,
+        columns: csv.columns,
+        columnTypes: csv.columnTypes,
+        totalRows: csv.totalRows,
+        skippedRows: csv.errorCount,
+        errors: csv.errors,
+      };
+
+      if (csv.collection.features.length === 0) {
+        throw new ValidationError('No valid rows found in CSV file', report);
+      }
+
+      const collection = await reprojectFromSRID(csv.collection, sourceSrid);
+      await onProgress(PARSE_PROGRESS, 'inserting');
+      const result = await saveFeatureCollection(collection, target, ownerId, insertProgress);
+      return { layers: [summarizeLayer(result)], featureCount: result.featureCount, report: { csv: report } };
+    }
+
+    // Zipped shapefile sets: one layer per .shp in the archive
+    case '.zip': {
+      const shapefiles = await parseShapefileZip(await readUpload());
+      await onProgress(PARSE_PROGRESS, 'inserting');
+      // A .prj has already been applied by the parser; the rest are in the requested CRS
+      const collections = await Promise.all(shapefiles.map(shapefile =>
+        shapefile.projection ? shapefile.collection : reprojectFromSRID(shapefile.collection, sourceSrid)
+      ));
+      const results = await saveFeatureCollections(shapefiles.map(({ name }, index) => ({
+        collection: collections[index],
+        target: { ...target, layerName: shapefileLayerName(name, shapefiles.length, options.layerName) },
+      })), ownerId, insertProgress);
+
+      return {
+        layers: results.map((result, index) => ({
+          ...summarizeLayer(result),
+          sourceName: shapefiles[index].name,
+          encoding: shapefiles[index].encoding,
+          reprojected: shapefiles[index].reprojected || (!shapefiles[index].projection && sourceSrid !== STORAGE_SRID),
+          skippedNullGeometries: shapefiles[index].skipped,
+        })),
+        featureCount: results.reduce((total, result) => total + result.featureCount, 0),
+      };
+    }
+
+    default:
+      throw new Error(`File type ${extension} cannot be imported. Supported types: ${SUPPORTED_IMPORT_EXTENSIONS.join(', ')}`);
+  }
+};
+
+// Jobs run one at a time in-process; the queue only holds file_uploads ids, so
+// anything still pending after a restart is picked up again by resumePendingImportJobs
+const queue: string[] = [];
+let running = false;
+
+const emit = (upload: FileUpload, event: Omit<ImportJobEvent, 'jobId' | 'projectId'>) => {
+  importJobEvents.emit('progress', {
+    jobId: upload.id,
+    projectId: upload.project_id,
+    ...event,
+  } as ImportJobEvent);
+};
+
+const runJob = async (uploadId: string) => {
+  const upload = await FileUploadModel.findById(uploadId);
+  if (!upload || upload.processing_status !== 'pending') return;
+
+  await FileUploadModel.update(upload.id, {
+    processing_status: 'processing',
+    metadata: { progress: 0, stage: 'parsing' },
+  });
+
+  let lastProgress = -1;
+  const onProgress = async (progress: number, stage: string) => {
+    if (progress === lastProgress) return;
+    lastProgress = progress;
+    await FileUploadModel.update(upload.id, { metadata: { progress, stage } });
+    emit(upload, { status: 'processing', progress, stage });
+  };
+
+  try {
+    const summary = await processUploadedFile(upload, upload.user_id, onProgress);
+
+    await FileUploadModel.update(upload.id, {
+      processing_status: 'completed',
+      layer_id: summary.layers[0]?.id,
+      processed_at: new Date(),
+      metadata: {
+        progress: 100,
+        stage: 'completed',
+        featureCount: summary.featureCount,
+        layers: summary.layers,
+        ...summary.report,
+      },
+    });
+    emit(upload, { status: 'completed', progress: 100, stage: 'completed', featureCount: summary.featureCount, layers: summary.layers });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Import job ${upload.id} failed:`, error);
+
+    await FileUploadModel.update(upload.id, {
+      processing_status: 'failed',
+      processing_error: message,
+      processed_at: new Date(),
+      metadata: {
+        stage: 'failed',
+        // A CSV without a single usable row still reports why each row failed
+        ...(error instanceof ValidationError && error.details ? { csv: error.details } : {}),
+      },
+    });
+    emit(upload, { status: 'failed', progress: lastProgress < 0 ? 0 : lastProgress, stage: 'failed', error: message });
+  } finally {
+    // The upload is only needed while the job runs, whether it succeeds or not
+    await fs.unlink(upload.file_path).catch(unlinkError => {
+      console.error('Failed to clean up file:', unlinkError);
+    });
+  }
+};
+
+const drainQueue = async () => {
+  if (running) return;
+  running = true;
+
+  while (queue.length > 0) {
+    const uploadId = queue.shift()!;
+    try {
+      await runJob(uploadId);
+    } catch (error) {
+      console.error(`Import job ${uploadId} could not be run:`, error);
+    }
+  }
+
+  running = false;
+};
+
+export const enqueueImportJob = (uploadId: string) => {
+  queue.push(uploadId);
+  setImmediate(drainQueue);
+};
+
+// Jobs interrupted by a restart are reset to pending and queued again
+export const resumePendingImportJobs = async () => {
+  const interrupted = await FileUploadModel.findByStatus('processing');
+  for (const upload of interrupted) {
+    await FileUploadModel.update(upload.id, { processing_status: 'pending' });
+  }
+
+  const pending = await FileUploadModel.findByStatus('pending');
+  pending.forEach(upload => enqueueImportJob(upload.id));
+  return pending.length;
+};
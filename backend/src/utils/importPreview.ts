@@ -0,0 +1,251 @@
+// Dry-run parsing of uploaded files: reports what an import would create without
+// writing anything, so a field mapping can be chosen before committing
+import fs from 'fs/promises';
+import path from 'path';
+import { GeoJSONFeature, GeoJSONGeometry } from '../types/database';
+import { parseKML, parseGPX, GPXKind, GPX_LAYER_SUFFIXES } from './gisImport';
+import { parseShapefileZip, shapefileLayerName } from './shapefile';
+import { parseCSV, CSVImportOptions } from './csvImport';
+import { streamGeoJSONFeatures, readGeoJSONCRS } from './geojsonStream';
+import { checkFeatureStructure, InvalidFeature } from './geometryValidation';
+import { FieldMapping, FieldSchema, SchemaBuilder, applyFieldMapping } from './fieldMapping';
+import { parseSRID, crsCode, reprojectFromSRID, wgs84Reprojector, STORAGE_SRID } from './projection';
+
+export interface PreviewOptions {
+  layerName?: string;
+  csv?: CSVImportOptions;
+  fieldMapping?: FieldMapping;
+  sourceSrid?: number; // for files that don't declare a CRS
+}
+
+export interface DatasetPreview {
+  name: string; // layer name the import would use
+  kind?: GPXKind;
+  featureCount: number;
+  nullGeometries: number;
+  geometryTypes: Record<string, number>;
+  bbox: [number, number, number, number] | null; // after reprojection to EPSG:4326
+  crs: string; // CRS of the source coordinates
+  schema: FieldSchema[];
+  mappedSchema?: FieldSchema[]; // only when a field mapping was supplied
+  sample: Array<{ geometryType: string | null; properties: Record<string, any> }>;
+  details?: Record<string, any>; // format-specific findings
+}
+
+export interface ImportPreview {
+  fileName: string;
+  fileType: string;
+  datasets: DatasetPreview[];
+  warnings: string[];
+}
+
+const SAMPLE_SIZE = 10;
+const MAX_PREVIEW_ERRORS = 100;
+
+// Walks any nesting of coordinate arrays
+const extendBounds = (bbox: number[], coordinates: any) => {
+  if (!Array.isArray(coordinates)) return;
+  if (typeof coordinates[0] === 'number') {
+    bbox[0] = Math.min(bbox[0], coordinates[0]);
+    bbox[1] = Math.min(bbox[1], coordinates[1]);
+    bbox[2] = Math.max(bbox[2], coordinates[0]);
+    bbox[3] = Math.max(bbox[3], coordinates[1]);
+    return;
+  }
+  coordinates.forEach(item => extendBounds(bbox, item));
+};
+
+const extendGeometryBounds = (bbox: number[], geometry: GeoJSONGeometry) => {
+  if (geometry.type === 'GeometryCollection') {
+    (geometry.geometries || []).forEach(member => extendGeometryBounds(bbox, member));
+  } else {
+    extendBounds(bbox, geometry.coordinates);
+  }
+};
+
+// Collects counts, extent, schema and samples feature by feature
+class DatasetPreviewBuilder {
+  private featureCount = 0;
+  private nullGeometries = 0;
+  private geometryTypes: Record<string, number> = {};
+  private bbox = [Infinity, Infinity, -Infinity, -Infinity];
+  private schema = new SchemaBuilder();
+  private mappedSchema = new SchemaBuilder();
+  private sample: DatasetPreview['sample'] = [];
+
+  constructor(private fieldMapping?: FieldMapping) {}
+
+  add(feature: GeoJSONFeature) {
+    if (!feature.geometry) {
+      this.nullGeometries++;
+      return;
+    }
+
+    this.featureCount++;
+    this.geometryTypes[feature.geometry.type] = (this.geometryTypes[feature.geometry.type] || 0) + 1;
+    extendGeometryBounds(this.bbox, feature.geometry);
+
+    const properties = feature.properties || {};
+    const mapped = applyFieldMapping(properties, this.fieldMapping);
+    this.schema.add(properties);
+    if (this.fieldMapping) this.mappedSchema.add(mapped);
+
+    if (this.sample.length < SAMPLE_SIZE) {
+      this.sample.push({ geometryType: feature.geometry.type, properties: mapped });
+    }
+  }
+
+  build(name: string, crs: string, extra: Partial<DatasetPreview> = {}): DatasetPreview {
+    return {
+      name,
+      featureCount: this.featureCount,
+      nullGeometries: this.nullGeometries,
+      geometryTypes: this.geometryTypes,
+      bbox: this.featureCount > 0 && Number.isFinite(this.bbox[0]) ? this.bbox as DatasetPreview['bbox'] : null,
+      crs,
+      schema: this.schema.build(),
+      ...(this.fieldMapping ? { mappedSchema: this.mappedSchema.build() } : {}),
+      sample: this.sample,
+      ...extra,
+    };
+  }
+}
+
+const previewCollection = (
+  features: GeoJSONFeature[],
+  name: string,
+  crs: string,
+  fieldMapping?: FieldMapping,
+  extra?: Partial<DatasetPreview>
+) => {
+  const builder = new DatasetPreviewBuilder(fieldMapping);
+  features.forEach(feature => builder.add(feature));
+  return builder.build(name, crs, extra);
+};
+
+// First name in a .prj WKT, e.g. PROJCS["WGS_1984_UTM_Zone_33N",...]
+const projectionName = (wkt: string) => /^\s*\w+\s*\[\s*"([^"]+)"/.exec(wkt)?.[1] || wkt;
+
+export const previewUploadedFile = async (
+  filePath: string,
+  originalName: string,
+  options: PreviewOptions = {}
+): Promise<ImportPreview> => {
+  const extension = path.extname(originalName).toLowerCase();
+  const baseName = options.layerName || path.basename(originalName, extension);
+  const warnings: string[] = [];
+  const sourceSrid = options.sourceSrid ?? STORAGE_SRID;
+  let datasets: DatasetPreview[];
+
+  switch (extension) {
+    // Streamed like the import itself, so previews of large files stay cheap on memory
+    case '.geojson':
+    case '.json': {
+      const builder = new DatasetPreviewBuilder(options.fieldMapping);
+      const errors: InvalidFeature[] = [];
+      let invalidFeatures = 0;
+
+      const declaredCRS = await readGeoJSONCRS(filePath);
+      const crs = declaredCRS || crsCode(sourceSrid);
+      const reproject = await wgs84Reprojector(declaredCRS ? parseSRID(declaredCRS) : sourceSrid);
+
+      const { features } = streamGeoJSONFeatures(filePath);
+      for await (const { key, value } of features) {
+        if (value?.type === 'Feature' && value.geometry === null) {
+          builder.add(value);
+          continue;
+        }
+        const error = checkFeatureStructure(value);
+        if (error) {
+          invalidFeatures++;
+          if (errors.length < MAX_PREVIEW_ERRORS) errors.push({ index: key, error });
+          continue;
+        }
+        builder.add(reproject ? { ...value, geometry: reproject(value.geometry) } : value);
+      }
+
+      if (crs !== crsCode(STORAGE_SRID)) {
+        warnings.push(`Coordinates will be reprojected from ${crs} to EPSG:4326`);
+      }
+      if (invalidFeatures > 0) {
+        warnings.push(`${invalidFeatures} invalid feature(s); import with onInvalid=skip to leave them out`);
+      }
+
+      datasets = [builder.build(baseName, crs, { details: { invalidFeatures, errors } })];
+      break;
+    }
+
+    case '.kml': {
+      const collection = parseKML(await fs.readFile(filePath));
+      datasets = [previewCollection(collection.features, baseName, 'EPSG:4326', options.fieldMapping)];
+      break;
+    }
+
+    case '.gpx': {
+      const collections = parseGPX(await fs.readFile(filePath));
+      datasets = (Object.keys(GPX_LAYER_SUFFIXES) as GPXKind[])
+        .filter(kind => collections[kind].features.length > 0)
+        .map(kind => previewCollection(
+          collections[kind].features,
+          `${baseName} - ${GPX_LAYER_SUFFIXES[kind]}`,
+          'EPSG:4326',
+          options.fieldMapping,
+          { kind }
+        ));
+      break;
+    }
+
+    case '.csv': {
+      const csv = parseCSV(await fs.readFile(filePath), options.csv);
+      if (csv.errorCount > 0) {
+        warnings.push(`${csv.errorCount} of ${csv.totalRows} row(s) could not be read and will be skipped`);
+      }
+      const collection = await reprojectFromSRID(csv.collection, sourceSrid);
+      datasets = [previewCollection(collection.features, baseName, crsCode(sourceSrid), options.fieldMapping, {
+        details: {
+          delimiter: csv.delimiter,
+          encoding: csv.encoding,
+          columns: csv.columns,
+          columnTypes: csv.columnTypes,
+          totalRows: csv.totalRows,
+          skippedRows: csv.errorCount,
+          errors: csv.errors.slice(0, MAX_PREVIEW_ERRORS),
+        },
+      })];
+      break;
+    }
+
+    case '.zip': {
+      const shapefiles = await parseShapefileZip(await fs.readFile(filePath));
+      const collections = await Promise.all(shapefiles.map(shapefile =>
+        shapefile.projection ? shapefile.collection : reprojectFromSRID(shapefile.collection, sourceSrid)
+      ));
+      datasets = shapefiles.map((shapefile, index) => {
+        if (!shapefile.projection) {
+          warnings.push(`${shapefile.name} has no .prj; coordinates are assumed to be ${crsCode(sourceSrid)}`);
+        }
+        return previewCollection(
+          collections[index].features,
+          shapefileLayerName(shapefile.name, shapefiles.length, options.layerName),
+          shapefile.projection ? projectionName(shapefile.projection) : crsCode(sourceSrid),
+          options.fieldMapping,
+          {
+            nullGeometries: shapefile.skipped,
+            details: {
+              sourceName: shapefile.name,
+              encoding: shapefile.encoding,
+              projection: shapefile.projection,
+              reprojected: shapefile.reprojected || (!shapefile.projection && sourceSrid !== STORAGE_SRID),
+            },
+          }
+        );
+      });
+      break;
+    }
+
+    default:
+      throw new Error(`File type ${extension} cannot be previewed`);
+  }
+
+  return { fileName: originalName, fileType: extension.slice(1), datasets, warnings };
+};
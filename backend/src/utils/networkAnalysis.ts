@@ -0,0 +1,340 @@
+// Shortest paths and service areas over a built routing network (see routingNetwork).
+// The edges are loaded into an in-memory graph once per build and searched with
+// Dijkstra's algorithm; geometry for the answer comes back from PostGIS. Points are
+// snapped to the nearest node, so a route starts and ends at a junction or line end
+// rather than part way along a line.
+import { initializeDatabase } from '../database/connection';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { RoutingNetwork } from '../types/database';
+
+type Position = [number, number];
+
+export type RouteCost = 'distance' | 'time';
+
+const ROUTE_COSTS: RouteCost[] = ['distance', 'time'];
+
+const MAX_ROUTE_POINTS = 25;
+// Points farther than this from every node are off the network
+const MAX_SNAP_DISTANCE = 5000;
+const MAX_SERVICE_DISTANCE = 200000; // metres
+const MAX_SERVICE_TIME = 600; // minutes
+
+// Share of the reached network's convex hull area the service area polygon keeps
+const SERVICE_AREA_HULL = 0.8;
+
+// Graphs kept in memory, least recently used dropped first
+const MAX_CACHED_GRAPHS = 4;
+
+// Arcs in compressed rows: the arcs out of node n are offsets[n] to offsets[n + 1];
+// forward is 1 where the arc runs the way its edge was drawn
+interface Graph {
+  builtAt: number;
+  offsets: Int32Array;
+  sources: Int32Array;
+  targets: Int32Array;
+  edges: Int32Array;
+  lengths: Float64Array;
+  times: Float64Array;
+  forward: Uint8Array;
+}
+
+export interface SnappedPoint {
+  node: number;
+  coordinates: Position;
+  snapDistance: number;
+}
+
+const graphs = new Map<string, Graph>();
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const loadGraph = async (network: RoutingNetwork): Promise<Graph> => {
+  const builtAt = network.built_at ? new Date(network.built_at).getTime() : 0;
+  const cached = graphs.get(network.layer_id);
+  if (cached && cached.builtAt === builtAt) {
+    graphs.delete(network.layer_id);
+    graphs.set(network.layer_id, cached);
+    return cached;
+  }
+
+  const result = await initializeDatabase().query(
+    'SELECT id, source, target, length, cost, reverse_cost FROM network_edges WHERE layer_id = $1',
+    [network.layer_id]
+  );
+
+  const arcs: Array<[number, number, number, number, number, number]> = [];
+  for (const edge of result.rows) {
+    if (edge.cost !== null) arcs.push([edge.source, edge.target, edge.id, edge.length, edge.cost, 1]);
+    if (edge.reverse_cost !== null) arcs.push([edge.target, edge.source, edge.id, edge.length, edge.reverse_cost, 0]);
+  }
+  arcs.sort((a, b) => a[0] - b[0]);
+
+  const graph: Graph = {
+    builtAt,
+    offsets: new Int32Array(network.node_count + 1),
+    sources: new Int32Array(arcs.length),
+    targets: new Int32Array(arcs.length),
+    edges: new Int32Array(arcs.length),
+    lengths: new Float64Array(arcs.length),
+    times: new Float64Array(arcs.length),
+    forward: new Uint8Array(arcs.length),
+  };
+  arcs.forEach(([from, to, edge, length, time, forward], index) => {
+    graph.offsets[from + 1]++;
+    graph.sources[index] = from;
+    graph.targets[index] = to;
+    graph.edges[index] = edge;
+    graph.lengths[index] = length;
+    graph.times[index] = time;
+    graph.forward[index] = forward;
+  });
+  for (let node = 0; node < network.node_count; node++) {
+    graph.offsets[node + 1] += graph.offsets[node];
+  }
+
+  graphs.set(network.layer_id, graph);
+  if (graphs.size > MAX_CACHED_GRAPHS) graphs.delete(graphs.keys().next().value!);
+  return graph;
+};
+
+// Costs from `origin` to every node (Infinity where unreached) and the arc each node
+// was reached by. Stops early once `target` is settled, or at costs beyond `limit`.
+const dijkstra = (graph: Graph, origin: number, cost: RouteCost, options: { target?: number; limit?: number } = {}) => {
+  const nodeCount = graph.offsets.length - 1;
+  const weights = cost === 'time' ? graph.times : graph.lengths;
+  const limit = options.limit ?? Infinity;
+  const costs = new Float64Array(nodeCount).fill(Infinity);
+  const via = new Int32Array(nodeCount).fill(-1);
+
+  // Binary heap of [cost, node]; stale entries are skipped when popped
+  const heap: Array<[number, number]> = [];
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const end = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = end;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  costs[origin] = 0;
+  push([0, origin]);
+  while (heap.length > 0) {
+    const [reached, node] = pop();
+    if (reached > costs[node]) continue;
+    if (node === options.target) break;
+
+    for (let arc = graph.offsets[node]; arc < graph.offsets[node + 1]; arc++) {
+      const next = reached + weights[arc];
+      const to = graph.targets[arc];
+      if (next < costs[to] && next <= limit) {
+        costs[to] = next;
+        via[to] = arc;
+        push([next, to]);
+      }
+    }
+  }
+
+  return { costs, via };
+};
+
+const parsePosition = (value: unknown, name: string): Position => {
+  if (!Array.isArray(value) || value.length < 2 || !value.slice(0, 2).every(v => typeof v === 'number' && Number.isFinite(v))
+    || Math.abs(value[0]) > 180 || Math.abs(value[1]) > 90) {
+    throw new ValidationError(`${name} must be a [longitude, latitude] position`);
+  }
+  return [value[0], value[1]];
+};
+
+const parseCost = (value: unknown): RouteCost => {
+  if (value === undefined) return 'distance';
+  if (!ROUTE_COSTS.includes(value as RouteCost)) {
+    throw new ValidationError(`cost must be one of ${ROUTE_COSTS.join(', ')}`);
+  }
+  return value as RouteCost;
+};
+
+const requireBuilt = (network: RoutingNetwork) => {
+  if (!network.built_at || network.edge_count === 0) {
+    throw new ValidationError('The network has not been built');
+  }
+};
+
+// The nearest node to each position, in order
+const snapToNodes = async (layerId: string, positions: Position[]): Promise<SnappedPoint[]> => {
+  const result = await initializeDatabase().query(
+    `SELECT a.ord, n.id, ST_X(n.geometry) AS x, ST_Y(n.geometry) AS y,
+       ST_Distance(n.geometry::geography, p.geometry::geography) AS distance
+     FROM jsonb_array_elements($2::jsonb) WITH ORDINALITY AS a(value, ord)
+     CROSS JOIN LATERAL (
+       SELECT ST_SetSRID(ST_MakePoint((a.value->>0)::double precision, (a.value->>1)::double precision), 4326) AS geometry
+     ) p
+     CROSS JOIN LATERAL (
+       SELECT n.id, n.geometry FROM network_nodes n
+       WHERE n.layer_id = $1
+       ORDER BY n.geometry::geography <-> p.geometry::geography
+       LIMIT 1
+     ) n
+     ORDER BY a.ord`,
+    [layerId, JSON.stringify(positions)]
+  );
+
+  return result.rows.map((row, index) => {
+    if (row.distance > MAX_SNAP_DISTANCE) {
+      throw new ValidationError(`Point ${index + 1} is ${Math.round(row.distance)} m from the network (at most ${MAX_SNAP_DISTANCE})`);
+    }
+    return { node: row.id, coordinates: [row.x, row.y], snapDistance: round(row.distance) };
+  });
+};
+
+// The route through `points` in order, as a GeoJSON LineString Feature with its
+// distance in metres, duration in seconds and the same for each leg
+export const shortestPath = async (network: RoutingNetwork, body: any) => {
+  requireBuilt(network);
+  const { points, cost: costParam } = body || {};
+  if (!Array.isArray(points) || points.length < 2 || points.length > MAX_ROUTE_POINTS) {
+    throw new ValidationError(`points must be a list of 2 to ${MAX_ROUTE_POINTS} [longitude, latitude] positions`);
+  }
+  const positions = points.map((point, index) => parsePosition(point, `points[${index}]`));
+  const cost = parseCost(costParam);
+
+  const graph = await loadGraph(network);
+  const waypoints = await snapToNodes(network.layer_id, positions);
+
+  // Arcs of the whole route, leg by leg
+  const arcs: number[] = [];
+  const legs: Array<{ distance: number; duration: number }> = [];
+  for (let leg = 1; leg < waypoints.length; leg++) {
+    const from = waypoints[leg - 1].node;
+    const to = waypoints[leg].node;
+    const { via } = dijkstra(graph, from, cost, { target: to });
+    if (from !== to && via[to] === -1) {
+      throw new NotFoundError(`No route from point ${leg} to point ${leg + 1} on this network`);
+    }
+
+    const legArcs: number[] = [];
+    for (let node = to; node !== from; node = graph.sources[via[node]]) {
+      legArcs.unshift(via[node]);
+    }
+    legs.push({
+      distance: round(legArcs.reduce((sum, arc) => sum + graph.lengths[arc], 0)),
+      duration: round(legArcs.reduce((sum, arc) => sum + graph.times[arc], 0)),
+    });
+    arcs.push(...legArcs);
+  }
+
+  const geometries = await initializeDatabase().query(
+    'SELECT id, ST_AsGeoJSON(geometry, 7)::json AS geometry FROM network_edges WHERE layer_id = $1 AND id = ANY($2::int[])',
+    [network.layer_id, [...new Set(arcs.map(arc => graph.edges[arc]))]]
+  );
+  const edgeCoordinates = new Map<number, Position[]>(geometries.rows.map(row => [row.id, row.geometry.coordinates]));
+
+  const coordinates: Position[] = [waypoints[0].coordinates];
+  for (const arc of arcs) {
+    const line = edgeCoordinates.get(graph.edges[arc]) ?? [];
+    coordinates.push(...(graph.forward[arc] ? line : [...line].reverse()).slice(1));
+  }
+  if (coordinates.length === 1) coordinates.push(coordinates[0]);
+
+  return {
+    type: 'Feature' as const,
+    geometry: { type: 'LineString' as const, coordinates },
+    properties: {
+      cost,
+      distance: round(legs.reduce((sum, leg) => sum + leg.distance, 0)),
+      duration: round(legs.reduce((sum, leg) => sum + leg.duration, 0)),
+      legs,
+      waypoints: waypoints.map(({ coordinates: position, snapDistance }) => ({ coordinates: position, snapDistance })),
+    },
+  };
+};
+
+// The part of the network reachable from `point` within `distance` metres or `time`
+// minutes: a Polygon around it and the reachable lines, cut where the limit falls
+// part way along an edge
+export const serviceArea = async (network: RoutingNetwork, body: any) => {
+  requireBuilt(network);
+  const { point, distance, time } = body || {};
+  const position = parsePosition(point, 'point');
+  if ((distance === undefined) === (time === undefined)) {
+    throw new ValidationError('Give either a distance in metres or a time in minutes');
+  }
+  if (distance !== undefined && (typeof distance !== 'number' || !(distance > 0 && distance <= MAX_SERVICE_DISTANCE))) {
+    throw new ValidationError(`distance must be a distance in metres above 0 and up to ${MAX_SERVICE_DISTANCE}`);
+  }
+  if (time !== undefined && (typeof time !== 'number' || !(time > 0 && time <= MAX_SERVICE_TIME))) {
+    throw new ValidationError(`time must be a number of minutes above 0 and up to ${MAX_SERVICE_TIME}`);
+  }
+  const cost: RouteCost = distance !== undefined ? 'distance' : 'time';
+  const limit = distance !== undefined ? distance : time * 60;
+
+  const graph = await loadGraph(network);
+  const [origin] = await snapToNodes(network.layer_id, [position]);
+  const { costs } = dijkstra(graph, origin.node, cost, { limit });
+  const weights = cost === 'time' ? graph.times : graph.lengths;
+
+  // Fractions of each edge reached, measured along the way it was drawn
+  const pieces: Array<{ id: number; start: number; finish: number }> = [];
+  let reachedNodes = 0;
+  for (let node = 0; node < graph.offsets.length - 1; node++) {
+    if (costs[node] === Infinity) continue;
+    reachedNodes++;
+    for (let arc = graph.offsets[node]; arc < graph.offsets[node + 1]; arc++) {
+      const weight = weights[arc];
+      const share = weight > 0 ? Math.min((limit - costs[node]) / weight, 1) : 1;
+      if (share <= 0) continue;
+      pieces.push(graph.forward[arc]
+        ? { id: graph.edges[arc], start: 0, finish: share }
+        : { id: graph.edges[arc], start: 1 - share, finish: 1 });
+    }
+  }
+
+  const result = pieces.length === 0 ? null : (await initializeDatabase().query(
+    `WITH pieces AS (
+       SELECT ST_LineSubstring(e.geometry, p.start, p.finish) AS geometry
+       FROM jsonb_to_recordset($2::jsonb) AS p(id integer, start double precision, finish double precision)
+       JOIN network_edges e ON e.layer_id = $1 AND e.id = p.id
+     )
+     SELECT ST_AsGeoJSON(ST_ConcaveHull(ST_Collect(geometry), $3::double precision), 7)::json AS area,
+       ST_AsGeoJSON(ST_Multi(ST_Collect(geometry)), 7)::json AS network,
+       SUM(ST_Length(geometry::geography)) AS length
+     FROM pieces`,
+    [network.layer_id, JSON.stringify(pieces), SERVICE_AREA_HULL]
+  )).rows[0];
+
+  const properties = { cost, limit: cost === 'time' ? time : distance };
+  return {
+    type: 'FeatureCollection' as const,
+    features: result?.network ? [
+      { type: 'Feature' as const, geometry: result.area, properties: { ...properties, part: 'area' } },
+      { type: 'Feature' as const, geometry: result.network, properties: { ...properties, part: 'network', length: round(Number(result.length)) } },
+    ] : [],
+    origin: { coordinates: origin.coordinates, snapDistance: origin.snapDistance },
+    reachedNodes,
+  };
+};
+
+export const clearCachedGraph = (layerId: string) => {
+  graphs.delete(layerId);
+};
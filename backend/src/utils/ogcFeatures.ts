@@ -0,0 +1,172 @@
+// OGC API - Features (Part 1: Core) documents for MapVue's vector layers. Every vector
+// layer is a collection; features are GeoJSON in CRS84 (WGS 84 longitude/latitude).
+import { ValidationError } from '../middleware/errorHandler';
+import { Feature, Layer, LayerExtent } from '../types/database';
+import { FeatureFilters, parseBBox, parseDatetime } from './featureFilter';
+
+export const GEOJSON_CONTENT_TYPE = 'application/geo+json';
+
+const JSON_CONTENT_TYPE = 'application/json';
+const CRS84 = 'http://www.opengis.net/def/crs/OGC/1.3/CRS84';
+const GREGORIAN = 'http://www.opengis.net/def/uom/ISO-8601/0/Gregorian';
+
+export const CONFORMANCE_CLASSES = [
+  'http://www.opengis.net/spec/ogcapi-features-1/1.0/conf/core',
+  'http://www.opengis.net/spec/ogcapi-features-1/1.0/conf/geojson',
+];
+
+export const DEFAULT_ITEM_LIMIT = 10;
+export const MAX_ITEM_LIMIT = 10000;
+
+// Parameters with a meaning of their own; any other one filters on a feature property
+const RESERVED_PARAMS = ['f', 'bbox', 'datetime', 'limit', 'offset'];
+
+export interface OGCLink {
+  href: string;
+  rel: string;
+  type?: string;
+  title?: string;
+}
+
+export interface ItemsQuery {
+  limit: number;
+  offset: number;
+  filters: FeatureFilters;
+}
+
+const wholeNumber = (value: unknown, name: string, min: number): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new ValidationError(`${name} must be a whole number, ${min} or more`);
+  }
+  return number;
+};
+
+// Only JSON encodings are offered
+export const checkFormat = (query: Record<string, any>) => {
+  if (query.f !== undefined && !['json', 'geojson'].includes(String(query.f).toLowerCase())) {
+    throw new ValidationError(`Unsupported format "${query.f}"; only json is available`);
+  }
+};
+
+// bbox (CRS84, 2D or 3D), datetime, limit, offset and <property>=<value> filters.
+// Limits above MAX_ITEM_LIMIT are lowered to it, as the standard allows.
+export const parseItemsQuery = (query: Record<string, any>): ItemsQuery => {
+  checkFormat(query);
+
+  const filters: FeatureFilters = {};
+  try {
+    let bbox = query.bbox;
+    const coords = bbox === undefined ? [] : String(bbox).split(',');
+    if (coords.length === 6) bbox = [coords[0], coords[1], coords[3], coords[4]].join(',');
+    filters.bbox = parseBBox(bbox);
+    filters.created = parseDatetime(query.datetime);
+  } catch (filterError) {
+    throw new ValidationError(filterError instanceof Error ? filterError.message : 'Invalid filter');
+  }
+
+  filters.attributes = Object.keys(query)
+    .filter(key => !RESERVED_PARAMS.includes(key))
+    .map(key => ({ field: key, operator: '=' as const, value: String(query[key]) }));
+
+  return {
+    limit: Math.min(wholeNumber(query.limit, 'limit', 1) ?? DEFAULT_ITEM_LIMIT, MAX_ITEM_LIMIT),
+    offset: wholeNumber(query.offset, 'offset', 0) ?? 0,
+    filters,
+  };
+};
+
+export const landingPage = (baseUrl: string) => ({
+  title: 'MapVue',
+  description: 'MapVue vector layers as OGC API - Features collections',
+  links: [
+    { href: baseUrl, rel: 'self', type: JSON_CONTENT_TYPE, title: 'This document' },
+    { href: `${baseUrl}/conformance`, rel: 'conformance', type: JSON_CONTENT_TYPE, title: 'Conformance classes' },
+    { href: `${baseUrl}/collections`, rel: 'data', type: JSON_CONTENT_TYPE, title: 'Collections' },
+  ],
+});
+
+export const collectionDocument = (layer: Layer, extent: LayerExtent | undefined, baseUrl: string) => {
+  const href = `${baseUrl}/collections/${layer.id}`;
+  return {
+    id: layer.id,
+    title: layer.name,
+    ...(layer.description ? { description: layer.description } : {}),
+    itemType: 'feature',
+    crs: [CRS84],
+    ...(extent ? {
+      extent: {
+        spatial: { bbox: [extent.bbox], crs: CRS84 },
+        temporal: {
+          interval: [extent.created.map(date => new Date(date).toISOString())],
+          trs: GREGORIAN,
+        },
+      },
+    } : {}),
+    links: [
+      { href, rel: 'self', type: JSON_CONTENT_TYPE, title: layer.name },
+      { href: `${href}/items`, rel: 'items', type: GEOJSON_CONTENT_TYPE, title: `${layer.name} features` },
+    ],
+  };
+};
+
+export const itemDocument = (feature: Feature, baseUrl: string) => {
+  const collection = `${baseUrl}/collections/${feature.layer_id}`;
+  return {
+    type: 'Feature',
+    id: feature.id,
+    geometry: feature.geometry,
+    properties: {
+      ...(feature.name ? { name: feature.name } : {}),
+      ...(feature.description ? { description: feature.description } : {}),
+      ...feature.properties,
+      createdAt: feature.created_at,
+      updatedAt: feature.updated_at,
+    },
+    links: [
+      { href: `${collection}/items/${feature.id}`, rel: 'self', type: GEOJSON_CONTENT_TYPE },
+      { href: collection, rel: 'collection', type: JSON_CONTENT_TYPE },
+    ],
+  };
+};
+
+// The same request with another offset, for next/prev links
+const pageHref = (itemsUrl: string, query: Record<string, any>, offset: number) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach(item => params.append(key, String(item)));
+  });
+  params.set('offset', String(offset));
+  return `${itemsUrl}?${params}`;
+};
+
+export const itemsDocument = (
+  features: Feature[],
+  numberMatched: number,
+  { limit, offset }: ItemsQuery,
+  query: Record<string, any>,
+  collectionUrl: string,
+  baseUrl: string
+) => {
+  const itemsUrl = `${collectionUrl}/items`;
+  const links: OGCLink[] = [
+    { href: pageHref(itemsUrl, query, offset), rel: 'self', type: GEOJSON_CONTENT_TYPE },
+    { href: collectionUrl, rel: 'collection', type: JSON_CONTENT_TYPE },
+  ];
+  if (offset + features.length < numberMatched) {
+    links.push({ href: pageHref(itemsUrl, query, offset + limit), rel: 'next', type: GEOJSON_CONTENT_TYPE });
+  }
+  if (offset > 0) {
+    links.push({ href: pageHref(itemsUrl, query, Math.max(offset - limit, 0)), rel: 'prev', type: GEOJSON_CONTENT_TYPE });
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: features.map(feature => itemDocument(feature, baseUrl)),
+    numberMatched,
+    numberReturned: features.length,
+    timeStamp: new Date().toISOString(),
+    links,
+  };
+};
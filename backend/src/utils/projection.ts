@@ -0,0 +1,147 @@
+// Coordinate reference systems: parsing EPSG codes, looking up definitions in
+// PostGIS' spatial_ref_sys, and reprojection helpers built on proj4
+import proj4 from 'proj4';
+import { initializeDatabase, Queryable } from '../database/connection';
+import { ValidationError } from '../middleware/errorHandler';
+import { GeoJSONGeometry, GeoJSONFeatureCollection } from '../types/database';
+
+const WGS84 = 'EPSG:4326';
+
+// The SRID of features.geometry; everything is stored in this CRS
+export const STORAGE_SRID = 4326;
+
+export interface CRSInfo {
+  srid: number;
+  code: string; // "EPSG:2263"
+  name: string;
+  proj4: string;
+  wkt: string;
+  geographic: boolean;
+  units: string; // "degrees", "m", "us-ft"...
+}
+
+// Accepts 2263, "2263", "EPSG:2263", "urn:ogc:def:crs:EPSG::2263",
+// "http://www.opengis.net/def/crs/EPSG/0/2263" and the CRS84 aliases (as 4326)
+export const parseSRID = (value: unknown): number => {
+  const text = String(value ?? '').trim();
+  if (/(^|[:/])CRS84$/i.test(text)) return STORAGE_SRID;
+
+  const match = /^(?:EPSG:+|urn:ogc:def:crs:EPSG:[\d.]*:|https?:\/\/www\.opengis\.net\/def\/crs\/EPSG\/\d+\/)?(\d+)$/i.exec(text);
+  const srid = match ? Number(match[1]) : NaN;
+  if (!Number.isInteger(srid) || srid <= 0) {
+    throw new ValidationError(`Unrecognised CRS "${text}"; expected an EPSG code such as EPSG:2263`);
+  }
+  return srid;
+};
+
+// Optional request parameter: the storage SRID when absent
+export const parseOptionalSRID = (value: unknown): number =>
+  value === undefined || value === null || value === '' ? STORAGE_SRID : parseSRID(value);
+
+export const crsCode = (srid: number) => `EPSG:${srid}`;
+
+// Definitions don't change at runtime, so lookups are cached for the process
+const crsCache = new Map<number, Promise<CRSInfo>>();
+
+export const getCRS = (srid: number, client: Queryable = initializeDatabase()): Promise<CRSInfo> => {
+  let info = crsCache.get(srid);
+  if (!info) {
+    info = client.query(
+      'SELECT srid, auth_name, srtext, proj4text FROM spatial_ref_sys WHERE srid = $1',
+      [srid]
+    ).then(result => {
+      const row = result.rows[0];
+      if (!row || !row.proj4text) {
+        throw new ValidationError(`${crsCode(srid)} is not a known coordinate reference system`);
+      }
+      const definition = String(row.proj4text).trim();
+      proj4.defs(crsCode(srid), definition);
+      return {
+        srid,
+        code: crsCode(srid),
+        name: /^\s*\w+\s*\[\s*"([^"]+)"/.exec(row.srtext || '')?.[1] || crsCode(srid),
+        proj4: definition,
+        wkt: row.srtext || '',
+        geographic: /\+proj=longlat\b/.test(definition),
+        units: /\+proj=longlat\b/.test(definition) ? 'degrees' : /\+units=(\S+)/.exec(definition)?.[1] || 'm',
+      };
+    });
+    // Failed lookups aren't cached, so a CRS added to spatial_ref_sys later is found
+    info.catch(() => crsCache.delete(srid));
+    crsCache.set(srid, info);
+  }
+  return info;
+};
+
+// Parses an optional request parameter and checks the CRS exists
+export const resolveCRS = async (value: unknown, client?: Queryable): Promise<CRSInfo> =>
+  getCRS(parseOptionalSRID(value), client);
+
+// Recursively apply a coordinate transform to every position in a geometry
+const transformCoordinates = (coordinates: any, transform: (position: number[]) => number[]): any => {
+  if (typeof coordinates[0] === 'number') {
+    return transform(coordinates);
+  }
+  return coordinates.map((child: any) => transformCoordinates(child, transform));
+};
+
+export const transformGeometry = (
+  geometry: GeoJSONGeometry,
+  transform: (position: number[]) => number[]
+): GeoJSONGeometry => {
+  if (geometry.type === 'GeometryCollection') {
+    return {
+      type: 'GeometryCollection',
+      geometries: (geometry.geometries || []).map(member => transformGeometry(member, transform)),
+    };
+  }
+  return { type: geometry.type, coordinates: transformCoordinates(geometry.coordinates, transform) };
+};
+
+// Reproject a collection from a proj4 definition (WKT from a .prj, a proj string or a
+// known EPSG code) into WGS84, the SRID of the features table
+export const reprojectToWGS84 = (
+  collection: GeoJSONFeatureCollection,
+  sourceDefinition: string
+): GeoJSONFeatureCollection => {
+  const converter = proj4(sourceDefinition, WGS84);
+  const transform = (position: number[]) => converter.forward([position[0], position[1]]);
+
+  return {
+    ...collection,
+    features: collection.features.map(feature => ({
+      ...feature,
+      geometry: feature.geometry ? transformGeometry(feature.geometry, transform) : feature.geometry,
+    })),
+  };
+};
+
+// Reproject a collection from an EPSG code into WGS84
+export const reprojectFromSRID = async (
+  collection: GeoJSONFeatureCollection,
+  srid: number,
+  client?: Queryable
+): Promise<GeoJSONFeatureCollection> => {
+  if (srid === STORAGE_SRID) return collection;
+  const crs = await getCRS(srid, client);
+  return reprojectToWGS84(collection, crs.proj4);
+};
+
+// A geometry transform into WGS84, or null when the source already is
+export const wgs84Reprojector = async (
+  srid: number,
+  client?: Queryable
+): Promise<((geometry: GeoJSONGeometry) => GeoJSONGeometry) | null> => {
+  if (srid === STORAGE_SRID) return null;
+  const converter = proj4((await getCRS(srid, client)).proj4, WGS84);
+  return geometry => transformGeometry(geometry, position => converter.forward([position[0], position[1]]));
+};
+
+// .prj files that already describe geographic WGS84 need no transform
+export const isWGS84Definition = (definition: string): boolean => {
+  const normalized = definition.replace(/\s+/g, '').toUpperCase();
+  return normalized.startsWith('GEOGCS["GCS_WGS_1984"')
+    || normalized.startsWith('GEOGCS["WGS84"')
+    || normalized.startsWith('GEOGCS["WGS_1984"')
+    || normalized === WGS84;
+};
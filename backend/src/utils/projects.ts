@@ -0,0 +1,92 @@
+// Request bodies for the project endpoints. Bounds are a [minLon, minLat, maxLon, maxLat]
+// box or a GeoJSON Polygon and default centres a [lon, lat] pair or a GeoJSON Point,
+// all in EPSG:4326; null clears either.
+import { ValidationError } from '../middleware/errorHandler';
+import { GeoJSONPoint, GeoJSONPolygon, UpdateProjectRequest } from '../types/database';
+
+const MAX_ZOOM = 22;
+
+const isLonLat = ([lon, lat]: number[]) =>
+  Number.isFinite(lon) && Number.isFinite(lat) && Math.abs(lon) <= 180 && Math.abs(lat) <= 90;
+
+const parseBounds = (value: unknown): GeoJSONPolygon | null => {
+  if (value === null) return null;
+
+  if (Array.isArray(value)) {
+    const box = value.map(Number);
+    if (box.length !== 4 || !isLonLat(box.slice(0, 2)) || !isLonLat(box.slice(2)) || box[0] >= box[2] || box[1] >= box[3]) {
+      throw new ValidationError('bounds must be [minLon, minLat, maxLon, maxLat] in EPSG:4326');
+    }
+    const [minX, minY, maxX, maxY] = box;
+    return {
+      type: 'Polygon',
+      coordinates: [[[minX, minY], [maxX, minY], [maxX, maxY], [minX, maxY], [minX, minY]]],
+    };
+  }
+
+  const polygon = value as GeoJSONPolygon;
+  if (polygon?.type !== 'Polygon' || !Array.isArray(polygon.coordinates?.[0]) || !polygon.coordinates.flat().every(isLonLat)) {
+    throw new ValidationError('bounds must be a [minLon, minLat, maxLon, maxLat] box or a GeoJSON Polygon in EPSG:4326');
+  }
+  return { type: 'Polygon', coordinates: polygon.coordinates };
+};
+
+const parseCenter = (value: unknown): GeoJSONPoint | null => {
+  if (value === null) return null;
+
+  const coordinates = Array.isArray(value) ? value.map(Number) : (value as GeoJSONPoint)?.type === 'Point' ? (value as GeoJSONPoint).coordinates : undefined;
+  if (!coordinates || coordinates.length !== 2 || !isLonLat(coordinates)) {
+    throw new ValidationError('defaultCenter must be [lon, lat] or a GeoJSON Point in EPSG:4326');
+  }
+  return { type: 'Point', coordinates: [coordinates[0], coordinates[1]] };
+};
+
+// The fields present in a create (name required) or update body; absent fields stay undefined
+export const parseProjectRequest = (body: any, requireName: boolean): UpdateProjectRequest => {
+  const { name, description, isPublic, bounds, defaultZoom, defaultCenter, settings } = body || {};
+  const request: UpdateProjectRequest = {};
+
+  if (name !== undefined || requireName) {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new ValidationError('name is required');
+    }
+    request.name = name.trim();
+  }
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') {
+      throw new ValidationError('description must be a string');
+    }
+    request.description = description ?? '';
+  }
+  if (isPublic !== undefined) {
+    if (typeof isPublic !== 'boolean') {
+      throw new ValidationError('isPublic must be true or false');
+    }
+    request.is_public = isPublic;
+  }
+  if (defaultZoom !== undefined) {
+    if (!Number.isInteger(defaultZoom) || defaultZoom < 0 || defaultZoom > MAX_ZOOM) {
+      throw new ValidationError(`defaultZoom must be a whole number from 0 to ${MAX_ZOOM}`);
+    }
+    request.default_zoom = defaultZoom;
+  }
+  if (settings !== undefined) {
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      throw new ValidationError('settings must be an object');
+    }
+    request.settings = settings;
+  }
+  if (bounds !== undefined) request.bounds = parseBounds(bounds);
+  if (defaultCenter !== undefined) request.default_center = parseCenter(defaultCenter);
+
+  return request;
+};
+
+// [minLon, minLat, maxLon, maxLat] of stored bounds, the shape clients send
+export const boundsBox = (bounds?: GeoJSONPolygon | null): number[] | undefined => {
+  if (!bounds) return undefined;
+  const positions: number[][] = bounds.coordinates.flat();
+  const lons = positions.map(([lon]) => lon);
+  const lats = positions.map(([, lat]) => lat);
+  return [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+};
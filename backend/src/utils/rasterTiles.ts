@@ -0,0 +1,223 @@
+// XYZ PNG tiles of raster layers in Web Mercator. Each tile pixel is mapped into the
+// raster's CRS and takes the nearest pixel of the overview closest to the tile's
+// resolution. One band is coloured with a ramp from a minimum to a maximum (the
+// band's range by default); three bands or more can be drawn as RGB. Nodata, NaN and
+// pixels outside the raster are transparent.
+import proj4 from 'proj4';
+import { TypedArray } from 'geotiff';
+import { ValidationError } from '../middleware/errorHandler';
+import { Layer } from '../types/database';
+import { getCRS } from './projection';
+import { encodePNG } from './png';
+import { MAX_READ_PIXELS, RasterInfo, isNodata, openRaster } from './rasters';
+import { TileCoordinates, layerVisibleAtZoom } from './vectorTiles';
+
+export const RASTER_TILE_CONTENT_TYPE = 'image/png';
+
+const TILE_SIZE = 256;
+const WEB_MERCATOR_SRID = 3857;
+const WEB_MERCATOR_WIDTH = 2 * 20037508.342789244;
+
+// Tile pixels between exactly reprojected points; positions in between are
+// interpolated, which is far faster and off by much less than a pixel
+const TRANSFORM_STEP = 16;
+
+type Color = [number, number, number];
+
+// Evenly spaced colour stops, lowest value first
+export const COLOR_RAMPS: Record<string, Color[]> = {
+  greys: [[0, 0, 0], [255, 255, 255]],
+  viridis: [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]],
+  magma: [[0, 0, 4], [81, 18, 124], [183, 55, 121], [252, 137, 97], [252, 253, 191]],
+  blues: [[247, 251, 255], [198, 219, 239], [107, 174, 214], [33, 113, 181], [8, 48, 107]],
+  terrain: [[51, 51, 153], [0, 153, 255], [0, 204, 102], [255, 255, 153], [128, 92, 84], [255, 255, 255]],
+  spectral: [[215, 25, 28], [253, 174, 97], [255, 255, 191], [171, 221, 164], [43, 131, 186]],
+};
+
+export const RASTER_RENDERERS = ['rgb', ...Object.keys(COLOR_RAMPS)];
+
+export interface RasterStyle {
+  colorRamp: string; // 'rgb' or a key of COLOR_RAMPS
+  band: number; // 1-based, for ramps
+  min?: number; // values at or below are the first colour; RGB bands are stretched between min and max
+  max?: number;
+  nodata?: number | null; // replaces the file's nodata value
+  opacity: number;
+}
+
+// 256 colours along each ramp
+const RAMP_TABLES = Object.fromEntries(Object.entries(COLOR_RAMPS).map(([name, stops]) => {
+  const table = new Uint8Array(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1);
+    const lower = Math.min(Math.floor(position), stops.length - 2);
+    const t = position - lower;
+    for (let channel = 0; channel < 3; channel++) {
+      table[i * 3 + channel] = Math.round(stops[lower][channel] + t * (stops[lower + 1][channel] - stops[lower][channel]));
+    }
+  }
+  return [name, table];
+}));
+
+const optionalNumber = (value: unknown, name: string) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new ValidationError(`${name} must be a number`);
+  return number;
+};
+
+// The layer's styleConfig (`colorRamp`, `band`, `rampMin`, `rampMax`, `nodata`),
+// overridden by `ramp`, `band`, `min`, `max`, `nodata` and `opacity` from the query string
+export const parseRasterStyle = (query: Record<string, any>, layer: Pick<Layer, 'style_config' | 'source_config'>): RasterStyle => {
+  const config = layer.style_config || {};
+  const info = layer.source_config as RasterInfo;
+  const colorBands = info.bands - (info.alpha ? 1 : 0);
+
+  const colorRamp = String(query.ramp || config.colorRamp || (colorBands >= 3 ? 'rgb' : 'viridis'));
+  if (!RASTER_RENDERERS.includes(colorRamp)) {
+    throw new ValidationError(`ramp must be one of ${RASTER_RENDERERS.join(', ')}`);
+  }
+  if (colorRamp === 'rgb' && colorBands < 3) {
+    throw new ValidationError('rgb needs a raster with at least three bands');
+  }
+
+  const band = optionalNumber(query.band, 'band') ?? optionalNumber(config.band, 'band') ?? 1;
+  if (!Number.isInteger(band) || band < 1 || band > info.bands) {
+    throw new ValidationError(`band must be a band number from 1 to ${info.bands}`);
+  }
+
+  const min = optionalNumber(query.min, 'min') ?? optionalNumber(config.rampMin, 'rampMin');
+  const max = optionalNumber(query.max, 'max') ?? optionalNumber(config.rampMax, 'rampMax');
+  if (min !== undefined && max !== undefined && min >= max) {
+    throw new ValidationError('min must be below max');
+  }
+
+  const opacity = optionalNumber(query.opacity, 'opacity') ?? 1;
+  if (opacity < 0 || opacity > 1) {
+    throw new ValidationError('opacity must be from 0 to 1');
+  }
+
+  const nodata = optionalNumber(query.nodata, 'nodata') ?? optionalNumber(config.nodata, 'nodata');
+  return { colorRamp, band, min, max, nodata, opacity };
+};
+
+// Renders one tile, or null when none of the raster shows in it
+export const renderRasterTile = async (layer: Layer, tile: TileCoordinates, style: RasterStyle): Promise<Buffer | null> => {
+  if (!layerVisibleAtZoom(layer, tile.z)) return null;
+
+  const info = layer.source_config as RasterInfo;
+  const crs = await getCRS(info.srid);
+  const { images } = await openRaster(info.file);
+
+  // Raster CRS positions on a grid every TRANSFORM_STEP tile pixels
+  const tileWidth = WEB_MERCATOR_WIDTH / 2 ** tile.z;
+  const left = -WEB_MERCATOR_WIDTH / 2 + tile.x * tileWidth;
+  const top = WEB_MERCATOR_WIDTH / 2 - tile.y * tileWidth;
+  const pixelSize = tileWidth / TILE_SIZE;
+  const toRaster = info.srid === WEB_MERCATOR_SRID ? null : proj4('EPSG:3857', crs.code);
+
+  const steps = TILE_SIZE / TRANSFORM_STEP + 1;
+  const grid = new Float64Array(steps * steps * 2);
+  let footprint = [Infinity, Infinity, -Infinity, -Infinity];
+  for (let j = 0; j < steps; j++) {
+    for (let i = 0; i < steps; i++) {
+      const position = [left + i * TRANSFORM_STEP * pixelSize, top - j * TRANSFORM_STEP * pixelSize];
+      const [x, y] = toRaster ? toRaster.forward(position) : position;
+      grid[(j * steps + i) * 2] = x;
+      grid[(j * steps + i) * 2 + 1] = y;
+      if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+      footprint = [Math.min(footprint[0], x), Math.min(footprint[1], y), Math.max(footprint[2], x), Math.max(footprint[3], y)];
+    }
+  }
+
+  const [minX, minY, maxX, maxY] = info.bbox;
+  if (footprint[0] > maxX || footprint[2] < minX || footprint[1] > maxY || footprint[3] < minY) return null;
+
+  // The coarsest image still as fine as the tile; the full image when zoomed in past it
+  const target = Math.min(footprint[2] - footprint[0], footprint[3] - footprint[1]) / TILE_SIZE;
+  const image = [...images].reverse().find(candidate =>
+    Math.abs(info.resolution[0]) * (info.width / candidate.getWidth()) <= target) ?? images[0];
+  const resolutionX = info.resolution[0] * (info.width / image.getWidth());
+  const resolutionY = info.resolution[1] * (info.height / image.getHeight());
+  const column = (x: number) => (x - info.origin[0]) / resolutionX;
+  const row = (y: number) => (y - info.origin[1]) / resolutionY;
+
+  const window = [
+    Math.max(0, Math.floor(Math.min(column(footprint[0]), column(footprint[2])))),
+    Math.max(0, Math.floor(Math.min(row(footprint[1]), row(footprint[3])))),
+    Math.min(image.getWidth(), Math.ceil(Math.max(column(footprint[0]), column(footprint[2])))),
+    Math.min(image.getHeight(), Math.ceil(Math.max(row(footprint[1]), row(footprint[3])))),
+  ];
+  const windowWidth = window[2] - window[0];
+  const windowHeight = window[3] - window[1];
+  // Zoomed far out on a raster without overviews the tile would need the whole file
+  if (windowWidth <= 0 || windowHeight <= 0 || windowWidth * windowHeight > MAX_READ_PIXELS) return null;
+
+  const rgb = style.colorRamp === 'rgb';
+  const samples = rgb ? [0, 1, 2, ...(info.alpha ? [info.bands - 1] : [])] : [style.band - 1];
+  const bands = await image.readRasters({ window, samples }) as unknown as TypedArray[];
+
+  const nodata = style.nodata !== undefined ? style.nodata : info.nodata;
+  const ramp = rgb ? null : RAMP_TABLES[style.colorRamp];
+  // 8-bit RGB is drawn as is unless min and max are given
+  const stretch = (band: number) => {
+    if (style.min !== undefined || style.max !== undefined) {
+      return [style.min ?? info.stats[band].min, style.max ?? info.stats[band].max];
+    }
+    return rgb && info.dataType === 'uint8' ? [0, 255] : [info.stats[band].min, info.stats[band].max];
+  };
+  const ranges = samples.map(stretch);
+  const scale = (value: number, band: number) => {
+    const [low, high] = ranges[band];
+    return high > low ? Math.min(255, Math.max(0, Math.round(((value - low) / (high - low)) * 255))) : 255;
+  };
+
+  const rgba = new Uint8Array(TILE_SIZE * TILE_SIZE * 4);
+  let painted = false;
+  for (let py = 0; py < TILE_SIZE; py++) {
+    const gy = (py + 0.5) / TRANSFORM_STEP;
+    const j = Math.min(Math.floor(gy), steps - 2);
+    const ty = gy - j;
+    for (let px = 0; px < TILE_SIZE; px++) {
+      const gx = (px + 0.5) / TRANSFORM_STEP;
+      const i = Math.min(Math.floor(gx), steps - 2);
+      const tx = gx - i;
+
+      // Bilinear interpolation between the four surrounding grid points
+      const a = (j * steps + i) * 2;
+      const b = a + 2;
+      const c = a + steps * 2;
+      const d = c + 2;
+      const x = (grid[a] * (1 - tx) + grid[b] * tx) * (1 - ty) + (grid[c] * (1 - tx) + grid[d] * tx) * ty;
+      const y = (grid[a + 1] * (1 - tx) + grid[b + 1] * tx) * (1 - ty) + (grid[c + 1] * (1 - tx) + grid[d + 1] * tx) * ty;
+
+      const col = Math.floor(column(x)) - window[0];
+      const line = Math.floor(row(y)) - window[1];
+      if (!(col >= 0 && col < windowWidth && line >= 0 && line < windowHeight)) continue;
+      const index = line * windowWidth + col;
+      const offset = (py * TILE_SIZE + px) * 4;
+
+      let alpha = 255;
+      if (ramp) {
+        const value = bands[0][index];
+        if (isNodata(value, nodata)) continue;
+        const color = scale(value, 0) * 3;
+        rgba[offset] = ramp[color];
+        rgba[offset + 1] = ramp[color + 1];
+        rgba[offset + 2] = ramp[color + 2];
+      } else {
+        const [red, green, blue] = [bands[0][index], bands[1][index], bands[2][index]];
+        if (isNodata(red, nodata) && isNodata(green, nodata) && isNodata(blue, nodata)) continue;
+        if (info.alpha) alpha = Math.min(255, Math.max(0, bands[3][index]));
+        if (alpha === 0) continue;
+        rgba[offset] = scale(red, 0);
+        rgba[offset + 1] = scale(green, 1);
+        rgba[offset + 2] = scale(blue, 2);
+      }
+      rgba[offset + 3] = Math.round(alpha * style.opacity);
+      painted = true;
+    }
+  }
+
+  return painted ? encodePNG(TILE_SIZE, TILE_SIZE, rgba) : null;
+};
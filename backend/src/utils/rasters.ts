@@ -0,0 +1,295 @@
+// GeoTIFF rasters kept on local disk, one file per raster layer. Files are stored as
+// uploaded; cloud-optimized GeoTIFFs (tiled, with overviews) render fastest. The
+// layer's source_config records what tile rendering needs: size, bands, CRS,
+// georeferencing, nodata and each band's range of values.
+import path from 'path';
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import proj4 from 'proj4';
+import { fromFile, GeoTIFF, GeoTIFFImage, TypedArray } from 'geotiff';
+import { initializeDatabase, Queryable } from '../database/connection';
+import { ValidationError } from '../middleware/errorHandler';
+import { LayerModel } from '../models/Layer';
+import { Layer } from '../types/database';
+import { crsCode, getCRS } from './projection';
+
+export const RASTER_DIR = path.join(__dirname, '../../uploads/rasters');
+export const SUPPORTED_RASTER_EXTENSIONS = ['.tif', '.tiff'];
+
+// Largest block of pixels read at once, for statistics and for a tile
+export const MAX_READ_PIXELS = 4096 * 4096;
+
+// Statistics are taken from about this many pixels across
+const STATS_SIZE = 512;
+
+// GeoTIFF key value for a CRS the file defines itself rather than by EPSG code
+const USER_DEFINED = 32767;
+
+// NewSubfileType bits: a reduced-resolution copy (overview), and a transparency mask
+const SUBFILE_OVERVIEW = 1;
+const SUBFILE_MASK = 4;
+
+// Points along each edge of the raster when working out its WGS84 extent
+const EXTENT_EDGE_POINTS = 21;
+
+export interface BandStats {
+  min: number;
+  max: number;
+}
+
+// A raster layer's source_config
+export interface RasterInfo {
+  file: string; // name in RASTER_DIR
+  width: number;
+  height: number;
+  bands: number;
+  dataType: string; // 'uint8', 'int16', 'float32'...
+  srid: number;
+  origin: [number, number]; // top-left corner in the raster's CRS
+  resolution: [number, number]; // pixel size in CRS units; y is negative for north-up rasters
+  bbox: [number, number, number, number]; // in the raster's CRS
+  extent: [number, number, number, number]; // WGS84
+  nodata: number | null;
+  alpha: boolean; // the last band is transparency
+  stats: BandStats[]; // per band, without nodata
+  overviews: number;
+}
+
+export interface RasterImportOptions {
+  layerName?: string;
+  projectId?: string;
+  srid?: number; // for files that don't name an EPSG code
+}
+
+interface OpenRaster {
+  tiff: GeoTIFF;
+  images: GeoTIFFImage[];
+}
+
+// The full-resolution image and its overviews, largest first; masks are left out
+const rasterImages = async (tiff: GeoTIFF): Promise<GeoTIFFImage[]> => {
+  const count = await tiff.getImageCount();
+  const images = [await tiff.getImage(0)];
+  for (let index = 1; index < count; index++) {
+    const image = await tiff.getImage(index);
+    const subfileType = image.getFileDirectory().NewSubfileType ?? 0;
+    if (subfileType & SUBFILE_OVERVIEW && !(subfileType & SUBFILE_MASK)) images.push(image);
+  }
+  return images.sort((a, b) => b.getWidth() - a.getWidth());
+};
+
+// Files open for tile rendering, least recently used closed first
+const MAX_OPEN_RASTERS = 8;
+const openRasters = new Map<string, Promise<OpenRaster>>();
+
+export const openRaster = (file: string): Promise<OpenRaster> => {
+  let raster = openRasters.get(file);
+  if (raster) {
+    openRasters.delete(file);
+  } else {
+    raster = fromFile(path.join(RASTER_DIR, path.basename(file))).then(async tiff => ({ tiff, images: await rasterImages(tiff) }));
+    raster.catch(() => openRasters.delete(file));
+  }
+  openRasters.set(file, raster);
+
+  while (openRasters.size > MAX_OPEN_RASTERS) {
+    const [oldest] = openRasters.keys();
+    closeRaster(oldest);
+  }
+  return raster;
+};
+
+const closeRaster = (file: string) => {
+  const raster = openRasters.get(file);
+  openRasters.delete(file);
+  raster?.then(({ tiff }) => tiff.close()).catch(() => undefined);
+};
+
+// GDAL writes nodata as text, so a float32 nodata value may not read back exactly
+export const isNodata = (value: number, nodata: number | null) =>
+  Number.isNaN(value) || (nodata !== null && (value === nodata || Math.abs(value - nodata) <= Math.abs(nodata) * 1e-6));
+
+const dataType = (image: GeoTIFFImage) => {
+  const format = image.getSampleFormat(0) ?? 1;
+  const bits = image.getBitsPerSample(0);
+  return `${format === 3 ? 'float' : format === 2 ? 'int' : 'uint'}${bits}`;
+};
+
+// The EPSG code in the file's GeoKeys, if it names one
+const rasterSRID = (image: GeoTIFFImage): number | undefined => {
+  const keys = image.getGeoKeys() || {};
+  const code = keys.ProjectedCSTypeGeoKey ?? keys.GeographicTypeGeoKey;
+  return Number.isInteger(code) && code > 0 && code !== USER_DEFINED ? code : undefined;
+};
+
+// Min and max of each band, ignoring nodata and NaN. Read from the smallest overview
+// at least STATS_SIZE across, and a row at a time from images too big to read whole.
+const bandStats = async (images: GeoTIFFImage[], nodata: number | null): Promise<BandStats[]> => {
+  const image = [...images].reverse().find(candidate => Math.max(candidate.getWidth(), candidate.getHeight()) >= STATS_SIZE) ?? images[0];
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const scale = Math.min(1, STATS_SIZE / Math.max(width, height));
+  const stats = Array.from({ length: image.getSamplesPerPixel() }, () => ({ min: Infinity, max: -Infinity }));
+
+  const add = (bands: TypedArray[]) => bands.forEach((values, band) => {
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      if (isNodata(value, nodata)) continue;
+      if (value < stats[band].min) stats[band].min = value;
+      if (value > stats[band].max) stats[band].max = value;
+    }
+  });
+
+  const sampledWidth = Math.max(1, Math.ceil(width * scale));
+  if (width * height <= MAX_READ_PIXELS) {
+    add(await image.readRasters({ width: sampledWidth, height: Math.max(1, Math.ceil(height * scale)), resampleMethod: 'nearest' }) as unknown as TypedArray[]);
+  } else {
+    const rows = Math.min(height, STATS_SIZE);
+    for (let index = 0; index < rows; index++) {
+      const row = Math.floor((index * height) / rows);
+      add(await image.readRasters({ window: [0, row, width, row + 1], width: sampledWidth, height: 1, resampleMethod: 'nearest' }) as unknown as TypedArray[]);
+    }
+  }
+
+  return stats.map(band => (band.min <= band.max ? band : { min: 0, max: 0 }));
+};
+
+// WGS84 bounds of a box in `code`, following its edges since they curve in WGS84
+const wgs84Extent = (bbox: number[], code: string): [number, number, number, number] => {
+  const converter = proj4(code, 'EPSG:4326');
+  const [minX, minY, maxX, maxY] = bbox;
+  let extent: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < EXTENT_EDGE_POINTS; i++) {
+    const t = i / (EXTENT_EDGE_POINTS - 1);
+    const x = minX + t * (maxX - minX);
+    const y = minY + t * (maxY - minY);
+    for (const position of [[x, minY], [x, maxY], [minX, y], [maxX, y]]) {
+      const [lon, lat] = converter.forward(position);
+      if (!Number.isFinite(lon) || !Number.isFinite(lat)) continue;
+      extent = [Math.min(extent[0], lon), Math.min(extent[1], lat), Math.max(extent[2], lon), Math.max(extent[3], lat)];
+    }
+  }
+  if (extent[0] > extent[2]) {
+    throw new ValidationError(`The raster's bounds are outside the area ${code} covers`);
+  }
+  return [Math.max(extent[0], -180), Math.max(extent[1], -90), Math.min(extent[2], 180), Math.min(extent[3], 90)];
+};
+
+// Reads a GeoTIFF's georeferencing and band statistics; `srid` overrides its CRS
+export const readRasterInfo = async (filePath: string, srid?: number): Promise<Omit<RasterInfo, 'file'>> => {
+  let tiff: GeoTIFF;
+  try {
+    tiff = await fromFile(filePath);
+  } catch {
+    throw new ValidationError('The file is not a readable GeoTIFF');
+  }
+
+  try {
+    const images = await rasterImages(tiff);
+    const image = images[0];
+
+    const transformation = image.getFileDirectory().ModelTransformation;
+    if (transformation && (transformation[1] !== 0 || transformation[4] !== 0)) {
+      throw new ValidationError('Rotated rasters are not supported; warp the GeoTIFF to a north-up grid first');
+    }
+
+    let origin: number[];
+    let resolution: number[];
+    let bbox: number[];
+    try {
+      origin = image.getOrigin();
+      resolution = image.getResolution();
+      bbox = image.getBoundingBox();
+    } catch {
+      throw new ValidationError('The GeoTIFF has no georeferencing');
+    }
+
+    const rasterSrid = srid ?? rasterSRID(image);
+    if (!rasterSrid) {
+      throw new ValidationError("The GeoTIFF doesn't name an EPSG coordinate reference system; give one as srs");
+    }
+    const crs = await getCRS(rasterSrid);
+
+    const nodata = image.getGDALNoData();
+    const extra = image.getFileDirectory().ExtraSamples;
+    const extraSamples: number[] = extra === undefined ? [] : typeof extra === 'number' ? [extra] : Array.from(extra);
+    // ExtraSamples 1 and 2 are associated and unassociated alpha
+    const alpha = [1, 2].includes(extraSamples[extraSamples.length - 1]);
+
+    return {
+      width: image.getWidth(),
+      height: image.getHeight(),
+      bands: image.getSamplesPerPixel(),
+      dataType: dataType(image),
+      srid: crs.srid,
+      origin: [origin[0], origin[1]],
+      resolution: [resolution[0], resolution[1]],
+      bbox: [bbox[0], bbox[1], bbox[2], bbox[3]],
+      extent: wgs84Extent(bbox, crs.code),
+      nodata: nodata !== null && Number.isFinite(nodata) ? nodata : null,
+      alpha,
+      stats: await bandStats(images, nodata !== null && Number.isFinite(nodata) ? nodata : null),
+      overviews: images.length - 1,
+    };
+  } finally {
+    tiff.close();
+  }
+};
+
+// Single bands are coloured with a ramp; three bands or more are drawn as RGB
+const defaultRasterStyle = (info: Omit<RasterInfo, 'file'>) => ({
+  colorRamp: info.bands - (info.alpha ? 1 : 0) >= 3 ? 'rgb' : 'viridis',
+});
+
+// Creates a raster layer for an uploaded GeoTIFF, moving the file into RASTER_DIR
+export const importRaster = async (
+  filePath: string,
+  originalName: string,
+  options: RasterImportOptions,
+  ownerId: string,
+  client: Queryable = initializeDatabase()
+): Promise<Layer> => {
+  const info = await readRasterInfo(filePath, options.srid);
+
+  await fs.mkdir(RASTER_DIR, { recursive: true });
+  const file = `${randomUUID()}${path.extname(originalName).toLowerCase()}`;
+  await fs.rename(filePath, path.join(RASTER_DIR, file));
+
+  try {
+    return await LayerModel.create({
+      name: options.layerName || path.basename(originalName, path.extname(originalName)),
+      project_id: options.projectId,
+      type: 'raster',
+      source_type: 'file',
+      source_config: { file, ...info },
+      style_config: defaultRasterStyle(info),
+    }, ownerId, client);
+  } catch (error) {
+    await fs.unlink(path.join(RASTER_DIR, file)).catch(() => undefined);
+    throw error;
+  }
+};
+
+// Deletes the file behind a raster layer, after the layer itself is gone
+export const removeRasterFile = async (layer: Pick<Layer, 'type' | 'source_config'>) => {
+  const file = layer.type === 'raster' ? layer.source_config?.file : undefined;
+  if (typeof file !== 'string') return;
+  closeRaster(file);
+  await fs.unlink(path.join(RASTER_DIR, path.basename(file))).catch(() => undefined);
+};
+
+// Shape a raster layer's source_config for responses
+export const formatRasterInfo = (info: RasterInfo) => ({
+  width: info.width,
+  height: info.height,
+  bands: info.bands,
+  dataType: info.dataType,
+  srs: crsCode(info.srid),
+  bbox: info.bbox,
+  extent: info.extent,
+  resolution: info.resolution,
+  nodata: info.nodata,
+  alpha: info.alpha,
+  stats: info.stats,
+  overviews: info.overviews,
+});
@@ -0,0 +1,255 @@
+// Topology for routable line layers. Each LineString is split into edges at nodes:
+// its two ends and any vertex another line (or the same line, further along) also
+// passes through. A vertex within the network's tolerance of an earlier one snaps to
+// it, so lines drawn end to end join up even when their ends don't quite meet.
+// Lines that cross without sharing a vertex are not connected, like a bridge over a
+// road.
+//
+// Edge costs are travel times in seconds: the line's share of its `cost_field` (the
+// minutes to travel the whole feature) where that is a number, otherwise its length
+// at `default_speed`. A `oneway_field` of yes/true/1/forward allows travel only in
+// the direction the line was drawn, and -1/reverse/backward only against it.
+import { initializeDatabase, Queryable } from '../database/connection';
+import { ValidationError } from '../middleware/errorHandler';
+import { RoutingNetworkConfig, RoutingNetworkModel } from '../models/RoutingNetwork';
+import { RoutingNetwork } from '../types/database';
+
+type Position = [number, number];
+
+const DEFAULT_SPEED = 50; // km/h
+const MAX_SPEED = 1000;
+const DEFAULT_TOLERANCE = 1; // metres
+const MAX_TOLERANCE = 100;
+
+const ONEWAY_FORWARD = ['yes', 'true', '1', 'forward'];
+const ONEWAY_REVERSE = ['-1', 'reverse', 'backward'];
+
+// Rows per INSERT when writing nodes and edges
+const INSERT_BATCH_SIZE = 2000;
+
+const EARTH_RADIUS = 6371008.8;
+// Metres to a degree of latitude on the same sphere, for the snapping cells
+const METRES_PER_DEGREE = (EARTH_RADIUS * Math.PI) / 180;
+
+const NUMBER = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+
+// Great-circle length of a line in metres
+export const lineLength = (coordinates: Position[]) => {
+  let length = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lon1, lat1] = coordinates[i - 1].map(value => (value * Math.PI) / 180);
+    const [lon2, lat2] = coordinates[i].map(value => (value * Math.PI) / 180);
+    const a = Math.sin((lat2 - lat1) / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin((lon2 - lon1) / 2) ** 2;
+    length += 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+  return length;
+};
+
+// Snaps each position to the nearest earlier point within `tolerance` metres, or makes
+// it a new point, and returns the point's index. Points are kept in cells at least
+// `tolerance` wide, so only the cells around a position need searching.
+const createSnapper = (tolerance: number) => {
+  const step = Math.max(tolerance, 1e-6) / METRES_PER_DEGREE;
+  const points: Position[] = [];
+  const cells = new Map<string, number[]>();
+
+  // A degree of longitude shrinks towards the poles, so each row's cells are widened
+  // for the highest latitude in it and the rows either side
+  const width = (row: number) => {
+    const latitude = Math.min((Math.abs(row) + 2) * step, 90);
+    return step / Math.max(Math.cos((latitude * Math.PI) / 180), 1e-6);
+  };
+
+  const snap = (position: Position) => {
+    const [x, y] = position;
+    const row = Math.floor(y / step);
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    for (let r = row - 1; r <= row + 1; r++) {
+      const column = Math.floor(x / width(r));
+      for (let c = column - 1; c <= column + 1; c++) {
+        for (const index of cells.get(`${r}:${c}`) ?? []) {
+          const distance = lineLength([position, points[index]]);
+          if (distance <= tolerance && distance < nearestDistance) {
+            nearest = index;
+            nearestDistance = distance;
+          }
+        }
+      }
+    }
+    if (nearest >= 0) return nearest;
+
+    const cell = `${row}:${Math.floor(x / width(row))}`;
+    if (!cells.has(cell)) cells.set(cell, []);
+    cells.get(cell)!.push(points.length);
+    points.push(position);
+    return points.length - 1;
+  };
+
+  return { points, snap };
+};
+
+const optionalField = (value: unknown, name: string) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !value.trim() || value.trim().length > 255) {
+    throw new ValidationError(`${name} must be a property name of up to 255 characters`);
+  }
+  return value.trim();
+};
+
+// `costField`, `onewayField`, `defaultSpeed` (km/h) and `tolerance` (metres) from a request body
+export const parseNetworkConfig = (body: any): RoutingNetworkConfig => {
+  const { costField, onewayField, defaultSpeed, tolerance } = body || {};
+
+  if (defaultSpeed !== undefined && (typeof defaultSpeed !== 'number' || !(defaultSpeed > 0 && defaultSpeed <= MAX_SPEED))) {
+    throw new ValidationError(`defaultSpeed must be a speed in km/h above 0 and up to ${MAX_SPEED}`);
+  }
+  if (tolerance !== undefined && (typeof tolerance !== 'number' || !(tolerance >= 0 && tolerance <= MAX_TOLERANCE))) {
+    throw new ValidationError(`tolerance must be a distance in metres from 0 to ${MAX_TOLERANCE}`);
+  }
+
+  return {
+    cost_field: optionalField(costField, 'costField'),
+    oneway_field: optionalField(onewayField, 'onewayField'),
+    default_speed: defaultSpeed ?? DEFAULT_SPEED,
+    tolerance: tolerance ?? DEFAULT_TOLERANCE,
+  };
+};
+
+interface NetworkEdge {
+  id: number;
+  feature_id: string;
+  source: number;
+  target: number;
+  length: number;
+  cost: number | null;
+  reverse_cost: number | null;
+  geometry: { type: 'LineString'; coordinates: Position[] };
+}
+
+// Saves the settings and rebuilds the layer's nodes and edges in one transaction,
+// replacing any earlier build
+export const buildRoutingNetwork = async (
+  layerId: string,
+  config: RoutingNetworkConfig,
+  ownerId: string
+): Promise<RoutingNetwork> => {
+  return await initializeDatabase().transaction(async (client: Queryable) => {
+    await RoutingNetworkModel.save(layerId, config, ownerId, client);
+    await client.query('DELETE FROM network_edges WHERE layer_id = $1', [layerId]);
+    await client.query('DELETE FROM network_nodes WHERE layer_id = $1', [layerId]);
+
+    // Every LineString, including the parts of multi-part features
+    const lines = await client.query(
+      `SELECT f.id, f.properties->>$2::text AS cost, f.properties->>$3::text AS oneway,
+         ST_AsGeoJSON(d.geom)::json AS geometry
+       FROM features f
+       CROSS JOIN LATERAL ST_Dump(f.geometry) d
+       WHERE f.layer_id = $1 AND GeometryType(d.geom) = 'LINESTRING'
+       ORDER BY f.id, d.path`,
+      [layerId, config.cost_field ?? null, config.oneway_field ?? null]
+    );
+    if (lines.rows.length === 0) {
+      throw new ValidationError('The layer has no lines to build a network from');
+    }
+
+    const { points, snap } = createSnapper(config.tolerance);
+
+    // Lines without repeated vertices, and how many times lines pass through each
+    // snapped vertex
+    const parts = lines.rows.map(row => {
+      const coordinates: Position[] = [];
+      const keys: number[] = [];
+      for (const position of row.geometry.coordinates as Position[]) {
+        const k = snap(position);
+        if (k === keys[keys.length - 1]) continue;
+        coordinates.push(position);
+        keys.push(k);
+      }
+      return { ...row, coordinates, keys };
+    }).filter(part => part.coordinates.length > 1);
+
+    const passes = new Map<number, number>();
+    const featureLengths = new Map<string, number>();
+    for (const part of parts) {
+      part.keys.forEach((k: number) => passes.set(k, (passes.get(k) ?? 0) + 1));
+      featureLengths.set(part.id, (featureLengths.get(part.id) ?? 0) + lineLength(part.coordinates));
+    }
+
+    const nodeIds = new Map<number, number>();
+    const nodes: Position[] = [];
+    const nodeAt = (k: number) => {
+      let id = nodeIds.get(k);
+      if (id === undefined) {
+        id = nodes.length;
+        nodeIds.set(k, id);
+        nodes.push(points[k]);
+      }
+      return id;
+    };
+
+    const edges: NetworkEdge[] = [];
+    for (const part of parts) {
+      const last = part.coordinates.length - 1;
+      const minutes = typeof part.cost === 'string' && NUMBER.test(part.cost.trim()) ? Math.max(Number(part.cost), 0) : null;
+      const oneway = typeof part.oneway === 'string' ? part.oneway.trim().toLowerCase() : '';
+      const featureLength = featureLengths.get(part.id) ?? 0;
+
+      let source = nodeAt(part.keys[0]);
+      let coordinates: Position[] = [nodes[source]];
+      for (let index = 1; index <= last; index++) {
+        const k = part.keys[index];
+        if (index < last && (passes.get(k) ?? 0) < 2) {
+          coordinates.push(part.coordinates[index]);
+          continue;
+        }
+
+        // Edges start and end exactly on their nodes, so they join up
+        const target = nodeAt(k);
+        coordinates.push(nodes[target]);
+        const length = lineLength(coordinates);
+        const time = minutes !== null
+          ? (featureLength > 0 ? (minutes * 60 * length) / featureLength : 0)
+          : length / (config.default_speed / 3.6);
+
+        edges.push({
+          id: edges.length,
+          feature_id: part.id,
+          source,
+          target,
+          length,
+          cost: ONEWAY_REVERSE.includes(oneway) ? null : time,
+          reverse_cost: ONEWAY_FORWARD.includes(oneway) ? null : time,
+          geometry: { type: 'LineString', coordinates },
+        });
+        source = target;
+        coordinates = [nodes[target]];
+      }
+    }
+
+    for (let start = 0; start < nodes.length; start += INSERT_BATCH_SIZE) {
+      const batch = nodes.slice(start, start + INSERT_BATCH_SIZE).map(([x, y], index) => ({ id: start + index, x, y }));
+      await client.query(
+        `INSERT INTO network_nodes (layer_id, id, geometry)
+         SELECT $1, n.id, ST_SetSRID(ST_MakePoint(n.x, n.y), 4326)
+         FROM jsonb_to_recordset($2::jsonb) AS n(id integer, x double precision, y double precision)`,
+        [layerId, JSON.stringify(batch)]
+      );
+    }
+
+    for (let start = 0; start < edges.length; start += INSERT_BATCH_SIZE) {
+      await client.query(
+        `INSERT INTO network_edges (layer_id, id, feature_id, source, target, length, cost, reverse_cost, geometry)
+         SELECT $1, e.id, e.feature_id, e.source, e.target, e.length, e.cost, e.reverse_cost,
+           ST_SetSRID(ST_GeomFromGeoJSON(e.geometry::text), 4326)
+         FROM jsonb_to_recordset($2::jsonb) AS e(
+           id integer, feature_id uuid, source integer, target integer,
+           length double precision, cost double precision, reverse_cost double precision, geometry jsonb
+         )`,
+        [layerId, JSON.stringify(edges.slice(start, start + INSERT_BATCH_SIZE))]
+      );
+    }
+
+    return await RoutingNetworkModel.markBuilt(layerId, nodes.length, edges.length, client);
+  });
+};
@@ -0,0 +1,96 @@
+// Reading zipped Shapefile sets (.shp + .dbf, optional .prj/.cpg) into GeoJSON
+import JSZip from 'jszip';
+import * as shapefile from 'shapefile';
+import path from 'path';
+import { reprojectToWGS84, isWGS84Definition } from './projection';
+import { GeoJSONFeature, GeoJSONFeatureCollection } from '../types/database';
+
+export interface ParsedShapefile {
+  name: string;
+  collection: GeoJSONFeatureCollection;
+  encoding: string;
+  projection: string | null;
+  reprojected: boolean;
+  skipped: number; // records with null geometry
+}
+
+// DBF codepage as written to .cpg by ArcGIS/QGIS ("UTF-8", "1252", "CP1251", "ISO 8859-1"...)
+// mapped to a WHATWG encoding label TextDecoder understands
+export const normalizeCodepage = (cpg: string | undefined): string => {
+  const value = (cpg || '').trim().toLowerCase().replace(/^ansi\s*/, '');
+  if (!value) return 'windows-1252';
+  if (value === 'utf8' || value === 'utf-8') return 'utf-8';
+
+  const windows = value.match(/^(?:cp|windows-?)?(125\d|874)$/);
+  if (windows) return `windows-${windows[1]}`;
+
+  const iso = value.match(/^(?:iso[-_ ]?)?8859[-_ ]?(\d{1,2})$/);
+  if (iso) return `iso-8859-${iso[1]}`;
+
+  return value;
+};
+
+// One layer per shapefile: the requested name when the archive holds a single
+// shapefile, "<requested> - <shapefile>" when it holds several, else the file's own name
+export const shapefileLayerName = (name: string, count: number, layerName?: string) =>
+  count > 1 && layerName ? `${layerName} - ${name}` : layerName || name;
+
+export const parseShapefileZip = async (buffer: Buffer): Promise<ParsedShapefile[]> => {
+  const zip = await JSZip.loadAsync(buffer);
+
+  // Group the archive's members by basename, ignoring macOS resource forks
+  const sets = new Map<string, Record<string, JSZip.JSZipObject>>();
+  zip.forEach((relativePath, entry) => {
+    if (entry.dir || relativePath.includes('__MACOSX/')) return;
+    const extension = path.extname(relativePath).toLowerCase();
+    const base = relativePath.slice(0, relativePath.length - extension.length);
+    const set = sets.get(base) || {};
+    set[extension] = entry;
+    sets.set(base, set);
+  });
+
+  const results: ParsedShapefile[] = [];
+
+  for (const [base, files] of sets) {
+    if (!files['.shp']) continue;
+
+    const shp = await files['.shp'].async('uint8array');
+    const dbf = files['.dbf'] ? await files['.dbf'].async('uint8array') : undefined;
+    const prj = files['.prj'] ? (await files['.prj'].async('string')).trim() : null;
+    const encoding = normalizeCodepage(files['.cpg'] ? await files['.cpg'].async('string') : undefined);
+
+    const source = await shapefile.read(shp, dbf, { encoding });
+
+    let skipped = 0;
+    const features: GeoJSONFeature[] = [];
+    for (const feature of source.features) {
+      if (!feature.geometry) {
+        skipped++;
+        continue;
+      }
+      features.push({
+        type: 'Feature',
+        geometry: feature.geometry as any,
+        properties: feature.properties || {},
+      });
+    }
+
+    let collection: GeoJSONFeatureCollection = { type: 'FeatureCollection', features };
+    const reprojected = Boolean(prj && !isWGS84Definition(prj));
+    if (prj && reprojected) {
+      try {
+        collection = reprojectToWGS84(collection, prj);
+      } catch (error) {
+        throw new Error(`Unsupported projection in ${path.basename(base)}.prj: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    results.push({ name: path.basename(base), collection, encoding, projection: prj, reprojected, skipped });
+  }
+
+  if (results.length === 0) {
+    throw new Error('Zip archive does not contain a .shp file');
+  }
+
+  return results;
+};
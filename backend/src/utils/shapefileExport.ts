@@ -0,0 +1,328 @@
+// Writing features as a zipped Shapefile set (.shp, .shx, .dbf, .prj, .cpg). A
+// shapefile holds a single shape type, so mixed layers are split into one set per kind.
+import JSZip from 'jszip';
+import { GeoJSONFeature, GeoJSONGeometry } from '../types/database';
+import { SchemaBuilder, FieldType } from './fieldMapping';
+
+type ShapeKind = 'points' | 'lines' | 'polygons';
+
+const SHAPE_TYPES = { point: 1, polyline: 3, polygon: 5, multipoint: 8 };
+
+const GEOMETRY_KINDS: Record<string, ShapeKind> = {
+  Point: 'points',
+  MultiPoint: 'points',
+  LineString: 'lines',
+  MultiLineString: 'lines',
+  Polygon: 'polygons',
+  MultiPolygon: 'polygons',
+};
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const HEADER_LENGTH = 100;
+
+type Box = [number, number, number, number];
+
+const emptyBox = (): Box => [Infinity, Infinity, -Infinity, -Infinity];
+
+const extendBox = (box: Box, positions: number[][]) => {
+  for (const [x, y] of positions) {
+    box[0] = Math.min(box[0], x);
+    box[1] = Math.min(box[1], y);
+    box[2] = Math.max(box[2], x);
+    box[3] = Math.max(box[3], y);
+  }
+};
+
+// Twice the signed area; positive for clockwise rings in x/y
+const ringOrientation = (ring: number[][]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += (ring[i + 1][0] - ring[i][0]) * (ring[i + 1][1] + ring[i][1]);
+  }
+  return sum;
+};
+
+// Shapefile polygons want clockwise outer rings and counter-clockwise holes,
+// the opposite of RFC 7946 GeoJSON
+const orientRing = (ring: number[][], outer: boolean) =>
+  (ringOrientation(ring) > 0) === outer ? ring : [...ring].reverse();
+
+interface ShapeRecord {
+  content: Buffer;
+  box: Box;
+}
+
+const pointRecord = (position: number[]): ShapeRecord => {
+  const content = Buffer.alloc(20);
+  content.writeInt32LE(SHAPE_TYPES.point, 0);
+  content.writeDoubleLE(position[0], 4);
+  content.writeDoubleLE(position[1], 12);
+  return { content, box: [position[0], position[1], position[0], position[1]] };
+};
+
+const multiPointRecord = (positions: number[][]): ShapeRecord => {
+  const box = emptyBox();
+  extendBox(box, positions);
+
+  const content = Buffer.alloc(40 + 16 * positions.length);
+  content.writeInt32LE(SHAPE_TYPES.multipoint, 0);
+  box.forEach((value, i) => content.writeDoubleLE(value, 4 + 8 * i));
+  content.writeInt32LE(positions.length, 36);
+  positions.forEach(([x, y], i) => {
+    content.writeDoubleLE(x, 40 + 16 * i);
+    content.writeDoubleLE(y, 48 + 16 * i);
+  });
+  return { content, box };
+};
+
+// PolyLine and Polygon records share a layout: parts index into one point list
+const partsRecord = (shapeType: number, parts: number[][][]): ShapeRecord => {
+  const positions = parts.flat();
+  const box = emptyBox();
+  extendBox(box, positions);
+
+  const pointsOffset = 44 + 4 * parts.length;
+  const content = Buffer.alloc(pointsOffset + 16 * positions.length);
+  content.writeInt32LE(shapeType, 0);
+  box.forEach((value, i) => content.writeDoubleLE(value, 4 + 8 * i));
+  content.writeInt32LE(parts.length, 36);
+  content.writeInt32LE(positions.length, 40);
+
+  let start = 0;
+  parts.forEach((part, i) => {
+    content.writeInt32LE(start, 44 + 4 * i);
+    start += part.length;
+  });
+  positions.forEach(([x, y], i) => {
+    content.writeDoubleLE(x, pointsOffset + 16 * i);
+    content.writeDoubleLE(y, pointsOffset + 8 + 16 * i);
+  });
+  return { content, box };
+};
+
+const shapeRecord = (geometry: GeoJSONGeometry, allPoints: boolean): ShapeRecord => {
+  switch (geometry.type) {
+    case 'Point':
+      return allPoints ? pointRecord(geometry.coordinates) : multiPointRecord([geometry.coordinates]);
+    case 'MultiPoint':
+      return multiPointRecord(geometry.coordinates);
+    case 'LineString':
+      return partsRecord(SHAPE_TYPES.polyline, [geometry.coordinates]);
+    case 'MultiLineString':
+      return partsRecord(SHAPE_TYPES.polyline, geometry.coordinates);
+    case 'Polygon':
+      return partsRecord(SHAPE_TYPES.polygon, geometry.coordinates.map((ring: number[][], i: number) => orientRing(ring, i === 0)));
+    default: // MultiPolygon
+      return partsRecord(SHAPE_TYPES.polygon, geometry.coordinates.flatMap((rings: number[][][]) =>
+        rings.map((ring, i) => orientRing(ring, i === 0))
+      ));
+  }
+};
+
+// The .shp and .shx headers differ only in file length
+const fileHeader = (shapeType: number, fileLength: number, box: Box) => {
+  const header = Buffer.alloc(HEADER_LENGTH);
+  header.writeInt32BE(9994, 0);
+  header.writeInt32BE(fileLength / 2, 24); // in 16-bit words
+  header.writeInt32LE(1000, 28);
+  header.writeInt32LE(shapeType, 32);
+  box.forEach((value, i) => header.writeDoubleLE(Number.isFinite(value) ? value : 0, 36 + 8 * i));
+  return header;
+};
+
+const writeShp = (shapeType: number, records: ShapeRecord[]) => {
+  const box = emptyBox();
+  records.forEach(record => extendBox(box, [[record.box[0], record.box[1]], [record.box[2], record.box[3]]]));
+
+  const shpParts: Buffer[] = [];
+  const index = Buffer.alloc(8 * records.length);
+  let offset = HEADER_LENGTH;
+
+  records.forEach((record, i) => {
+    const recordHeader = Buffer.alloc(8);
+    recordHeader.writeInt32BE(i + 1, 0);
+    recordHeader.writeInt32BE(record.content.length / 2, 4);
+    shpParts.push(recordHeader, record.content);
+
+    index.writeInt32BE(offset / 2, 8 * i);
+    index.writeInt32BE(record.content.length / 2, 8 * i + 4);
+    offset += 8 + record.content.length;
+  });
+
+  return {
+    shp: Buffer.concat([fileHeader(shapeType, offset, box), ...shpParts]),
+    shx: Buffer.concat([fileHeader(shapeType, HEADER_LENGTH + index.length, box), index]),
+  };
+};
+
+// DBF
+
+interface DBFField {
+  property: string;
+  name: string; // at most 10 characters
+  type: 'C' | 'N' | 'L';
+  length: number;
+  decimals: number;
+}
+
+const MAX_CHARACTER_LENGTH = 254;
+
+const fieldText = (value: any): string =>
+  value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Cut to a byte budget without splitting a UTF-8 character
+const truncateBytes = (text: string, bytes: number): Buffer => {
+  const buffer = Buffer.from(text, 'utf8');
+  if (buffer.length <= bytes) return buffer;
+  let end = bytes;
+  while (end > 0 && (buffer[end] & 0xc0) === 0x80) end--;
+  return buffer.subarray(0, end);
+};
+
+// Field names are limited to 10 characters and must stay unique after truncation
+const dbfFieldNames = (properties: string[]): string[] => {
+  const used = new Set<string>();
+  return properties.map(property => {
+    const base = property.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 10) || 'field';
+    let name = base;
+    for (let i = 1; used.has(name.toUpperCase()); i++) {
+      const suffix = `_${i}`;
+      name = `${base.slice(0, 10 - suffix.length)}${suffix}`;
+    }
+    used.add(name.toUpperCase());
+    return name;
+  });
+};
+
+const DBF_TYPES: Record<FieldType, Pick<DBFField, 'type' | 'length' | 'decimals'>> = {
+  integer: { type: 'N', length: 18, decimals: 0 },
+  number: { type: 'N', length: 24, decimals: 10 },
+  boolean: { type: 'L', length: 1, decimals: 0 },
+  date: { type: 'C', length: 0, decimals: 0 },
+  string: { type: 'C', length: 0, decimals: 0 },
+  object: { type: 'C', length: 0, decimals: 0 },
+  array: { type: 'C', length: 0, decimals: 0 },
+};
+
+const dbfFields = (features: GeoJSONFeature[]): DBFField[] => {
+  const schema = new SchemaBuilder();
+  features.forEach(feature => schema.add(feature.properties));
+  const fields = schema.build();
+  const names = dbfFieldNames(fields.map(field => field.name));
+
+  return fields.map((field, i) => {
+    const dbfType = DBF_TYPES[field.type];
+    let length = dbfType.length;
+    if (dbfType.type === 'C') {
+      // Character fields are as wide as their longest value
+      length = 1;
+      for (const feature of features) {
+        const value = feature.properties[field.name];
+        if (value === null || value === undefined) continue;
+        length = Math.max(length, Math.min(Buffer.byteLength(fieldText(value), 'utf8'), MAX_CHARACTER_LENGTH));
+      }
+    }
+    return { property: field.name, name: names[i], ...dbfType, length };
+  });
+};
+
+const dbfValue = (field: DBFField, value: any): Buffer => {
+  const cell = Buffer.alloc(field.length, ' ');
+  if (value === null || value === undefined || value === '') {
+    if (field.type === 'L') cell.write('?');
+    return cell;
+  }
+
+  switch (field.type) {
+    case 'L':
+      cell.write(value === true ? 'T' : value === false ? 'F' : '?');
+      return cell;
+    case 'N': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return cell;
+      const text = field.decimals > 0 ? number.toFixed(field.decimals) : String(Math.trunc(number));
+      // Numbers are right-aligned; values too wide for the field are left blank
+      if (text.length <= field.length) cell.write(text, field.length - text.length, 'latin1');
+      return cell;
+    }
+    default:
+      truncateBytes(fieldText(value), field.length).copy(cell);
+      return cell;
+  }
+};
+
+const writeDbf = (features: GeoJSONFeature[]) => {
+  const fields = dbfFields(features);
+  const headerLength = 32 + 32 * fields.length + 1;
+  const recordLength = 1 + fields.reduce((total, field) => total + field.length, 0);
+
+  const header = Buffer.alloc(headerLength);
+  const today = new Date();
+  header.writeUInt8(0x03, 0);
+  header.writeUInt8(today.getFullYear() - 1900, 1);
+  header.writeUInt8(today.getMonth() + 1, 2);
+  header.writeUInt8(today.getDate(), 3);
+  header.writeUInt32LE(features.length, 4);
+  header.writeUInt16LE(headerLength, 8);
+  header.writeUInt16LE(recordLength, 10);
+
+  fields.forEach((field, i) => {
+    const offset = 32 + 32 * i;
+    header.write(field.name, offset, 10, 'latin1');
+    header.write(field.type, offset + 11, 1, 'latin1');
+    header.writeUInt8(field.length, offset + 16);
+    header.writeUInt8(field.decimals, offset + 17);
+  });
+  header.writeUInt8(0x0d, headerLength - 1);
+
+  const records = features.map(feature => Buffer.concat([
+    Buffer.from(' '), // not deleted
+    ...fields.map(field => dbfValue(field, feature.properties[field.property])),
+  ]));
+
+  return Buffer.concat([header, ...records, Buffer.from([0x1a])]);
+};
+
+// Features whose geometry has no shapefile equivalent (GeometryCollections) are skipped.
+// `prj` is the WKT of the features' CRS.
+export const writeShapefileZip = async (
+  name: string,
+  features: GeoJSONFeature[],
+  prj: string = WGS84_PRJ
+): Promise<{ body: Buffer; skipped: number }> => {
+  const groups: Record<ShapeKind, GeoJSONFeature[]> = { points: [], lines: [], polygons: [] };
+  let skipped = 0;
+  for (const feature of features) {
+    const kind = GEOMETRY_KINDS[feature.geometry?.type];
+    if (kind) groups[kind].push(feature);
+    else skipped++;
+  }
+
+  const kinds = (Object.keys(groups) as ShapeKind[]).filter(kind => groups[kind].length > 0);
+  const baseName = name.replace(/[\\/:*?"<>|]/g, '_') || 'layer';
+  const zip = new JSZip();
+
+  // An empty export still gets a (point) shapefile so the archive opens in desktop tools
+  for (const kind of kinds.length > 0 ? kinds : ['points' as ShapeKind]) {
+    const members = groups[kind];
+    const allPoints = members.every(feature => feature.geometry.type === 'Point');
+    const shapeType = kind === 'points'
+      ? (allPoints ? SHAPE_TYPES.point : SHAPE_TYPES.multipoint)
+      : kind === 'lines' ? SHAPE_TYPES.polyline : SHAPE_TYPES.polygon;
+
+    const { shp, shx } = writeShp(shapeType, members.map(feature => shapeRecord(feature.geometry, allPoints)));
+    const fileName = kinds.length > 1 ? `${baseName}_${kind}` : baseName;
+
+    zip.file(`${fileName}.shp`, shp);
+    zip.file(`${fileName}.shx`, shx);
+    zip.file(`${fileName}.dbf`, writeDbf(members));
+    zip.file(`${fileName}.prj`, prj);
+    zip.file(`${fileName}.cpg`, 'UTF-8');
+  }
+
+  const body = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { body, skipped };
+};
@@ -0,0 +1,148 @@
+// Mapbox Vector Tiles rendered by PostGIS (ST_AsMVT/ST_AsMVTGeom) in the
+// Web Mercator XYZ tiling scheme. Each database layer becomes one MVT layer named
+// after its id; features carry `id`, `name` and their properties as attributes.
+import { initializeDatabase, Queryable } from '../database/connection';
+import { ValidationError } from '../middleware/errorHandler';
+import { Layer } from '../types/database';
+import { CQL2Expression, parseCQL2Query } from './cql2';
+import { buildFeatureFilter } from './featureFilter';
+
+export interface TileCoordinates {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface TileOptions {
+  fields?: string[]; // properties to include; all of them when absent
+  simplify?: number; // tolerance in tile pixels, 0 turns simplification off
+  cql?: CQL2Expression; // only features matching this CQL2 filter
+  cqlSrid?: number; // CRS of geometry literals in the filter
+}
+
+export const TILE_CONTENT_TYPE = 'application/vnd.mapbox-vector-tile';
+
+const TILE_EXTENT = 4096;
+const TILE_BUFFER = 64;
+const MAX_TILE_ZOOM = 24;
+const DEFAULT_SIMPLIFY = 1;
+const WEB_MERCATOR_WIDTH = 2 * 20037508.342789244;
+
+const wholeNumber = (value: string) => (/^\d+$/.test(value) ? Number(value) : NaN);
+
+export const parseTileCoordinates = (z: string, x: string, y: string): TileCoordinates => {
+  const tile = { z: wholeNumber(z), x: wholeNumber(x), y: wholeNumber(y) };
+  if (!Number.isInteger(tile.z) || tile.z > MAX_TILE_ZOOM) {
+    throw new ValidationError(`Tile zoom must be a whole number from 0 to ${MAX_TILE_ZOOM}`);
+  }
+  const size = 2 ** tile.z;
+  if (!Number.isInteger(tile.x) || !Number.isInteger(tile.y) || tile.x >= size || tile.y >= size) {
+    throw new ValidationError(`Tile column and row must be whole numbers below ${size} at zoom ${tile.z}`);
+  }
+  return tile;
+};
+
+// `fields=name,population`, `simplify` and a CQL2 `filter` from the query string
+export const parseTileOptions = (query: Record<string, any>): TileOptions => {
+  const options: TileOptions = parseCQL2Query(query);
+  if (query.fields !== undefined && query.fields !== '') {
+    options.fields = String(query.fields).split(',').map(field => field.trim()).filter(Boolean);
+  }
+  if (query.simplify !== undefined && query.simplify !== '') {
+    const simplify = Number(query.simplify);
+    if (!Number.isFinite(simplify) || simplify < 0) {
+      throw new ValidationError('simplify must be a number of pixels, 0 or more');
+    }
+    options.simplify = simplify;
+  }
+  return options;
+};
+
+// One tile pixel in Web Mercator metres at zoom z, times the tolerance in pixels
+export const simplifyTolerance = (z: number, pixels = DEFAULT_SIMPLIFY) =>
+  (WEB_MERCATOR_WIDTH / 2 ** z / TILE_EXTENT) * pixels;
+
+export const layerVisibleAtZoom = (layer: Pick<Layer, 'min_zoom' | 'max_zoom'>, z: number) =>
+  z >= (layer.min_zoom ?? 0) && z <= (layer.max_zoom ?? MAX_TILE_ZOOM);
+
+// Parameters $1-$5 are z, x, y, the simplification tolerance and the field list
+const TILE_PARAMS = (tile: TileCoordinates, options: TileOptions) => [
+  tile.z,
+  tile.x,
+  tile.y,
+  simplifyTolerance(tile.z, options.simplify),
+  options.fields ?? null,
+];
+
+// Parameters from $8 on belong to the CQL2 filter
+const tileFilter = (options: TileOptions) => buildFeatureFilter({ cql: options.cql, cqlSrid: options.cqlSrid }, 8);
+
+// The features of layer `layerIdExpr` clipped to the tile, as ST_AsMVT rows
+const tileFeaturesSQL = (layerIdExpr: string, conditions: string[]) => `
+  SELECT
+    f.id::text AS id,
+    f.name,
+    CASE WHEN $5::text[] IS NULL THEN f.properties ELSE (
+      SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+      FROM jsonb_each(f.properties)
+      WHERE key = ANY($5::text[])
+    ) END AS properties,
+    ST_AsMVTGeom(
+      CASE WHEN $4::float8 > 0 THEN ST_SimplifyPreserveTopology(ST_Transform(f.geometry, 3857), $4::float8)
+        ELSE ST_Transform(f.geometry, 3857) END,
+      ST_TileEnvelope($1, $2, $3),
+      ${TILE_EXTENT}, ${TILE_BUFFER}, true
+    ) AS geom
+  FROM features f
+  WHERE f.layer_id = ${layerIdExpr}
+    AND f.geometry && ST_Transform(ST_TileEnvelope($1, $2, $3, margin => ${TILE_BUFFER / TILE_EXTENT}), 4326)
+    ${conditions.map(condition => `AND ${condition}`).join(' ')}
+`;
+
+const tileBuffer = (tile: Buffer | null | undefined): Buffer | null =>
+  tile && tile.length > 0 ? tile : null;
+
+// Null when the layer is hidden at this zoom or has nothing in the tile
+export const renderLayerTile = async (
+  layer: Layer,
+  tile: TileCoordinates,
+  options: TileOptions = {},
+  client: Queryable = initializeDatabase()
+): Promise<Buffer | null> => {
+  if (!layerVisibleAtZoom(layer, tile.z)) return null;
+
+  const { conditions, params } = tileFilter(options);
+  const result = await client.query(`
+    SELECT ST_AsMVT(t, $6, ${TILE_EXTENT}, 'geom') AS tile
+    FROM (${tileFeaturesSQL('$7', conditions)}) t
+    WHERE t.geom IS NOT NULL
+  `, [...TILE_PARAMS(tile, options), layer.id, layer.id, ...params]);
+
+  return tileBuffer(result.rows[0]?.tile);
+};
+
+// Every layer of the project that is visible at this zoom, one MVT layer each.
+// `layerIds` narrows the project's layers.
+export const renderProjectTile = async (
+  projectId: string,
+  tile: TileCoordinates,
+  options: TileOptions & { layerIds?: string[] } = {},
+  client: Queryable = initializeDatabase()
+): Promise<Buffer | null> => {
+  // MVT layers are independent protobuf messages, so tiles concatenate
+  const { conditions, params } = tileFilter(options);
+  const result = await client.query(`
+    SELECT string_agg(layer_tile.tile, ''::bytea ORDER BY l.layer_order, l.created_at) AS tile
+    FROM layers l
+    CROSS JOIN LATERAL (
+      SELECT ST_AsMVT(t, l.id::text, ${TILE_EXTENT}, 'geom') AS tile
+      FROM (${tileFeaturesSQL('l.id', conditions)}) t
+      WHERE t.geom IS NOT NULL
+    ) layer_tile
+    WHERE l.project_id = $6
+      AND $1 BETWEEN COALESCE(l.min_zoom, 0) AND COALESCE(l.max_zoom, ${MAX_TILE_ZOOM})
+      AND ($7::text[] IS NULL OR l.id::text = ANY($7::text[]))
+  `, [...TILE_PARAMS(tile, options), projectId, options.layerIds ?? null, ...params]);
+
+  return tileBuffer(result.rows[0]?.tile);
+};
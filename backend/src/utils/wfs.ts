@@ -0,0 +1,575 @@
+// WFS 2.0 service documents and request parameters. Every vector layer is a feature
+// type named mapvue:layer_<id>; features are GML 3.2 (or GeoJSON) in EPSG:4326.
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { initializeDatabase, Queryable } from '../database/connection';
+import { ValidationError } from '../middleware/errorHandler';
+import { Feature, Layer, LayerExtent } from '../types/database';
+import { FieldType, castField } from './fieldMapping';
+import { BBox, FeatureFilters } from './featureFilter';
+import { GML_NAMESPACE, GML_ARRAY_TAGS, geometryToGML } from './gml';
+import { STORAGE_SRID, getCRS, parseSRID } from './projection';
+
+export const WFS_VERSION = '2.0.0';
+export const MAPVUE_NAMESPACE = 'http://mapvue.local/wfs';
+export const DEFAULT_SRS_NAME = 'urn:ogc:def:crs:EPSG::4326';
+export const GML_CONTENT_TYPE = 'application/gml+xml; version=3.2';
+export const XML_CONTENT_TYPE = 'application/xml';
+
+const WFS_NAMESPACE = 'http://www.opengis.net/wfs/2.0';
+const FES_NAMESPACE = 'http://www.opengis.net/fes/2.0';
+const OWS_NAMESPACE = 'http://www.opengis.net/ows/1.1';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+const WFS_SCHEMA_LOCATION = `${WFS_NAMESPACE} http://schemas.opengis.net/wfs/2.0/wfs.xsd`;
+const PREFIX = 'mapvue';
+
+export type OutputFormat = 'gml' | 'geojson';
+
+export const OUTPUT_FORMATS = [GML_CONTENT_TYPE, 'application/json', 'application/geo+json'];
+
+// GetFeature's default and largest page
+export const MAX_FEATURE_COUNT = 10000;
+
+// Exceptions
+
+export type WFSExceptionCode =
+  | 'MissingParameterValue'
+  | 'InvalidParameterValue'
+  | 'OperationNotSupported'
+  | 'OperationParsingFailed'
+  | 'OperationProcessingFailed'
+  | 'NotFound'
+  | 'NoApplicableCode';
+
+const EXCEPTION_STATUS: Record<WFSExceptionCode, number> = {
+  MissingParameterValue: 400,
+  InvalidParameterValue: 400,
+  OperationNotSupported: 400,
+  OperationParsingFailed: 400,
+  OperationProcessingFailed: 403,
+  NotFound: 404,
+  NoApplicableCode: 500,
+};
+
+// Reported to clients as an ows:ExceptionReport
+export class WFSException extends Error {
+  constructor(public code: WFSExceptionCode, message: string, public locator?: string) {
+    super(message);
+    this.name = 'WFSException';
+  }
+
+  get status(): number {
+    return EXCEPTION_STATUS[this.code];
+  }
+}
+
+// Request parsing
+
+const asArray = <T>(value: T | T[] | undefined): T[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// KVP parameter names are case-insensitive
+export const readKVP = (query: Record<string, any>): Record<string, string> => {
+  const params: Record<string, string> = {};
+  Object.entries(query).forEach(([key, value]) => {
+    params[key.toLowerCase()] = asArray(value).map(String).join(',');
+  });
+  return params;
+};
+
+export const requireParam = (params: Record<string, string>, name: string): string => {
+  const value = params[name.toLowerCase()];
+  if (value === undefined || value === '') {
+    throw new WFSException('MissingParameterValue', `Missing parameter ${name}`, name);
+  }
+  return value;
+};
+
+// Request bodies: Transaction children and a feature's own elements are always arrays
+export const wfsParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name, jPath) => {
+    const path = String(jPath);
+    return /^Transaction\.(Insert|Update|Delete)$/.test(path) ||
+      /^Transaction\.Insert\.[^.]+$/.test(path) ||
+      /^Transaction\.Update\.Property$/.test(path) ||
+      /\.(ResourceId|FeatureId|GmlObjectId)$/.test(path) ||
+      GML_ARRAY_TAGS.includes(name);
+  },
+});
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const typeName = (layerId: string) => `layer_${layerId}`;
+
+const qualifiedTypeName = (layerId: string) => `${PREFIX}:${typeName(layerId)}`;
+
+// "mapvue:layer_<id>", "layer_<id>" or "{namespace}layer_<id>" to the layer id
+export const parseTypeName = (value: string, locator = 'typeNames'): string => {
+  const local = value.trim().replace(/^\{[^}]*\}/, '').replace(/^[^:]*:/, '');
+  const layerId = local.startsWith('layer_') ? local.slice('layer_'.length) : '';
+  if (!UUID.test(layerId)) {
+    throw new WFSException('InvalidParameterValue', `Unknown feature type "${value}"`, locator);
+  }
+  return layerId.toLowerCase();
+};
+
+export const parseTypeNames = (value: string): string[] =>
+  value.split(',').map(name => name.replace(/[()]/g, '')).filter(Boolean).map(name => parseTypeName(name));
+
+// Feature ids are "layer_<layer id>.<feature id>"
+export const resourceId = (feature: Pick<Feature, 'id' | 'layer_id'>) => `${typeName(feature.layer_id)}.${feature.id}`;
+
+export const parseResourceId = (value: unknown, locator = 'resourceId'): string => {
+  const featureId = String(value ?? '').trim().split('.').pop() || '';
+  if (!UUID.test(featureId)) {
+    throw new WFSException('InvalidParameterValue', `Invalid resource id "${value}"`, locator);
+  }
+  return featureId.toLowerCase();
+};
+
+export interface AxisOrder {
+  srid: number;
+  latLon: boolean;
+}
+
+// A CRS from srsName. Geographic CRSs named by URN or http URI (the WFS 2.0 default,
+// urn:ogc:def:crs:EPSG::4326) are latitude first; "EPSG:4326" and CRS84 are longitude first.
+export const resolveSrsName = async (srsName: string | undefined, locator = 'srsName'): Promise<AxisOrder> => {
+  if (!srsName) return { srid: STORAGE_SRID, latLon: true };
+  if (/(^|[:/])CRS84$/i.test(srsName.trim())) return { srid: STORAGE_SRID, latLon: false };
+
+  const uri = /^(urn:|https?:)/i.test(srsName.trim());
+  try {
+    const srid = parseSRID(srsName);
+    if (srid === STORAGE_SRID) return { srid, latLon: uri };
+    const crs = await getCRS(srid);
+    return { srid, latLon: crs.geographic && uri };
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    throw new WFSException('InvalidParameterValue', error.message, locator);
+  }
+};
+
+const toBBox = (values: number[], { srid, latLon }: AxisOrder, locator: string): Pick<FeatureFilters, 'bbox' | 'bboxSrid'> => {
+  if (values.length !== 4 || values.some(value => !Number.isFinite(value))) {
+    throw new WFSException('InvalidParameterValue', 'A bounding box needs two corners of two numbers each', locator);
+  }
+  const [a, b, c, d] = values;
+  const bbox: BBox = latLon ? [b, a, d, c] : [a, b, c, d];
+  if (bbox[0] > bbox[2] || bbox[1] > bbox[3]) {
+    throw new WFSException('InvalidParameterValue', 'The lower corner of a bounding box must not exceed the upper one', locator);
+  }
+  return { bbox, bboxSrid: srid };
+};
+
+// BBOX=a,b,c,d[,crs]; without a CRS the corners are in the default CRS, latitude first
+export const parseBBoxParam = async (value: string) => {
+  const parts = value.split(',');
+  const order = await resolveSrsName(parts.length > 4 ? parts.slice(4).join(',') : undefined, 'bbox');
+  return toBBox(parts.slice(0, 4).map(Number), order, 'bbox');
+};
+
+// fes:Filter with ResourceId, BBOX and And; enough for QGIS and other desktop clients
+export const readFilter = async (filter: any): Promise<FeatureFilters> => {
+  const filters: FeatureFilters = {};
+
+  const visit = async (node: any) => {
+    for (const [key, value] of Object.entries(node || {})) {
+      if (key.startsWith('@_') || key === '#text') continue;
+
+      switch (key) {
+        case 'ResourceId':
+        case 'FeatureId':
+        case 'GmlObjectId':
+          filters.ids = [
+            ...(filters.ids || []),
+            ...asArray(value).map((item: any) => parseResourceId(item?.['@_rid'] ?? item?.['@_fid'] ?? item?.['@_id'], 'filter')),
+          ];
+          break;
+        case 'BBOX': {
+          const envelope = (value as any)?.Envelope;
+          if (!envelope) {
+            throw new WFSException('InvalidParameterValue', 'BBOX filters need a gml:Envelope', 'filter');
+          }
+          const corners = [envelope.lowerCorner, envelope.upperCorner]
+            .flatMap(corner => String(corner ?? '').trim().split(/\s+/).map(Number));
+          Object.assign(filters, toBBox(corners, await resolveSrsName(envelope['@_srsName'], 'filter'), 'filter'));
+          break;
+        }
+        case 'And':
+          for (const operand of asArray(value)) await visit(operand);
+          break;
+        default:
+          throw new WFSException('OperationNotSupported', `${key} filters are not supported; use ResourceId, BBOX or And`, 'filter');
+      }
+    }
+  };
+
+  await visit(filter);
+  return filters;
+};
+
+export const parseFilterParam = (value: string): Promise<FeatureFilters> => {
+  let parsed: any;
+  try {
+    parsed = wfsParser.parse(value);
+  } catch {
+    throw new WFSException('OperationParsingFailed', 'FILTER is not well-formed XML', 'filter');
+  }
+  if (!parsed?.Filter) {
+    throw new WFSException('InvalidParameterValue', 'FILTER must be a fes:Filter element', 'filter');
+  }
+  return readFilter(parsed.Filter);
+};
+
+export const parseOutputFormat = (value: string | undefined): OutputFormat => {
+  if (!value || /gml/i.test(value)) return 'gml';
+  if (/json/i.test(value)) return 'geojson';
+  throw new WFSException('InvalidParameterValue', `outputFormat must be one of ${OUTPUT_FORMATS.join(', ')}`, 'outputFormat');
+};
+
+// Feature type schemas
+
+// name and description are columns; properties that clash with them, or that aren't
+// plain XML names, can't be feature type elements and are left out
+const XML_NAME = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const COLUMN_FIELDS = ['geometry', 'name', 'description'];
+
+export const isPropertyField = (name: string) =>
+  XML_NAME.test(name) && !COLUMN_FIELDS.includes(name) && !/^xml/i.test(name);
+
+export interface FeatureTypeSchema {
+  layer: Layer;
+  geometryType: string | null; // GML property type, when the layer has a single geometry type
+  fields: Array<{ name: string; type: FieldType }>;
+}
+
+const GEOMETRY_PROPERTY_TYPES: Record<string, string> = {
+  POINT: 'gml:PointPropertyType',
+  LINESTRING: 'gml:CurvePropertyType',
+  POLYGON: 'gml:SurfacePropertyType',
+  MULTIPOINT: 'gml:MultiPointPropertyType',
+  MULTILINESTRING: 'gml:MultiCurvePropertyType',
+  MULTIPOLYGON: 'gml:MultiSurfacePropertyType',
+};
+
+const XSD_TYPES: Partial<Record<FieldType, string>> = {
+  integer: 'xsd:long',
+  number: 'xsd:double',
+  boolean: 'xsd:boolean',
+};
+
+export const loadFeatureTypeSchema = async (
+  layer: Layer,
+  client: Queryable = initializeDatabase()
+): Promise<FeatureTypeSchema> => {
+  const geometryTypes = await client.query(
+    'SELECT DISTINCT GeometryType(geometry) AS type FROM features WHERE layer_id = $1',
+    [layer.id]
+  );
+  const properties = await client.query(`
+    SELECT key, array_agg(DISTINCT CASE
+      WHEN jsonb_typeof(value) = 'number' AND value::text ~ '^-?[0-9]+$' THEN 'integer'
+      ELSE jsonb_typeof(value) END) AS types
+    FROM features, jsonb_each(properties)
+    WHERE layer_id = $1 AND jsonb_typeof(value) <> 'null'
+    GROUP BY key
+    ORDER BY key
+  `, [layer.id]);
+
+  const fields = properties.rows
+    .filter(row => isPropertyField(row.key))
+    .map(row => {
+      const types: string[] = row.types;
+      let type: FieldType = 'string';
+      if (types.length === 1 && ['integer', 'number', 'boolean', 'object', 'array'].includes(types[0])) {
+        type = types[0] as FieldType;
+      } else if (types.length === 2 && types.includes('integer') && types.includes('number')) {
+        type = 'number';
+      }
+      return { name: row.key, type };
+    });
+
+  return {
+    layer,
+    geometryType: geometryTypes.rows.length === 1 ? GEOMETRY_PROPERTY_TYPES[geometryTypes.rows[0].type] ?? null : null,
+    fields,
+  };
+};
+
+// A property value sent as XML text, typed by the feature type schema
+export const fieldValue = (value: string | null, type: FieldType = 'string'): any => {
+  if (value === null) return null;
+  if (type === 'object' || type === 'array') {
+    try {
+      return castField(JSON.parse(value), type);
+    } catch {
+      return castField(value, type);
+    }
+  }
+  return castField(value, type);
+};
+
+// Documents
+
+const xmlBuilder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  format: true,
+  suppressEmptyNode: true,
+  suppressBooleanAttributes: false,
+});
+
+const XML_DECLARATION = { '@_version': '1.0', '@_encoding': 'UTF-8' };
+
+const buildXML = (document: Record<string, any>) => xmlBuilder.build({ '?xml': XML_DECLARATION, ...document });
+
+const textValue = (value: any): string =>
+  value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export const exceptionReport = (error: WFSException) => buildXML({
+  'ows:ExceptionReport': {
+    '@_xmlns:ows': OWS_NAMESPACE,
+    '@_version': WFS_VERSION,
+    'ows:Exception': {
+      '@_exceptionCode': error.code,
+      ...(error.locator ? { '@_locator': error.locator } : {}),
+      'ows:ExceptionText': error.message,
+    },
+  },
+});
+
+const allowedValues = (name: string, values: string[]) => ({
+  '@_name': name,
+  'ows:AllowedValues': { 'ows:Value': values },
+});
+
+const constraint = (name: string, value: string) => ({
+  '@_name': name,
+  'ows:NoValues': '',
+  'ows:DefaultValue': value,
+});
+
+export const capabilitiesDocument = (
+  layers: Layer[],
+  extents: Record<string, LayerExtent>,
+  serviceUrl: string
+) => {
+  const operation = (name: string, post = false) => ({
+    '@_name': name,
+    'ows:DCP': {
+      'ows:HTTP': {
+        'ows:Get': { '@_xlink:href': `${serviceUrl}?` },
+        ...(post ? { 'ows:Post': { '@_xlink:href': serviceUrl } } : {}),
+      },
+    },
+  });
+
+  return buildXML({
+    'wfs:WFS_Capabilities': {
+      '@_xmlns:wfs': WFS_NAMESPACE,
+      '@_xmlns:ows': OWS_NAMESPACE,
+      '@_xmlns:fes': FES_NAMESPACE,
+      '@_xmlns:gml': GML_NAMESPACE,
+      '@_xmlns:xlink': XLINK_NAMESPACE,
+      '@_xmlns:xsi': XSI_NAMESPACE,
+      [`@_xmlns:${PREFIX}`]: MAPVUE_NAMESPACE,
+      '@_xsi:schemaLocation': WFS_SCHEMA_LOCATION,
+      '@_version': WFS_VERSION,
+      'ows:ServiceIdentification': {
+        'ows:Title': 'MapVue',
+        'ows:Abstract': 'MapVue vector layers, readable and editable over WFS-T',
+        'ows:ServiceType': 'WFS',
+        'ows:ServiceTypeVersion': WFS_VERSION,
+        'ows:Fees': 'NONE',
+        'ows:AccessConstraints': 'NONE',
+      },
+      'ows:ServiceProvider': { 'ows:ProviderName': 'MapVue' },
+      'ows:OperationsMetadata': {
+        'ows:Operation': [
+          { ...operation('GetCapabilities'), 'ows:Parameter': allowedValues('AcceptVersions', [WFS_VERSION]) },
+          operation('DescribeFeatureType'),
+          {
+            ...operation('GetFeature'),
+            'ows:Parameter': [allowedValues('outputFormat', OUTPUT_FORMATS), allowedValues('resultType', ['results', 'hits'])],
+          },
+          operation('Transaction', true),
+        ],
+        'ows:Constraint': [
+          constraint('ImplementsBasicWFS', 'TRUE'),
+          constraint('ImplementsTransactionalWFS', 'TRUE'),
+          constraint('ImplementsLockingWFS', 'FALSE'),
+          constraint('KVPEncoding', 'TRUE'),
+          constraint('XMLEncoding', 'FALSE'),
+          constraint('SOAPEncoding', 'FALSE'),
+          constraint('ImplementsInheritance', 'FALSE'),
+          constraint('ImplementsRemoteResolve', 'FALSE'),
+          constraint('ImplementsResultPaging', 'TRUE'),
+          constraint('CountDefault', String(MAX_FEATURE_COUNT)),
+          constraint('ImplementsStandardJoins', 'FALSE'),
+          constraint('ImplementsSpatialJoins', 'FALSE'),
+          constraint('ImplementsTemporalJoins', 'FALSE'),
+          constraint('ImplementsFeatureVersioning', 'FALSE'),
+          constraint('ManageStoredQueries', 'FALSE'),
+        ],
+      },
+      'wfs:FeatureTypeList': {
+        'wfs:FeatureType': layers.map(layer => ({
+          'wfs:Name': qualifiedTypeName(layer.id),
+          'wfs:Title': layer.name,
+          ...(layer.description ? { 'wfs:Abstract': layer.description } : {}),
+          'wfs:DefaultCRS': DEFAULT_SRS_NAME,
+          'wfs:OutputFormats': { 'wfs:Format': OUTPUT_FORMATS },
+          ...(extents[layer.id] ? {
+            'ows:WGS84BoundingBox': {
+              'ows:LowerCorner': extents[layer.id].bbox.slice(0, 2).join(' '),
+              'ows:UpperCorner': extents[layer.id].bbox.slice(2).join(' '),
+            },
+          } : {}),
+        })),
+      },
+      'fes:Filter_Capabilities': {
+        'fes:Conformance': {
+          'fes:Constraint': [
+            constraint('ImplementsQuery', 'TRUE'),
+            constraint('ImplementsAdHocQuery', 'TRUE'),
+            constraint('ImplementsResourceId', 'TRUE'),
+            constraint('ImplementsMinSpatialFilter', 'TRUE'),
+            constraint('ImplementsMinStandardFilter', 'FALSE'),
+            constraint('ImplementsMinTemporalFilter', 'FALSE'),
+            constraint('ImplementsSorting', 'FALSE'),
+          ],
+        },
+        'fes:Id_Capabilities': { 'fes:ResourceIdentifier': { '@_name': 'fes:ResourceId' } },
+        'fes:Spatial_Capabilities': {
+          'fes:GeometryOperands': { 'fes:GeometryOperand': { '@_name': 'gml:Envelope' } },
+          'fes:SpatialOperators': { 'fes:SpatialOperator': { '@_name': 'BBOX' } },
+        },
+      },
+    },
+  });
+};
+
+export const describeFeatureTypeDocument = (schemas: FeatureTypeSchema[]) => buildXML({
+  'xsd:schema': {
+    '@_xmlns:xsd': XSD_NAMESPACE,
+    '@_xmlns:gml': GML_NAMESPACE,
+    [`@_xmlns:${PREFIX}`]: MAPVUE_NAMESPACE,
+    '@_targetNamespace': MAPVUE_NAMESPACE,
+    '@_elementFormDefault': 'qualified',
+    '@_version': '1.0',
+    'xsd:import': { '@_namespace': GML_NAMESPACE, '@_schemaLocation': 'http://schemas.opengis.net/gml/3.2.1/gml.xsd' },
+    'xsd:complexType': schemas.map(({ layer, geometryType, fields }) => ({
+      '@_name': `${typeName(layer.id)}Type`,
+      'xsd:complexContent': {
+        'xsd:extension': {
+          '@_base': 'gml:AbstractFeatureType',
+          'xsd:sequence': {
+            'xsd:element': [
+              { '@_name': 'geometry', '@_type': geometryType || 'gml:GeometryPropertyType', '@_minOccurs': '0' },
+              { '@_name': 'name', '@_type': 'xsd:string', '@_minOccurs': '0', '@_nillable': 'true' },
+              { '@_name': 'description', '@_type': 'xsd:string', '@_minOccurs': '0', '@_nillable': 'true' },
+              ...fields.map(field => ({
+                '@_name': field.name,
+                '@_type': XSD_TYPES[field.type] || 'xsd:string',
+                '@_minOccurs': '0',
+                '@_nillable': 'true',
+              })),
+            ],
+          },
+        },
+      },
+    })),
+    'xsd:element': schemas.map(({ layer }) => ({
+      '@_name': typeName(layer.id),
+      '@_type': `${PREFIX}:${typeName(layer.id)}Type`,
+      '@_substitutionGroup': 'gml:AbstractFeature',
+    })),
+  },
+});
+
+const gmlFeature = (feature: Feature, srsName: string, latLon: boolean) => {
+  const id = resourceId(feature);
+  const properties = Object.entries(feature.properties || {})
+    .filter(([key, value]) => isPropertyField(key) && value !== null && value !== undefined);
+
+  return {
+    [qualifiedTypeName(feature.layer_id)]: {
+      '@_gml:id': id,
+      ...(feature.geometry ? { [`${PREFIX}:geometry`]: geometryToGML(feature.geometry, `${id}.geom`, srsName, latLon) } : {}),
+      ...(feature.name ? { [`${PREFIX}:name`]: feature.name } : {}),
+      ...(feature.description ? { [`${PREFIX}:description`]: feature.description } : {}),
+      ...Object.fromEntries(properties.map(([key, value]) => [`${PREFIX}:${key}`, textValue(value)])),
+    },
+  };
+};
+
+// `features` is empty for resultType=hits
+export const featureCollectionGML = (
+  features: Feature[],
+  numberMatched: number,
+  srsName = DEFAULT_SRS_NAME,
+  latLon = true
+) => buildXML({
+  'wfs:FeatureCollection': {
+    '@_xmlns:wfs': WFS_NAMESPACE,
+    '@_xmlns:gml': GML_NAMESPACE,
+    '@_xmlns:xsi': XSI_NAMESPACE,
+    [`@_xmlns:${PREFIX}`]: MAPVUE_NAMESPACE,
+    '@_xsi:schemaLocation': WFS_SCHEMA_LOCATION,
+    '@_numberMatched': String(numberMatched),
+    '@_numberReturned': String(features.length),
+    '@_timeStamp': new Date().toISOString(),
+    'wfs:member': features.map(feature => gmlFeature(feature, srsName, latLon)),
+  },
+});
+
+export const featureCollectionGeoJSON = (features: Feature[], numberMatched: number) => ({
+  type: 'FeatureCollection',
+  numberMatched,
+  numberReturned: features.length,
+  timeStamp: new Date().toISOString(),
+  features: features.map(feature => ({
+    type: 'Feature',
+    id: resourceId(feature),
+    geometry: feature.geometry,
+    properties: {
+      ...(feature.name ? { name: feature.name } : {}),
+      ...(feature.description ? { description: feature.description } : {}),
+      ...feature.properties,
+    },
+  })),
+});
+
+export interface TransactionSummary {
+  inserted: Array<Pick<Feature, 'id' | 'layer_id'>>;
+  updated: number;
+  deleted: number;
+}
+
+export const transactionResponse = ({ inserted, updated, deleted }: TransactionSummary) => buildXML({
+  'wfs:TransactionResponse': {
+    '@_xmlns:wfs': WFS_NAMESPACE,
+    '@_xmlns:fes': FES_NAMESPACE,
+    '@_version': WFS_VERSION,
+    'wfs:TransactionSummary': {
+      'wfs:totalInserted': String(inserted.length),
+      'wfs:totalUpdated': String(updated),
+      'wfs:totalReplaced': '0',
+      'wfs:totalDeleted': String(deleted),
+    },
+    ...(inserted.length > 0 ? {
+      'wfs:InsertResults': {
+        'wfs:Feature': inserted.map(feature => ({ 'fes:ResourceId': { '@_rid': resourceId(feature) } })),
+      },
+    } : {}),
+  },
+});
@@ -0,0 +1,222 @@
+// WFS-T: the Insert, Update and Delete actions of a wfs:Transaction, applied in one
+// database transaction with the REST routes' checks: layer access for inserts, feature
+// ownership for edits, and geometry validation under the default (reject) policy
+import { XMLParser } from 'fast-xml-parser';
+import { initializeDatabase, Queryable } from '../database/connection';
+import { FeatureModel } from '../models/Feature';
+import { LayerModel } from '../models/Layer';
+import { Feature, GeoJSONGeometry, UpdateFeatureRequest } from '../types/database';
+import { DEFAULT_GEOMETRY_POLICY, validateGeometry } from './geometryValidation';
+import { gmlSrsName, parseGMLGeometry } from './gml';
+import { wgs84Reprojector } from './projection';
+import {
+  FeatureTypeSchema,
+  TransactionSummary,
+  WFSException,
+  fieldValue,
+  loadFeatureTypeSchema,
+  parseTypeName,
+  readFilter,
+  resolveSrsName,
+  resourceId,
+  typeName,
+  wfsParser,
+} from './wfs';
+
+const asArray = <T>(value: T | T[] | undefined): T[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const isElement = (key: string) => !key.startsWith('@_') && key !== '#text';
+
+// wfsParser groups sibling elements by name, so the order of the Transaction's
+// actions is read from a second, order-preserving parse
+const actionOrderParser = new XMLParser({ preserveOrder: true, removeNSPrefix: true, ignoreAttributes: true });
+
+// Names of the Transaction's child elements in document order
+const actionOrder = (body: string): string[] => {
+  const nodes: Record<string, any>[] = actionOrderParser.parse(body);
+  const children: Record<string, any>[] = nodes.find(node => 'Transaction' in node)?.Transaction ?? [];
+  return children.flatMap(child => Object.keys(child).filter(isElement));
+};
+
+// Text content of a simple element; null for xsi:nil and absent elements
+const elementText = (node: any): string | null => {
+  if (node === undefined || node === null) return null;
+  if (typeof node !== 'object') return String(node);
+  if (node['@_nil'] === 'true') return null;
+  return node['#text'] !== undefined ? String(node['#text']) : '';
+};
+
+// "mapvue:name" or "name"
+const localName = (reference: string) => reference.trim().replace(/^.*:/, '');
+
+class TransactionContext {
+  private schemas = new Map<string, Promise<FeatureTypeSchema>>();
+  summary: TransactionSummary = { inserted: [], updated: 0, deleted: 0 };
+
+  constructor(private ownerId: string, private client: Queryable) {}
+
+  // The feature type, if the owner can see the layer
+  schema(layerId: string, locator: string): Promise<FeatureTypeSchema> {
+    let schema = this.schemas.get(layerId);
+    if (!schema) {
+      schema = LayerModel.findById(layerId, this.ownerId).then(layer => {
+        if (!layer || layer.type !== 'vector') {
+          throw new WFSException('InvalidParameterValue', `Unknown feature type ${typeName(layerId)}`, locator);
+        }
+        return loadFeatureTypeSchema(layer, this.client);
+      });
+      this.schemas.set(layerId, schema);
+    }
+    return schema;
+  }
+
+  // Reprojected to EPSG:4326 from the geometry's srsName, then validated
+  async geometry(node: any): Promise<GeoJSONGeometry> {
+    const { srid, latLon } = await resolveSrsName(gmlSrsName(node));
+    const geometry = parseGMLGeometry(node, latLon);
+    const reproject = await wgs84Reprojector(srid);
+    const check = await validateGeometry(reproject ? reproject(geometry) : geometry, DEFAULT_GEOMETRY_POLICY, this.client);
+    return check.geometry!;
+  }
+
+  propertyValue(schema: FeatureTypeSchema, name: string, node: any) {
+    return fieldValue(elementText(node), schema.fields.find(field => field.name === name)?.type);
+  }
+
+  async insert(layerId: string, element: any) {
+    const schema = await this.schema(layerId, 'Insert');
+    let geometry: GeoJSONGeometry | undefined;
+    let name: string | undefined;
+    let description: string | undefined;
+    const properties: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(element || {})) {
+      if (!isElement(key) || key === 'boundedBy') continue;
+      if (key === 'geometry') geometry = await this.geometry(value);
+      else if (key === 'name') name = elementText(value) ?? undefined;
+      else if (key === 'description') description = elementText(value) ?? undefined;
+      else properties[key] = this.propertyValue(schema, key, value);
+    }
+
+    if (!geometry) {
+      throw new WFSException('InvalidParameterValue', `Inserted ${typeName(layerId)} features need a geometry`, 'Insert');
+    }
+
+    const feature = await FeatureModel.create({ layer_id: layerId, name, description, geometry, properties }, this.ownerId, this.client);
+    this.summary.inserted.push(feature);
+  }
+
+  // Features named by the action's fes:ResourceId filter, checked to be in its feature type
+  private async targets(action: any, locator: string): Promise<{ layerId: string; features: Feature[] }> {
+    const layerId = parseTypeName(String(action['@_typeName'] ?? action['@_typeNames'] ?? ''), 'typeName');
+    await this.schema(layerId, locator);
+
+    const filters = await readFilter(action.Filter);
+    if (!filters.ids || filters.bbox) {
+      throw new WFSException('OperationNotSupported', `${locator} needs a filter of fes:ResourceId elements only`, locator);
+    }
+
+    const features: Feature[] = [];
+    for (const id of filters.ids) {
+      const feature = await FeatureModel.findById(id, this.ownerId, this.client);
+      if (!feature || feature.layer_id !== layerId) {
+        throw new WFSException('InvalidParameterValue', `Feature ${typeName(layerId)}.${id} not found`, locator);
+      }
+      features.push(feature);
+    }
+    return { layerId, features };
+  }
+
+  async update(action: any) {
+    const { layerId, features } = await this.targets(action, 'Update');
+    const schema = await this.schema(layerId, 'Update');
+
+    for (const feature of features) {
+      const changes: UpdateFeatureRequest = {};
+      const properties = { ...feature.properties };
+
+      for (const property of asArray(action.Property)) {
+        const reference = localName(elementText(property.ValueReference ?? property.Name) ?? '');
+        const value = property.Value;
+        if (reference === 'geometry') {
+          if (value === undefined) {
+            throw new WFSException('InvalidParameterValue', 'geometry cannot be removed', 'Update');
+          }
+          changes.geometry = await this.geometry(value);
+        } else if (reference === 'name' || reference === 'description') {
+          changes[reference] = elementText(value) ?? '';
+        } else if (value === undefined) {
+          delete properties[reference];
+          changes.properties = properties;
+        } else {
+          properties[reference] = this.propertyValue(schema, reference, value);
+          changes.properties = properties;
+        }
+      }
+
+      if (!(await FeatureModel.update(feature.id, changes, this.ownerId, this.client))) {
+        throw new WFSException('OperationProcessingFailed', `Feature ${resourceId(feature)} can only be edited by its owner`, 'Update');
+      }
+      this.summary.updated++;
+    }
+  }
+
+  async delete(action: any) {
+    const { features } = await this.targets(action, 'Delete');
+
+    for (const feature of features) {
+      if (!(await FeatureModel.delete(feature.id, this.ownerId, this.client))) {
+        throw new WFSException('OperationProcessingFailed', `Feature ${resourceId(feature)} can only be deleted by its owner`, 'Delete');
+      }
+      this.summary.deleted++;
+    }
+  }
+}
+
+// All or nothing: any failed action rolls the whole transaction back. Actions run in
+// the order they appear, as WFS 2.0 requires.
+export const executeTransaction = async (body: string, ownerId: string): Promise<TransactionSummary> => {
+  let request: any;
+  try {
+    request = wfsParser.parse(body);
+  } catch {
+    throw new WFSException('OperationParsingFailed', 'The request body is not well-formed XML');
+  }
+
+  const transaction = request?.Transaction;
+  if (!transaction) {
+    throw new WFSException('OperationNotSupported', 'Only Transaction requests are accepted as XML; use KVP for the other operations');
+  }
+  const unsupported = Object.keys(transaction).find(key => isElement(key) && !['Insert', 'Update', 'Delete'].includes(key));
+  if (unsupported) {
+    throw new WFSException('OperationNotSupported', `${unsupported} actions are not supported`, unsupported);
+  }
+
+  const order = actionOrder(body);
+
+  return initializeDatabase().transaction(async client => {
+    const context = new TransactionContext(ownerId, client);
+    // The next unread action of each kind
+    const next: Record<string, number> = { Insert: 0, Update: 0, Delete: 0 };
+
+    for (const kind of order) {
+      const action = asArray<any>(transaction[kind])[next[kind]++];
+      if (kind === 'Insert') {
+        for (const [key, elements] of Object.entries(action || {})) {
+          if (!isElement(key)) continue;
+          const layerId = parseTypeName(key, 'Insert');
+          for (const element of asArray(elements)) await context.insert(layerId, element);
+        }
+      } else if (kind === 'Update') {
+        await context.update(action);
+      } else {
+        await context.delete(action);
+      }
+    }
+
+    return context.summary;
+  });
+};
@@ -0,0 +1,177 @@
+// Minimal Well-Known Text reader and writer (2D), enough for geometry columns in
+// tabular imports and exports
+import { GeoJSONGeometry } from '../types/database';
+
+const GEOMETRY_TYPES: Record<string, string> = {
+  POINT: 'Point',
+  LINESTRING: 'LineString',
+  POLYGON: 'Polygon',
+  MULTIPOINT: 'MultiPoint',
+  MULTILINESTRING: 'MultiLineString',
+  MULTIPOLYGON: 'MultiPolygon',
+  GEOMETRYCOLLECTION: 'GeometryCollection',
+};
+
+export const looksLikeWKT = (value: string): boolean =>
+  /^\s*(SRID=\d+;\s*)?(MULTI)?(POINT|LINESTRING|POLYGON)|^\s*GEOMETRYCOLLECTION/i.test(value);
+
+class WKTReader {
+  private position = 0;
+
+  constructor(private text: string) {}
+
+  private skipWhitespace() {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) {
+      this.position++;
+    }
+  }
+
+  private peek(): string {
+    this.skipWhitespace();
+    return this.text[this.position];
+  }
+
+  private expect(char: string) {
+    if (this.peek() !== char) {
+      throw new Error(`Invalid WKT: expected '${char}' at position ${this.position}`);
+    }
+    this.position++;
+  }
+
+  private word(): string {
+    this.skipWhitespace();
+    const match = /^[A-Za-z]+/.exec(this.text.slice(this.position));
+    if (!match) throw new Error(`Invalid WKT: expected a keyword at position ${this.position}`);
+    this.position += match[0].length;
+    return match[0].toUpperCase();
+  }
+
+  private isEmpty(): boolean {
+    this.skipWhitespace();
+    if (/^EMPTY/i.test(this.text.slice(this.position))) {
+      this.position += 5;
+      return true;
+    }
+    return false;
+  }
+
+  // A position is two or more numbers; Z and M values are dropped
+  private point(): number[] {
+    this.skipWhitespace();
+    const match = /^[-+0-9.eE\s]+/.exec(this.text.slice(this.position));
+    if (!match) throw new Error(`Invalid WKT: expected coordinates at position ${this.position}`);
+    const values = match[0].trim().split(/\s+/).map(Number);
+    if (values.length < 2 || values.some(isNaN)) {
+      throw new Error(`Invalid WKT coordinate "${match[0].trim()}"`);
+    }
+    this.position += match[0].length;
+    return [values[0], values[1]];
+  }
+
+  private list<T>(item: () => T): T[] {
+    this.expect('(');
+    const items = [item()];
+    while (this.peek() === ',') {
+      this.position++;
+      items.push(item());
+    }
+    this.expect(')');
+    return items;
+  }
+
+  // MULTIPOINT allows both "(1 2, 3 4)" and "((1 2), (3 4))"
+  private multiPointMember = (): number[] => {
+    if (this.peek() === '(') {
+      this.position++;
+      const point = this.point();
+      this.expect(')');
+      return point;
+    }
+    return this.point();
+  };
+
+  geometry(): GeoJSONGeometry {
+    // "POINTZ" style keywords carry the dimension inline
+    const keyword = this.word().replace(/(?<=[A-Z]{5})(ZM|Z|M)$/, '');
+    const type = GEOMETRY_TYPES[keyword];
+    if (!type) throw new Error(`Unsupported WKT geometry type ${keyword}`);
+
+    // Dimension markers: "POINT Z (...)", "POINT ZM (...)"
+    if (/^\s*(ZM|Z|M)\b/i.test(this.text.slice(this.position))) {
+      this.word();
+    }
+
+    if (this.isEmpty()) {
+      throw new Error(`Empty ${keyword} geometries are not supported`);
+    }
+
+    const ring = () => this.list(() => this.point());
+    const polygon = () => this.list(ring);
+
+    switch (type) {
+      case 'Point': {
+        this.expect('(');
+        const coordinates = this.point();
+        this.expect(')');
+        return { type, coordinates };
+      }
+      case 'LineString':
+        return { type, coordinates: ring() };
+      case 'Polygon':
+        return { type, coordinates: polygon() };
+      case 'MultiPoint':
+        return { type, coordinates: this.list(this.multiPointMember) };
+      case 'MultiLineString':
+        return { type, coordinates: this.list(ring) };
+      case 'MultiPolygon':
+        return { type, coordinates: this.list(polygon) };
+      default:
+        return { type, geometries: this.list(() => this.geometry()) };
+    }
+  }
+
+  parse(): GeoJSONGeometry {
+    // EWKT "SRID=4326;POINT(...)" prefix
+    const srid = /^\s*SRID=\d+;/i.exec(this.text);
+    if (srid) this.position = srid[0].length;
+
+    const geometry = this.geometry();
+    this.skipWhitespace();
+    if (this.position < this.text.length) {
+      throw new Error(`Invalid WKT: unexpected text at position ${this.position}`);
+    }
+    return geometry;
+  }
+}
+
+export const parseWKT = (text: string): GeoJSONGeometry => new WKTReader(text).parse();
+
+const WKT_KEYWORDS: Record<string, string> = Object.fromEntries(
+  Object.entries(GEOMETRY_TYPES).map(([keyword, type]) => [type, keyword])
+);
+
+const positionText = (position: number[]) => `${position[0]} ${position[1]}`;
+const listText = <T>(items: T[], item: (value: T) => string) => `(${items.map(item).join(', ')})`;
+
+export const toWKT = (geometry: GeoJSONGeometry): string => {
+  const keyword = WKT_KEYWORDS[geometry.type];
+  if (!keyword) throw new Error(`Unsupported geometry type ${geometry.type}`);
+
+  const ring = (positions: number[][]) => listText(positions, positionText);
+  const polygon = (rings: number[][][]) => listText(rings, ring);
+
+  switch (geometry.type) {
+    case 'Point':
+      return `${keyword} (${positionText(geometry.coordinates)})`;
+    case 'LineString':
+    case 'MultiPoint':
+      return `${keyword} ${ring(geometry.coordinates)}`;
+    case 'Polygon':
+    case 'MultiLineString':
+      return `${keyword} ${polygon(geometry.coordinates)}`;
+    case 'MultiPolygon':
+      return `${keyword} ${listText(geometry.coordinates, polygon)}`;
+    default:
+      return `${keyword} ${listText(geometry.geometries || [], toWKT)}`;
+  }
+};
@@ -5,6 +5,8 @@ import Collection from 'ol/Collection';
 import { Map, View } from 'ol';
 import VectorLayer from 'ol/layer/Vector';
 import VectorSource from 'ol/source/Vector';
+import type VectorTileLayer from 'ol/layer/VectorTile';
+import type MapBrowserEvent from 'ol/MapBrowserEvent';
 import Draw from 'ol/interaction/Draw';
 import Select from 'ol/interaction/Select';
 import Modify from 'ol/interaction/Modify';
@@ -25,6 +27,7 @@ import Toast from './components/Toast';
 import useGeolocation from './hooks/useGeolocation';
 import { useMapLayers } from './hooks/useMapLayers';
 import type { GISFeature } from './services/gisApi';
+import { syncLayerTileLayers, refreshLayerTiles, identifyTileFeature, TILE_LAYER_Z_INDEX } from './utils/vectorTiles';
 
 interface DrawingTool {
   id: string;
@@ -38,6 +41,11 @@ const App: React.FC = () => {
   const mapInstanceRef = useRef<Map | null>(null);
   const vectorSourceRef = useRef<VectorSource>(new VectorSource());
   const layerSourcesRef = useRef<{[key: string]: VectorSource}>({});
+  // Stored features render from vector tiles; the per-layer sources hold drawings
+  const tileLayersRef = useRef<{[key: string]: VectorTileLayer}>({});
+  const selectionSourceRef = useRef<VectorSource>(new VectorSource());
+  const selectionLayerRef = useRef<VectorLayer<VectorSource> | null>(null);
+  const identifyListenerRef = useRef<((event: MapBrowserEvent) => void) | null>(null);
   const drawInteractionRef = useRef<Draw | null>(null);
   const selectInteractionRef = useRef<Select | null>(null);
   const modifyInteractionRef = useRef<Modify | null>(null);
@@ -69,7 +77,7 @@ const App: React.FC = () => {
 
   // Use backend hooks
   const { layers, createLayer, updateLayer, deleteLayer } = useLayers();
-  const { createFeature, bulkCreateFeatures } = useFeatures(currentLayerId || undefined);
+  const { createFeature, bulkCreateFeatures } = useFeatures(currentLayerId || undefined, { load: false });
 
   // Geolocation hook
   const { position, error: locationError, isLoading: isLocating, getCurrentPosition } = useGeolocation();
@@ -78,7 +86,7 @@ const App: React.FC = () => {
   const userLocationLayerRef = useRef<VectorLayer<VectorSource> | null>(null);
 
   // Map layers hook
-  const { mapLayers, toggleLayer, changeBaseLayer } = useMapLayers(mapInstanceRef.current);
+  const { mapLayers, toggleLayer, changeBaseLayer } = useMapLayers(mapInstanceRef.current, layers);
 
   // Toast notification state
   const [toast, setToast] = useState<{
@@ -149,6 +157,11 @@ const App: React.FC = () => {
         map.removeInteraction(interaction);
       }
     });
+    if (identifyListenerRef.current) {
+      map.un('singleclick', identifyListenerRef.current);
+      identifyListenerRef.current = null;
+    }
+    selectionSourceRef.current.clear();
   };
 
   const activateDrawTool = (toolType: string) => {
@@ -182,6 +195,21 @@ const App: React.FC = () => {
       });
       map.addInteraction(selectInteraction);
       selectInteractionRef.current = selectInteraction;
+
+      // Features in vector tiles are simplified copies, so fetch the stored one
+      identifyListenerRef.current = async (event) => {
+        try {
+          selectionSourceRef.current.clear();
+          const feature = await identifyTileFeature(map, event.pixel);
+          if (!feature) return;
+          selectionSourceRef.current.addFeature(feature);
+          const layerName = layers.find(layer => layer.id === feature.get('gisLayerId'))?.name;
+          showToast(`${feature.get('name') || 'Feature'}${layerName ? ` (${layerName})` : ''}`, 'info');
+        } catch (error) {
+          showToast(error instanceof Error ? error.message : 'Failed to identify feature', 'error');
+        }
+      };
+      map.on('singleclick', identifyListenerRef.current);
     } else if (toolType === 'modify') {
       // OpenLayers Modify only works with a single source, so create a combined source if needed
       const sources = getVisibleVectorSources();
@@ -434,12 +462,8 @@ const App: React.FC = () => {
       setBackendSync(prev => ({ ...prev, saving: true, error: null }));
 
       // Gather features only from the current layer's vector source
-      let features: any[] = [];
-      if (currentLayerId) {
-        features = getLayerVectorSource(currentLayerId).getFeatures();
-      } else {
-        features = vectorSourceRef.current.getFeatures();
-      }
+      const source = currentLayerId ? getLayerVectorSource(currentLayerId) : vectorSourceRef.current;
+      const features = source.getFeatures();
       if (features.length === 0) return;
 
       // Convert OpenLayers features to GIS features
@@ -474,8 +498,13 @@ const App: React.FC = () => {
         setCurrentLayerId(newLayer.id);
       } else {
         await bulkCreateFeatures(gisFeatures);
+        refreshLayerTiles(tileLayersRef.current[currentLayerId]);
       }
 
+      // Saved features are drawn from the layer's tiles now; keeping the sketches
+      // would draw them twice and post them again on the next save
+      source.removeFeatures(features);
+
       setBackendSync(prev => ({ 
         ...prev, 
         saving: false, 
@@ -517,7 +546,7 @@ const App: React.FC = () => {
     // Remove all vector layers (except base layer)
     const layersToRemove: VectorLayer<any>[] = [];
     map.getLayers().forEach(layer => {
-      if (layer instanceof VectorLayer) {
+      if (layer instanceof VectorLayer && layer !== selectionLayerRef.current) {
         layersToRemove.push(layer);
       }
     });
@@ -535,6 +564,9 @@ const App: React.FC = () => {
       map.addLayer(defaultVectorLayer);
     }
 
+    // Stored features come from the server's vector tiles
+    syncLayerTileLayers(map, tileLayersRef.current, layers);
+
     // Add a vector layer for each visible layer
     layers.forEach(layer => {
       if (layer.visible) {
@@ -613,11 +645,27 @@ const App: React.FC = () => {
       zIndex: 1000 // Ensure user location is always on top
     });
 
+    // Highlight for stored features picked with the select tool
+    const selectionLayer = new VectorLayer({
+      source: selectionSourceRef.current,
+      style: new Style({
+        image: new Circle({
+          radius: 10,
+          fill: new Fill({ color: '#facc15' }),
+          stroke: new Stroke({ color: '#eab308', width: 3 })
+        }),
+        stroke: new Stroke({ color: '#eab308', width: 3 }),
+        fill: new Fill({ color: 'rgba(250, 204, 21, 0.3)' })
+      }),
+      zIndex: TILE_LAYER_Z_INDEX + 1
+    });
+
     const map = new Map({
       target: mapRef.current,
       layers: [
         vectorLayer,
-        userLocationLayer
+        userLocationLayer,
+        selectionLayer
       ],
       view: new View({
         center: fromLonLat([-98.5795, 39.8283]),
@@ -627,6 +675,7 @@ const App: React.FC = () => {
 
     mapInstanceRef.current = map;
     userLocationLayerRef.current = userLocationLayer;
+    selectionLayerRef.current = selectionLayer;
 
     return () => {
       map.setTarget(undefined);
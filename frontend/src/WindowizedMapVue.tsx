@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Map, View } from 'ol';
-import { fromLonLat, toLonLat } from 'ol/proj';
+import { fromLonLat, transformExtent } from 'ol/proj';
 import VectorSource from 'ol/source/Vector';
 import VectorLayer from 'ol/layer/Vector';
+import type VectorTileLayer from 'ol/layer/VectorTile';
+import type MapBrowserEvent from 'ol/MapBrowserEvent';
 import TileLayer from 'ol/layer/Tile';
 import OSM from 'ol/source/OSM';
 import { Draw, Modify, Select } from 'ol/interaction';
+import { createBox } from 'ol/interaction/Draw';
 import { Pencil, Square, Minus, MousePointer, Edit } from 'lucide-react';
 import GeoJSON from 'ol/format/GeoJSON';
 import KML from 'ol/format/KML';
@@ -16,10 +19,18 @@ import { Style, Stroke, Fill, Circle as CircleStyle } from 'ol/style';
 import Feature from 'ol/Feature';
 
 import WindowizedApp from './components/WindowizedApp';
-import { useLayers, useFeatures } from './hooks/useGIS';
+import { useLayers, useFeatures, useDisplayCrs } from './hooks/useGIS';
 import { useMapLayers } from './hooks/useMapLayers';
 import Toast from './components/Toast';
-import type { GISFeature } from './services/gisApi';
+import { gisApi } from './services/gisApi';
+import type { GISFeature, GISLayer, CRSInfo, SearchHit, SpatialQuery, SpatialQueryHit } from './services/gisApi';
+import type { QueryShape } from './components/WindowComponents';
+import { formatCoordinate, planarLength, planarArea, unitLabel } from './utils/crs';
+import { syncLayerTileLayers, refreshLayerTiles, identifyTileFeature, TILE_LAYER_Z_INDEX } from './utils/vectorTiles';
+import { syncAggregateLayers } from './utils/aggregateLayers';
+import type { AggregateLayer } from './utils/aggregateLayers';
+
+const searchFormat = new GeoJSON({ featureProjection: 'EPSG:3857' });
 
 interface DrawingTool {
   id: string;
@@ -33,6 +44,17 @@ const WindowizedMapVue: React.FC = () => {
   const mapInstanceRef = useRef<Map | null>(null);
   const vectorSourceRef = useRef<VectorSource>(new VectorSource());
   const layerSourcesRef = useRef<{[key: string]: VectorSource}>({});
+  // Database layers render from vector tiles; identified features are copied here
+  const tileLayersRef = useRef<{[key: string]: VectorTileLayer}>({});
+  // Layers drawn as a heatmap or choropleth of aggregated cells
+  const aggregateLayersRef = useRef<{[key: string]: AggregateLayer}>({});
+  const layersRef = useRef<GISLayer[]>([]);
+  const selectionSourceRef = useRef<VectorSource>(new VectorSource());
+  const searchSourceRef = useRef<VectorSource>(new VectorSource());
+  // Select by location: the query shape and the features it selected
+  const queryShapeSourceRef = useRef<VectorSource>(new VectorSource());
+  const locationSourceRef = useRef<VectorSource>(new VectorSource());
+  const identifyListenerRef = useRef<((event: MapBrowserEvent) => void) | null>(null);
   const currentInteractionRef = useRef<Draw | Modify | Select | null>(null);
   
   const [activeTool, setActiveTool] = useState<string>('none');
@@ -68,11 +90,20 @@ const WindowizedMapVue: React.FC = () => {
   });
 
   // Use backend hooks
-  const { layers, createLayer, updateLayer, deleteLayer } = useLayers();
-  const { bulkCreateFeatures } = useFeatures(currentLayerId || undefined);
+  const { layers, refetch: refetchLayers, createLayer, updateLayer, deleteLayer } = useLayers();
+  const { bulkCreateFeatures } = useFeatures(currentLayerId || undefined, { load: false });
+
+  // Display CRS of the active layer's project; tool handlers read it through a ref
+  // because the tools window keeps the handlers it was registered with
+  const activeProjectId = layers.find(layer => layer.id === currentLayerId)?.projectId;
+  const { crs: displayCrs, changeCrs } = useDisplayCrs(activeProjectId);
+  const displayCrsRef = useRef<CRSInfo | null>(null);
+  useEffect(() => {
+    displayCrsRef.current = displayCrs;
+  }, [displayCrs]);
   
   // Map layers (base maps) management
-  const { mapLayers, toggleLayer, changeBaseLayer } = useMapLayers(mapInstanceRef.current);
+  const { mapLayers, toggleLayer, changeBaseLayer } = useMapLayers(mapInstanceRef.current, layers);
 
   // Route management state
   const [routes, setRoutes] = useState<any[]>([]);
@@ -105,6 +136,11 @@ const WindowizedMapVue: React.FC = () => {
       mapInstanceRef.current.removeInteraction(currentInteractionRef.current);
       currentInteractionRef.current = null;
     }
+    if (identifyListenerRef.current) {
+      mapInstanceRef.current.un('singleclick', identifyListenerRef.current);
+      identifyListenerRef.current = null;
+    }
+    selectionSourceRef.current.clear();
     
     setActiveTool(toolId);
     
@@ -132,6 +168,25 @@ const WindowizedMapVue: React.FC = () => {
         break;
       case 'select':
         interaction = new Select();
+        // Tile features are only simplified copies, so identify fetches the stored feature
+        identifyListenerRef.current = async (event) => {
+          const map = mapInstanceRef.current;
+          if (!map) return;
+          selectionSourceRef.current.clear();
+          try {
+            const feature = await identifyTileFeature(map, event.pixel);
+            if (!feature) return;
+            selectionSourceRef.current.addFeature(feature);
+            const layerName = layersRef.current.find(layer => layer.id === feature.get('gisLayerId'))?.name;
+            setToast({
+              message: `${feature.get('name') || 'Feature'}${layerName ? ` (${layerName})` : ''}`,
+              type: 'info'
+            });
+          } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Failed to identify feature', type: 'error' });
+          }
+        };
+        mapInstanceRef.current.on('singleclick', identifyListenerRef.current);
         break;
       case 'modify':
         const selectForModify = new Select();
@@ -167,6 +222,33 @@ const WindowizedMapVue: React.FC = () => {
 
     setFileOperations(prev => ({ ...prev, isImporting: true, importError: null }));
 
+    // GeoTIFFs become raster layers on the server rather than features
+    if (/\.tiff?$/i.test(file.name)) {
+      gisApi.uploadRaster(file)
+        .then(({ raster }) => {
+          refetchLayers();
+          mapInstanceRef.current?.getView().fit(
+            transformExtent(raster.extent, 'EPSG:4326', 'EPSG:3857'),
+            { padding: [20, 20, 20, 20], duration: 500 }
+          );
+          setFileOperations(prev => ({
+            ...prev,
+            isImporting: false,
+            lastImportedFile: file.name,
+            importError: null
+          }));
+        })
+        .catch(error => {
+          console.error('Raster upload error:', error);
+          setFileOperations(prev => ({
+            ...prev,
+            isImporting: false,
+            importError: error instanceof Error ? error.message : 'Raster upload failed'
+          }));
+        });
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
@@ -315,12 +397,8 @@ const WindowizedMapVue: React.FC = () => {
       setBackendSync(prev => ({ ...prev, saving: true, error: null }));
 
       // Gather features from current layer or default source
-      let features: any[] = [];
-      if (currentLayerId && layerSourcesRef.current[currentLayerId]) {
-        features = layerSourcesRef.current[currentLayerId].getFeatures();
-      } else {
-        features = vectorSourceRef.current.getFeatures();
-      }
+      const source = (currentLayerId && layerSourcesRef.current[currentLayerId]) || vectorSourceRef.current;
+      const features = source.getFeatures();
 
       if (features.length === 0) {
         setBackendSync(prev => ({ ...prev, saving: false }));
@@ -359,8 +437,14 @@ const WindowizedMapVue: React.FC = () => {
         setCurrentLayerId(newLayer.id);
       } else {
         await bulkCreateFeatures(gisFeatures);
+        refreshLayerTiles(tileLayersRef.current[currentLayerId]);
       }
 
+      // Saved features are drawn from the layer's tiles now; keeping the sketches
+      // would draw them twice and post them again on the next save
+      source.removeFeatures(features);
+      updateFeatureCount();
+
       setBackendSync(prev => ({ 
         ...prev, 
         saving: false, 
@@ -464,12 +548,16 @@ const WindowizedMapVue: React.FC = () => {
         const length = getLength(geometry);
         const lengthInKm = (length / 1000).toFixed(2);
         const lengthInMiles = (length * 0.000621371).toFixed(2);
+        const crs = displayCrsRef.current;
+        const gridLength = crs && !crs.geographic
+          ? `; ${planarLength(geometry, crs).toFixed(2)} ${unitLabel(crs)} in ${crs.code}`
+          : '';
         
         setGisTools(prev => ({ 
           ...prev, 
           measurements: { 
             ...prev.measurements, 
-            distance: `${lengthInKm} km (${lengthInMiles} miles)` 
+            distance: `${lengthInKm} km (${lengthInMiles} miles)${gridLength}` 
           }
         }));
         
@@ -539,12 +627,16 @@ const WindowizedMapVue: React.FC = () => {
         const area = getArea(geometry);
         const areaInSqKm = (area / 1000000).toFixed(2);
         const areaInSqMiles = (area * 0.000000386102).toFixed(2);
+        const crs = displayCrsRef.current;
+        const gridArea = crs && !crs.geographic
+          ? `; ${planarArea(geometry, crs).toFixed(2)} sq ${unitLabel(crs)} in ${crs.code}`
+          : '';
         
         setGisTools(prev => ({ 
           ...prev, 
           measurements: { 
             ...prev.measurements, 
-            area: `${areaInSqKm} km² (${areaInSqMiles} sq miles)` 
+            area: `${areaInSqKm} km² (${areaInSqMiles} sq miles)${gridArea}` 
           }
         }));
         
@@ -576,15 +668,17 @@ const WindowizedMapVue: React.FC = () => {
     // Add click listener to map
     const handleMapClick = (event: any) => {
       const coordinate = event.coordinate;
-      const lonLat = toLonLat(coordinate);
-      const longitude = lonLat[0].toFixed(6);
-      const latitude = lonLat[1].toFixed(6);
+      const crs = displayCrsRef.current;
+      // Projected display CRSs also show the WGS84 position
+      const coordinates = crs && !crs.geographic
+        ? `${formatCoordinate(coordinate, crs)} (${crs.code}); ${formatCoordinate(coordinate)}`
+        : formatCoordinate(coordinate);
       
       setGisTools(prev => ({ 
         ...prev, 
         measurements: { 
           ...prev.measurements, 
-          coordinates: `${latitude}, ${longitude}` 
+          coordinates 
         }
       }));
       
@@ -596,6 +690,15 @@ const WindowizedMapVue: React.FC = () => {
     mapInstanceRef.current.on('singleclick', handleMapClick);
   };
 
+  const handleDisplayCrsChange = async (code: string) => {
+    try {
+      const crs = await changeCrs(code);
+      setToast({ message: `Coordinates shown in ${crs.code} (${crs.name})`, type: 'success' });
+    } catch (error) {
+      setToast({ message: error instanceof Error ? error.message : 'Unknown CRS', type: 'error' });
+    }
+  };
+
   const handleClearMeasurements = () => {
     setGisTools(prev => ({ 
       ...prev, 
@@ -604,6 +707,83 @@ const WindowizedMapVue: React.FC = () => {
     }));
   };
 
+  // Search window handlers; like the tool handlers they only use refs, since the
+  // window keeps the handlers it was registered with
+  const getViewBounds = () => {
+    const map = mapInstanceRef.current;
+    if (!map) return undefined;
+    return transformExtent(map.getView().calculateExtent(map.getSize()), 'EPSG:3857', 'EPSG:4326');
+  };
+
+  const fitSearchExtent = (extent: number[]) => {
+    mapInstanceRef.current?.getView().fit(extent, { padding: [60, 60, 60, 60], maxZoom: 16, duration: 500 });
+  };
+
+  const showHits = (source: VectorSource, hits: GISFeature[]) => {
+    source.clear();
+    selectionSourceRef.current.clear();
+    if (hits.length === 0) return;
+    source.addFeatures(searchFormat.readFeatures({ type: 'FeatureCollection', features: hits }));
+    fitSearchExtent(source.getExtent());
+  };
+
+  const handleSearchResults = (hits: SearchHit[]) => showHits(searchSourceRef.current, hits);
+
+  const handleLocationResults = (hits: SpatialQueryHit[]) => showHits(locationSourceRef.current, hits);
+
+  const handleSearchResultSelect = (hit: GISFeature) => {
+    const feature = searchFormat.readFeature(hit) as Feature;
+    const extent = feature.getGeometry()?.getExtent();
+    selectionSourceRef.current.clear();
+    selectionSourceRef.current.addFeature(feature);
+    if (extent) fitSearchExtent(extent);
+  };
+
+  // Draws one query shape and resolves it as GeoJSON in EPSG:4326; a box is drawn
+  // as two corners
+  const handleDrawQueryShape = (shape: QueryShape): Promise<SpatialQuery['geometry'] | null> => {
+    const map = mapInstanceRef.current;
+    if (!map) return Promise.resolve(null);
+
+    handleToolClick('none');
+    queryShapeSourceRef.current.clear();
+
+    const draw = shape === 'Box'
+      ? new Draw({ source: queryShapeSourceRef.current, type: 'Circle', geometryFunction: createBox() })
+      : new Draw({ source: queryShapeSourceRef.current, type: shape });
+
+    return new Promise(resolve => {
+      draw.on('drawend', (event) => {
+        map.removeInteraction(draw);
+        currentInteractionRef.current = null;
+        const geometry = event.feature.getGeometry();
+        resolve(geometry ? searchFormat.writeGeometryObject(geometry) : null);
+      });
+      map.addInteraction(draw);
+      currentInteractionRef.current = draw;
+    });
+  };
+
+  // The feature picked with the select tool, when it came from a database layer
+  const getSelectedFeatureId = () => {
+    const id = selectionSourceRef.current.getFeatures()[0]?.getId();
+    return id === undefined ? undefined : String(id);
+  };
+
+  // Features picked with the select tool, or else the select-by-location results
+  const getSelectedFeatureIds = () => {
+    const picked = selectionSourceRef.current.getFeatures();
+    const features = picked.length > 0 ? picked : locationSourceRef.current.getFeatures();
+    return features
+      .map(feature => feature.getId())
+      .filter((id): id is string | number => id !== undefined)
+      .map(String);
+  };
+
+  const handleClearQueryShape = () => {
+    queryShapeSourceRef.current.clear();
+  };
+
   const handleZoomToExtent = () => {
     if (!mapInstanceRef.current) return;
     
@@ -703,10 +883,69 @@ const WindowizedMapVue: React.FC = () => {
       source: vectorSourceRef.current
     });
 
+    // Highlight for features picked with the select tool
+    const selectionLayer = new VectorLayer({
+      source: selectionSourceRef.current,
+      style: new Style({
+        image: new CircleStyle({
+          radius: 8,
+          fill: new Fill({ color: 'rgba(250, 204, 21, 0.6)' }),
+          stroke: new Stroke({ color: '#eab308', width: 3 })
+        }),
+        stroke: new Stroke({ color: '#eab308', width: 3 }),
+        fill: new Fill({ color: 'rgba(250, 204, 21, 0.3)' })
+      }),
+      zIndex: TILE_LAYER_Z_INDEX + 2
+    });
+
+    // Search hits, under the selection so a picked hit stands out
+    const searchLayer = new VectorLayer({
+      source: searchSourceRef.current,
+      style: new Style({
+        image: new CircleStyle({
+          radius: 6,
+          fill: new Fill({ color: 'rgba(37, 99, 235, 0.5)' }),
+          stroke: new Stroke({ color: '#2563eb', width: 2 })
+        }),
+        stroke: new Stroke({ color: '#2563eb', width: 2 }),
+        fill: new Fill({ color: 'rgba(37, 99, 235, 0.15)' })
+      }),
+      zIndex: TILE_LAYER_Z_INDEX + 1
+    });
+
+    // Select by location, drawn like search hits: the dashed query shape and its matches
+    const queryShapeLayer = new VectorLayer({
+      source: queryShapeSourceRef.current,
+      style: new Style({
+        image: new CircleStyle({
+          radius: 5,
+          fill: new Fill({ color: 'rgba(124, 58, 237, 0.4)' }),
+          stroke: new Stroke({ color: '#7c3aed', width: 2 })
+        }),
+        stroke: new Stroke({ color: '#7c3aed', width: 2, lineDash: [8, 6] }),
+        fill: new Fill({ color: 'rgba(124, 58, 237, 0.08)' })
+      }),
+      zIndex: TILE_LAYER_Z_INDEX + 1
+    });
+
+    const locationLayer = new VectorLayer({
+      source: locationSourceRef.current,
+      style: new Style({
+        image: new CircleStyle({
+          radius: 6,
+          fill: new Fill({ color: 'rgba(234, 88, 12, 0.5)' }),
+          stroke: new Stroke({ color: '#ea580c', width: 2 })
+        }),
+        stroke: new Stroke({ color: '#ea580c', width: 2 }),
+        fill: new Fill({ color: 'rgba(234, 88, 12, 0.15)' })
+      }),
+      zIndex: TILE_LAYER_Z_INDEX + 1
+    });
+
     // Create map instance
     const map = new Map({
       target: mapRef.current,
-      layers: [baseLayer, vectorLayer],
+      layers: [baseLayer, vectorLayer, searchLayer, queryShapeLayer, locationLayer, selectionLayer],
       view: new View({
         center: fromLonLat([-74.006, 40.7128]), // New York City
         zoom: 10
@@ -725,6 +964,16 @@ const WindowizedMapVue: React.FC = () => {
     };
   }, []);
 
+  // Keep a vector tile layer per database layer, and aggregated cells for those
+  // drawn as a heatmap or choropleth
+  useEffect(() => {
+    layersRef.current = layers;
+    const map = mapInstanceRef.current;
+    if (!map) return;
+    syncLayerTileLayers(map, tileLayersRef.current, layers);
+    syncAggregateLayers(map, aggregateLayersRef.current, layers);
+  }, [layers]);
+
   // Initialize map reference from the App component
   useEffect(() => {
     // The map will be initialized by the App component
@@ -775,6 +1024,20 @@ const WindowizedMapVue: React.FC = () => {
       onCoordinatePicker={handleCoordinatePicker}
       onClearMeasurements={handleClearMeasurements}
       onZoomToExtent={handleZoomToExtent}
+      displayCrs={displayCrs?.code}
+      onDisplayCrsChange={handleDisplayCrsChange}
+      onGeoprocessingComplete={refetchLayers}
+      getSelectedFeatureIds={getSelectedFeatureIds}
+      // Search props
+      getViewBounds={getViewBounds}
+      onSearchResults={handleSearchResults}
+      onSearchResultSelect={handleSearchResultSelect}
+      // Select by location props
+      onDrawQueryShape={handleDrawQueryShape}
+      getSelectedFeatureId={getSelectedFeatureId}
+      onLocationResults={handleLocationResults}
+      onLocationResultSelect={handleSearchResultSelect}
+      onClearQueryShape={handleClearQueryShape}
       // Layer management props
       onLayerSelect={(layerId: string) => setCurrentLayerId(layerId)}
       onLayerCreate={createLayer}
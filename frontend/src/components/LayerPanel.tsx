@@ -9,7 +9,8 @@ import {
   ChevronDown, 
   ChevronRight
 } from 'lucide-react';
-import type { GISLayer } from '../services/gisApi';
+import type { GISLayer, RasterColorRamp } from '../services/gisApi';
+import type { RenderMode } from '../utils/vectorTiles';
 
 interface LayerPanelProps {
   layers: GISLayer[];
@@ -30,9 +31,29 @@ interface NewLayerFormData {
     fillColor: string;
     strokeWidth: number;
     opacity: number;
+    renderMode?: RenderMode;
+    aggregateField?: string;
+    colorRamp?: RasterColorRamp;
+    band?: number;
+    rampMin?: number;
+    rampMax?: number;
+    nodata?: number;
   };
 }
 
+const RASTER_COLOR_RAMPS: { value: RasterColorRamp; label: string }[] = [
+  { value: 'rgb', label: 'RGB (bands 1-3)' },
+  { value: 'greys', label: 'Greys' },
+  { value: 'viridis', label: 'Viridis' },
+  { value: 'magma', label: 'Magma' },
+  { value: 'blues', label: 'Blues' },
+  { value: 'terrain', label: 'Terrain' },
+  { value: 'spectral', label: 'Spectral' },
+];
+
+// Empty inputs clear the setting
+const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
 export const LayerPanel: React.FC<LayerPanelProps> = ({
   layers,
   activeLayerId,
@@ -87,7 +108,8 @@ export const LayerPanel: React.FC<LayerPanelProps> = ({
       name: layer.name,
       description: layer.description || '',
       type: layer.type as 'vector' | 'raster' | 'tile',
-      styleConfig: layer.styleConfig || {
+      // Uploaded rasters' styleConfig has no opacity of its own
+      styleConfig: layer.styleConfig ? { opacity: layer.opacity ?? 1, ...layer.styleConfig } : {
         strokeColor: '#3b82f6',
         fillColor: '#3b82f6',
         strokeWidth: 2,
@@ -279,6 +301,117 @@ export const LayerPanel: React.FC<LayerPanelProps> = ({
                 </div>
               </div>
 
+              {/* Dense vector layers can be drawn from aggregated cells */}
+              {formData.type === 'vector' && (
+                <div className="mb-3 grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Render As</label>
+                    <select
+                      value={formData.styleConfig.renderMode || 'features'}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        styleConfig: { ...formData.styleConfig, renderMode: e.target.value as RenderMode }
+                      })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                    >
+                      <option value="features">Features</option>
+                      <option value="heatmap">Heatmap</option>
+                      <option value="hexbin">Hexagon Bins</option>
+                      <option value="grid">Square Grid</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Sum Property</label>
+                    <input
+                      type="text"
+                      value={formData.styleConfig.aggregateField || ''}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        styleConfig: { ...formData.styleConfig, aggregateField: e.target.value }
+                      })}
+                      disabled={!formData.styleConfig.renderMode || formData.styleConfig.renderMode === 'features'}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                      placeholder="Count features"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Rasters are coloured on the server; min and max default to the band's range */}
+              {formData.type === 'raster' && (
+                <div className="mb-3 grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Colors</label>
+                    <select
+                      value={formData.styleConfig.colorRamp || 'viridis'}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        styleConfig: { ...formData.styleConfig, colorRamp: e.target.value as RasterColorRamp }
+                      })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                    >
+                      {RASTER_COLOR_RAMPS.map(ramp => (
+                        <option key={ramp.value} value={ramp.value}>{ramp.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Band</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={formData.styleConfig.band ?? ''}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        styleConfig: { ...formData.styleConfig, band: optionalNumber(e.target.value) }
+                      })}
+                      disabled={formData.styleConfig.colorRamp === 'rgb'}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                      placeholder="1"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Min Value</label>
+                    <input
+                      type="number"
+                      value={formData.styleConfig.rampMin ?? ''}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        styleConfig: { ...formData.styleConfig, rampMin: optionalNumber(e.target.value) }
+                      })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      placeholder="Band min"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Max Value</label>
+                    <input
+                      type="number"
+                      value={formData.styleConfig.rampMax ?? ''}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        styleConfig: { ...formData.styleConfig, rampMax: optionalNumber(e.target.value) }
+                      })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      placeholder="Band max"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">No Data</label>
+                    <input
+                      type="number"
+                      value={formData.styleConfig.nodata ?? ''}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        styleConfig: { ...formData.styleConfig, nodata: optionalNumber(e.target.value) }
+                      })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      placeholder="From file"
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* Form Actions */}
               <div className="flex space-x-2">
                 <button
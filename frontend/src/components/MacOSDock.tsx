@@ -8,7 +8,9 @@ import {
   PenTool, 
   FileText, 
   Settings, 
-  Wrench 
+  Wrench,
+  Search,
+  LocateFixed
 } from 'lucide-react';
 import { useWindowManager } from '../contexts/WindowManagerContext';
 
@@ -86,6 +88,20 @@ const MacOSDock: React.FC = () => {
       icon: <Wrench className="w-5 h-5 text-yellow-600" />,
       isActive: windowManager.isWindowOpen('tools') && !windowManager.isWindowMinimized('tools'),
       onClick: () => windowManager.toggleWindow('tools')
+    },
+    {
+      id: 'search',
+      title: 'Search',
+      icon: <Search className="w-5 h-5 text-sky-600" />,
+      isActive: windowManager.isWindowOpen('search') && !windowManager.isWindowMinimized('search'),
+      onClick: () => windowManager.toggleWindow('search')
+    },
+    {
+      id: 'select-by-location',
+      title: 'Select by Location',
+      icon: <LocateFixed className="w-5 h-5 text-orange-600" />,
+      isActive: windowManager.isWindowOpen('select-by-location') && !windowManager.isWindowMinimized('select-by-location'),
+      onClick: () => windowManager.toggleWindow('select-by-location')
     }
   ];
 
@@ -1,5 +1,5 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Route, Plus, X, Navigation, Save, Play, Pause, RotateCcw, Smartphone } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Route, Plus, X, Navigation, Save, Play, Pause, RotateCcw, Smartphone, Network, Target, RefreshCw } from 'lucide-react';
 import type { Map } from 'ol';
 import VectorLayer from 'ol/layer/Vector';
 import VectorSource from 'ol/source/Vector';
@@ -8,6 +8,11 @@ import LineString from 'ol/geom/LineString';
 import Point from 'ol/geom/Point';
 import { Style, Fill, Stroke, Circle } from 'ol/style';
 import { fromLonLat, toLonLat } from 'ol/proj';
+import type MapBrowserEvent from 'ol/MapBrowserEvent';
+import GeoJSON from 'ol/format/GeoJSON';
+import { gisApi } from '../services/gisApi';
+import type { RouteCost, ShortestPath, ServiceArea } from '../services/gisApi';
+import { useLayers, useRoutingNetworks } from '../hooks/useGIS';
 import DeviceExport from './DeviceExport';
 import GPSIntegration from './GPSIntegration';
 import LocationTracker from './LocationTracker';
@@ -27,6 +32,11 @@ export interface RouteData {
   points: RoutePoint[];
   distance?: number; // in meters
   duration?: number; // in seconds
+  geometry?: [number, number][]; // path along a routing network, [longitude, latitude]
+  network?: {
+    layerId: string;
+    cost: RouteCost;
+  };
   elevation?: {
     gain: number;
     loss: number;
@@ -44,6 +54,14 @@ interface RouteManagerProps {
   onRouteDelete?: (routeId: string) => void;
 }
 
+const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+};
+
 const RouteManager: React.FC<RouteManagerProps> = ({
   map,
   onRouteCreate,
@@ -57,9 +75,32 @@ const RouteManager: React.FC<RouteManagerProps> = ({
   const [savedRoutes, setSavedRoutes] = useState<RouteData[]>([]);
   const [newRouteName, setNewRouteName] = useState('');
 
+  // Routing along a network layer; no network means straight lines between waypoints
+  const { layers } = useLayers();
+  const { networks, building, error: networkError, build, remove } = useRoutingNetworks();
+  const [networkLayerId, setNetworkLayerId] = useState('');
+  const [routeCost, setRouteCost] = useState<RouteCost>('distance');
+  const [routedPath, setRoutedPath] = useState<ShortestPath | null>(null);
+  const [isRouting, setIsRouting] = useState(false);
+  const [routeError, setRouteError] = useState<string | null>(null);
+  const [showNetworkSetup, setShowNetworkSetup] = useState(false);
+  const [setupLayerId, setSetupLayerId] = useState('');
+  const [costField, setCostField] = useState('');
+  const [onewayField, setOnewayField] = useState('');
+
+  // Service area around a clicked origin
+  const [serviceLimit, setServiceLimit] = useState('10');
+  const [serviceUnit, setServiceUnit] = useState<'min' | 'm'>('min');
+  const [isPickingOrigin, setIsPickingOrigin] = useState(false);
+  const [serviceArea, setServiceArea] = useState<ServiceArea | null>(null);
+  const [serviceAreaError, setServiceAreaError] = useState<string | null>(null);
+
   const routeLayerRef = useRef<VectorLayer<VectorSource> | null>(null);
   const routeSourceRef = useRef<VectorSource>(new VectorSource());
   const waypointsRef = useRef<RoutePoint[]>([]);
+  const routeGeometryRef = useRef<[number, number][] | null>(null);
+  const routeRequestRef = useRef(0);
+  const serviceAreaSourceRef = useRef<VectorSource>(new VectorSource());
   const recordingIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // Initialize route layer
@@ -73,11 +114,12 @@ const RouteManager: React.FC<RouteManagerProps> = ({
         const geometryType = feature.getGeometry()?.getType();
         
         if (geometryType === 'LineString') {
+          // Paths along a network are solid, straight lines between waypoints dashed
           return new Style({
             stroke: new Stroke({
               color: '#3b82f6',
               width: 4,
-              lineDash: [10, 10]
+              lineDash: feature.get('routed') ? undefined : [10, 10]
             })
           });
         } else if (geometryType === 'Point') {
@@ -103,39 +145,43 @@ const RouteManager: React.FC<RouteManagerProps> = ({
       zIndex: 500
     });
 
+    const serviceAreaLayer = new VectorLayer({
+      source: serviceAreaSourceRef.current,
+      style: (feature) => {
+        const geometryType = feature.getGeometry()?.getType();
+
+        if (geometryType === 'Point') {
+          return new Style({
+            image: new Circle({
+              radius: 7,
+              fill: new Fill({ color: '#7c3aed' }),
+              stroke: new Stroke({ color: '#ffffff', width: 2 })
+            })
+          });
+        } else if (feature.get('part') === 'network') {
+          return new Style({
+            stroke: new Stroke({ color: '#7c3aed', width: 2 })
+          });
+        }
+        return new Style({
+          fill: new Fill({ color: 'rgba(124, 58, 237, 0.15)' }),
+          stroke: new Stroke({ color: '#7c3aed', width: 1, lineDash: [4, 4] })
+        });
+      },
+      zIndex: 499
+    });
+
+    map.addLayer(serviceAreaLayer);
     map.addLayer(routeLayer);
     routeLayerRef.current = routeLayer;
 
     return () => {
       map.removeLayer(routeLayer);
+      map.removeLayer(serviceAreaLayer);
     };
   }, [map]);
 
-  // Handle map clicks for route creation
-  useEffect(() => {
-    if (!map || !isCreating) return;
-
-    const handleMapClick = (event: any) => {
-      const coordinate = toLonLat(event.coordinate);
-      const newPoint: RoutePoint = {
-        id: `waypoint_${Date.now()}`,
-        name: `Point ${waypointsRef.current.length + 1}`,
-        coordinates: [coordinate[0], coordinate[1]] as [number, number],
-        type: waypointsRef.current.length === 0 ? 'start' : 'waypoint'
-      };
-
-      waypointsRef.current.push(newPoint);
-      updateRouteVisualization();
-    };
-
-    map.on('click', handleMapClick);
-
-    return () => {
-      map.un('click', handleMapClick);
-    };
-  }, [map, isCreating]);
-
-  const updateRouteVisualization = () => {
+  const updateRouteVisualization = useCallback(() => {
     if (!routeSourceRef.current) return;
 
     const source = routeSourceRef.current;
@@ -159,18 +205,148 @@ const RouteManager: React.FC<RouteManagerProps> = ({
 
     // Add route line if we have multiple points
     if (waypointsRef.current.length > 1) {
-      const coordinates = waypointsRef.current.map(p => fromLonLat(p.coordinates));
+      const routed = routeGeometryRef.current;
+      const coordinates = (routed ?? waypointsRef.current.map(p => p.coordinates)).map(c => fromLonLat(c));
       const lineFeature = new Feature({
-        geometry: new LineString(coordinates)
+        geometry: new LineString(coordinates),
+        routed: Boolean(routed)
       });
       source.addFeature(lineFeature);
     }
+  }, []);
+
+  // Replaces the straight lines between waypoints with the shortest path along the
+  // network; only the latest request is drawn
+  const routeWaypoints = useCallback(async (layerId: string, cost: RouteCost) => {
+    const request = ++routeRequestRef.current;
+    routeGeometryRef.current = null;
+    setRoutedPath(null);
+    setRouteError(null);
+    updateRouteVisualization();
+    if (!layerId || waypointsRef.current.length < 2) {
+      setIsRouting(false);
+      return;
+    }
+
+    setIsRouting(true);
+    try {
+      const path = await gisApi.shortestPath(layerId, waypointsRef.current.map(p => p.coordinates), cost);
+      if (request !== routeRequestRef.current) return;
+      routeGeometryRef.current = path.geometry.coordinates;
+      setRoutedPath(path);
+      updateRouteVisualization();
+    } catch (err) {
+      if (request !== routeRequestRef.current) return;
+      setRouteError(err instanceof Error ? err.message : 'Failed to find a route');
+    } finally {
+      if (request === routeRequestRef.current) setIsRouting(false);
+    }
+  }, [updateRouteVisualization]);
+
+  // Handle map clicks for route creation
+  useEffect(() => {
+    if (!map || !isCreating) return;
+
+    const handleMapClick = (event: MapBrowserEvent) => {
+      const coordinate = toLonLat(event.coordinate);
+      const newPoint: RoutePoint = {
+        id: `waypoint_${Date.now()}`,
+        name: `Point ${waypointsRef.current.length + 1}`,
+        coordinates: [coordinate[0], coordinate[1]] as [number, number],
+        type: waypointsRef.current.length === 0 ? 'start' : 'waypoint'
+      };
+
+      waypointsRef.current.push(newPoint);
+      routeWaypoints(networkLayerId, routeCost);
+    };
+
+    map.on('click', handleMapClick);
+
+    return () => {
+      map.un('click', handleMapClick);
+    };
+  }, [map, isCreating, networkLayerId, routeCost, routeWaypoints]);
+
+  // Pick the origin of a service area
+  useEffect(() => {
+    if (!map || !isPickingOrigin) return;
+
+    const handleMapClick = async (event: MapBrowserEvent) => {
+      const [lon, lat] = toLonLat(event.coordinate);
+      const limit = Number(serviceLimit);
+      setIsPickingOrigin(false);
+
+      try {
+        setServiceAreaError(null);
+        const area = await gisApi.serviceArea(networkLayerId, serviceUnit === 'min'
+          ? { point: [lon, lat], time: limit }
+          : { point: [lon, lat], distance: limit });
+        const source = serviceAreaSourceRef.current;
+        source.clear();
+        source.addFeatures(new GeoJSON().readFeatures(area, {
+          dataProjection: 'EPSG:4326',
+          featureProjection: map.getView().getProjection()
+        }));
+        source.addFeature(new Feature({ geometry: new Point(fromLonLat(area.origin.coordinates)) }));
+        setServiceArea(area);
+      } catch (err) {
+        setServiceAreaError(err instanceof Error ? err.message : 'Failed to compute service area');
+      }
+    };
+
+    map.on('click', handleMapClick);
+
+    return () => {
+      map.un('click', handleMapClick);
+    };
+  }, [map, isPickingOrigin, networkLayerId, serviceLimit, serviceUnit]);
+
+  const resetRouting = () => {
+    routeRequestRef.current++;
+    routeGeometryRef.current = null;
+    setRoutedPath(null);
+    setRouteError(null);
+    setIsRouting(false);
+  };
+
+  const handleNetworkChange = (layerId: string) => {
+    setNetworkLayerId(layerId);
+    clearServiceArea();
+    if (isCreating) routeWaypoints(layerId, routeCost);
+  };
+
+  const handleCostChange = (cost: RouteCost) => {
+    setRouteCost(cost);
+    if (isCreating) routeWaypoints(networkLayerId, cost);
+  };
+
+  const buildNetwork = async () => {
+    if (!setupLayerId) return;
+    const network = await build(setupLayerId, {
+      costField: costField.trim() || undefined,
+      onewayField: onewayField.trim() || undefined
+    });
+    if (network) handleNetworkChange(network.layerId);
+  };
+
+  const removeNetwork = async (layerId: string) => {
+    await remove(layerId);
+    if (layerId === networkLayerId) handleNetworkChange('');
+  };
+
+  const clearServiceArea = () => {
+    serviceAreaSourceRef.current.clear();
+    setServiceArea(null);
+    setServiceAreaError(null);
+    setIsPickingOrigin(false);
   };
 
   const startRouteCreation = () => {
     setIsCreating(true);
     setNewRouteName(`Route ${savedRoutes.length + 1}`);
+    setIsPickingOrigin(false);
     waypointsRef.current = [];
+    resetRouting();
     updateRouteVisualization();
   };
 
@@ -185,11 +361,26 @@ const RouteManager: React.FC<RouteManagerProps> = ({
       waypointsRef.current[waypointsRef.current.length - 1].type = 'end';
     }
 
+    if (isRouting) {
+      alert('Wait for the route to be found along the network');
+      return;
+    }
+
+    // Routes planned on a network keep the path and its length and travel time
+    const network = routedPath ? networks.find(candidate => candidate.layerId === networkLayerId) : undefined;
     const newRoute: RouteData = {
       id: `route_${Date.now()}`,
       name: newRouteName || `Route ${savedRoutes.length + 1}`,
-      description: `Route with ${waypointsRef.current.length} waypoints`,
+      description: network
+        ? `Route with ${waypointsRef.current.length} waypoints along ${network.layerName ?? 'a network'}`
+        : `Route with ${waypointsRef.current.length} waypoints`,
       points: [...waypointsRef.current],
+      ...(routedPath && {
+        distance: routedPath.properties.distance,
+        duration: routedPath.properties.duration,
+        geometry: routedPath.geometry.coordinates,
+        network: { layerId: networkLayerId, cost: routedPath.properties.cost }
+      }),
       createdAt: new Date(),
       modifiedAt: new Date()
     };
@@ -205,6 +396,7 @@ const RouteManager: React.FC<RouteManagerProps> = ({
   const cancelRouteCreation = () => {
     setIsCreating(false);
     waypointsRef.current = [];
+    resetRouting();
     updateRouteVisualization();
   };
 
@@ -216,6 +408,7 @@ const RouteManager: React.FC<RouteManagerProps> = ({
 
     setIsRecording(true);
     waypointsRef.current = [];
+    resetRouting();
     
     // Start recording position every 5 seconds
     recordingIntervalRef.current = setInterval(() => {
@@ -268,11 +461,13 @@ const RouteManager: React.FC<RouteManagerProps> = ({
   const loadRoute = (route: RouteData) => {
     setCurrentRoute(route);
     waypointsRef.current = [...route.points];
+    routeGeometryRef.current = route.geometry ?? null;
     updateRouteVisualization();
   };
 
   const clearRoute = () => {
     waypointsRef.current = [];
+    resetRouting();
     setCurrentRoute(null);
     updateRouteVisualization();
   };
@@ -281,6 +476,7 @@ const RouteManager: React.FC<RouteManagerProps> = ({
   const handleLiveRouteUpdate = (route: RouteData) => {
     setCurrentRoute(route);
     waypointsRef.current = [...route.points];
+    routeGeometryRef.current = null;
     updateRouteVisualization();
   };
 
@@ -297,9 +493,13 @@ const RouteManager: React.FC<RouteManagerProps> = ({
     setSavedRoutes(prev => [...prev, route]);
     setCurrentRoute(route);
     waypointsRef.current = [...route.points];
+    routeGeometryRef.current = route.geometry ?? null;
     updateRouteVisualization();
   };
 
+  const vectorLayers = layers.filter(layer => layer.type === 'vector');
+  const setupNetwork = networks.find(network => network.layerId === setupLayerId);
+
   return (
     <div className="bg-white rounded-lg shadow-lg border border-gray-200 min-w-80">
       {/* Header */}
@@ -360,6 +560,105 @@ const RouteManager: React.FC<RouteManagerProps> = ({
             {/* Planning Tab */}
             {activeTab === 'planning' && (
               <div className="space-y-4">
+                {/* Routing Network */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                      Routing Network
+                    </h4>
+                    <button
+                      onClick={() => setShowNetworkSetup(!showNetworkSetup)}
+                      className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      <Network className="w-3 h-3" />
+                      {showNetworkSetup ? 'Hide setup' : 'Set up'}
+                    </button>
+                  </div>
+                  <div className="flex gap-2">
+                    <select
+                      value={networkLayerId}
+                      onChange={(e) => handleNetworkChange(e.target.value)}
+                      className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+                    >
+                      <option value="">Straight lines</option>
+                      {networks.map(network => (
+                        <option key={network.layerId} value={network.layerId} disabled={!network.builtAt}>
+                          {network.layerName ?? network.layerId} ({network.edgeCount} edges)
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={routeCost}
+                      onChange={(e) => handleCostChange(e.target.value as RouteCost)}
+                      disabled={!networkLayerId}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded disabled:opacity-50"
+                    >
+                      <option value="distance">Shortest</option>
+                      <option value="time">Fastest</option>
+                    </select>
+                  </div>
+
+                  {showNetworkSetup && (
+                    <div className="p-2 bg-gray-50 rounded border border-gray-200 space-y-2">
+                      <select
+                        value={setupLayerId}
+                        onChange={(e) => setSetupLayerId(e.target.value)}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                      >
+                        <option value="">Choose a line layer...</option>
+                        {vectorLayers.map(layer => (
+                          <option key={layer.id} value={layer.id}>{layer.name}</option>
+                        ))}
+                      </select>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={costField}
+                          onChange={(e) => setCostField(e.target.value)}
+                          placeholder="Minutes property"
+                          title="Property holding the minutes to travel each line; otherwise 50 km/h is assumed"
+                          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded"
+                        />
+                        <input
+                          type="text"
+                          value={onewayField}
+                          onChange={(e) => setOnewayField(e.target.value)}
+                          placeholder="Oneway property"
+                          title="Property that is yes/true/1 for one way in the drawn direction, or -1 for against it"
+                          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded"
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={buildNetwork}
+                          disabled={!setupLayerId || building !== null}
+                          className="flex-1 flex items-center justify-center gap-1 px-2 py-1 bg-blue-100 text-blue-700 rounded text-xs hover:bg-blue-200 disabled:opacity-50"
+                        >
+                          <RefreshCw className={`w-3 h-3 ${building ? 'animate-spin' : ''}`} />
+                          {building ? 'Building...' : setupNetwork ? 'Rebuild Network' : 'Build Network'}
+                        </button>
+                        {setupNetwork && (
+                          <button
+                            onClick={() => removeNetwork(setupNetwork.layerId)}
+                            className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                      {setupNetwork?.builtAt && (
+                        <div className="text-xs text-gray-500">
+                          {setupNetwork.nodeCount} nodes, {setupNetwork.edgeCount} edges, built {new Date(setupNetwork.builtAt).toLocaleString()}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {networkError && (
+                    <div className="text-xs text-red-600">{networkError}</div>
+                  )}
+                </div>
+
                 {/* Route Creation Controls */}
                 <div className="space-y-2">
                   <h4 className="text-xs font-semibold text-gray-600 uppercase tracking-wide">
@@ -413,6 +712,17 @@ const RouteManager: React.FC<RouteManagerProps> = ({
                           <div className="text-xs text-gray-500 mt-1">
                             Click on map to add waypoints ({waypointsRef.current.length} added)
                           </div>
+                          {isRouting && (
+                            <div className="text-xs text-gray-500 mt-1">Finding route along the network...</div>
+                          )}
+                          {routedPath && !isRouting && (
+                            <div className="text-xs text-blue-700 mt-1">
+                              {formatDistance(routedPath.properties.distance)}, {formatDuration(routedPath.properties.duration)}
+                            </div>
+                          )}
+                          {routeError && (
+                            <div className="text-xs text-red-600 mt-1">{routeError}</div>
+                          )}
                         </div>
                       )}
 
@@ -435,6 +745,55 @@ const RouteManager: React.FC<RouteManagerProps> = ({
                   )}
                 </div>
 
+                {/* Service Area */}
+                {networkLayerId && (
+                  <div className="border-t border-gray-200 pt-4 space-y-2">
+                    <h4 className="text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                      Service Area
+                    </h4>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        value={serviceLimit}
+                        onChange={(e) => setServiceLimit(e.target.value)}
+                        className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
+                      />
+                      <select
+                        value={serviceUnit}
+                        onChange={(e) => setServiceUnit(e.target.value as 'min' | 'm')}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded"
+                      >
+                        <option value="min">minutes</option>
+                        <option value="m">meters</option>
+                      </select>
+                      <button
+                        onClick={() => setIsPickingOrigin(!isPickingOrigin)}
+                        disabled={isCreating || !(Number(serviceLimit) > 0)}
+                        className={`flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-xs disabled:opacity-50 ${
+                          isPickingOrigin ? 'bg-purple-600 text-white' : 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                        }`}
+                      >
+                        <Target className="w-3 h-3" />
+                        {isPickingOrigin ? 'Click map...' : 'Pick Origin'}
+                      </button>
+                    </div>
+                    {serviceArea && (
+                      <div className="flex items-center justify-between text-xs text-gray-600">
+                        <span>
+                          {serviceArea.reachedNodes} junctions reached, origin {Math.round(serviceArea.origin.snapDistance)} m from the network
+                        </span>
+                        <button onClick={clearServiceArea} className="p-1 text-gray-500 hover:bg-gray-100 rounded" title="Clear service area">
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    )}
+                    {serviceAreaError && (
+                      <div className="text-xs text-red-600">{serviceAreaError}</div>
+                    )}
+                  </div>
+                )}
+
                 {/* Current Route Info */}
                 {currentRoute && (
                   <div className="border-t border-gray-200 pt-4">
@@ -443,7 +802,11 @@ const RouteManager: React.FC<RouteManagerProps> = ({
                     </h4>
                     <div className="p-2 bg-blue-50 rounded border border-blue-200">
                       <div className="text-sm font-medium text-blue-800">{currentRoute.name}</div>
-                      <div className="text-xs text-blue-600">{currentRoute.points.length} waypoints</div>
+                      <div className="text-xs text-blue-600">
+                        {currentRoute.points.length} waypoints
+                        {currentRoute.distance !== undefined && ` · ${formatDistance(currentRoute.distance)}`}
+                        {currentRoute.duration !== undefined && ` · ${formatDuration(currentRoute.duration)}`}
+                      </div>
                       
                       {/* Device Export Component */}
                       <div className="mt-3">
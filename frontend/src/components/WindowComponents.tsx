@@ -4,9 +4,11 @@ import LocationTracker from './LocationTracker';
 import GPSIntegration from './GPSIntegration';
 import { LayerPanel } from './LayerPanel';
 import MapLayerControl from './MapLayerControl';
-import { Pencil, Square, Minus, MousePointer, Edit, Upload, Download, FileText, Save, Ruler, Crosshair, RotateCcw, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { Pencil, Square, Minus, MousePointer, Edit, Upload, Download, FileText, Save, Ruler, Crosshair, RotateCcw, ZoomIn, ZoomOut, Maximize2, Search, Hexagon, Shapes, Target, CircleDot, LayoutGrid, Triangle, Spline } from 'lucide-react';
 import type { Map } from 'ol';
 import type { RouteData } from './RouteManager';
+import { useFeatureSearch, useGeoprocessing, useLayers, useSpatialQuery } from '../hooks/useGIS';
+import type { GeoprocessingOperation, GeoprocessingRequest, JoinAggregate, SearchHit, SpatialOperation, SpatialQuery, SpatialQueryHit } from '../services/gisApi';
 
 interface DrawingTool {
   id: string;
@@ -177,6 +179,374 @@ export const SettingsWindow: React.FC = () => {
 };
 
 // GIS Tools Window - Professional GIS utilities
+const GEOPROCESSING_OPERATIONS: { id: GeoprocessingOperation; label: string }[] = [
+  { id: 'buffer', label: 'Buffer' },
+  { id: 'union', label: 'Union' },
+  { id: 'dissolve', label: 'Dissolve' },
+  { id: 'intersection', label: 'Intersect' },
+  { id: 'difference', label: 'Difference' },
+  { id: 'clip', label: 'Clip' },
+  { id: 'join', label: 'Spatial join' }
+];
+
+const JOIN_AGGREGATES: { id: JoinAggregate['function']; label: string }[] = [
+  { id: 'count', label: 'Count' },
+  { id: 'sum', label: 'Sum' },
+  { id: 'avg', label: 'Average' },
+  { id: 'min', label: 'Minimum' },
+  { id: 'max', label: 'Maximum' }
+];
+
+const OVERLAY_OPERATIONS: GeoprocessingOperation[] = ['intersection', 'difference', 'clip'];
+
+// Runs a geoprocessing job into a new layer; the window keeps its own layer list
+const GeoprocessingPanel: React.FC<{ onLayerCreated: () => void }> = ({ onLayerCreated }) => {
+  const { layers, refetch } = useLayers();
+  const [operation, setOperation] = React.useState<GeoprocessingOperation>('buffer');
+  const [layerId, setLayerId] = React.useState('');
+  const [overlayLayerId, setOverlayLayerId] = React.useState('');
+  const [distance, setDistance] = React.useState('100');
+  const [segments, setSegments] = React.useState('8');
+  const [field, setField] = React.useState('');
+  const [filter, setFilter] = React.useState('');
+  const [outputName, setOutputName] = React.useState('');
+  const [joinType, setJoinType] = React.useState<'intersects' | 'nearest'>('intersects');
+  const [aggregate, setAggregate] = React.useState<JoinAggregate['function']>('count');
+  const [maxDistance, setMaxDistance] = React.useState('');
+  const [addToInput, setAddToInput] = React.useState(false);
+  const { job, running, error, run } = useGeoprocessing();
+
+  const vectorLayers = layers.filter(layer => layer.type === 'vector');
+  const isJoin = operation === 'join';
+  const needsOverlay = OVERLAY_OPERATIONS.includes(operation) || isJoin;
+  const ready = !!layerId
+    && (!needsOverlay || !!overlayLayerId)
+    && (operation !== 'buffer' || Number(distance) > 0)
+    && (operation !== 'dissolve' || !!field.trim())
+    && (!isJoin || joinType === 'nearest' || aggregate === 'count' || !!field.trim());
+
+  const handleRun = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!ready) return;
+
+    const request: GeoprocessingRequest = {
+      layerId,
+      filter: filter.trim() || undefined,
+      outputName: outputName.trim() || undefined
+    };
+    if (operation === 'buffer') {
+      request.distance = Number(distance);
+      request.segments = Number(segments) || undefined;
+    }
+    if (operation === 'dissolve') request.field = field.trim();
+    if (isJoin) {
+      request.joinLayerId = overlayLayerId;
+      request.join = joinType;
+      if (joinType === 'nearest') {
+        request.maxDistance = Number(maxDistance) || undefined;
+      } else {
+        request.aggregates = [{ function: aggregate, field: field.trim() || undefined }];
+      }
+      if (addToInput) {
+        request.addToInput = true;
+        request.outputName = undefined;
+      }
+    } else if (needsOverlay) {
+      request.overlayLayerId = overlayLayerId;
+    }
+
+    const result = await run(operation, request);
+    if (result) {
+      await refetch();
+      onLayerCreated();
+    }
+  };
+
+  const inputClass = 'w-full mt-1 p-2 border border-gray-300 rounded text-sm';
+
+  return (
+    <form className="space-y-2" onSubmit={handleRun}>
+      <label className="block text-sm text-gray-700">
+        Operation
+        <select
+          value={operation}
+          onChange={(event) => setOperation(event.target.value as GeoprocessingOperation)}
+          className={inputClass}
+        >
+          {GEOPROCESSING_OPERATIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block text-sm text-gray-700">
+        Input layer
+        <select value={layerId} onChange={(event) => setLayerId(event.target.value)} className={inputClass}>
+          <option value="">Choose a layer</option>
+          {vectorLayers.map(layer => (
+            <option key={layer.id} value={layer.id}>{layer.name}</option>
+          ))}
+        </select>
+      </label>
+
+      {needsOverlay && (
+        <label className="block text-sm text-gray-700">
+          {operation === 'clip' ? 'Clip to layer' : isJoin ? 'Join layer' : 'Overlay layer'}
+          <select value={overlayLayerId} onChange={(event) => setOverlayLayerId(event.target.value)} className={inputClass}>
+            <option value="">Choose a layer</option>
+            {vectorLayers.map(layer => (
+              <option key={layer.id} value={layer.id}>{layer.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {operation === 'buffer' && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block text-sm text-gray-700">
+            Distance (m)
+            <input type="number" min={0} value={distance} onChange={(event) => setDistance(event.target.value)} className={inputClass} />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Segments
+            <input type="number" min={1} max={64} value={segments} onChange={(event) => setSegments(event.target.value)} className={inputClass} />
+          </label>
+        </div>
+      )}
+
+      {operation === 'dissolve' && (
+        <label className="block text-sm text-gray-700">
+          Dissolve by property
+          <input type="text" value={field} onChange={(event) => setField(event.target.value)} placeholder="category" className={inputClass} />
+        </label>
+      )}
+
+      {isJoin && (
+        <>
+          <label className="block text-sm text-gray-700">
+            Join
+            <select value={joinType} onChange={(event) => setJoinType(event.target.value as 'intersects' | 'nearest')} className={inputClass}>
+              <option value="intersects">Summarize intersecting features</option>
+              <option value="nearest">Attributes of the nearest feature</option>
+            </select>
+          </label>
+          {joinType === 'intersects' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block text-sm text-gray-700">
+                Summary
+                <select value={aggregate} onChange={(event) => setAggregate(event.target.value as JoinAggregate['function'])} className={inputClass}>
+                  {JOIN_AGGREGATES.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm text-gray-700">
+                Of property
+                <input
+                  type="text"
+                  value={field}
+                  onChange={(event) => setField(event.target.value)}
+                  placeholder={aggregate === 'count' ? 'features' : 'population'}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          ) : (
+            <label className="block text-sm text-gray-700">
+              Within (m) <span className="text-gray-500">(optional)</span>
+              <input type="number" min={0} value={maxDistance} onChange={(event) => setMaxDistance(event.target.value)} className={inputClass} />
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={addToInput} onChange={(event) => setAddToInput(event.target.checked)} />
+            Add to the input layer instead of a new layer
+          </label>
+        </>
+      )}
+
+      <label className="block text-sm text-gray-700">
+        Only features matching <span className="text-gray-500">(CQL2, optional)</span>
+        <input type="text" value={filter} onChange={(event) => setFilter(event.target.value)} placeholder="population > 1000" className={inputClass} />
+      </label>
+
+      {!(isJoin && addToInput) && (
+        <label className="block text-sm text-gray-700">
+          Output layer name <span className="text-gray-500">(optional)</span>
+          <input type="text" value={outputName} onChange={(event) => setOutputName(event.target.value)} className={inputClass} />
+        </label>
+      )}
+
+      <button
+        type="submit"
+        disabled={!ready || running}
+        className="w-full p-2 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm disabled:bg-gray-300"
+      >
+        {running ? 'Running...' : 'Run'}
+      </button>
+
+      {running && job && (
+        <div className="space-y-1">
+          <div className="w-full h-2 bg-gray-200 rounded">
+            <div className="h-2 bg-blue-500 rounded transition-all" style={{ width: `${job.progress}%` }} />
+          </div>
+          <div className="text-xs text-gray-500">{job.stage || job.status} · {job.progress}%</div>
+        </div>
+      )}
+
+      {!running && job?.status === 'completed' && (
+        <div className="p-2 bg-green-50 rounded border border-green-200 text-sm text-green-700">
+          {job.parameters.addToInput ? 'Updated' : 'Created a layer with'} {job.featureCount} {job.featureCount === 1 ? 'feature' : 'features'}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 rounded border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+    </form>
+  );
+};
+
+// Geometry tools derive a new layer from the selected features or a whole layer
+const GEOMETRY_TOOLS: {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  operation: GeoprocessingOperation;
+  request?: Partial<GeoprocessingRequest>;
+}[] = [
+  { id: 'convex-hull', label: 'Convex Hull', icon: <Hexagon className="w-4 h-4" />, operation: 'hull', request: { concavity: 0 } },
+  { id: 'concave-hull', label: 'Concave Hull', icon: <Shapes className="w-4 h-4" />, operation: 'hull' },
+  { id: 'centroid', label: 'Centroids', icon: <Target className="w-4 h-4" />, operation: 'centroid', request: { pointOnSurface: false } },
+  { id: 'point-on-surface', label: 'Point on Surface', icon: <CircleDot className="w-4 h-4" />, operation: 'centroid', request: { pointOnSurface: true } },
+  { id: 'voronoi', label: 'Voronoi', icon: <LayoutGrid className="w-4 h-4" />, operation: 'voronoi' },
+  { id: 'delaunay', label: 'Delaunay', icon: <Triangle className="w-4 h-4" />, operation: 'delaunay' },
+  { id: 'simplify', label: 'Simplify', icon: <Spline className="w-4 h-4" />, operation: 'simplify' }
+];
+
+const GeometryToolsPanel: React.FC<{
+  getSelectedFeatureIds: () => string[];
+  onLayerCreated: () => void;
+}> = ({ getSelectedFeatureIds, onLayerCreated }) => {
+  const { layers, refetch } = useLayers();
+  const [layerId, setLayerId] = React.useState('');
+  const [selectedOnly, setSelectedOnly] = React.useState(false);
+  const [concavity, setConcavity] = React.useState('0.5');
+  const [tolerance, setTolerance] = React.useState('10');
+  const [preserveTopology, setPreserveTopology] = React.useState(true);
+  const [activeId, setActiveId] = React.useState<string | null>(null);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const { job, running, error, run } = useGeoprocessing();
+
+  const vectorLayers = layers.filter(layer => layer.type === 'vector');
+
+  const handleRun = async (tool: typeof GEOMETRY_TOOLS[number]) => {
+    setNotice(null);
+    if (!layerId) {
+      setNotice('Choose a layer first');
+      return;
+    }
+
+    const request: GeoprocessingRequest = { layerId, ...tool.request };
+    if (selectedOnly) {
+      const featureIds = getSelectedFeatureIds();
+      if (featureIds.length === 0) {
+        setNotice('Select features on the map first, or untick "Selected features only"');
+        return;
+      }
+      request.featureIds = featureIds;
+    }
+    if (tool.id === 'concave-hull') request.concavity = Number(concavity);
+    if (tool.operation === 'simplify') {
+      if (!(Number(tolerance) > 0)) {
+        setNotice('Enter a tolerance in metres');
+        return;
+      }
+      request.tolerance = Number(tolerance);
+      request.preserveTopology = preserveTopology;
+    }
+
+    setActiveId(tool.id);
+    const result = await run(tool.operation, request);
+    if (result) {
+      await refetch();
+      onLayerCreated();
+    }
+  };
+
+  const inputClass = 'w-full mt-1 p-2 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm text-gray-700">
+        Input layer
+        <select value={layerId} onChange={(event) => setLayerId(event.target.value)} className={inputClass}>
+          <option value="">Choose a layer</option>
+          {vectorLayers.map(layer => (
+            <option key={layer.id} value={layer.id}>{layer.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={selectedOnly} onChange={(event) => setSelectedOnly(event.target.checked)} />
+        Selected features only
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        {GEOMETRY_TOOLS.map(tool => (
+          <button
+            key={tool.id}
+            onClick={() => handleRun(tool)}
+            disabled={running}
+            className={`flex items-center gap-2 p-2 rounded border text-sm disabled:opacity-50 ${
+              running && activeId === tool.id
+                ? 'bg-blue-100 border-blue-300 text-blue-700'
+                : 'bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {tool.icon}
+            {tool.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-sm text-gray-700">
+          Concavity (0-1)
+          <input type="number" min={0} max={1} step={0.1} value={concavity} onChange={(event) => setConcavity(event.target.value)} className={inputClass} />
+        </label>
+        <label className="block text-sm text-gray-700">
+          Tolerance (m)
+          <input type="number" min={0} value={tolerance} onChange={(event) => setTolerance(event.target.value)} className={inputClass} />
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={preserveTopology} onChange={(event) => setPreserveTopology(event.target.checked)} />
+        Simplify without breaking topology
+      </label>
+
+      {running && job && (
+        <div className="space-y-1">
+          <div className="w-full h-2 bg-gray-200 rounded">
+            <div className="h-2 bg-blue-500 rounded transition-all" style={{ width: `${job.progress}%` }} />
+          </div>
+          <div className="text-xs text-gray-500">{job.stage || job.status} · {job.progress}%</div>
+        </div>
+      )}
+
+      {!running && job?.status === 'completed' && (
+        <div className="p-2 bg-green-50 rounded border border-green-200 text-sm text-green-700">
+          Created a layer with {job.featureCount} {job.featureCount === 1 ? 'feature' : 'features'}
+        </div>
+      )}
+
+      {(notice || error) && (
+        <div className="p-2 bg-red-50 rounded border border-red-200 text-sm text-red-700">{notice || error}</div>
+      )}
+    </div>
+  );
+};
+
 interface GISToolsWindowProps {
   map?: Map | null;
   onMeasureDistance?: () => void;
@@ -190,6 +560,10 @@ interface GISToolsWindowProps {
     area: string | null;
     coordinates: string | null;
   };
+  displayCrs?: string;
+  onDisplayCrsChange?: (code: string) => void;
+  onLayerCreated?: () => void;
+  getSelectedFeatureIds?: () => string[];
 }
 
 export const GISToolsWindow: React.FC<GISToolsWindowProps> = ({
@@ -200,8 +574,14 @@ export const GISToolsWindow: React.FC<GISToolsWindowProps> = ({
   onClearMeasurements = () => {},
   onZoomToExtent = () => {},
   activeTool = 'none',
-  measurements = { distance: null, area: null, coordinates: null }
+  measurements = { distance: null, area: null, coordinates: null },
+  displayCrs,
+  onDisplayCrsChange = () => {},
+  onLayerCreated = () => {},
+  getSelectedFeatureIds = () => []
 }) => {
+  const [crsCode, setCrsCode] = React.useState(displayCrs || 'EPSG:4326');
+
   const handleZoomIn = () => {
     if (!map) return;
     const view = map.getView();
@@ -274,6 +654,12 @@ export const GISToolsWindow: React.FC<GISToolsWindowProps> = ({
           </div>
         </div>
 
+        {/* Geometry Tools */}
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-700 border-b border-gray-200 pb-1">Geometry Tools</h4>
+          <GeometryToolsPanel getSelectedFeatureIds={getSelectedFeatureIds} onLayerCreated={onLayerCreated} />
+        </div>
+
         {/* Measurement Results */}
         {(measurements.distance || measurements.area || measurements.coordinates) && (
           <div className="space-y-3">
@@ -301,6 +687,33 @@ export const GISToolsWindow: React.FC<GISToolsWindowProps> = ({
           </div>
         )}
 
+        {/* Display CRS */}
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-700 border-b border-gray-200 pb-1">Coordinate System</h4>
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (crsCode.trim()) onDisplayCrsChange(crsCode.trim());
+            }}
+          >
+            <input
+              type="text"
+              value={crsCode}
+              onChange={(event) => setCrsCode(event.target.value)}
+              placeholder="EPSG:2263"
+              className="flex-1 min-w-0 p-2 border border-gray-300 rounded text-sm"
+            />
+            <button
+              type="submit"
+              className="px-3 py-2 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100 text-sm"
+            >
+              Apply
+            </button>
+          </form>
+          <p className="text-xs text-gray-500">Picked coordinates and measurements are also shown in this CRS</p>
+        </div>
+
         {/* Map Navigation */}
         <div className="space-y-3">
           <h4 className="text-sm font-medium text-gray-700 border-b border-gray-200 pb-1">Map Navigation</h4>
@@ -339,6 +752,12 @@ export const GISToolsWindow: React.FC<GISToolsWindowProps> = ({
           </div>
         </div>
 
+        {/* Geoprocessing */}
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-700 border-b border-gray-200 pb-1">Geoprocessing</h4>
+          <GeoprocessingPanel onLayerCreated={onLayerCreated} />
+        </div>
+
         {/* Quick Actions */}
         <div className="space-y-3">
           <h4 className="text-sm font-medium text-gray-700 border-b border-gray-200 pb-1">Quick Actions</h4>
@@ -370,6 +789,342 @@ export const GISToolsWindow: React.FC<GISToolsWindowProps> = ({
 // Legacy alias for backward compatibility
 export const ToolsPanelWindow = GISToolsWindow;
 
+// Feature search over names, descriptions and properties
+// The window is registered once, so the map is reached through the callbacks
+interface SearchWindowProps {
+  getViewBounds?: () => number[] | undefined;
+  onResults?: (hits: SearchHit[]) => void;
+  onResultSelect?: (hit: SearchHit) => void;
+}
+
+export const SearchWindow: React.FC<SearchWindowProps> = ({
+  getViewBounds = () => undefined,
+  onResults = () => {},
+  onResultSelect = () => {}
+}) => {
+  const [text, setText] = React.useState('');
+  const [inView, setInView] = React.useState(false);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const { results, total, searched, hasMore, loading, error, search, loadMore, clear } = useFeatureSearch();
+
+  const handleSearch = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    setSelectedId(null);
+    await search(text.trim(), { bbox: inView ? getViewBounds() : undefined });
+  };
+
+  // Results are highlighted together; picking one zooms to it alone
+  React.useEffect(() => {
+    onResults(results);
+  }, [results, onResults]);
+
+  const handleSelect = (hit: SearchHit) => {
+    setSelectedId(hit.id);
+    onResultSelect(hit);
+  };
+
+  const handleClear = () => {
+    setText('');
+    setSelectedId(null);
+    clear();
+  };
+
+  return (
+    <div className="h-full p-4 overflow-y-auto">
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800">Search Features</h3>
+
+        <form className="space-y-2" onSubmit={handleSearch}>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+              placeholder="Name, description or attribute"
+              className="flex-1 min-w-0 p-2 border border-gray-300 rounded text-sm"
+            />
+            <button
+              type="submit"
+              disabled={loading || !text.trim()}
+              className="flex items-center gap-1 px-3 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 text-sm"
+            >
+              <Search className="w-4 h-4" />
+              Search
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input type="checkbox" checked={inView} onChange={(event) => setInView(event.target.checked)} />
+            Only in the current map view
+          </label>
+        </form>
+
+        {error && (
+          <div className="p-2 bg-red-50 rounded border border-red-200 text-sm text-red-700">{error}</div>
+        )}
+
+        {results.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between border-b border-gray-200 pb-1">
+              <h4 className="text-sm font-medium text-gray-700">{total} {total === 1 ? 'match' : 'matches'}</h4>
+              <button onClick={handleClear} className="text-xs text-gray-500 hover:text-gray-700">Clear</button>
+            </div>
+            {results.map(hit => (
+              <button
+                key={hit.id}
+                onClick={() => handleSelect(hit)}
+                className={`w-full text-left p-2 rounded border transition-all text-sm ${
+                  selectedId === hit.id
+                    ? 'bg-yellow-50 border-yellow-300'
+                    : 'bg-white border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="font-medium text-gray-800 truncate">{hit.properties.name || 'Unnamed feature'}</div>
+                <div className="text-xs text-gray-500 truncate">
+                  {hit.layerName} · {hit.geometry?.type}
+                  {hit.properties.description ? ` · ${hit.properties.description}` : ''}
+                </div>
+              </button>
+            ))}
+            {hasMore && (
+              <button
+                onClick={loadMore}
+                disabled={loading}
+                className="w-full p-2 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100 text-sm disabled:text-gray-400"
+              >
+                {loading ? 'Loading...' : `Show more (${results.length} of ${total})`}
+              </button>
+            )}
+          </div>
+        )}
+
+        {searched && !loading && !error && results.length === 0 && (
+          <p className="text-xs text-gray-500">No features match. Words match the start of names, descriptions and property values.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Select by location: features of the chosen layers related to a drawn shape or
+// to the selected feature. Like the search window it reaches the map only through
+// callbacks, which resolve the drawn shape as GeoJSON in EPSG:4326.
+export type QueryShape = 'Point' | 'LineString' | 'Polygon' | 'Box';
+
+interface SelectByLocationWindowProps {
+  onDrawShape?: (shape: QueryShape) => Promise<SpatialQuery['geometry'] | null>;
+  getSelectedFeatureId?: () => string | undefined;
+  onResults?: (hits: SpatialQueryHit[]) => void;
+  onResultSelect?: (hit: SpatialQueryHit) => void;
+  onClearShape?: () => void;
+}
+
+const SPATIAL_OPERATIONS: { id: SpatialOperation; label: string }[] = [
+  { id: 'intersects', label: 'intersect' },
+  { id: 'within', label: 'are within' },
+  { id: 'contains', label: 'contain' },
+  { id: 'touches', label: 'touch' },
+  { id: 'crosses', label: 'cross' }
+];
+
+const QUERY_SHAPES: { id: QueryShape; label: string; icon: React.ReactNode }[] = [
+  { id: 'Box', label: 'Box', icon: <Maximize2 className="w-4 h-4" /> },
+  { id: 'Polygon', label: 'Polygon', icon: <Square className="w-4 h-4" /> },
+  { id: 'LineString', label: 'Line', icon: <Minus className="w-4 h-4" /> },
+  { id: 'Point', label: 'Point', icon: <Crosshair className="w-4 h-4" /> }
+];
+
+export const SelectByLocationWindow: React.FC<SelectByLocationWindowProps> = ({
+  onDrawShape = async () => null,
+  getSelectedFeatureId = () => undefined,
+  onResults = () => {},
+  onResultSelect = () => {},
+  onClearShape = () => {}
+}) => {
+  const { layers } = useLayers();
+  const [operation, setOperation] = React.useState<SpatialOperation>('intersects');
+  const [buffer, setBuffer] = React.useState('');
+  const [layerIds, setLayerIds] = React.useState<string[]>([]);
+  const [drawing, setDrawing] = React.useState<QueryShape | null>(null);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const { results, total, queried, hasMore, loading, error, run, loadMore, clear } = useSpatialQuery();
+
+  const vectorLayers = layers.filter(layer => layer.type === 'vector');
+  const bufferMetres = buffer.trim() ? Number(buffer) : 0;
+  const bufferValid = Number.isFinite(bufferMetres) && bufferMetres >= 0;
+
+  React.useEffect(() => {
+    onResults(results);
+  }, [results, onResults]);
+
+  const toggleLayer = (layerId: string) => {
+    setLayerIds(prev => (prev.includes(layerId) ? prev.filter(id => id !== layerId) : [...prev, layerId]));
+  };
+
+  // No layers ticked means every layer
+  const runQuery = (query: Pick<SpatialQuery, 'geometry' | 'featureId'>) => {
+    setSelectedId(null);
+    return run({ ...query, operation, buffer: bufferMetres || undefined, layerIds: layerIds.length ? layerIds : undefined });
+  };
+
+  const handleDraw = async (shape: QueryShape) => {
+    setNotice(null);
+    setDrawing(shape);
+    const geometry = await onDrawShape(shape);
+    setDrawing(current => (current === shape ? null : current));
+    if (geometry) await runQuery({ geometry });
+  };
+
+  const handleUseSelected = async () => {
+    const featureId = getSelectedFeatureId();
+    if (!featureId) {
+      setNotice('Pick a feature with the Select drawing tool first.');
+      return;
+    }
+    setNotice(null);
+    onClearShape();
+    await runQuery({ featureId });
+  };
+
+  const handleSelect = (hit: SpatialQueryHit) => {
+    setSelectedId(hit.id);
+    onResultSelect(hit);
+  };
+
+  const handleClear = () => {
+    setSelectedId(null);
+    setNotice(null);
+    onClearShape();
+    clear();
+  };
+
+  return (
+    <div className="h-full p-4 overflow-y-auto">
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800">Select by Location</h3>
+
+        <div className="space-y-2">
+          <label className="block text-sm text-gray-700">
+            Find features that
+            <select
+              value={operation}
+              onChange={(event) => setOperation(event.target.value as SpatialOperation)}
+              className="w-full mt-1 p-2 border border-gray-300 rounded text-sm"
+            >
+              {SPATIAL_OPERATIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label} the shape</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            Buffer the shape by (metres)
+            <input
+              type="number"
+              min={0}
+              value={buffer}
+              onChange={(event) => setBuffer(event.target.value)}
+              placeholder="0"
+              className={`w-full mt-1 p-2 border rounded text-sm ${bufferValid ? 'border-gray-300' : 'border-red-400'}`}
+            />
+          </label>
+        </div>
+
+        {vectorLayers.length > 0 && (
+          <div className="space-y-1">
+            <h4 className="text-sm font-medium text-gray-700">Layers <span className="font-normal text-gray-500">(none ticked: all)</span></h4>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {vectorLayers.map(layer => (
+                <label key={layer.id} className="flex items-center gap-2 text-xs text-gray-600">
+                  <input type="checkbox" checked={layerIds.includes(layer.id)} onChange={() => toggleLayer(layer.id)} />
+                  <span className="truncate">{layer.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-700">Draw the shape</h4>
+          <div className="grid grid-cols-2 gap-2">
+            {QUERY_SHAPES.map(shape => (
+              <button
+                key={shape.id}
+                onClick={() => handleDraw(shape.id)}
+                disabled={loading || !bufferValid}
+                className={`flex items-center justify-center gap-1 p-2 rounded border text-sm transition-all ${
+                  drawing === shape.id
+                    ? 'bg-blue-500 text-white border-blue-500'
+                    : 'bg-white border-gray-200 hover:bg-gray-50 disabled:text-gray-400'
+                }`}
+              >
+                {shape.icon}
+                {shape.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleUseSelected}
+            disabled={loading || !bufferValid}
+            className="w-full flex items-center justify-center gap-1 p-2 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100 text-sm disabled:text-gray-400"
+          >
+            <MousePointer className="w-4 h-4" />
+            Use the selected feature
+          </button>
+          {drawing && (
+            <p className="text-xs text-gray-500">
+              {drawing === 'Point' ? 'Click the map.' : drawing === 'Box' ? 'Click two corners on the map.' : 'Click to add vertices; double-click to finish.'}
+            </p>
+          )}
+        </div>
+
+        {(notice || error) && (
+          <div className="p-2 bg-red-50 rounded border border-red-200 text-sm text-red-700">{notice || error}</div>
+        )}
+
+        {results.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between border-b border-gray-200 pb-1">
+              <h4 className="text-sm font-medium text-gray-700">{total} {total === 1 ? 'feature' : 'features'}</h4>
+              <button onClick={handleClear} className="text-xs text-gray-500 hover:text-gray-700">Clear</button>
+            </div>
+            {results.map(hit => (
+              <button
+                key={hit.id}
+                onClick={() => handleSelect(hit)}
+                className={`w-full text-left p-2 rounded border transition-all text-sm ${
+                  selectedId === hit.id
+                    ? 'bg-yellow-50 border-yellow-300'
+                    : 'bg-white border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="font-medium text-gray-800 truncate">{hit.properties.name || 'Unnamed feature'}</div>
+                <div className="text-xs text-gray-500 truncate">{hit.layerName} · {hit.geometry?.type}</div>
+              </button>
+            ))}
+            {hasMore && (
+              <button
+                onClick={loadMore}
+                disabled={loading}
+                className="w-full p-2 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100 text-sm disabled:text-gray-400"
+              >
+                {loading ? 'Loading...' : `Show more (${results.length} of ${total})`}
+              </button>
+            )}
+          </div>
+        )}
+
+        {queried && !loading && !error && results.length === 0 && (
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">No features match.</p>
+            <button onClick={handleClear} className="text-xs text-gray-500 hover:text-gray-700">Clear</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 // Drawing Tools Window
 interface DrawingToolsWindowProps {
   drawingTools?: DrawingTool[];
@@ -568,7 +1323,7 @@ export const FileOperationsWindow: React.FC<FileOperationsWindowProps> = ({
             <h4 className="text-sm font-medium text-gray-700 mb-2">Import GIS Data</h4>
             <input
               type="file"
-              accept=".geojson,.json,.kml,.gpx"
+              accept=".geojson,.json,.kml,.gpx,.tif,.tiff"
               onChange={handleFileSelect}
               disabled={fileOperations.isImporting}
               className="hidden"
@@ -588,7 +1343,7 @@ export const FileOperationsWindow: React.FC<FileOperationsWindowProps> = ({
               </span>
             </label>
             <p className="text-xs text-gray-500 mt-1">
-              Supports: GeoJSON, KML, GPX
+              Supports: GeoJSON, KML, GPX, GeoTIFF
             </p>
           </div>
 
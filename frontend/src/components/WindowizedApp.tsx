@@ -11,10 +11,14 @@ import {
   SettingsWindow,
   DrawingToolsWindow,
   GISToolsWindow,
-  FileOperationsWindow
+  FileOperationsWindow,
+  SearchWindow,
+  SelectByLocationWindow
 } from './WindowComponents';
+import type { QueryShape } from './WindowComponents';
 import type { Map } from 'ol';
 import type { RouteData } from './RouteManager';
+import type { SearchHit, SpatialQuery, SpatialQueryHit } from '../services/gisApi';
 
 interface WindowizedAppProps {
   map: Map | null;
@@ -73,6 +77,20 @@ interface WindowizedAppProps {
   onCoordinatePicker?: () => void;
   onClearMeasurements?: () => void;
   onZoomToExtent?: () => void;
+  displayCrs?: string;
+  onDisplayCrsChange?: (code: string) => void;
+  onGeoprocessingComplete?: () => void;
+  getSelectedFeatureIds?: () => string[];
+  // Search props
+  getViewBounds?: () => number[] | undefined;
+  onSearchResults?: (hits: SearchHit[]) => void;
+  onSearchResultSelect?: (hit: SearchHit) => void;
+  // Select by location props
+  onDrawQueryShape?: (shape: QueryShape) => Promise<SpatialQuery['geometry'] | null>;
+  getSelectedFeatureId?: () => string | undefined;
+  onLocationResults?: (hits: SpatialQueryHit[]) => void;
+  onLocationResultSelect?: (hit: SpatialQueryHit) => void;
+  onClearQueryShape?: () => void;
 }
 
 // Component to register all windows
@@ -237,6 +255,10 @@ const WindowRegistrar: React.FC<WindowizedAppProps> = (props) => {
           onCoordinatePicker={props.onCoordinatePicker}
           onClearMeasurements={props.onClearMeasurements}
           onZoomToExtent={props.onZoomToExtent}
+          displayCrs={props.displayCrs}
+          onDisplayCrsChange={props.onDisplayCrsChange}
+          onLayerCreated={props.onGeoprocessingComplete}
+          getSelectedFeatureIds={props.getSelectedFeatureIds}
         />,
         initialState: {
           width: 300,
@@ -246,6 +268,42 @@ const WindowRegistrar: React.FC<WindowizedAppProps> = (props) => {
         },
         persistent: false,
         allowMultiple: false
+      },
+      {
+        id: 'search',
+        title: 'Search',
+        component: <SearchWindow 
+          getViewBounds={props.getViewBounds}
+          onResults={props.onSearchResults}
+          onResultSelect={props.onSearchResultSelect}
+        />,
+        initialState: {
+          width: 340,
+          height: 480,
+          x: 60,
+          y: 80
+        },
+        persistent: false,
+        allowMultiple: false
+      },
+      {
+        id: 'select-by-location',
+        title: 'Select by Location',
+        component: <SelectByLocationWindow 
+          onDrawShape={props.onDrawQueryShape}
+          getSelectedFeatureId={props.getSelectedFeatureId}
+          onResults={props.onLocationResults}
+          onResultSelect={props.onLocationResultSelect}
+          onClearShape={props.onClearQueryShape}
+        />,
+        initialState: {
+          width: 340,
+          height: 560,
+          x: 100,
+          y: 60
+        },
+        persistent: false,
+        allowMultiple: false
       }
     ];
 
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { gisApi } from '../services/gisApi';
-import type { GISLayer, GISFeature, GISProject } from '../services/gisApi';
+import type { GISLayer, GISFeature, GISProject, ImportJob, ImportOptions, ExportFormat, ExportOptions, CRSInfo, SearchHit, SearchOptions, SpatialQuery, SpatialQueryHit, GeoprocessingOperation, GeoprocessingRequest, GeoprocessingJob, RoutingNetwork, RoutingNetworkConfig } from '../services/gisApi';
+import { registerCrs } from '../utils/crs';
 
 // Custom hook for projects
 export function useProjects() {
@@ -134,10 +135,16 @@ export function useLayers(projectId?: string) {
   };
 }
 
+export interface UseFeaturesOptions {
+  // false skips downloading the layer's features, for callers that only write them
+  // (maps draw layers from vector tiles); `refetch` still loads them on demand
+  load?: boolean;
+}
+
 // Custom hook for features
-export function useFeatures(layerId?: string) {
+export function useFeatures(layerId?: string, { load = true }: UseFeaturesOptions = {}) {
   const [features, setFeatures] = useState<GISFeature[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(load);
   const [error, setError] = useState<string | null>(null);
 
   const fetchFeatures = useCallback(async () => {
@@ -211,8 +218,8 @@ export function useFeatures(layerId?: string) {
   }, [layerId]);
 
   useEffect(() => {
-    fetchFeatures();
-  }, [fetchFeatures]);
+    if (load) fetchFeatures();
+  }, [fetchFeatures, load]);
 
   return {
     features,
@@ -227,16 +234,32 @@ export function useFeatures(layerId?: string) {
 }
 
 // Custom hook for file operations
+const IMPORT_POLL_INTERVAL = 1000;
+
 export function useFileOperations() {
   const [uploading, setUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [importJob, setImportJob] = useState<ImportJob | null>(null);
 
-  const uploadFile = useCallback(async (file: File, projectId?: string) => {
+  // Uploads return a pending import job; poll it until the layers are written
+  const uploadFile = useCallback(async (file: File, projectId?: string, options?: ImportOptions) => {
     try {
       setUploading(true);
       setUploadError(null);
-      const layer = await gisApi.uploadGISFile(file, projectId);
-      return layer;
+      let job = await gisApi.uploadGISFile(file, projectId, options);
+      setImportJob(job);
+
+      while (job.status === 'pending' || job.status === 'processing') {
+        await new Promise(resolve => setTimeout(resolve, IMPORT_POLL_INTERVAL));
+        job = await gisApi.getImportJob(job.id);
+        setImportJob(job);
+      }
+
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Import failed');
+      }
+
+      return job;
     } catch (err) {
       const error = err instanceof Error ? err.message : 'Failed to upload file';
       setUploadError(error);
@@ -246,15 +269,26 @@ export function useFileOperations() {
     }
   }, []);
 
-  const exportLayer = useCallback(async (layerId: string, format: 'geojson' | 'kml' | 'gpx') => {
+  const previewFile = useCallback(async (file: File, options?: ImportOptions) => {
     try {
-      const blob = await gisApi.exportLayer(layerId, format);
+      setUploadError(null);
+      return await gisApi.previewGISFile(file, options);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Failed to preview file';
+      setUploadError(error);
+      throw new Error(error);
+    }
+  }, []);
+
+  const exportLayer = useCallback(async (layerId: string, format: ExportFormat, options?: ExportOptions) => {
+    try {
+      const blob = await gisApi.exportLayer(layerId, format, options);
       
       // Create download link
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `layer-export.${format}`;
+      link.download = `layer-export.${format === 'shapefile' ? 'zip' : format}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -267,7 +301,278 @@ export function useFileOperations() {
   return {
     uploading,
     uploadError,
+    importJob,
     uploadFile,
+    previewFile,
     exportLayer
   };
-}
\ No newline at end of file
+}
+
+// Custom hook for a project's display CRS
+// Without a project the CRS only lasts for the session
+export function useDisplayCrs(projectId?: string) {
+  const [crs, setCrs] = useState<CRSInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+    gisApi.getProjectCrs(projectId)
+      .then(info => {
+        registerCrs(info);
+        setCrs(info);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to fetch project CRS'));
+  }, [projectId]);
+
+  const changeCrs = useCallback(async (code: string) => {
+    try {
+      setError(null);
+      const info = projectId ? await gisApi.setProjectCrs(projectId, code) : await gisApi.getCrs(code);
+      registerCrs(info);
+      setCrs(info);
+      return info;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Failed to change CRS';
+      setError(error);
+      throw new Error(error);
+    }
+  }, [projectId]);
+
+  return {
+    crs,
+    error,
+    changeCrs
+  };
+}
+
+// Custom hook for feature search
+// search() starts over with a new query; loadMore() appends the next page
+export function useFeatureSearch() {
+  const [query, setQuery] = useState<{ text: string; options: SearchOptions } | null>(null);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = useCallback(async (text: string, options: SearchOptions = {}) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await gisApi.searchFeatures(text, { ...options, page: 1 });
+      setQuery({ text, options });
+      setResults(response.features);
+      setTotal(response.total);
+      setPage(1);
+      return response.features;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (!query) return [];
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await gisApi.searchFeatures(query.text, { ...query.options, page: page + 1 });
+      setResults(prev => [...prev, ...response.features]);
+      setTotal(response.total);
+      setPage(page + 1);
+      return response.features;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [query, page]);
+
+  const clear = useCallback(() => {
+    setQuery(null);
+    setResults([]);
+    setTotal(0);
+    setPage(1);
+    setError(null);
+  }, []);
+
+  return {
+    results,
+    total,
+    searched: query !== null,
+    hasMore: results.length < total,
+    loading,
+    error,
+    search,
+    loadMore,
+    clear
+  };
+}
+
+// Select by location: features related to a query geometry, a page at a time
+export function useSpatialQuery() {
+  const [query, setQuery] = useState<SpatialQuery | null>(null);
+  const [results, setResults] = useState<SpatialQueryHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (spatialQuery: SpatialQuery) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await gisApi.spatialQuery({ ...spatialQuery, page: 1 });
+      setQuery(spatialQuery);
+      setResults(response.features);
+      setTotal(response.total);
+      setPage(1);
+      return response.features;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Spatial query failed');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (!query) return [];
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await gisApi.spatialQuery({ ...query, page: page + 1 });
+      setResults(prev => [...prev, ...response.features]);
+      setTotal(response.total);
+      setPage(page + 1);
+      return response.features;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Spatial query failed');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [query, page]);
+
+  const clear = useCallback(() => {
+    setQuery(null);
+    setResults([]);
+    setTotal(0);
+    setPage(1);
+    setError(null);
+  }, []);
+
+  return {
+    results,
+    total,
+    queried: query !== null,
+    hasMore: results.length < total,
+    loading,
+    error,
+    run,
+    loadMore,
+    clear
+  };
+}
+
+// Custom hook for geoprocessing jobs
+// Like imports, a job is polled until its result layer has been written
+export function useGeoprocessing() {
+  const [job, setJob] = useState<GeoprocessingJob | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (operation: GeoprocessingOperation, request: GeoprocessingRequest) => {
+    try {
+      setRunning(true);
+      setError(null);
+      let current = await gisApi.runGeoprocessing(operation, request);
+      setJob(current);
+
+      while (current.status === 'pending' || current.status === 'processing') {
+        await new Promise(resolve => setTimeout(resolve, IMPORT_POLL_INTERVAL));
+        current = await gisApi.getGeoprocessingJob(current.id);
+        setJob(current);
+      }
+
+      if (current.status === 'failed') {
+        throw new Error(current.error || `${operation} failed`);
+      }
+
+      return current;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Geoprocessing failed');
+      return null;
+    } finally {
+      setRunning(false);
+    }
+  }, []);
+
+  return {
+    job,
+    running,
+    error,
+    run
+  };
+}
+
+// Custom hook for routing networks: line layers with a built topology
+export function useRoutingNetworks() {
+  const [networks, setNetworks] = useState<RoutingNetwork[]>([]);
+  const [building, setBuilding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNetworks = useCallback(async () => {
+    try {
+      setError(null);
+      setNetworks(await gisApi.getRoutingNetworks());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch routing networks');
+    }
+  }, []);
+
+  // Builds a new network or rebuilds an existing one
+  const build = useCallback(async (layerId: string, config?: RoutingNetworkConfig) => {
+    try {
+      setBuilding(layerId);
+      setError(null);
+      const network = await gisApi.buildRoutingNetwork(layerId, config);
+      setNetworks(prev => {
+        const rest = prev.filter(candidate => candidate.layerId !== layerId);
+        return [...rest, network].sort((a, b) => (a.layerName ?? '').localeCompare(b.layerName ?? ''));
+      });
+      return network;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build routing network');
+      return null;
+    } finally {
+      setBuilding(null);
+    }
+  }, []);
+
+  const remove = useCallback(async (layerId: string) => {
+    try {
+      setError(null);
+      await gisApi.deleteRoutingNetwork(layerId);
+      setNetworks(prev => prev.filter(network => network.layerId !== layerId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove routing network');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNetworks();
+  }, [fetchNetworks]);
+
+  return {
+    networks,
+    building,
+    error,
+    build,
+    remove,
+    refetch: fetchNetworks
+  };
+}
@@ -4,6 +4,8 @@ import TileLayer from 'ol/layer/Tile';
 import OSM from 'ol/source/OSM';
 import XYZ from 'ol/source/XYZ';
 import type { MapLayer } from '../components/MapLayerControl';
+import type { GISLayer } from '../services/gisApi';
+import { syncRasterLayers } from '../utils/rasterLayers';
 
 export interface LayerSource {
   id: string;
@@ -11,7 +13,8 @@ export interface LayerSource {
   layer: TileLayer<any>;
 }
 
-export const useMapLayers = (map: Map | null) => {
+// `layers` are the API's layers; raster ones are drawn above the base maps
+export const useMapLayers = (map: Map | null, layers: GISLayer[] = []) => {
   const [mapLayers, setMapLayers] = useState<MapLayer[]>([
     // Base layers
     {
@@ -66,6 +69,7 @@ export const useMapLayers = (map: Map | null) => {
   ]);
 
   const layerSourcesRef = useRef<{ [key: string]: LayerSource }>({});
+  const rasterLayersRef = useRef<Record<string, TileLayer<XYZ>>>({});
 
   // Initialize layer sources
   useEffect(() => {
@@ -163,6 +167,24 @@ export const useMapLayers = (map: Map | null) => {
     };
   }, [map]);
 
+  // Uploaded rasters, following the layers' visibility, opacity and colours
+  useEffect(() => {
+    if (!map) return;
+    syncRasterLayers(map, rasterLayersRef.current, layers);
+  }, [map, layers]);
+
+  // Drop them when the map goes away
+  useEffect(() => {
+    if (!map) return;
+    const rasterLayers = rasterLayersRef.current;
+    return () => {
+      Object.keys(rasterLayers).forEach(layerId => {
+        map.removeLayer(rasterLayers[layerId]);
+        delete rasterLayers[layerId];
+      });
+    };
+  }, [map]);
+
   const toggleLayer = (layerId: string) => {
     setMapLayers(prev => prev.map(layer => {
       if (layer.id === layerId) {
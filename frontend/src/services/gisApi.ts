@@ -28,16 +28,399 @@ export interface GISLayer {
   updatedAt: string;
 }
 
+export interface GISProjectStats {
+  layerCount: number;
+  featureCount: number;
+  collaboratorCount: number;
+}
+
 export interface GISProject {
   id: string;
   name: string;
   description?: string;
-  bounds?: number[];
-  layers: GISLayer[];
+  ownerId?: string;
+  isPublic?: boolean;
+  // [minLon, minLat, maxLon, maxLat]
+  bounds?: number[] | null;
+  defaultZoom?: number;
+  // [lon, lat]
+  defaultCenter?: number[] | null;
+  settings?: Record<string, unknown>;
+  // Only on single-project responses
+  layers?: GISLayer[];
+  stats?: GISProjectStats;
   createdAt: string;
   updatedAt: string;
 }
 
+export type GeometryPolicy = 'reject' | 'repair' | 'accept';
+
+export interface GeometryIssue {
+  index: number;
+  reason: string;
+  action: 'repaired' | 'accepted' | 'rejected';
+  repairedType?: string;
+}
+
+export interface GeometrySummary {
+  policy: GeometryPolicy;
+  repaired: number;
+  accepted: number;
+  rejected: number;
+  issues: GeometryIssue[];
+}
+
+export interface ImportJobLayer {
+  id: string;
+  name: string;
+  featureCount: number;
+  kind?: 'waypoints' | 'routes' | 'tracks';
+  skippedFeatures?: number;
+  errors?: { index: number; error: string }[];
+  geometry?: GeometrySummary;
+  [key: string]: unknown;
+}
+
+export interface ImportJob {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  progress: number;
+  stage?: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  projectId?: string;
+  layerId?: string;
+  featureCount: number;
+  layers: ImportJobLayer[];
+  csv?: Record<string, unknown>;
+  geojson?: {
+    skippedFeatures: number;
+    nullGeometries: number;
+    errors: { index: number; error: string }[];
+  };
+  error: string | null;
+  createdAt: string;
+  processedAt?: string;
+}
+
+export type FieldType = 'integer' | 'number' | 'boolean' | 'date' | 'string' | 'object' | 'array';
+
+// Keyed by source property; `true` keeps a property unchanged
+export interface FieldMapping {
+  fields: Record<string, { name?: string; type?: FieldType; drop?: boolean } | true>;
+  dropUnmapped?: boolean;
+}
+
+export interface FieldSchema {
+  name: string;
+  type: FieldType;
+  nullCount: number;
+  sampleValues: unknown[];
+}
+
+export interface DatasetPreview {
+  name: string;
+  kind?: 'waypoints' | 'routes' | 'tracks';
+  featureCount: number;
+  nullGeometries: number;
+  geometryTypes: Record<string, number>;
+  bbox: [number, number, number, number] | null;
+  crs: string;
+  schema: FieldSchema[];
+  mappedSchema?: FieldSchema[];
+  sample: { geometryType: string | null; properties: Record<string, unknown> }[];
+  details?: Record<string, unknown>;
+}
+
+export interface ImportPreview {
+  fileName: string;
+  fileType: string;
+  datasets: DatasetPreview[];
+  warnings: string[];
+}
+
+export interface ImportOptions {
+  layerName?: string;
+  onInvalid?: 'skip' | 'abort';
+  geometryPolicy?: GeometryPolicy;
+  fieldMapping?: FieldMapping;
+  srs?: string; // CRS of files that don't declare one, e.g. "EPSG:2263"
+}
+
+// A coordinate reference system as the backend reports it
+export interface CRSInfo {
+  srid: number;
+  code: string;
+  name: string;
+  proj4: string;
+  wkt: string;
+  geographic: boolean;
+  units: string;
+}
+
+// A search hit; relevance orders hits and has no fixed scale
+export interface SearchHit extends GISFeature {
+  id: string;
+  layerId: string;
+  layerName: string;
+  relevance: number;
+}
+
+export interface SearchOptions {
+  bbox?: number[]; // [minLon, minLat, maxLon, maxLat]
+  layerIds?: string[];
+  projectId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface SearchResults {
+  features: SearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export type SpatialOperation = 'intersects' | 'contains' | 'within' | 'touches' | 'crosses';
+
+// Either a geometry (EPSG:4326 unless srs is given) or the id of a feature to query with
+export interface SpatialQuery {
+  geometry?: GISFeature['geometry'];
+  featureId?: string;
+  operation?: SpatialOperation; // how each result relates to the query geometry
+  buffer?: number; // metres
+  layerIds?: string[];
+  projectId?: string;
+  srs?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface SpatialQueryHit extends GISFeature {
+  id: string;
+  layerId: string;
+  layerName: string;
+}
+
+// The k features nearest a geometry or feature; filter is a CQL2 expression
+export interface NearestQuery {
+  geometry?: GISFeature['geometry'];
+  featureId?: string;
+  k?: number;
+  maxDistance?: number; // metres
+  layerIds?: string[];
+  projectId?: string;
+  filter?: string;
+  srs?: string;
+}
+
+export interface NearestHit extends SpatialQueryHit {
+  distance: number; // metres
+}
+
+export interface SpatialQueryResults {
+  features: SpatialQueryHit[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export type GeoprocessingOperation =
+  | 'buffer' | 'union' | 'dissolve' | 'intersection' | 'difference' | 'clip' | 'join'
+  | 'hull' | 'centroid' | 'voronoi' | 'delaunay' | 'simplify';
+
+export interface JoinAggregate {
+  function: 'count' | 'sum' | 'avg' | 'min' | 'max';
+  field?: string;
+  name?: string;
+}
+
+// distance/segments are for buffer, field for dissolve, overlayLayerId for
+// intersection, difference and clip (or a clip polygon in srs as geometry);
+// joins take joinLayerId with aggregates (intersects) or maxDistance (nearest);
+// concavity is for hull, pointOnSurface for centroid and tolerance/preserveTopology
+// for simplify. featureIds limits any operation to those features of the layer
+export interface GeoprocessingRequest {
+  layerId: string;
+  featureIds?: string[];
+  filter?: string;
+  outputName?: string;
+  projectId?: string;
+  distance?: number;
+  segments?: number;
+  field?: string;
+  overlayLayerId?: string;
+  geometry?: GISFeature['geometry'];
+  srs?: string;
+  joinLayerId?: string;
+  join?: 'intersects' | 'nearest';
+  aggregates?: JoinAggregate[];
+  maxDistance?: number;
+  addToInput?: boolean;
+  concavity?: number;
+  pointOnSurface?: boolean;
+  tolerance?: number;
+  preserveTopology?: boolean;
+}
+
+export interface GeoprocessingJob {
+  id: string;
+  operation: GeoprocessingOperation;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  progress: number;
+  stage?: string;
+  projectId?: string;
+  layerId?: string;
+  featureCount: number;
+  parameters: Record<string, unknown>;
+  error: string | null;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Hexagon or square cells of `size` Web Mercator metres (or sized for `zoom`); the
+// cell value is the feature count, or the sum/avg of a numeric `field`
+export interface GridAggregationOptions {
+  grid?: 'hex' | 'square';
+  size?: number;
+  zoom?: number;
+  field?: string;
+  statistic?: 'count' | 'sum' | 'avg';
+  bbox?: number[]; // [minLng, minLat, maxLng, maxLat]
+  filter?: string;
+}
+
+export interface GridCell {
+  type: 'Feature';
+  id: string;
+  properties: { count: number; value: number | null };
+  geometry: GISFeature['geometry'];
+}
+
+export interface GridAggregation {
+  type: 'FeatureCollection';
+  features: GridCell[];
+  grid: 'hex' | 'square';
+  size: number;
+  statistic: 'count' | 'sum' | 'avg';
+  field?: string;
+  range: [number, number] | null;
+}
+
+export interface RoutingNetwork {
+  layerId: string;
+  layerName?: string;
+  costField: string | null;
+  onewayField: string | null;
+  defaultSpeed: number; // km/h
+  tolerance: number; // metres
+  nodeCount: number;
+  edgeCount: number;
+  builtAt: string | null;
+  updatedAt: string;
+}
+
+export interface RoutingNetworkConfig {
+  costField?: string;
+  onewayField?: string;
+  defaultSpeed?: number;
+  tolerance?: number;
+}
+
+export type RouteCost = 'distance' | 'time';
+
+export interface RouteWaypoint {
+  coordinates: [number, number];
+  snapDistance: number; // metres from the requested point to the network
+}
+
+// Distances in metres and durations in seconds
+export interface ShortestPath {
+  type: 'Feature';
+  geometry: { type: 'LineString'; coordinates: [number, number][] };
+  properties: {
+    cost: RouteCost;
+    distance: number;
+    duration: number;
+    legs: { distance: number; duration: number }[];
+    waypoints: RouteWaypoint[];
+  };
+}
+
+// Reachable within `distance` metres or `time` minutes
+export interface ServiceAreaRequest {
+  point: [number, number];
+  distance?: number;
+  time?: number;
+}
+
+export interface ServiceArea {
+  type: 'FeatureCollection';
+  features: {
+    type: 'Feature';
+    geometry: GISFeature['geometry'];
+    properties: { cost: RouteCost; limit: number; part: 'area' | 'network'; length?: number };
+  }[];
+  origin: RouteWaypoint;
+  reachedNodes: number;
+}
+
+export type RasterColorRamp = 'rgb' | 'greys' | 'viridis' | 'magma' | 'blues' | 'terrain' | 'spectral';
+
+// A raster layer's styleConfig; min and max default to the band's range
+export interface RasterStyleConfig {
+  colorRamp?: RasterColorRamp;
+  band?: number; // 1-based, for ramps
+  rampMin?: number;
+  rampMax?: number;
+  nodata?: number; // replaces the file's nodata value
+}
+
+export interface RasterInfo {
+  width: number;
+  height: number;
+  bands: number;
+  dataType: string;
+  srs: string;
+  bbox: [number, number, number, number]; // in srs
+  extent: [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+  resolution: [number, number];
+  nodata: number | null;
+  alpha: boolean;
+  stats: { min: number; max: number }[];
+  overviews: number;
+}
+
+export interface RasterUploadOptions {
+  layerName?: string;
+  projectId?: string;
+  srs?: string; // for GeoTIFFs that don't name an EPSG code
+}
+
+export type ExportFormat = 'geojson' | 'kml' | 'gpx' | 'csv' | 'shapefile' | 'gpkg';
+
+export interface ExportOptions {
+  bbox?: [number, number, number, number];
+  filters?: string[];
+  cql?: string; // CQL2-text filter, used instead of filters
+  csvGeometry?: 'wkt' | 'latlon';
+  srs?: string; // CRS to write coordinates in; KML and GPX are always EPSG:4326
+  bboxSrs?: string; // CRS of bbox, defaults to srs
+}
+
+// Multipart form fields for the upload and preview endpoints
+const importFormData = (projectId?: string, options: ImportOptions = {}) => {
+  const data: Record<string, string> = {};
+  if (projectId) data.projectId = projectId;
+  if (options.layerName) data.layerName = options.layerName;
+  if (options.onInvalid) data.onInvalid = options.onInvalid;
+  if (options.geometryPolicy) data.geometryPolicy = options.geometryPolicy;
+  if (options.fieldMapping) data.fieldMapping = JSON.stringify(options.fieldMapping);
+  if (options.srs) data.srs = options.srs;
+  return data;
+};
+
 // GIS API Service
 export class GISApiService {
   // Projects
@@ -92,11 +475,58 @@ export class GISApiService {
   }
 
   // Features
-  async getFeatures(layerId: string): Promise<GISFeature[]> {
-    const response = await apiClient.get<{ features: GISFeature[] }>(`/api/gis/layers/${layerId}/features`);
+  // `filter` is a CQL2-text expression such as "population > 1000 AND type = 'city'"
+  async getFeatures(layerId: string, filter?: string): Promise<GISFeature[]> {
+    const query = filter ? `?filter=${encodeURIComponent(filter)}` : '';
+    const response = await apiClient.get<{ features: GISFeature[] }>(`/api/gis/layers/${layerId}/features${query}`);
     return response.features;
   }
 
+  // A single feature with its full geometry; vector tiles only carry clipped, simplified ones
+  async getFeature(featureId: string): Promise<GISFeature & { layerId: string }> {
+    return apiClient.get<GISFeature & { layerId: string }>(`/api/gis/features/${featureId}`);
+  }
+
+  // XYZ template for the layer's Mapbox Vector Tiles; `fields` limits the properties sent
+  // and a CQL2-text `filter` the features
+  layerTileUrl(layerId: string, fields?: string[], filter?: string): string {
+    const params = new URLSearchParams();
+    if (fields?.length) params.set('fields', fields.join(','));
+    if (filter) params.set('filter', filter);
+    const query = params.toString() ? `?${params}` : '';
+    return `${apiClient['baseURL']}/api/gis/layers/${layerId}/tiles/{z}/{x}/{y}.mvt${query}`;
+  }
+
+  // XYZ template for a raster layer's PNG tiles, coloured by `style` (normally its
+  // styleConfig); the template changes with the style, so map tiles reload
+  rasterTileUrl(layerId: string, style: RasterStyleConfig = {}): string {
+    const params = new URLSearchParams();
+    if (style.colorRamp) params.set('ramp', style.colorRamp);
+    if (style.band !== undefined) params.set('band', String(style.band));
+    if (style.rampMin !== undefined) params.set('min', String(style.rampMin));
+    if (style.rampMax !== undefined) params.set('max', String(style.rampMax));
+    if (style.nodata !== undefined) params.set('nodata', String(style.nodata));
+    const query = params.toString() ? `?${params}` : '';
+    return `${apiClient['baseURL']}/api/gis/layers/${layerId}/raster/{z}/{x}/{y}.png${query}`;
+  }
+
+  async getRasterInfo(layerId: string): Promise<RasterInfo> {
+    const response = await apiClient.get<{ raster: RasterInfo }>(`/api/gis/layers/${layerId}/raster`);
+    return response.raster;
+  }
+
+  async aggregateLayer(layerId: string, options: GridAggregationOptions): Promise<GridAggregation> {
+    const params = new URLSearchParams();
+    if (options.grid) params.set('grid', options.grid);
+    if (options.size !== undefined) params.set('size', String(options.size));
+    if (options.zoom !== undefined) params.set('zoom', String(options.zoom));
+    if (options.field) params.set('field', options.field);
+    if (options.statistic) params.set('statistic', options.statistic);
+    if (options.bbox) params.set('bbox', options.bbox.join(','));
+    if (options.filter) params.set('filter', options.filter);
+    return apiClient.get<GridAggregation>(`/api/gis/layers/${layerId}/aggregate?${params}`);
+  }
+
   async createFeature(layerId: string, feature: GISFeature): Promise<GISFeature> {
     const response = await apiClient.post<{ feature: GISFeature }>(`/api/gis/layers/${layerId}/features`, feature);
     return response.feature;
@@ -117,13 +547,55 @@ export class GISApiService {
   }
 
   // File Operations
-  async uploadGISFile(file: File, projectId?: string): Promise<GISLayer> {
-    const response = await apiClient.uploadFile<{ layer: GISLayer }>('/api/upload/gis', file, { projectId });
-    return response.layer;
+  // Uploads are processed in the background; the returned job is still pending
+  async uploadGISFile(file: File, projectId?: string, options?: ImportOptions): Promise<ImportJob> {
+    const response = await apiClient.uploadFile<{ job: ImportJob }>('/api/upload/gis', file, importFormData(projectId, options));
+    return response.job;
+  }
+
+  // Parses the file without importing it; a fieldMapping is applied to the samples
+  async previewGISFile(file: File, options?: ImportOptions): Promise<ImportPreview> {
+    const response = await apiClient.uploadFile<{ preview: ImportPreview }>('/api/upload/preview', file, importFormData(undefined, options));
+    return response.preview;
+  }
+
+  // GeoTIFFs are read while uploading, so the raster layer is ready when this returns
+  async uploadRaster(file: File, options: RasterUploadOptions = {}): Promise<{ layer: GISLayer; raster: RasterInfo }> {
+    const data: Record<string, string> = {};
+    if (options.layerName) data.layerName = options.layerName;
+    if (options.projectId) data.projectId = options.projectId;
+    if (options.srs) data.srs = options.srs;
+    return apiClient.uploadFile<{ layer: GISLayer; raster: RasterInfo }>('/api/upload/raster', file, data);
+  }
+
+  async getImportJob(id: string): Promise<ImportJob> {
+    const response = await apiClient.get<{ job: ImportJob }>(`/api/upload/jobs/${id}`);
+    return response.job;
+  }
+
+  async getImportJobs(projectId?: string): Promise<ImportJob[]> {
+    const url = projectId ? `/api/upload/jobs?projectId=${projectId}` : '/api/upload/jobs';
+    const response = await apiClient.get<{ jobs: ImportJob[] }>(url);
+    return response.jobs;
   }
 
-  async exportLayer(layerId: string, format: 'geojson' | 'kml' | 'gpx'): Promise<Blob> {
-    const response = await fetch(`${apiClient['baseURL']}/api/gis/layers/${layerId}/export?format=${format}`, {
+  // bbox is [minX, minY, maxX, maxY] in bboxSrs (longitude/latitude by default); filters
+  // are "<field><op><value>" strings such as "population>=1000" (operators =, !=, >, >=, <, <=, ~),
+  // or give one CQL2-text expression as cql
+  async exportLayer(layerId: string, format: ExportFormat, options: ExportOptions = {}): Promise<Blob> {
+    const params = new URLSearchParams({ format });
+    if (options.bbox) params.set('bbox', options.bbox.join(','));
+    if (options.cql) {
+      params.set('filter', options.cql);
+      params.set('filter-lang', 'cql2-text');
+    } else {
+      options.filters?.forEach(filter => params.append('filter', filter));
+    }
+    if (options.csvGeometry) params.set('geometry', options.csvGeometry);
+    if (options.srs) params.set('srs', options.srs);
+    if (options.bboxSrs) params.set('bboxSrs', options.bboxSrs);
+
+    const response = await fetch(`${apiClient['baseURL']}/api/upload/export/${layerId}?${params}`, {
       method: 'GET',
       credentials: 'include',
     });
@@ -135,17 +607,74 @@ export class GISApiService {
     return response.blob();
   }
 
+  // Coordinate reference systems
+  async getCrs(code: string): Promise<CRSInfo> {
+    return apiClient.get<CRSInfo>(`/api/gis/crs/${encodeURIComponent(code)}`);
+  }
+
+  async getProjectCrs(projectId: string): Promise<CRSInfo> {
+    return apiClient.get<CRSInfo>(`/api/gis/projects/${projectId}/crs`);
+  }
+
+  async setProjectCrs(projectId: string, code: string): Promise<CRSInfo> {
+    return apiClient.put<CRSInfo>(`/api/gis/projects/${projectId}/crs`, { crs: code });
+  }
+
   // Search and Query
-  async searchFeatures(query: string, bounds?: number[]): Promise<GISFeature[]> {
+  async searchFeatures(query: string, options: SearchOptions = {}): Promise<SearchResults> {
     const params = new URLSearchParams({ q: query });
-    if (bounds) {
-      params.append('bounds', bounds.join(','));
-    }
+    if (options.bbox) params.append('bbox', options.bbox.join(','));
+    if (options.layerIds?.length) params.append('layers', options.layerIds.join(','));
+    if (options.projectId) params.append('projectId', options.projectId);
+    if (options.page) params.append('page', String(options.page));
+    if (options.limit) params.append('limit', String(options.limit));
     
-    const response = await apiClient.get<{ features: GISFeature[] }>(`/api/gis/search?${params}`);
+    return apiClient.get<SearchResults>(`/api/gis/search?${params}`);
+  }
+
+  async spatialQuery(query: SpatialQuery): Promise<SpatialQueryResults> {
+    return apiClient.post<SpatialQueryResults>('/api/gis/spatial/query', query);
+  }
+
+  // Queues the operation; the result layer is written by a background job
+  async runGeoprocessing(operation: GeoprocessingOperation, request: GeoprocessingRequest): Promise<GeoprocessingJob> {
+    const response = await apiClient.post<{ job: GeoprocessingJob }>(`/api/geoprocessing/${operation}`, request);
+    return response.job;
+  }
+
+  async getGeoprocessingJob(id: string): Promise<GeoprocessingJob> {
+    const response = await apiClient.get<{ job: GeoprocessingJob }>(`/api/geoprocessing/jobs/${id}`);
+    return response.job;
+  }
+
+  async nearestFeatures(query: NearestQuery): Promise<NearestHit[]> {
+    const response = await apiClient.post<{ features: NearestHit[] }>('/api/gis/spatial/nearest', query);
     return response.features;
   }
 
+  async getRoutingNetworks(): Promise<RoutingNetwork[]> {
+    const response = await apiClient.get<{ networks: RoutingNetwork[] }>('/api/routing/networks');
+    return response.networks;
+  }
+
+  // Builds, or rebuilds, the layer's topology; this waits for the build to finish
+  async buildRoutingNetwork(layerId: string, config: RoutingNetworkConfig = {}): Promise<RoutingNetwork> {
+    const response = await apiClient.put<{ network: RoutingNetwork }>(`/api/routing/networks/${layerId}`, config);
+    return response.network;
+  }
+
+  async deleteRoutingNetwork(layerId: string): Promise<void> {
+    await apiClient.delete(`/api/routing/networks/${layerId}`);
+  }
+
+  async shortestPath(layerId: string, points: [number, number][], cost: RouteCost = 'distance'): Promise<ShortestPath> {
+    return apiClient.post<ShortestPath>(`/api/routing/networks/${layerId}/route`, { points, cost });
+  }
+
+  async serviceArea(layerId: string, request: ServiceAreaRequest): Promise<ServiceArea> {
+    return apiClient.post<ServiceArea>(`/api/routing/networks/${layerId}/service-area`, request);
+  }
+
   async getFeaturesInBounds(bounds: number[]): Promise<GISFeature[]> {
     const response = await apiClient.get<{ features: GISFeature[] }>(`/api/gis/features/bounds?bounds=${bounds.join(',')}`);
     return response.features;
@@ -0,0 +1,166 @@
+/**
+ * Dense database layers drawn from the backend's grid aggregation instead of their
+ * features: a heatmap, or a choropleth of hexagons ('hexbin') or squares ('grid')
+ * coloured by cell value. Cells are fetched again for the visible extent each time
+ * the view settles.
+ */
+
+import type { Map } from 'ol';
+import VectorLayer from 'ol/layer/Vector';
+import HeatmapLayer from 'ol/layer/Heatmap';
+import VectorSource from 'ol/source/Vector';
+import GeoJSON from 'ol/format/GeoJSON';
+import Feature from 'ol/Feature';
+import type { FeatureLike } from 'ol/Feature';
+import type { Polygon } from 'ol/geom';
+import type { EventsKey } from 'ol/events';
+import { unByKey } from 'ol/Observable';
+import { transformExtent } from 'ol/proj';
+import { Style, Fill, Stroke } from 'ol/style';
+import { gisApi } from '../services/gisApi';
+import type { GISLayer } from '../services/gisApi';
+import { TILE_LAYER_Z_INDEX, layerRenderMode } from './vectorTiles';
+import type { RenderMode, StyleConfig } from './vectorTiles';
+
+// Cells are about this many pixels across; the heatmap blurs finer cells together
+const CELL_PIXELS: Record<Exclude<RenderMode, 'features'>, number> = {
+  hexbin: 32,
+  grid: 32,
+  heatmap: 8,
+};
+const HEATMAP_RADIUS = 10;
+const HEATMAP_BLUR = 15;
+
+// ColorBrewer YlOrRd, lowest class first
+const CHOROPLETH_COLORS = ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'];
+const CHOROPLETH_STYLES = CHOROPLETH_COLORS.map(color => new Style({
+  fill: new Fill({ color: color + 'B3' }),
+  stroke: new Stroke({ color: '#ffffff', width: 0.5 }),
+}));
+
+export interface AggregateLayer {
+  layer: VectorLayer<VectorSource> | HeatmapLayer;
+  mode: RenderMode;
+  field?: string;
+  range: [number, number] | null;
+  request: number;
+  listener: EventsKey;
+}
+
+/**
+ * Equal-interval classes between the smallest and largest cell in view
+ */
+const choroplethStyle = (aggregate: AggregateLayer) => (feature: FeatureLike) => {
+  const value = feature.get('value');
+  if (value === null || value === undefined || !aggregate.range) return CHOROPLETH_STYLES[0];
+  const [min, max] = aggregate.range;
+  const share = max > min ? (value - min) / (max - min) : 1;
+  return CHOROPLETH_STYLES[Math.min(CHOROPLETH_STYLES.length - 1, Math.floor(share * CHOROPLETH_STYLES.length))];
+};
+
+const loadCells = async (map: Map, aggregate: AggregateLayer, layerId: string) => {
+  const view = map.getView();
+  const size = map.getSize();
+  const resolution = view.getResolution();
+  if (!size || !resolution || !aggregate.layer.getVisible() || aggregate.mode === 'features') return;
+
+  const projection = view.getProjection();
+  const [minX, minY, maxX, maxY] = transformExtent(view.calculateExtent(size), projection, 'EPSG:4326');
+  const bbox = [Math.max(-180, minX), Math.max(-90, minY), Math.min(180, maxX), Math.min(90, maxY)];
+  // Hexagon sizes are edge lengths, half the width across
+  const pixels = CELL_PIXELS[aggregate.mode] / (aggregate.mode === 'hexbin' ? 2 : 1);
+  const cellSize = resolution * (projection.getMetersPerUnit() ?? 1) * pixels;
+
+  const request = ++aggregate.request;
+  try {
+    const cells = await gisApi.aggregateLayer(layerId, {
+      grid: aggregate.mode === 'hexbin' ? 'hex' : 'square',
+      size: cellSize,
+      bbox,
+      field: aggregate.field,
+    });
+    if (request !== aggregate.request) return;
+
+    const features = new GeoJSON().readFeatures(cells, {
+      dataProjection: 'EPSG:4326',
+      featureProjection: projection,
+    }) as Feature<Polygon>[];
+
+    // The heatmap weighs each cell's centre by its share of the largest value
+    const max = Math.max(cells.range?.[1] ?? 0, 0);
+    const source = aggregate.layer.getSource();
+    source?.clear();
+    source?.addFeatures(aggregate.mode === 'heatmap'
+      ? features.map(feature => new Feature({
+        geometry: feature.getGeometry()?.getInteriorPoint(),
+        weight: max > 0 ? Math.max(feature.get('value') ?? 0, 0) / max : 0,
+      }))
+      : features);
+    aggregate.range = cells.range;
+  } catch (error) {
+    console.error(`Failed to aggregate layer ${layerId}:`, error);
+  }
+};
+
+const createAggregateLayer = (map: Map, layer: GISLayer): AggregateLayer => {
+  const mode = layerRenderMode(layer);
+  const source = new VectorSource();
+  const options = {
+    source,
+    opacity: layer.opacity ?? 1,
+    visible: layer.visible,
+    zIndex: TILE_LAYER_Z_INDEX,
+  };
+
+  const aggregate = {
+    mode,
+    field: (layer.styleConfig as StyleConfig | undefined)?.aggregateField || undefined,
+    range: null,
+    request: 0,
+  } as AggregateLayer;
+  aggregate.layer = mode === 'heatmap'
+    ? new HeatmapLayer({ ...options, weight: 'weight', radius: HEATMAP_RADIUS, blur: HEATMAP_BLUR })
+    : new VectorLayer({ ...options, style: choroplethStyle(aggregate) });
+  aggregate.listener = map.on('moveend', () => loadCells(map, aggregate, layer.id));
+  return aggregate;
+};
+
+const removeAggregateLayer = (map: Map, aggregate: AggregateLayer) => {
+  unByKey(aggregate.listener);
+  map.removeLayer(aggregate.layer);
+};
+
+/**
+ * Keep `aggregateLayers` (keyed by layer id) in step with the layers drawn as a
+ * heatmap or choropleth; changing a layer's mode or field rebuilds its map layer
+ */
+export const syncAggregateLayers = (
+  map: Map,
+  aggregateLayers: Record<string, AggregateLayer>,
+  layers: GISLayer[]
+) => {
+  const aggregated = layers.filter(layer => layer.type === 'vector' && layerRenderMode(layer) !== 'features');
+
+  Object.keys(aggregateLayers).forEach(layerId => {
+    const layer = aggregated.find(candidate => candidate.id === layerId);
+    const field = (layer?.styleConfig as StyleConfig | undefined)?.aggregateField || undefined;
+    if (!layer || layerRenderMode(layer) !== aggregateLayers[layerId].mode || field !== aggregateLayers[layerId].field) {
+      removeAggregateLayer(map, aggregateLayers[layerId]);
+      delete aggregateLayers[layerId];
+    }
+  });
+
+  aggregated.forEach(layer => {
+    const existing = aggregateLayers[layer.id];
+    if (existing) {
+      const shown = !existing.layer.getVisible() && layer.visible;
+      existing.layer.setOpacity(layer.opacity ?? 1);
+      existing.layer.setVisible(layer.visible);
+      if (shown) loadCells(map, existing, layer.id);
+      return;
+    }
+    aggregateLayers[layer.id] = createAggregateLayer(map, layer);
+    map.addLayer(aggregateLayers[layer.id].layer);
+    loadCells(map, aggregateLayers[layer.id], layer.id);
+  });
+};
@@ -0,0 +1,60 @@
+/**
+ * Display coordinate reference system helpers.
+ * The map view stays in EPSG:3857; these convert picked coordinates and measured
+ * geometries into a project's display CRS (state plane, national grids...).
+ */
+
+import proj4 from 'proj4';
+import { register } from 'ol/proj/proj4';
+import { toLonLat } from 'ol/proj';
+import type { Coordinate } from 'ol/coordinate';
+import type { LineString, Polygon } from 'ol/geom';
+import type { CRSInfo } from '../services/gisApi';
+
+const MAP_PROJECTION = 'EPSG:3857';
+
+const UNIT_LABELS: Record<string, string> = {
+  m: 'm',
+  km: 'km',
+  ft: 'ft',
+  'us-ft': 'US ft',
+  'ind-ft': 'Indian ft',
+  yd: 'yd',
+  'us-yd': 'US yd',
+  mi: 'mi',
+  'us-mi': 'US mi',
+};
+
+export const unitLabel = (crs: CRSInfo): string => UNIT_LABELS[crs.units] || crs.units;
+
+/**
+ * Make a CRS known to proj4 and OpenLayers so geometries can be transformed into it
+ */
+export const registerCrs = (crs: CRSInfo) => {
+  if (proj4.defs(crs.code)) return;
+  proj4.defs(crs.code, crs.proj4);
+  register(proj4);
+};
+
+/**
+ * A map coordinate as "lat, lon" for geographic CRSs, "E x, N y" otherwise
+ */
+export const formatCoordinate = (mapCoordinate: Coordinate, crs?: CRSInfo | null): string => {
+  const [longitude, latitude] = toLonLat(mapCoordinate);
+  if (!crs || crs.geographic) {
+    return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+  }
+
+  const [x, y] = proj4('EPSG:4326', crs.code, [longitude, latitude]);
+  return `E ${x.toFixed(2)}, N ${y.toFixed(2)} ${unitLabel(crs)}`;
+};
+
+/**
+ * Grid length and area in the CRS' own units. Unlike the geodesic values from
+ * ol/sphere these match what desktop GIS reports for projected data.
+ */
+export const planarLength = (geometry: LineString, crs: CRSInfo): number =>
+  (geometry.clone().transform(MAP_PROJECTION, crs.code) as LineString).getLength();
+
+export const planarArea = (geometry: Polygon, crs: CRSInfo): number =>
+  (geometry.clone().transform(MAP_PROJECTION, crs.code) as Polygon).getArea();
@@ -0,0 +1,62 @@
+/**
+ * Raster layers (uploaded GeoTIFFs) drawn from the backend's PNG tiles.
+ * The tile URL carries the layer's colour settings, so editing them reloads its tiles.
+ */
+
+import type { Map } from 'ol';
+import TileLayer from 'ol/layer/Tile';
+import XYZ from 'ol/source/XYZ';
+import { gisApi } from '../services/gisApi';
+import type { GISLayer, RasterStyleConfig } from '../services/gisApi';
+
+// Above the base maps (0) and imagery overlays (10), below vector tile layers (20)
+export const RASTER_LAYER_Z_INDEX = 15;
+
+const rasterUrl = (layer: GISLayer) =>
+  gisApi.rasterTileUrl(layer.id, (layer.styleConfig || {}) as RasterStyleConfig);
+
+export const createRasterLayer = (layer: GISLayer) =>
+  new TileLayer({
+    source: new XYZ({ url: rasterUrl(layer), crossOrigin: 'anonymous' }),
+    opacity: layer.opacity ?? 1,
+    visible: layer.visible,
+    zIndex: RASTER_LAYER_Z_INDEX,
+  });
+
+/**
+ * Apply edits to a layer's settings, reloading tiles only when its colours change
+ */
+export const updateRasterLayer = (tileLayer: TileLayer<XYZ>, layer: GISLayer) => {
+  const source = tileLayer.getSource();
+  const url = rasterUrl(layer);
+  if (source && source.getUrls()?.[0] !== url) source.setUrl(url);
+  tileLayer.setOpacity(layer.opacity ?? 1);
+  tileLayer.setVisible(layer.visible);
+};
+
+/**
+ * Keep `rasterLayers` (keyed by layer id) in step with the raster layers from the API
+ */
+export const syncRasterLayers = (
+  map: Map,
+  rasterLayers: Record<string, TileLayer<XYZ>>,
+  layers: GISLayer[]
+) => {
+  const rasters = layers.filter(layer => layer.type === 'raster');
+
+  Object.keys(rasterLayers).forEach(layerId => {
+    if (!rasters.some(layer => layer.id === layerId)) {
+      map.removeLayer(rasterLayers[layerId]);
+      delete rasterLayers[layerId];
+    }
+  });
+
+  rasters.forEach(layer => {
+    if (rasterLayers[layer.id]) {
+      updateRasterLayer(rasterLayers[layer.id], layer);
+      return;
+    }
+    rasterLayers[layer.id] = createRasterLayer(layer);
+    map.addLayer(rasterLayers[layer.id]);
+  });
+};
@@ -0,0 +1,151 @@
+/**
+ * Database layers rendered from the backend's Mapbox Vector Tiles.
+ * Tiles carry clipped, simplified geometries with `id` and `name` attributes, so
+ * identify fetches the full feature from the API by id.
+ */
+
+import type { Map } from 'ol';
+import type { Pixel } from 'ol/pixel';
+import VectorTileLayer from 'ol/layer/VectorTile';
+import VectorTileSource from 'ol/source/VectorTile';
+import MVT from 'ol/format/MVT';
+import GeoJSON from 'ol/format/GeoJSON';
+import type Feature from 'ol/Feature';
+import type { FeatureLike } from 'ol/Feature';
+import { Style, Fill, Stroke, Circle } from 'ol/style';
+import { gisApi } from '../services/gisApi';
+import type { GISLayer } from '../services/gisApi';
+
+const LAYER_ID_PROPERTY = 'gisLayerId';
+const IDENTIFY_TOLERANCE = 4;
+// Above the base maps (0) and imagery overlays (10) from useMapLayers
+export const TILE_LAYER_Z_INDEX = 20;
+
+// 'heatmap', 'hexbin' and 'grid' draw the layer from aggregated cells instead
+export type RenderMode = 'features' | 'heatmap' | 'hexbin' | 'grid';
+
+export interface StyleConfig {
+  strokeColor?: string;
+  fillColor?: string;
+  strokeWidth?: number;
+  renderMode?: RenderMode;
+  aggregateField?: string; // summed per cell instead of counting features
+}
+
+const DEFAULT_STYLE: Required<Pick<StyleConfig, 'strokeColor' | 'fillColor' | 'strokeWidth'>> = {
+  strokeColor: '#2563eb',
+  fillColor: '#3b82f6',
+  strokeWidth: 2,
+};
+
+export const layerRenderMode = (layer: GISLayer): RenderMode =>
+  (layer.styleConfig as StyleConfig | undefined)?.renderMode || 'features';
+
+/**
+ * Styles from a layer's styleConfig, built once per layer rather than per feature
+ */
+export const layerTileStyle = (styleConfig?: StyleConfig | null) => {
+  const { strokeColor, fillColor, strokeWidth } = { ...DEFAULT_STYLE, ...(styleConfig || {}) };
+  const stroke = new Stroke({ color: strokeColor, width: strokeWidth });
+  const styles = {
+    point: new Style({
+      image: new Circle({ radius: 6, fill: new Fill({ color: fillColor }), stroke }),
+    }),
+    line: new Style({ stroke }),
+    polygon: new Style({
+      fill: new Fill({ color: fillColor + '4D' }), // Add transparency
+      stroke,
+    }),
+  };
+
+  return (feature: FeatureLike) => {
+    const type = feature.getGeometry()?.getType() || '';
+    if (type.endsWith('Point')) return styles.point;
+    if (type.endsWith('LineString')) return styles.line;
+    return styles.polygon;
+  };
+};
+
+export const createLayerTileLayer = (layer: GISLayer) =>
+  new VectorTileLayer({
+    source: new VectorTileSource({
+      format: new MVT({ idProperty: 'id' }),
+      url: gisApi.layerTileUrl(layer.id),
+    }),
+    style: layerTileStyle(layer.styleConfig),
+    opacity: layer.opacity ?? 1,
+    visible: layer.visible && layerRenderMode(layer) === 'features',
+    zIndex: TILE_LAYER_Z_INDEX,
+    properties: { [LAYER_ID_PROPERTY]: layer.id },
+  });
+
+/**
+ * Apply edits to a layer's settings without reloading its tiles
+ */
+export const updateLayerTileLayer = (tileLayer: VectorTileLayer, layer: GISLayer) => {
+  tileLayer.setStyle(layerTileStyle(layer.styleConfig));
+  tileLayer.setOpacity(layer.opacity ?? 1);
+  tileLayer.setVisible(layer.visible && layerRenderMode(layer) === 'features');
+};
+
+/**
+ * Keep `tileLayers` (keyed by layer id) in step with the vector layers from the API
+ */
+export const syncLayerTileLayers = (
+  map: Map,
+  tileLayers: Record<string, VectorTileLayer>,
+  layers: GISLayer[]
+) => {
+  const vectorLayers = layers.filter(layer => layer.type === 'vector');
+
+  Object.keys(tileLayers).forEach(layerId => {
+    if (!vectorLayers.some(layer => layer.id === layerId)) {
+      map.removeLayer(tileLayers[layerId]);
+      delete tileLayers[layerId];
+    }
+  });
+
+  vectorLayers.forEach(layer => {
+    if (tileLayers[layer.id]) {
+      updateLayerTileLayer(tileLayers[layer.id], layer);
+      return;
+    }
+    tileLayers[layer.id] = createLayerTileLayer(layer);
+    map.addLayer(tileLayers[layer.id]);
+  });
+};
+
+/**
+ * Reload a layer's tiles after its features change
+ */
+export const refreshLayerTiles = (tileLayer?: VectorTileLayer) => {
+  tileLayer?.getSource()?.refresh();
+};
+
+/**
+ * The database feature under a pixel, fetched in full and ready to add to a vector source
+ */
+export const identifyTileFeature = async (map: Map, pixel: Pixel): Promise<Feature | null> => {
+  let hit: { featureId: string; layerId: string } | null = null;
+  map.forEachFeatureAtPixel(pixel, (feature, layer) => {
+    const layerId = layer?.get(LAYER_ID_PROPERTY);
+    const featureId = feature.getId() ?? feature.get('id');
+    if (!layerId || featureId === undefined) return false;
+    hit = { featureId: String(featureId), layerId };
+    return true;
+  }, {
+    layerFilter: layer => layer instanceof VectorTileLayer,
+    hitTolerance: IDENTIFY_TOLERANCE,
+  });
+  if (!hit) return null;
+
+  const { featureId, layerId } = hit;
+  const data = await gisApi.getFeature(featureId);
+  const feature = new GeoJSON().readFeature(data, {
+    dataProjection: 'EPSG:4326',
+    featureProjection: map.getView().getProjection(),
+  }) as Feature;
+  feature.setId(featureId);
+  feature.set(LAYER_ID_PROPERTY, layerId);
+  return feature;
+};